@@ -1,6 +1,7 @@
 import * as H from "./heap";
 import * as GC from "./gc";
 import * as BaseException from "./error";
+import { Logger } from "./logger";
 
 export {
   HeapTag,
@@ -13,6 +14,9 @@ export {
   TAG_BIGINT,
   TAG_REF,
   TAG_TUPLE,
+  TAG_SET,
+  TAG_GENERATOR,
+  TAG_FLOAT,
   TAG_OPAQUE,
 } from "./gc";
 
@@ -31,6 +35,9 @@ export function toHeapTag(tag: bigint): GC.HeapTag {
     tag === GC.TAG_BIGINT ||
     tag === GC.TAG_REF ||
     tag === GC.TAG_TUPLE ||
+    tag === GC.TAG_SET ||
+    tag === GC.TAG_GENERATOR ||
+    tag === GC.TAG_FLOAT ||
     tag === GC.TAG_OPAQUE
   ) {
     return tag;
@@ -66,6 +73,12 @@ export function importMemoryManager(importObject: any, mm: MemoryManager) {
   importObject.imports.releaseTemps = function () {
     mm.releaseTemps();
   };
+  importObject.imports.tempsDepth = function (): number {
+    return mm.tempsDepth();
+  };
+  importObject.imports.unwindTemps = function (depth: number) {
+    mm.unwindTemps(depth);
+  };
 
   importObject.imports.pushFrame = function () {
     mm.pushFrame();
@@ -93,15 +106,18 @@ export class MemoryManager {
   staticAllocator: H.BumpAllocator;
 
   gc: GC.MnS<GC.MarkableAllocator>;
+  logger: Logger;
 
   constructor(
     memory: Uint8Array,
     cfg: {
       staticStorage: bigint;
       total: bigint;
+      logger?: Logger;
     }
   ) {
     this.memory = memory;
+    this.logger = cfg.logger === undefined ? new Logger() : cfg.logger;
     const staticStart = 4n;
     const staticEnd = staticStart + cfg.staticStorage;
     this.staticAllocator = new H.BumpAllocator(memory, staticStart, staticEnd);
@@ -138,6 +154,7 @@ export class MemoryManager {
   }
 
   forceCollect() {
+    this.logger.debug("gc", "collecting");
     this.gc.collect();
   }
 
@@ -194,6 +211,16 @@ export class MemoryManager {
     this.gc.roots.releaseTemps();
   }
 
+  // Number of temporary frames, recorded when entering a `try` statement
+  tempsDepth(): number {
+    return this.gc.roots.tempsDepth();
+  }
+
+  // Releases the temporary frames above `depth` when an exception is caught
+  unwindTemps(depth: number) {
+    this.gc.roots.unwindTemps(depth);
+  }
+
   // Pushes a new stack frame for tracking local variable roots
   pushFrame() {
     this.gc.roots.pushFrame();
@@ -224,6 +251,13 @@ export class MemoryManager {
     this.gc.roots.addGlobal(ptr);
   }
 
+  // ptr: untagged pointer to a heap object
+  //
+  // Roots the object for the rest of the run
+  pin(ptr: Pointer) {
+    this.gc.roots.pin(ptr);
+  }
+
   // size: size of object in bytes (NOT including header/metadata)
   // tag: heap object tag to know how to traverse the object
   //
@@ -256,15 +290,32 @@ export class MemoryManager {
     // NOTE(alex:mm): need to compare to the NULL_BLOCK b/c the pointer
     //   may be address 0x0
     if (block === H.NULL_BLOCK) {
-      console.error(`start: ${this.staticAllocator.absStart}`);
-      console.error(`end: ${this.staticAllocator.absEnd}`);
-      console.error(`counter: ${this.staticAllocator.counter}`);
-      console.error(`request: ${size.toString()}`);
+      this.logger.error("gc", `start: ${this.staticAllocator.absStart}`);
+      this.logger.error("gc", `end: ${this.staticAllocator.absEnd}`);
+      this.logger.error("gc", `counter: ${this.staticAllocator.counter}`);
+      this.logger.error("gc", `request: ${size.toString()}`);
       throw new BaseException.MemoryError(undefined, `Out of static storage`);
     }
+    this.logger.trace("gc", `static alloc of ${size} bytes at ${block.ptr}`);
     return block.ptr;
   }
 
+  // The static storage of a program being compiled, laid out after the storage allocated so far.
+  // Compiling allocates nothing, the storage is allocated when the program runs, see commitStatic
+  planStatic(): StaticPlan {
+    const { counter, absEnd } = this.staticAllocator;
+    return new StaticPlan(new H.BumpAllocator(this.memory, counter, absEnd));
+  }
+
+  // Allocates the static storage planned for a program and roots its globals. A program that
+  // runs again allocates nothing more
+  commitStatic(plan: StaticPlan) {
+    if (plan.allocator.counter > this.staticAllocator.counter) {
+      this.staticAllocator.counter = plan.allocator.counter;
+    }
+    plan.globals.forEach((ptr) => this.addGlobal(ptr));
+  }
+
   getTag(ptr: Pointer): GC.HeapTag {
     const header = this.gc.heap.getHeader(ptr);
     return header.getTag();
@@ -299,3 +350,28 @@ export function extractPointer(taggedPtr: bigint): Pointer {
   // nop
   return taggedPtr;
 }
+
+// Static storage taken by a program while it is compiled, see MemoryManager.planStatic
+export class StaticPlan {
+  allocator: H.BumpAllocator;
+  // addresses of the global variables, which become GC roots when the program runs
+  globals: Array<Pointer>;
+
+  constructor(allocator: H.BumpAllocator) {
+    this.allocator = allocator;
+    this.globals = [];
+  }
+
+  // Throws `Out of static storage` as MemoryManager.staticAlloc does
+  staticAlloc(size: bigint): Pointer {
+    const block = this.allocator.alloc(size);
+    if (block === H.NULL_BLOCK) {
+      throw new BaseException.MemoryError(undefined, `Out of static storage`);
+    }
+    return block.ptr;
+  }
+
+  addGlobal(ptr: Pointer) {
+    this.globals.push(ptr);
+  }
+}
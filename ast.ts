@@ -3,13 +3,16 @@
 // export enum Type {NUM, BOOL, NONE, OBJ};
 export type Type =
   | { tag: "number" }
+  | { tag: "float" } // an f64, boxed on the heap
   | { tag: "bool" }
   | { tag: "none" }
   | { tag: "string" }
   | { tag: "class"; name: string }
   | { tag: "list"; content_type: Type }
   | { tag: "dict"; key: Type; value: Type }
+  | { tag: "set"; content_type: Type }
   | { tag: "tuple"; contentTypes: Array<Type> }
+  | { tag: "generator"; content_type: Type } // `Generator[T]`, yielding values of type T
   | CallableType;
 
 export type CallableType = {
@@ -20,13 +23,25 @@ export type CallableType = {
 };
 
 export type Scope<A> =
-  | { a?: A; tag: "global"; name: string } // not support
+  | { a?: A; tag: "global"; name: string }
   | { a?: A; tag: "nonlocal"; name: string };
 
-export type Parameter = { name: string; type: Type; value?: Literal };
+/**
+ * `*args` collects the extra positional arguments of a call in a list and `**kwargs` its extra
+ * keyword arguments in a dict from their names, so their `type` is that list or dict type.
+ * The parameters after `*args` or a bare `*` can only be passed by keyword.
+ */
+export type Parameter = {
+  name: string;
+  type: Type;
+  value?: Literal;
+  variadic?: "args" | "kwargs";
+  keywordOnly?: boolean;
+};
 
 export type Program<A> = {
   a?: A;
+  imports?: Array<Import<A>>; // set by the parser, the type checker resolves them, see modules.ts
   funs: Array<FunDef<A>>;
   inits: Array<VarInit<A>>;
   classes: Array<Class<A>>;
@@ -34,9 +49,21 @@ export type Program<A> = {
   closures: Array<ClosureDef<A>>;
 };
 
+/**
+ * `import <module> as <alias>` binds the module to `alias`, which is the module's name without
+ * `as`. `from <module> import <name> as <alias>` binds each of `names` to `alias` instead.
+ */
+export type Import<A> = {
+  a?: A;
+  module: string;
+  alias?: string;
+  names?: Array<{ name: string; alias: string }>;
+};
+
 export type Class<A> = {
   a?: A;
   name: string;
+  super: string; // "object" when no superclass is given
   fields: Array<VarInit<A>>;
   methods: Array<FunDef<A>>;
 };
@@ -52,6 +79,7 @@ export type FunDef<A> = {
   inits: Array<VarInit<A>>;
   funs: Array<FunDef<A>>;
   body: Array<Stmt<A>>;
+  generator?: boolean; // whether the body yields, set by the type checker
 };
 
 /** Compiled as a function in wasm */
@@ -65,20 +93,52 @@ export type ClosureDef<A> = {
   inits: Array<VarInit<A>>;
   isGlobal: boolean;
   body: Array<Stmt<A>>;
+  generator?: boolean; // calls create a suspended frame that `next` resumes, see codeGenGenerator
 };
 
 export type Stmt<A> =
   | { a?: A; tag: "assignment"; destruct: Destructure<A>; value: Expr<A> }
-  | { a?: A; tag: "return"; value: Expr<A> }
+  // `finally` is the `try` statement with a `finally` block that it leaves first, see codeGenTry
+  | { a?: A; tag: "return"; value: Expr<A>; finally?: Location }
   | { a?: A; tag: "expr"; expr: Expr<A> }
   | { a?: A; tag: "if"; cond: Expr<A>; thn: Array<Stmt<A>>; els: Array<Stmt<A>> }
   | { a?: A; tag: "while"; cond: Expr<A>; body: Array<Stmt<A>> }
   | { a?: A; tag: "pass" }
   | { a?: A; tag: "field-assign"; obj: Expr<A>; field: string; value: Expr<A> }
-  | { a?: A; tag: "continue"; depth?: number }
-  | { a?: A; tag: "break"; depth?: number } // depth is used for wasm 'br' instruction
+  | { a?: A; tag: "continue"; depth?: number; finally?: Location }
+  | { a?: A; tag: "break"; depth?: number; finally?: Location } // depth is used for wasm 'br' instruction
   | { a?: A; tag: "for"; name: string; index?: string; iterable: Expr<A>; body: Array<Stmt<A>> }
-  | { a?: A; tag: "bracket-assign"; obj: Expr<A>; key: Expr<A>; value: Expr<A> };
+  | { a?: A; tag: "bracket-assign"; obj: Expr<A>; key: Expr<A>; value: Expr<A> }
+  // `target op= value`; the object and key of the target are evaluated once
+  | { a?: A; tag: "aug-assign"; target: Assignable<A>; op: BinOp; value: Expr<A> }
+  | {
+      a?: A;
+      tag: "try";
+      body: Array<Stmt<A>>;
+      handlers: Array<ExceptHandler<A>>;
+      els: Array<Stmt<A>>;
+      finalbody: Array<Stmt<A>>;
+      caught?: string; // local holding the caught exception, set by the type checker
+      // The jumps that leave through the `finally` block, and where they go next: the `try`
+      // statements with a `finally` block that they leave next, and the depth of the enclosing
+      // loop as for a `break` in place of this statement. Set by the type checker.
+      jumps?: Array<FinallyJump>;
+      outerReturn?: Location;
+      outerLoop?: Location;
+      loopDepth?: number;
+    }
+  | { a?: A; tag: "raise"; value?: Expr<A> } // a bare `raise` re-raises the caught exception
+  | { a?: A; tag: "yield"; value: Expr<A> }
+  // `assert cond, msg` raises an AssertionError when `cond` is false; `msg` is evaluated then
+  | { a?: A; tag: "assert"; cond: Expr<A>; msg?: Expr<A> }
+  // `del x, xs[i], xs[a:b], d[k]`; a deleted local can't be read until it is assigned again
+  | { a?: A; tag: "del"; targets: Array<Expr<A>> };
+
+// A statement that leaves a `try` statement through its `finally` block
+export type FinallyJump = "return" | "break" | "continue";
+
+// `except <type> as <name>:`; a bare `except:` has neither
+export type ExceptHandler<A> = { a?: A; type?: string; name?: string; body: Array<Stmt<A>> };
 
 /**
  * Description of assign targets. isDestructured indicates if we are doing
@@ -130,27 +190,61 @@ export type Expr<A> =
       obj: Expr<A>;
       method: string;
       arguments: Array<Expr<A>>;
+      keywords?: Array<Keyword<A>>;
+      evalOrder?: Array<ArgumentPath>;
+    }
+  | {
+      a?: A;
+      tag: "construct";
+      name: string;
+      arguments: Array<Expr<A>>;
+      evalOrder?: Array<ArgumentPath>;
     }
-  | { a?: A; tag: "construct"; name: string }
   | { a?: A; tag: "lambda"; args: Array<string>; ret: Expr<A> }
   | {
       a?: A;
       tag: "comprehension";
-      expr: Expr<A>;
-      field: string;
-      iter: Expr<A>;
-      cond?: Expr<A>;
+      kind: "list" | "set" | "dict";
+      expr: Expr<A>; // the element, or the key of a dict entry
+      value?: Expr<A>; // the value of a dict entry
+      clauses: Array<ComprehensionClause<A>>;
     }
   | { a?: A; tag: "block"; block: Array<Stmt<A>>; expr: Expr<A> }
-  | { a?: A; tag: "call_expr"; name: Expr<A>; arguments: Array<Expr<A>> }
+  | {
+      a?: A;
+      tag: "call_expr";
+      name: Expr<A>;
+      arguments: Array<Expr<A>>;
+      keywords?: Array<Keyword<A>>;
+      evalOrder?: Array<ArgumentPath>;
+    }
   | { a?: A; tag: "list-expr"; contents: Array<Expr<A>> }
   | { a?: A; tag: "slicing"; name: Expr<A>; start: Expr<A>; end: Expr<A>; stride: Expr<A> }
   | { a?: A; tag: "dict"; entries: Array<[Expr<A>, Expr<A>]> }
+  | { a?: A; tag: "set-expr"; contents: Array<Expr<A>> }
   | { a?: A; tag: "bracket-lookup"; obj: Expr<A>; key: Expr<A> }
-  | { a?: A; tag: "tuple-expr"; contents: Array<Expr<A>> };
+  | { a?: A; tag: "tuple-expr"; contents: Array<Expr<A>> }
+  | { a?: A; tag: "ternary"; cond: Expr<A>; thn: Expr<A>; els: Expr<A> } // `thn if cond else els`
+  // `a < b <= c` compares each operand with the next one, see COMPARISON_OPS. Each operand is
+  // evaluated once, and the comparisons stop at the first false one
+  | { a?: A; tag: "compare-chain"; operands: Array<Expr<A>>; ops: Array<BinOp> };
+
+/** An argument passed by name, `f(x=1)`. The type checker matches them to the parameters */
+export type Keyword<A> = { a?: A; name: string; value: Expr<A> };
+
+// An argument of a call by its index in the arguments, followed by its index in the contents of
+// `*args` or the entries of `**kwargs` when it was packed into one of them. The `evalOrder` of a
+// call lists its arguments in the order they were written, when it is not the order of the
+// parameters
+export type ArgumentPath = [number] | [number, number];
+
+// `for <name> in <iter>` followed by any number of `if <cond>`; the type checker renames
+// `name` so that it cannot clash with the variables around the comprehension
+export type ComprehensionClause<A> = { a?: A; name: string; iter: Expr<A>; conds: Array<Expr<A>> };
 
 export type Literal =
   | { tag: "num"; value: bigint }
+  | { tag: "float"; value: number }
   | { tag: "bool"; value: boolean }
   | { tag: "string"; value: string }
   | { tag: "none" };
@@ -171,17 +265,81 @@ export enum BinOp {
   Is,
   And,
   Or,
+  In,
+  NotIn,
+  BitAnd,
+  BitOr,
+  Div,
+  BitXor,
+  LShift,
+  RShift,
+  Pow,
 }
 
+// The operators that chain, `a < b < c` meaning `a < b and b < c`
+export const COMPARISON_OPS = [
+  BinOp.Eq,
+  BinOp.Neq,
+  BinOp.Lte,
+  BinOp.Gte,
+  BinOp.Lt,
+  BinOp.Gt,
+  BinOp.Is,
+  BinOp.In,
+  BinOp.NotIn,
+];
+
+// The methods that overload binary operators on objects of user classes, called on the left
+// operand. `in` and `not in` call `__contains__` on the right operand instead.
+export const DUNDER_BINOPS = new Map<BinOp, string>([
+  [BinOp.Plus, "__add__"],
+  [BinOp.Minus, "__sub__"],
+  [BinOp.Mul, "__mul__"],
+  [BinOp.IDiv, "__floordiv__"],
+  [BinOp.Mod, "__mod__"],
+  [BinOp.Eq, "__eq__"],
+  [BinOp.Neq, "__ne__"],
+  [BinOp.Lte, "__le__"],
+  [BinOp.Gte, "__ge__"],
+  [BinOp.Lt, "__lt__"],
+  [BinOp.Gt, "__gt__"],
+  [BinOp.BitAnd, "__and__"],
+  [BinOp.BitOr, "__or__"],
+  [BinOp.Div, "__truediv__"],
+  [BinOp.BitXor, "__xor__"],
+  [BinOp.LShift, "__lshift__"],
+  [BinOp.RShift, "__rshift__"],
+  [BinOp.Pow, "__pow__"],
+]);
+
+// Builtins on a number besides `abs`: conversions and the math functions. `int`, `floor` and
+// `ceil` return ints, the others floats
+export const NUMERIC_BUILTINS = ["int", "float", "sqrt", "floor", "ceil", "sin", "cos", "log"];
+
+// Builtins that programs may redefine. Their calls parse as `call_expr`, and the type checker
+// sends the ones to names the program does not bind to the builtin, see tcShadowableBuiltin
+export const SHADOWABLE_BUILTINS = [
+  "sqrt",
+  "floor",
+  "ceil",
+  "sin",
+  "cos",
+  "log",
+  "isinstance",
+  "type",
+];
+
 export enum UniOp {
   Neg,
   Not,
+  Invert,
 }
 
 export type Value =
   | Literal
   | { tag: "string"; value: string; address: number }
-  | { tag: "object"; name: string; address: number }
+  // `repr` is how the REPL shows the result of a program, see resultValue
+  | { tag: "object"; name: string; address: number; repr?: string }
   | { tag: "list"; name: string; address: number; content_type: Type }
   | { tag: "callable"; name: string; address: number };
 
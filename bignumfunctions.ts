@@ -1,516 +1,797 @@
 import { encodeLiteral, decodeLiteral } from "./compiler";
 import { TAG_BIGINT } from "./alloc";
-export const bignumfunctions = `
-(func $$i64tobignum (param $x i64) (result i32)
-  (local $addr i32)
-  (local $allocPointer i32)
-  (local.get $x)
-  (i64.const 1)
-  (i64.shl)
-  (local.get $x)
-  (i64.const 1)
-  (i64.shl)
-  (i32.wrap_i64)
-  (i64.extend_i32_s)
-  (i64.eq)
-  (if
-    (then
-      (local.get $x)
-      (i32.wrap_i64)
-      ${encodeLiteral.join("\n")}
-      (return)
-    )
-    (else
-      ;;(i32.const 0)
-      ;;(i32.load)
-      ;;(local.set $addr)
-      (i32.const ${Number(TAG_BIGINT)})  ;; heap-tag: bigint
-      (i32.const 16) ;; (need 2 for size + sign + 2 words) * 4
-      (call $$gcalloc)
-      (local.tee $addr)
-      (local.tee $allocPointer)
+import {
+  block,
+  br,
+  br_if,
+  call,
+  Func,
+  global,
+  i32,
+  i32Vars,
+  i64,
+  if_,
+  local,
+  loop,
+  return_,
+  select,
+} from "./wasm-ir";
 
-      (local.get $x)
-      (i64.const 0)
-      (i64.ge_s)
-      (if
-        (then
-        ;; if x > 0 store 1 in sign
-          (local.get $addr)
-          (i32.const 1)
-          (i32.store)
-        )
-        (else
-        ;; elif x < 0 store 0 and negate x
-          (local.get $addr)
-          (i32.const 0)
-          (i32.store)
-          (i64.const 0)
-          (local.get $x)
-          (i64.sub)
-          (local.set $x)
-        )
-      )
-      ;; size is always 2
-      (local.get $addr)
-      (i32.const 4)
-      (i32.add)
-      (i32.const 2)
-      (i32.store)
-
-      ;; store both words
-      (local.get $addr)
-      (i32.const 8)
-      (i32.add)
-      (local.get $x)
-      (i64.const 0x7FFFFFFF)
-      (i64.and)
-      (i32.wrap_i64)
-      ${encodeLiteral.join("\n")}
-      (i32.store)
-      (local.get $addr)
-      (i32.const 12)
-      (i32.add)
-      (local.get $x)
-      (i64.const 31)
-      (i64.shr_u)
-      (i64.const 0x7FFFFFFF)
-      (i64.and)
-      (i32.wrap_i64)
-      ${encodeLiteral.join("\n")}
-      (i32.store)
-
-      ;; return the alloc pointer
-      (local.get $allocPointer)
-      ;;(i32.const 0)
-      ;;(local.get $addr)
-      ;;(i32.const 16)
-      ;;(i32.add)
-      ;;(i32.store)
-      ;;(local.get $addr)
-      (return)
-    )
-  )
-  (i32.const 0)
-)
-
-(func $$sub (param $x i32) (param $y i32) (result i32)
-  (local $res i64)
-  (local.get $x)
-  (i32.const 1)
-  (i32.and)
-  (local.get $y)
-  (i32.const 1)
-  (i32.and)
-  (i32.and)
-  (if
-    (then
-      (local.get $x)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (local.get $y)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (i64.sub)
-      (call $$i64tobignum)
-      (return)
-    )
-    (else
-      (local.get $x)
-      (local.get $y)
-      (call $$big_sub)
-      (return)
-    )
-  )
-  (i32.const 0)
-)
-(func $$add (param $x i32) (param $y i32) (result i32)
-  (local $res i64)
-  (local.get $x)
-  (i32.const 1)
-  (i32.and)
-  (local.get $y)
-  (i32.const 1)
-  (i32.and)
-  (i32.and)
-  (if
-    (then
-      (local.get $x)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (local.get $y)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (i64.add)
-      (call $$i64tobignum)
-      (return)
-    )
-    (else
-      (local.get $x)
-      (local.get $y)
-      (call $$big_add)
-      (return)
-    )
-  )
-  (i32.const 0)
-)
-(func $$mul (param $x i32) (param $y i32) (result i32)
-  (local $res i64)
-  (local.get $x)
-  (i32.const 1)
-  (i32.and)
-  (local.get $y)
-  (i32.const 1)
-  (i32.and)
-  (i32.and)
-  (if
-    (then
-      (local.get $x)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (local.get $y)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (i64.mul)
-      (call $$i64tobignum)
-      (return)
-    )
-    (else
-      (local.get $x)
-      (local.get $y)
-      (call $$big_mul)
-      (return)
-    )
-  )
-  (i32.const 0)
-)
-
-(func $$div (param $x i32) (param $y i32) (result i32)
-  (local $res i64)
-  (local $decx i64)
-  (local $decy i64)
-  (local.get $x)
-  (i32.const 1)
-  (i32.and)
-  (local.get $y)
-  (i32.const 1)
-  (i32.and)
-  (i32.and)
-  (if
-    (then
-      (local.get $x)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (local.set $decx)
-      (local.get $y)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (local.set $decy)
-      (local.get $decx)
-      (local.get $decx)
-      (local.get $decy)
-      (i64.rem_s)
-      (local.get $decy)
-      (i64.add)
-      (local.get $decy)
-      (i64.rem_s)
-      (i64.sub)
-      (local.get $decy)
-      (i64.div_s)
-      (call $$i64tobignum)
-      (return)
-    )
-    (else
-      (local.get $x)
-      (local.get $y)
-      (call $$big_div)
-      (return)
-    )
-  )
-  (i32.const 0)
-)
-(func $$mod (param $x i32) (param $y i32) (result i32)
-  (local $res i64)
-  (local $decy i64)
-  (local.get $x)
-  (i32.const 1)
-  (i32.and)
-  (local.get $y)
-  (i32.const 1)
-  (i32.and)
-  (i32.and)
-  (if
-    (then
-      (local.get $x)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (local.get $y)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (local.set $decy)
-      (local.get $decy)
-      (i64.rem_s)
-      (local.get $decy)
-      (i64.add)
-      (local.get $decy)
-      (i64.rem_s)
-      (call $$i64tobignum)
-      (return)
-    )
-    (else
-      (local.get $x)
-      (local.get $y)
-      (call $$big_mod)
-      (return)
-    )
-  )
-  (i32.const 0)
-)
-(func $$eq (param $x i32) (param $y i32) (result i32)
-  (local $res i64)
-  (local.get $x)
-  (i32.const 1)
-  (i32.and)
-  (local.get $y)
-  (i32.const 1)
-  (i32.and)
-  (i32.and)
-  (if
-    (then
-      (local.get $x)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (local.get $y)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (i64.eq)
-      (i64.extend_i32_s)
-      (call $$i64tobignum)
-      (return)
-    )
-    (else
-      (local.get $x)
-      (local.get $y)
-      (call $$big_eq)
-      (return)
-    )
-  )
-  (i32.const 0)
-)
-(func $$ne (param $x i32) (param $y i32) (result i32)
-  (local $res i64)
-  (local.get $x)
-  (i32.const 1)
-  (i32.and)
-  (local.get $y)
-  (i32.const 1)
-  (i32.and)
-  (i32.and)
-  (if
-    (then
-      (local.get $x)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (local.get $y)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (i64.ne)
-      (i64.extend_i32_s)
-      (call $$i64tobignum)
-      (return)
-    )
-    (else
-      (local.get $x)
-      (local.get $y)
-      (call $$big_ne)
-      (return)
-    )
-  )
-  (i32.const 0)
-)
-(func $$lt (param $x i32) (param $y i32) (result i32)
-  (local $res i64)
-  (local.get $x)
-  (i32.const 1)
-  (i32.and)
-  (local.get $y)
-  (i32.const 1)
-  (i32.and)
-  (i32.and)
-  (if
-    (then
-      (local.get $x)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (local.get $y)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (i64.lt_s)
-      (i64.extend_i32_s)
-      (call $$i64tobignum)
-      (return)
-    )
-    (else
-      (local.get $x)
-      (local.get $y)
-      (call $$big_lt)
-      (return)
-    )
-  )
-  (i32.const 0)
-)
-(func $$lte (param $x i32) (param $y i32) (result i32)
-  (local $res i64)
-  (local.get $x)
-  (i32.const 1)
-  (i32.and)
-  (local.get $y)
-  (i32.const 1)
-  (i32.and)
-  (i32.and)
-  (if
-    (then
-      (local.get $x)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (local.get $y)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (i64.le_s)
-      (i64.extend_i32_s)
-      (call $$i64tobignum)
-      (return)
-    )
-    (else
-      (local.get $x)
-      (local.get $y)
-      (call $$big_lte)
-      (return)
-    )
-  )
-  (i32.const 0)
-)
-(func $$gt (param $x i32) (param $y i32) (result i32)
-  (local $res i64)
-  (local.get $x)
-  (i32.const 1)
-  (i32.and)
-  (local.get $y)
-  (i32.const 1)
-  (i32.and)
-  (i32.and)
-  (if
-    (then
-      (local.get $x)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (local.get $y)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (i64.gt_s)
-      (i64.extend_i32_s)
-      (call $$i64tobignum)
-      (return)
-    )
-    (else
-      (local.get $x)
-      (local.get $y)
-      (call $$big_gt)
-      (return)
-    )
-  )
-  (i32.const 0)
-)
-(func $$gte (param $x i32) (param $y i32) (result i32)
-  (local $res i64)
-  (local.get $x)
-  (i32.const 1)
-  (i32.and)
-  (local.get $y)
-  (i32.const 1)
-  (i32.and)
-  (i32.and)
-  (if
-    (then
-      (local.get $x)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (local.get $y)
-      ${decodeLiteral.join("\n")}
-      (i64.extend_i32_s)
-      (i64.ge_s)
-      (i64.extend_i32_s)
-      (call $$i64tobignum)
-      (return)
-    )
-    (else
-      (local.get $x)
-      (local.get $y)
-      (call $$big_gte)
-      (return)
-    )
-  )
-  (i32.const 0)
-)
-(func $$bignum_neg
-  (param $x i32)
-  (result i32)
-  (local $addr i32)
-  (local $allocPointer i32)
-  (local $i i32)
-  (local.get $x)
-  (i32.const 1)
-  (i32.and)
-  (if
-    (then
-      (i32.const 0)
-      (local.get $x)
-      ${decodeLiteral.join("\n")}
-      (i32.sub)
-      ${encodeLiteral.join("\n")}
-      (local.set $x)
-    )
-    (else
-      ;; allocate space for the new bigint
-      (i32.const ${Number(TAG_BIGINT)})  ;; heap-tag: bigint
-      (i32.add (local.get $x) (i32.const 4))    ;; get length of data
-      (i32.load)
-      (i32.mul (i32.const 4))
-      (i32.add (i32.const 8))
-      (call $$gcalloc)
-      (local.tee $addr)
-      (local.tee $allocPointer)
-      ;; flip the sign bit of the new bigint
-      (i32.const 1)
-      (i32.load (local.get $x))
-      (i32.sub)
-      (i32.store)
-      (i32.add (local.get $addr) (i32.const 4))
-      (i32.add (local.get $x) (i32.const 4))
-      (i32.load)
-      (local.set $i)
-      (i32.store (local.get $i) )
-      (local.set $addr (i32.add (local.get $addr) (i32.const 8)))
-      (local.set $x (i32.add (local.get $x) (i32.const 8)))
-      (loop
-        (local.get $i)
-        (if
-          (then
-            (local.get $addr)
-            (local.get $x)
-            (i32.load)
-            (i32.store)
-            (local.set $addr (i32.add (local.get $addr) (i32.const 4)))
-            (local.set $x (i32.add (local.get $x) (i32.const 4)))
-            (local.set $i (i32.sub (local.get $i) (i32.const 1)))
-            (br 1)
-          )
-        )
-      )
-      (local.get $allocPointer)
-      (local.set $x)
-    )
-  )
-  (local.get $x)
-)
-`;
+export const bignumfunctions: Array<Func> = [
+  {
+    name: "$$i64tobignum",
+    params: [{ name: "$x", type: "i64" }],
+    results: ["i32"],
+    locals: i32Vars("$addr", "$allocPointer"),
+    body: [
+      local.get("$x"),
+      i64.const(1),
+      i64.shl(),
+      local.get("$x"),
+      i64.const(1),
+      i64.shl(),
+      i32.wrap_i64(),
+      i64.extend_i32_s(),
+      i64.eq(),
+      if_(
+        [local.get("$x"), i32.wrap_i64(), ...encodeLiteral, return_()],
+        [
+          // (i32.const 0)
+          // (i32.load)
+          // (local.set $addr)
+          i32.const(Number(TAG_BIGINT)), // heap-tag: bigint
+          i32.const(16), // (need 2 for size + sign + 2 words) * 4
+          call("$$gcalloc"),
+          local.tee("$addr"),
+          local.tee("$allocPointer"),
+          local.get("$x"),
+          i64.const(0),
+          i64.ge_s(),
+          if_(
+            [
+              // if x > 0 store 1 in sign
+              local.get("$addr"),
+              i32.const(1),
+              i32.store(),
+            ],
+            [
+              // elif x < 0 store 0 and negate x
+              local.get("$addr"),
+              i32.const(0),
+              i32.store(),
+              i64.const(0),
+              local.get("$x"),
+              i64.sub(),
+              local.set("$x"),
+            ]
+          ),
+          // size is always 2
+          local.get("$addr"),
+          i32.const(4),
+          i32.add(),
+          i32.const(2),
+          i32.store(),
+          // store both words
+          local.get("$addr"),
+          i32.const(8),
+          i32.add(),
+          local.get("$x"),
+          i64.const(0x7fffffff),
+          i64.and(),
+          i32.wrap_i64(),
+          ...encodeLiteral,
+          i32.store(),
+          local.get("$addr"),
+          i32.const(12),
+          i32.add(),
+          local.get("$x"),
+          i64.const(31),
+          i64.shr_u(),
+          i64.const(0x7fffffff),
+          i64.and(),
+          i32.wrap_i64(),
+          ...encodeLiteral,
+          i32.store(),
+          // return the alloc pointer
+          local.get("$allocPointer"),
+          // (i32.const 0)
+          // (local.get $addr)
+          // (i32.const 16)
+          // (i32.add)
+          // (i32.store)
+          // (local.get $addr)
+          return_(),
+        ]
+      ),
+      i32.const(0),
+    ],
+  },
+  {
+    name: "$$sub",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: [{ name: "$res", type: "i64" }],
+    body: [
+      local.get("$x"),
+      i32.const(1),
+      i32.and(),
+      local.get("$y"),
+      i32.const(1),
+      i32.and(),
+      i32.and(),
+      if_(
+        [
+          local.get("$x"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          local.get("$y"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          i64.sub(),
+          call("$$i64tobignum"),
+          return_(),
+        ],
+        [local.get("$x"), local.get("$y"), call("$$big_sub"), return_()]
+      ),
+      i32.const(0),
+    ],
+  },
+  {
+    name: "$$add",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: [{ name: "$res", type: "i64" }],
+    body: [
+      local.get("$x"),
+      i32.const(1),
+      i32.and(),
+      local.get("$y"),
+      i32.const(1),
+      i32.and(),
+      i32.and(),
+      if_(
+        [
+          local.get("$x"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          local.get("$y"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          i64.add(),
+          call("$$i64tobignum"),
+          return_(),
+        ],
+        [local.get("$x"), local.get("$y"), call("$$big_add"), return_()]
+      ),
+      i32.const(0),
+    ],
+  },
+  {
+    name: "$$mul",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: [{ name: "$res", type: "i64" }],
+    body: [
+      local.get("$x"),
+      i32.const(1),
+      i32.and(),
+      local.get("$y"),
+      i32.const(1),
+      i32.and(),
+      i32.and(),
+      if_(
+        [
+          local.get("$x"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          local.get("$y"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          i64.mul(),
+          call("$$i64tobignum"),
+          return_(),
+        ],
+        [local.get("$x"), local.get("$y"), call("$$big_mul"), return_()]
+      ),
+      i32.const(0),
+    ],
+  },
+  {
+    name: "$$div",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: [
+      { name: "$res", type: "i64" },
+      { name: "$decx", type: "i64" },
+      { name: "$decy", type: "i64" },
+    ],
+    body: [
+      local.get("$x"),
+      i32.const(1),
+      i32.and(),
+      local.get("$y"),
+      i32.const(1),
+      i32.and(),
+      i32.and(),
+      if_(
+        [
+          local.get("$x"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          local.set("$decx"),
+          local.get("$y"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          local.set("$decy"),
+          local.get("$decx"),
+          local.get("$decx"),
+          local.get("$decy"),
+          i64.rem_s(),
+          local.get("$decy"),
+          i64.add(),
+          local.get("$decy"),
+          i64.rem_s(),
+          i64.sub(),
+          local.get("$decy"),
+          i64.div_s(),
+          call("$$i64tobignum"),
+          return_(),
+        ],
+        [local.get("$x"), local.get("$y"), call("$$big_div"), return_()]
+      ),
+      i32.const(0),
+    ],
+  },
+  {
+    name: "$$mod",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: [
+      { name: "$res", type: "i64" },
+      { name: "$decy", type: "i64" },
+    ],
+    body: [
+      local.get("$x"),
+      i32.const(1),
+      i32.and(),
+      local.get("$y"),
+      i32.const(1),
+      i32.and(),
+      i32.and(),
+      if_(
+        [
+          local.get("$x"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          local.get("$y"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          local.set("$decy"),
+          local.get("$decy"),
+          i64.rem_s(),
+          local.get("$decy"),
+          i64.add(),
+          local.get("$decy"),
+          i64.rem_s(),
+          call("$$i64tobignum"),
+          return_(),
+        ],
+        [local.get("$x"), local.get("$y"), call("$$big_mod"), return_()]
+      ),
+      i32.const(0),
+    ],
+  },
+  {
+    name: "$$eq",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: [{ name: "$res", type: "i64" }],
+    body: [
+      local.get("$x"),
+      i32.const(1),
+      i32.and(),
+      local.get("$y"),
+      i32.const(1),
+      i32.and(),
+      i32.and(),
+      if_(
+        [
+          local.get("$x"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          local.get("$y"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          i64.eq(),
+          i64.extend_i32_s(),
+          call("$$i64tobignum"),
+          return_(),
+        ],
+        [local.get("$x"), local.get("$y"), call("$$big_eq"), return_()]
+      ),
+      i32.const(0),
+    ],
+  },
+  {
+    name: "$$ne",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: [{ name: "$res", type: "i64" }],
+    body: [
+      local.get("$x"),
+      i32.const(1),
+      i32.and(),
+      local.get("$y"),
+      i32.const(1),
+      i32.and(),
+      i32.and(),
+      if_(
+        [
+          local.get("$x"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          local.get("$y"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          i64.ne(),
+          i64.extend_i32_s(),
+          call("$$i64tobignum"),
+          return_(),
+        ],
+        [local.get("$x"), local.get("$y"), call("$$big_ne"), return_()]
+      ),
+      i32.const(0),
+    ],
+  },
+  {
+    name: "$$lt",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: [{ name: "$res", type: "i64" }],
+    body: [
+      local.get("$x"),
+      i32.const(1),
+      i32.and(),
+      local.get("$y"),
+      i32.const(1),
+      i32.and(),
+      i32.and(),
+      if_(
+        [
+          local.get("$x"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          local.get("$y"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          i64.lt_s(),
+          i64.extend_i32_s(),
+          call("$$i64tobignum"),
+          return_(),
+        ],
+        [local.get("$x"), local.get("$y"), call("$$big_lt"), return_()]
+      ),
+      i32.const(0),
+    ],
+  },
+  {
+    name: "$$lte",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: [{ name: "$res", type: "i64" }],
+    body: [
+      local.get("$x"),
+      i32.const(1),
+      i32.and(),
+      local.get("$y"),
+      i32.const(1),
+      i32.and(),
+      i32.and(),
+      if_(
+        [
+          local.get("$x"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          local.get("$y"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          i64.le_s(),
+          i64.extend_i32_s(),
+          call("$$i64tobignum"),
+          return_(),
+        ],
+        [local.get("$x"), local.get("$y"), call("$$big_lte"), return_()]
+      ),
+      i32.const(0),
+    ],
+  },
+  {
+    name: "$$gt",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: [{ name: "$res", type: "i64" }],
+    body: [
+      local.get("$x"),
+      i32.const(1),
+      i32.and(),
+      local.get("$y"),
+      i32.const(1),
+      i32.and(),
+      i32.and(),
+      if_(
+        [
+          local.get("$x"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          local.get("$y"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          i64.gt_s(),
+          i64.extend_i32_s(),
+          call("$$i64tobignum"),
+          return_(),
+        ],
+        [local.get("$x"), local.get("$y"), call("$$big_gt"), return_()]
+      ),
+      i32.const(0),
+    ],
+  },
+  {
+    name: "$$gte",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: [{ name: "$res", type: "i64" }],
+    body: [
+      local.get("$x"),
+      i32.const(1),
+      i32.and(),
+      local.get("$y"),
+      i32.const(1),
+      i32.and(),
+      i32.and(),
+      if_(
+        [
+          local.get("$x"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          local.get("$y"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          i64.ge_s(),
+          i64.extend_i32_s(),
+          call("$$i64tobignum"),
+          return_(),
+        ],
+        [local.get("$x"), local.get("$y"), call("$$big_gte"), return_()]
+      ),
+      i32.const(0),
+    ],
+  },
+  {
+    name: "$$bignum_neg",
+    params: i32Vars("$x"),
+    results: ["i32"],
+    locals: i32Vars("$addr", "$allocPointer", "$i"),
+    body: [
+      local.get("$x"),
+      i32.const(1),
+      i32.and(),
+      if_(
+        [
+          i32.const(0),
+          local.get("$x"),
+          ...decodeLiteral,
+          i32.sub(),
+          ...encodeLiteral,
+          local.set("$x"),
+        ],
+        [
+          // allocate space for the new bigint
+          i32.const(Number(TAG_BIGINT)), // heap-tag: bigint
+          local.get("$x"),
+          i32.const(4),
+          i32.add(), // get length of data
+          i32.load(),
+          i32.const(4),
+          i32.mul(),
+          i32.const(8),
+          i32.add(),
+          call("$$gcalloc"),
+          local.tee("$addr"),
+          local.tee("$allocPointer"),
+          // flip the sign bit of the new bigint
+          i32.const(1),
+          local.get("$x"),
+          i32.load(),
+          i32.sub(),
+          i32.store(),
+          local.get("$addr"),
+          i32.const(4),
+          i32.add(),
+          local.get("$x"),
+          i32.const(4),
+          i32.add(),
+          i32.load(),
+          local.set("$i"),
+          local.get("$i"),
+          i32.store(),
+          local.get("$addr"),
+          i32.const(8),
+          i32.add(),
+          local.set("$addr"),
+          local.get("$x"),
+          i32.const(8),
+          i32.add(),
+          local.set("$x"),
+          loop([
+            local.get("$i"),
+            if_([
+              local.get("$addr"),
+              local.get("$x"),
+              i32.load(),
+              i32.store(),
+              local.get("$addr"),
+              i32.const(4),
+              i32.add(),
+              local.set("$addr"),
+              local.get("$x"),
+              i32.const(4),
+              i32.add(),
+              local.set("$x"),
+              local.get("$i"),
+              i32.const(1),
+              i32.sub(),
+              local.set("$i"),
+              br(1),
+            ]),
+          ]),
+          local.get("$allocPointer"),
+          local.set("$x"),
+        ]
+      ),
+      local.get("$x"),
+    ],
+  },
+  {
+    name: "$$bitwise_both_tagged",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [local.get("$x"), local.get("$y"), i32.and(), i32.const(1), i32.and()],
+  },
+  // ints keep their tag bit through and, or and xor of their encodings
+  {
+    name: "$$bit_and",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$x"),
+      local.get("$y"),
+      call("$$bitwise_both_tagged"),
+      if_(
+        "i32",
+        [local.get("$x"), local.get("$y"), i32.and()],
+        [local.get("$x"), local.get("$y"), call("$$big_and")]
+      ),
+    ],
+  },
+  {
+    name: "$$bit_or",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$x"),
+      local.get("$y"),
+      call("$$bitwise_both_tagged"),
+      if_(
+        "i32",
+        [local.get("$x"), local.get("$y"), i32.or()],
+        [local.get("$x"), local.get("$y"), call("$$big_or")]
+      ),
+    ],
+  },
+  {
+    name: "$$bit_xor",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$x"),
+      local.get("$y"),
+      call("$$bitwise_both_tagged"),
+      if_(
+        "i32",
+        [local.get("$x"), local.get("$y"), i32.xor(), i32.const(1), i32.or()],
+        [local.get("$x"), local.get("$y"), call("$$big_xor")]
+      ),
+    ],
+  },
+  {
+    name: "$$bit_invert",
+    params: i32Vars("$x"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$x"),
+      i32.const(1),
+      i32.and(),
+      if_(
+        "i32",
+        [local.get("$x"), i32.const(-2), i32.xor()],
+        [local.get("$x"), call("$$big_invert")]
+      ),
+    ],
+  },
+  // whether an int is negative; the sign word of a bignum is 0 when it is negative
+  {
+    name: "$$is_negative",
+    params: i32Vars("$x"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$x"),
+      i32.const(1),
+      i32.and(),
+      if_(
+        "i32",
+        [local.get("$x"), i32.const(0), i32.lt_s()],
+        [local.get("$x"), i32.load(), i32.eqz()]
+      ),
+    ],
+  },
+  {
+    name: "$$shl",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$y"),
+      call("$$is_negative"),
+      call("$$check_shift_count"),
+      global.get("$$exc_pending"),
+      if_([i32.const(0), return_()]),
+      // a 31 bit int shifted by less than 32 bits fits in an i64
+      local.get("$x"),
+      local.get("$y"),
+      call("$$bitwise_both_tagged"),
+      if_([
+        local.get("$y"),
+        ...decodeLiteral,
+        i32.const(32),
+        i32.lt_s(),
+        if_([
+          local.get("$x"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          local.get("$y"),
+          ...decodeLiteral,
+          i64.extend_i32_s(),
+          i64.shl(),
+          call("$$i64tobignum"),
+          return_(),
+        ]),
+      ]),
+      local.get("$x"),
+      local.get("$y"),
+      call("$$big_shl"),
+    ],
+  },
+  {
+    name: "$$shr",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: i32Vars("$count"),
+    body: [
+      local.get("$y"),
+      call("$$is_negative"),
+      call("$$check_shift_count"),
+      global.get("$$exc_pending"),
+      if_([i32.const(0), return_()]),
+      local.get("$x"),
+      local.get("$y"),
+      call("$$bitwise_both_tagged"),
+      if_([
+        // shifting a 31 bit int by 31 bits or more leaves only its sign
+        local.get("$y"),
+        ...decodeLiteral,
+        local.tee("$count"),
+        i32.const(31),
+        local.get("$count"),
+        i32.const(31),
+        i32.lt_s(),
+        select(),
+        local.set("$count"),
+        local.get("$x"),
+        ...decodeLiteral,
+        local.get("$count"),
+        i32.shr_s(),
+        ...encodeLiteral,
+        return_(),
+      ]),
+      local.get("$x"),
+      local.get("$y"),
+      call("$$big_shr"),
+    ],
+  },
+  // exponentiation by squaring while the base and result fit in 32 bits, so that their products
+  // fit in an i64; larger powers are computed on bigints
+  {
+    name: "$$pow",
+    params: i32Vars("$x", "$y"),
+    results: ["i32"],
+    locals: [
+      { name: "$base", type: "i64" },
+      { name: "$res", type: "i64" },
+      { name: "$exp", type: "i32" },
+    ],
+    body: [
+      local.get("$y"),
+      call("$$is_negative"),
+      call("$$check_exponent"),
+      global.get("$$exc_pending"),
+      if_([i32.const(0), return_()]),
+      local.get("$x"),
+      local.get("$y"),
+      call("$$bitwise_both_tagged"),
+      if_([
+        local.get("$x"),
+        ...decodeLiteral,
+        i64.extend_i32_s(),
+        local.set("$base"),
+        local.get("$y"),
+        ...decodeLiteral,
+        local.set("$exp"),
+        i64.const(1),
+        local.set("$res"),
+        block("$overflow", [
+          loop("$square", [
+            local.get("$exp"),
+            if_([
+              local.get("$exp"),
+              i32.const(1),
+              i32.and(),
+              if_([
+                local.get("$res"),
+                local.get("$base"),
+                i64.mul(),
+                local.set("$res"),
+                local.get("$res"),
+                local.get("$res"),
+                i32.wrap_i64(),
+                i64.extend_i32_s(),
+                i64.ne(),
+                br_if("$overflow"),
+              ]),
+              local.get("$exp"),
+              i32.const(1),
+              i32.shr_u(),
+              local.set("$exp"),
+              local.get("$exp"),
+              if_([
+                local.get("$base"),
+                local.get("$base"),
+                i64.mul(),
+                local.set("$base"),
+                local.get("$base"),
+                local.get("$base"),
+                i32.wrap_i64(),
+                i64.extend_i32_s(),
+                i64.ne(),
+                br_if("$overflow"),
+              ]),
+              br("$square"),
+            ]),
+          ]),
+          local.get("$res"),
+          call("$$i64tobignum"),
+          return_(),
+        ]),
+      ]),
+      local.get("$x"),
+      local.get("$y"),
+      call("$$big_pow"),
+    ],
+  },
+];
@@ -0,0 +1,102 @@
+#!/usr/bin/env -S node --experimental-wasm-bigint
+// Command-line compiler for ChocoPy programs.
+//
+//   chocopy compile <file.py> [-o <out>]   writes <out>.wat, <out>.wasm and the <out>.json manifest
+//   chocopy run <file.wasm>                runs a compiled program, reading the manifest next to it
+//   chocopy test <file.py>                 runs the `test_*` functions of a program, see testrunner.ts
+//
+// `--trace <channels>` prints the comma-separated logger channels to stderr, e.g. `--trace parse,tc`.
+
+import * as fs from "fs";
+import * as path from "path";
+import { Value } from "./ast";
+import { BasicREPL } from "./repl";
+import { loadProgram, makeManifest, Manifest } from "./loader";
+import { Channel, CHANNELS, Logger, LogLevel } from "./logger";
+import { ModuleLoader } from "./modules";
+import { formatResults, runTests } from "./testrunner";
+import { stringify } from "./utils";
+
+const USAGE = `usage: chocopy compile <file.py> [-o <out>] [--trace <channels>]
+       chocopy run <file.wasm> [--trace <channels>]
+       chocopy test <file.py>
+channels: ${CHANNELS.join(", ")}`;
+
+function print(val: Value) {
+  process.stdout.write(stringify(val) + "\n");
+}
+
+// Strips the extension off a path, keeping its directory
+function stem(file: string): string {
+  return path.join(path.dirname(file), path.basename(file, path.extname(file)));
+}
+
+// Traces go to stderr so that they don't mix with what the program prints
+function makeLogger(channels: Array<Channel>): Logger {
+  const logger = new Logger();
+  logger.subscribe(channels, LogLevel.Trace, (channel, level, ...args) =>
+    console.error(`[${channel}]`, ...args)
+  );
+  return logger;
+}
+
+// `import mod` reads mod.py from the directory of the program
+function fileLoader(dir: string): ModuleLoader {
+  return (name) => {
+    const file = path.join(dir, `${name}.py`);
+    return fs.existsSync(file) ? fs.readFileSync(file, "utf8") : undefined;
+  };
+}
+
+async function compile(file: string, out: string, logger: Logger) {
+  const source = fs.readFileSync(file, "utf8");
+  const repl = new BasicREPL({ imports: { print } }, logger);
+  repl.modules = fileLoader(path.dirname(file));
+  const compiled = await repl.compile(source);
+  fs.writeFileSync(`${out}.wat`, compiled.wasmSource);
+  fs.writeFileSync(`${out}.wasm`, compiled.binary);
+  fs.writeFileSync(`${out}.json`, JSON.stringify(makeManifest(source, compiled)));
+}
+
+async function runCompiled(file: string, logger: Logger) {
+  const binary = fs.readFileSync(file);
+  const manifest: Manifest = JSON.parse(fs.readFileSync(`${stem(file)}.json`, "utf8"));
+  await loadProgram(binary, manifest, { imports: { print } }, logger);
+}
+
+// Fails when a test fails
+async function test(file: string) {
+  const source = fs.readFileSync(file, "utf8");
+  const results = await runTests(source, fileLoader(path.dirname(file)));
+  console.log(formatResults(results));
+  if (results.some((r) => !r.passed)) process.exitCode = 1;
+}
+
+async function main(args: Array<string>) {
+  const [command, file, ...rest] = args;
+  const option = (flag: string) => {
+    const index = rest.indexOf(flag);
+    return index >= 0 ? rest[index + 1] : undefined;
+  };
+  const channels = (option("--trace") || "").split(",").filter((c) => c !== "");
+  const unknown = channels.filter((c) => !CHANNELS.includes(c as Channel));
+  const logger = makeLogger(channels as Array<Channel>);
+  if (unknown.length > 0) {
+    console.error(`unknown channels: ${unknown.join(", ")}\n${USAGE}`);
+    process.exitCode = 2;
+  } else if (command === "compile" && file !== undefined) {
+    await compile(file, option("-o") || stem(file), logger);
+  } else if (command === "run" && file !== undefined) {
+    await runCompiled(file, logger);
+  } else if (command === "test" && file !== undefined) {
+    await test(file);
+  } else {
+    console.error(USAGE);
+    process.exitCode = 2;
+  }
+}
+
+main(process.argv.slice(2)).catch((err) => {
+  console.error(`${err.name}: ${err.message}`);
+  process.exitCode = 1;
+});
@@ -1,3 +1,5 @@
+import { call, i32, Instr, local } from "./wasm-ir";
+
 export type AugmentConfig = {
   main: boolean;
   debug?: {
@@ -21,115 +23,83 @@ function makeHash(s: string): number {
 }
 
 export function augmentFnGc(
-  fnInstrs: Array<string>,
+  body: Array<Instr>,
   locals: Map<string, number>,
   cfg: AugmentConfig
-): Array<string> {
-  let results: Array<string> = [];
-
-  let afterLocals = false;
-  fnInstrs.forEach((wasmInstr, wasmIndex) => {
-    const split = wasmInstr.split(/[ ()]/);
-
-    // console.warn(`[${wasmIndex}]: scanning '${wasmInstr}'`);
-    for (let index = 0; index < split.length; index++) {
-      const sub = split[index];
-      if (index === 0 && sub !== "") {
-        console.warn(`GC pass: unknown WASM: '${wasmInstr}'`);
-        results.push(wasmInstr);
-        break;
-      }
-
-      let kontinue = true;
-      if (index === 1) {
-        if (sub !== "local" && !afterLocals) {
-          results.push("(call $$pushFrame)");
-
-          if (cfg.debug && DEBUG) {
-            // NOTE(alex:mm): used to trace function/allocation calls
-            // const debug = cfg.debug;
-            // const id = makeHash(debug.name);
-            // console.warn(`${debug.name} => ${id}`);
-            // results.push(`;; ${debug.name} ${id}`);
-            // results.push(`(i32.const ${id})`);
-            // results.push(`(call $$DEBUG)`);
-          }
-          afterLocals = true;
-        }
-
-        switch (sub) {
-          case "local.set": {
-            const varName = split[index + 1].substring(1);
-            // NOTE(alex: mm): $$locals are considered internal and non-rooted
-            // Any rooting should be captured by temporary sets
-            results.push(wasmInstr);
-            if (varName[0] !== "$") {
-              const localIndex = locals.get(varName);
-              if (localIndex === undefined) {
-                throw new Error(`ICE(GC pass): Unknown local slot: ${varName}`);
-              }
-              results.push(`(i32.const ${localIndex.toString()})`);
-              results.push(`(local.get $${varName})`);
-              results.push(`(call $$addLocal)`);
-            }
-            kontinue = false;
-            break;
-          }
+): Array<Instr> {
+  const results: Array<Instr> = [call("$$pushFrame")];
+  if (cfg.debug && DEBUG) {
+    // NOTE(alex:mm): used to trace function/allocation calls
+    // const debug = cfg.debug;
+    // const id = makeHash(debug.name);
+    // console.warn(`${debug.name} => ${id}`);
+    // results.push(i32.const(id));
+    // results.push(call("$$DEBUG"));
+  }
+  return results.concat(augmentInstrs(body, locals, cfg));
+}
 
-          case "call": {
-            const f = split[index + 1];
-            if (sub === "call" && f.substring(0, 2) === "$$") {
-              // Internal function
-              results.push(wasmInstr);
-              kontinue = false;
-              break;
-            }
-            results.push(`(call $$pushCaller)`);
-            results.push(wasmInstr);
-            results.push(`(call $$popCaller)`);
-            kontinue = false;
-            break;
-          }
+function augmentInstrs(
+  instrs: Array<Instr>,
+  locals: Map<string, number>,
+  cfg: AugmentConfig
+): Array<Instr> {
+  return instrs.map((instr) => augmentInstr(instr, locals, cfg)).flat();
+}
 
-          case "call_indirect": {
-            // console.warn(`[${wasmIndex}]: guarding '${wasmInstr}'`);
-            results.push(`(call $$pushCaller)`);
-            results.push(wasmInstr);
-            results.push(`(call $$popCaller)`);
-            kontinue = false;
-            break;
-          }
+function augmentInstr(instr: Instr, locals: Map<string, number>, cfg: AugmentConfig): Array<Instr> {
+  switch (instr.op) {
+    case "block":
+    case "loop":
+      return [{ ...instr, body: augmentInstrs(instr.body, locals, cfg) }];
 
-          case "return": {
-            // returnTemp places the return expr value into the caller's temp set
-            // NOTE(alex:mm): We need to put temporaries and escaping pointers into
-            //   the calling statement's temp frame, not a new one.
-            //
-            // By placing them into the calling statement's temp frame, escaping pointers
-            //   have an opportunity to be rooted without fear of the GC cleaning it up
-            // TODO(alex:mm): instead of relying on escape analysis, we'll just try to
-            //   add the returned value to the parent temp frame
-            if (!cfg.main) {
-              results.push("(call $$returnTemp)");
-            }
-            results.push("(call $$releaseLocals)");
-            results.push(wasmInstr);
-            kontinue = false;
-            break;
-          }
+    case "if":
+      return [
+        {
+          ...instr,
+          thn: augmentInstrs(instr.thn, locals, cfg),
+          els: augmentInstrs(instr.els, locals, cfg),
+        },
+      ];
 
-          default:
-            results.push(wasmInstr);
-            kontinue = false;
-            break;
-        }
+    case "local.set": {
+      const varName = instr.local.toString().substring(1);
+      // NOTE(alex: mm): $$locals are considered internal and non-rooted
+      // Any rooting should be captured by temporary sets
+      if (varName[0] === "$") {
+        return [instr];
+      }
+      const localIndex = locals.get(varName);
+      if (localIndex === undefined) {
+        throw new Error(`ICE(GC pass): Unknown local slot: ${varName}`);
       }
+      return [instr, i32.const(localIndex), local.get(instr.local), call("$$addLocal")];
+    }
 
-      if (!kontinue) {
-        break;
+    case "call":
+      if (instr.func.toString().substring(0, 2) === "$$") {
+        // Internal function
+        return [instr];
       }
+      return [call("$$pushCaller"), instr, call("$$popCaller")];
+
+    case "call_indirect":
+      return [call("$$pushCaller"), instr, call("$$popCaller")];
+
+    case "return": {
+      // returnTemp places the return expr value into the caller's temp set
+      // NOTE(alex:mm): We need to put temporaries and escaping pointers into
+      //   the calling statement's temp frame, not a new one.
+      //
+      // By placing them into the calling statement's temp frame, escaping pointers
+      //   have an opportunity to be rooted without fear of the GC cleaning it up
+      // TODO(alex:mm): instead of relying on escape analysis, we'll just try to
+      //   add the returned value to the parent temp frame
+      const results: Array<Instr> = cfg.main ? [] : [call("$$returnTemp")];
+      return results.concat([call("$$releaseLocals"), instr]);
     }
-  });
 
-  return results;
+    default:
+      return [instr];
+  }
 }
@@ -3,6 +3,8 @@ import {
   Expr,
   UniOp,
   BinOp,
+  DUNDER_BINOPS,
+  NUMERIC_BUILTINS,
   Type,
   Program,
   Literal,
@@ -13,7 +15,9 @@ import {
   Destructure,
   AssignTarget,
   Location,
+  FinallyJump,
   Assignable,
+  ArgumentPath,
 } from "./ast";
 import {
   NUM,
@@ -25,23 +29,54 @@ import {
   unreachable,
   WithTag,
   bigintToWords,
+  STRING_HEADER_SIZE,
+  stringCodePoints,
+  stringKind,
+  stringSize,
+  stringWords,
 } from "./utils";
 import * as BaseException from "./error";
 import { RunTime } from "./errorManager";
 import {
-  MemoryManager,
+  StaticPlan,
   TAG_BIGINT,
   TAG_CLASS,
   TAG_CLOSURE,
   TAG_DICT,
   TAG_DICT_ENTRY,
+  TAG_FLOAT,
+  TAG_GENERATOR,
   TAG_LIST,
-  TAG_OPAQUE,
   TAG_REF,
+  TAG_SET,
   TAG_STRING,
   TAG_TUPLE,
 } from "./alloc";
 import { augmentFnGc } from "./compiler-gc";
+import {
+  block,
+  br,
+  br_if,
+  call,
+  call_indirect,
+  drop,
+  f64,
+  Func,
+  global,
+  FuncType,
+  i32,
+  i32Vars,
+  i64,
+  if_,
+  Instr,
+  local,
+  loop,
+  nop,
+  Param,
+  return_,
+} from "./wasm-ir";
+import { rewriteStmts, shiftLoopDepth } from "./optimize";
+import { EA_DEREF_FIELD, EA_REF_CLASS, EA_REF_SUFFIX } from "./ea";
 import { defaultMaxListeners } from "stream";
 
 // https://learnxinyminutes.com/docs/wasm/
@@ -49,9 +84,13 @@ import { defaultMaxListeners } from "stream";
 // Numbers are offsets into global memory
 export type GlobalEnv = {
   globals: Map<string, number>;
-  classes: Map<string, Map<string, [number, Literal]>>;
+  classes: Map<string, Map<string, [number, Literal]>>; // field offsets in words; 0 is the vtable
   locals: Map<string, number>; // Map from local/param to stack slot index
   funs: Map<string, [number, Array<string>]>; // <function name, [tbl idx, Array of nonlocals]>
+  // <class name, [tbl idx, <method name, [slot, defining class]>]>
+  vtables: Map<string, [number, Map<string, [number, string]>]>;
+  types: Array<Type>; // static types of the values rendered at runtime, see codeGenTypeId
+  arity: number; // the most arguments of the indirect calls of the program, see codeGenCallType
 };
 
 export const emptyEnv: GlobalEnv = {
@@ -59,6 +98,9 @@ export const emptyEnv: GlobalEnv = {
   classes: new Map(),
   locals: new Map(),
   funs: new Map(),
+  vtables: new Map(),
+  types: [],
+  arity: 1,
 };
 
 const FENCE_TEMPS = 2;
@@ -69,17 +111,6 @@ export const nTagBits = 1;
 const INT_LITERAL_MAX = BigInt(2 ** (31 - nTagBits) - 1);
 const INT_LITERAL_MIN = BigInt(-(2 ** (31 - nTagBits)));
 
-export enum ListContentTag {
-  Num = 0,
-  Bool,
-  None,
-  Str,
-  Class,
-  List,
-  Dict,
-  Callable,
-}
-
 enum ListCopyMode {
   Copy = 0,
   Slice,
@@ -87,57 +118,70 @@ enum ListCopyMode {
   Concat,
 }
 
-export const encodeLiteral: Array<string> = [
-  `(i32.const ${nTagBits})`,
-  "(i32.shl)",
-  "(i32.const 1)", // literals are tagged with a 1 in the LSB
-  "(i32.add)",
+export const encodeLiteral: Array<Instr> = [
+  i32.const(nTagBits),
+  i32.shl(),
+  i32.const(1), // literals are tagged with a 1 in the LSB
+  i32.add(),
 ];
 
-export const decodeLiteral: Array<string> = [`(i32.const ${nTagBits})`, "(i32.shr_s)"];
+export const decodeLiteral: Array<Instr> = [i32.const(nTagBits), i32.shr_s()];
 
 export function augmentEnv(
   env: GlobalEnv,
   prog: Program<[Type, Location]>,
-  mm: MemoryManager
+  statics: StaticPlan
 ): GlobalEnv {
   const newGlobals = new Map(env.globals);
   const newClasses = new Map(env.classes);
   const newFuns = new Map(env.funs);
+  const newVtables = new Map(env.vtables);
 
   // set the referenced value to be num since we use i32 in wasm
   const RefMap = new Map<string, [number, Literal]>();
   RefMap.set("$deref", [0, { tag: "num", value: BigInt(0) }]);
   newClasses.set("$ref", RefMap);
 
+  // closures and vtables share the function table
+  // Every class owns at least one slot, so its vtable index identifies its runtime class
   let idx = newFuns.size;
+  newVtables.forEach(([_, methods]) => (idx += Math.max(methods.size, 1)));
   prog.closures.forEach((clo) => {
     newFuns.set(clo.name, [idx, clo.nonlocals]);
     idx += 1;
+    if (clo.generator) {
+      newFuns.set(`${clo.name}$resume`, [idx, []]);
+      idx += 1;
+    }
     if (clo.isGlobal) {
-      const globalAddr = mm.staticAlloc(4n);
+      const globalAddr = statics.staticAlloc(4n);
       newGlobals.set(clo.name, Number(globalAddr));
+      statics.addGlobal(globalAddr);
     }
   });
 
   prog.inits.forEach((v) => {
     // Allocate static memory for the global variable
     // NOTE(alex:mm) assumes that allocations return a 32-bit address
-    const globalAddr = mm.staticAlloc(4n);
-    console.log(`global var '${v.name}' addr: ${globalAddr.toString()}`);
+    const globalAddr = statics.staticAlloc(4n);
     newGlobals.set(v.name, Number(globalAddr));
-    mm.addGlobal(globalAddr);
+    statics.addGlobal(globalAddr);
   });
 
-  // for rg
-  const rgAddr = mm.staticAlloc(4n);
-  newGlobals.set("rg", Number(rgAddr));
-  mm.addGlobal(rgAddr);
-
   prog.classes.forEach((cls) => {
-    const classFields = new Map();
-    cls.fields.forEach((field, i) => classFields.set(field.name, [i, field.value]));
+    // Inherited fields keep their superclass offsets; index 0 holds the vtable
+    const classFields = new Map(newClasses.get(cls.super));
+    cls.fields.forEach((field) => classFields.set(field.name, [classFields.size + 1, field.value]));
     newClasses.set(cls.name, classFields);
+
+    // Overriding methods reuse the slot of the method they override
+    const methods = new Map(newVtables.has(cls.super) ? newVtables.get(cls.super)[1] : []);
+    cls.methods.forEach((method) => {
+      const slot = methods.has(method.name) ? methods.get(method.name)[0] : methods.size;
+      methods.set(method.name, [slot, cls.name]);
+    });
+    newVtables.set(cls.name, [idx, methods]);
+    idx += Math.max(methods.size, 1);
   });
 
   return {
@@ -145,28 +189,168 @@ export function augmentEnv(
     classes: newClasses,
     locals: env.locals,
     funs: newFuns,
+    vtables: newVtables,
+    types: [...env.types],
+    arity: 1, // the runner calls __str__ and __repr__ methods with their receiver
   };
 }
 
 type CompileResult = {
-  functions: string;
-  mainSource: string;
+  functions: Array<Func>;
+  main: Func; // the top level of the program
   newEnv: GlobalEnv;
 };
 
-export function makeLocals(locals: Set<string>): Array<string> {
-  const localDefines: Array<string> = [];
-  locals.forEach((v) => {
-    localDefines.push(`(local $${v} i32)`);
+export function makeLocals(locals: Set<string>): Array<Param> {
+  return i32Vars(...Array.from(locals, (v) => `$${v}`));
+}
+
+// The set and current hashtable entry of a `for` loop over a set, unique to each loop
+function setForCursor(loc: Location): [string, string] {
+  return [`$set_for_base_${loc.line}_${loc.col}`, `$set_for_node_${loc.line}_${loc.col}`];
+}
+
+// The Range object of a `for` loop over a range, unique to each loop
+function rangeForCursor(loc: Location): string {
+  return `$range_for_${loc.line}_${loc.col}`;
+}
+
+// The generator of a `for` loop over a generator, unique to each loop
+function generatorForCursor(loc: Location): string {
+  return `$gen_for_${loc.line}_${loc.col}`;
+}
+
+// The locals that keep the position of a `for` loop in its iterable
+function forCursors(stmt: WithTag<Stmt<[Type, Location]>, "for">): Array<string> {
+  switch (stmt.iterable.a[0].tag) {
+    case "set":
+      return setForCursor(stmt.a[1]);
+    case "generator":
+      return [generatorForCursor(stmt.a[1])];
+    default:
+      return [rangeForCursor(stmt.a[1])];
+  }
+}
+
+// The depth of the temporary frames when a `try` statement was entered, unique to each statement
+function tryTempsDepth(loc: Location): string {
+  return `$try_temps_${loc.line}_${loc.col}`;
+}
+
+// The jump that left a `try` statement through its `finally` block and the value it returns,
+// unique to each statement
+function tryJumpLocals(loc: Location): [string, string] {
+  return [`$try_jump_${loc.line}_${loc.col}`, `$try_ret_${loc.line}_${loc.col}`];
+}
+
+// The label of the block that the `finally` block of a `try` statement follows
+function tryFinallyLabel(loc: Location): string {
+  return `$$try_finally_${loc.line}_${loc.col}`;
+}
+
+// The object and key of the target of an augmented assignment, unique to each statement
+function augAssignLocals(loc: Location): [string, string] {
+  return [`$aug_obj_${loc.line}_${loc.col}`, `$aug_key_${loc.line}_${loc.col}`];
+}
+
+// Collects the locals of compound statements in a function body: the cursors of `for` loops,
+// the target of augmented assignments, and the temporary frame depth, caught exception and
+// jump through `finally` of `try` statements
+function stmtLocals(stmts: Array<Stmt<[Type, Location]>>): Array<string> {
+  return stmts
+    .map((stmt) => {
+      switch (stmt.tag) {
+        case "if":
+          return [...stmtLocals(stmt.thn), ...stmtLocals(stmt.els)];
+        case "while":
+          return stmtLocals(stmt.body);
+        case "for":
+          return [...forCursors(stmt), ...stmtLocals(stmt.body)];
+        case "aug-assign":
+          return augAssignLocals(stmt.a[1]);
+        case "try":
+          return [
+            tryTempsDepth(stmt.a[1]),
+            stmt.caught,
+            ...(stmt.finalbody.length > 0 ? tryJumpLocals(stmt.a[1]) : []),
+            ...stmtLocals(stmt.body),
+            ...stmt.handlers.map((handler) => stmtLocals(handler.body)).flat(),
+            ...stmtLocals(stmt.els),
+            ...stmtLocals(stmt.finalbody),
+          ];
+        default:
+          return [];
+      }
+    })
+    .flat();
+}
+
+// The container built by a comprehension, unique to each comprehension
+function comprehensionResult(loc: Location): string {
+  return `$comp_result_${loc.line}_${loc.col}`;
+}
+
+// The iterable and the position in it of the `for` clause at `clause` in a comprehension
+function comprehensionCursor(loc: Location, clause: number): [string, string] {
+  const suffix = `${loc.line}_${loc.col}_${clause}`;
+  return [`$comp_iter_${suffix}`, `$comp_index_${suffix}`];
+}
+
+// The closure called by a call whose callee is computed, unique to each call
+function calleeLocal(loc: Location): string {
+  return `$callee_${loc.line}_${loc.col}_${loc.length}`;
+}
+
+// The operand at `i` of a chain of comparisons, unique to each chain
+function compareChainOperand(loc: Location, i: number): string {
+  return `$chain_${loc.line}_${loc.col}_${loc.length}_${i}`;
+}
+
+// The argument written at `k` in a call that runs its arguments out of the order of the
+// parameters, unique to each call
+function callArgument(loc: Location, k: number): string {
+  return `$arg_${loc.line}_${loc.col}_${loc.length}_${k}`;
+}
+
+// Collects the locals of the expressions in a function body: the result of comprehensions, the
+// cursors of their `for` clauses and the variables bound by those clauses, computed callees, the
+// operands of chains of comparisons and the arguments of calls saved in the order they were written
+function exprLocals(stmts: Array<Stmt<[Type, Location]>>): Array<string> {
+  const found: Array<string> = [];
+  rewriteStmts(stmts, {
+    expr: (e) => {
+      if (
+        (e.tag === "call_expr" || e.tag === "method-call" || e.tag === "construct") &&
+        e.evalOrder !== undefined
+      ) {
+        found.push(...e.evalOrder.map((_, k) => callArgument(e.a[1], k)));
+      }
+      if (e.tag === "call_expr" && e.name.tag !== "id" && e.name.tag !== "lookup") {
+        found.push(calleeLocal(e.a[1]));
+      } else if (e.tag === "compare-chain") {
+        found.push(...e.operands.map((_, i) => compareChainOperand(e.a[1], i)));
+      } else if (e.tag === "comprehension") {
+        found.push(comprehensionResult(e.a[1]));
+        e.clauses.forEach((clause, i) => {
+          found.push(...comprehensionCursor(e.a[1], i), clause.name);
+        });
+      }
+      return e;
+    },
   });
-  return localDefines;
+  return found;
 }
 
 //Any built-in WASM functions go here
-export function libraryFuns(): string {
-  var libfunc = dictUtilFuns().join("\n");
-  libfunc += "\n" + listBuiltInFuns().join("\n");
-  return libfunc;
+export function libraryFuns(): Array<Func> {
+  return [
+    ...dictUtilFuns(),
+    ...listBuiltInFuns(),
+    ...stringBuiltInFuns(),
+    ...setUtilFuns(),
+    ...membershipFuns(),
+    ...floatFuns(),
+  ];
 }
 
 export function makeId<A>(a: A, x: string): Destructure<A> {
@@ -201,45 +385,48 @@ export function makeLookup<A>(a: A, obj: Expr<A>, field: string): Destructure<A>
   };
 }
 
+const LIST_LOCALS = [
+  "$list_base",
+  "$list_index",
+  "$list_index2",
+  "$list_temp",
+  "$list_size",
+  "$list_bound",
+  "$list_cmp",
+  "$list_cmp2",
+];
+
 export function compile(
   ast: Program<[Type, Location]>,
   env: GlobalEnv,
-  mm: MemoryManager
+  statics: StaticPlan
 ): CompileResult {
-  const withDefines = augmentEnv(env, ast, mm);
+  const withDefines = augmentEnv(env, ast, statics);
 
   let stackIndexOffset = 0; // NOTE(alex:mm): assumes start function has no params
   const definedVars: Set<string> = new Set(); //getLocals(ast);
   definedVars.add("$last");
   definedVars.add("$allocPointer"); // Used to cache the result of `gcalloc`
   definedVars.add("$addr"); // address of the allocated memory
-  definedVars.add("$list_base");
-  definedVars.add("$list_index");
-  definedVars.add("$list_index2");
-  definedVars.add("$list_temp");
-  definedVars.add("$list_size");
-  definedVars.add("$list_bound");
-  definedVars.add("$list_cmp");
-  definedVars.add("$list_cmp2");
+  LIST_LOCALS.forEach((v) => definedVars.add(v)); // needed for list literals and operations
   definedVars.add("$destruct");
   definedVars.add("$destructListOffset");
+  definedVars.add("$gen_next"); // generator resumed by `next`
   definedVars.add("$string_val"); //needed for string operations
   definedVars.add("$string_class"); //needed for strings in class
   definedVars.add("$string_index"); //needed for string index check out of bounds
   definedVars.add("$string_address"); //needed for string indexing
-  definedVars.forEach((v) => {
-    env.locals.set(v, stackIndexOffset);
-    stackIndexOffset += 1;
-  });
+  stmtLocals(ast.stmts).forEach((v) => definedVars.add(v)); // locals of compound statements
+  exprLocals(ast.stmts).forEach((v) => definedVars.add(v));
   const localDefines = makeLocals(definedVars);
 
-  const funs: Array<string> = [];
+  const funs: Array<Func> = [];
   ast.funs.forEach((f) => {
-    funs.push(codeGenFunDef(f, withDefines).join("\n"));
+    funs.push(codeGenFunDef(f, withDefines));
   });
 
   ast.closures.forEach((clo) => {
-    funs.push(codeGenClosureDef(clo, withDefines).join("\n"));
+    funs.push(...codeGenClosureDef(clo, withDefines));
   });
 
   const globalFuns: Array<string> = [];
@@ -250,13 +437,18 @@ export function compile(
   });
   const initFuns = initGlobalFuns(globalFuns, withDefines);
 
-  const classes: Array<string> = ast.classes.map((cls) => codeGenClass(cls, withDefines)).flat();
-  const allFuns = funs.concat(classes).join("\n\n");
+  const classes: Array<Func> = ast.classes.map((cls) => codeGenClass(cls, withDefines)).flat();
+  const allFuns = funs.concat(classes);
   // const stmts = ast.filter((stmt) => stmt.tag !== "fun");
 
+  // Functions and methods clear the locals once generated, so the locals of main are set last
+  definedVars.forEach((v) => {
+    env.locals.set(v, stackIndexOffset);
+    stackIndexOffset += 1;
+  });
   const inits = ast.inits.map((init) => codeGenInit(init, withDefines)).flat();
   const commandGroups = ast.stmts.map((stmt) => codeGenStmt(stmt, withDefines));
-  const commands = localDefines.concat(initFuns.concat(inits.concat(...commandGroups)));
+  const commands = [block("$$unwind", initFuns.concat(inits.concat(...commandGroups)))];
   const augmentedCommands = augmentFnGc(commands, withDefines.locals, {
     main: true,
     debug: {
@@ -265,23 +457,24 @@ export function compile(
   });
   withDefines.locals.clear();
 
+  // the indirect calls of the program are all generated by now
   return {
-    functions: allFuns,
-    mainSource: augmentedCommands.join("\n"),
+    functions: dispatchFuns(withDefines.arity).concat(allFuns),
+    main: { params: [], results: [], locals: localDefines, body: augmentedCommands },
     newEnv: withDefines,
   };
 }
 
-function initGlobalFuns(funs: Array<string>, env: GlobalEnv): Array<string> {
-  const inits: Array<string> = [];
+function initGlobalFuns(funs: Array<string>, env: GlobalEnv): Array<Instr> {
+  const inits: Array<Instr> = [];
   funs.forEach((fun) => {
     let fun_info = env.funs.get(fun);
     let idx = fun_info[0];
     let length = fun_info[1].length;
     let loc = envLookup(env, fun);
     inits.push(...myMemAlloc(`$$addr`, length + 1, true));
-    inits.push(`(i32.store (local.get $$addr) (i32.const ${idx})) ;; function idx`);
-    inits.push(`(i32.store (i32.const ${loc}) (local.get $$addr)) ;; global function reference`);
+    inits.push(local.get("$$addr"), i32.const(idx), i32.store()); // function idx
+    inits.push(i32.const(loc), local.get("$$addr"), i32.store()); // global function reference
   });
 
   // global functions have no nonlocals, assert length == 0
@@ -291,37 +484,48 @@ function initGlobalFuns(funs: Array<string>, env: GlobalEnv): Array<string> {
 function envLookup(env: GlobalEnv, name: string): number {
   //if(!env.globals.has(name)) { console.log("Could not find " + name + " in ", env); throw new Error("Could not find name " + name); }
   if (!env.globals.has(name)) {
-    console.log("Could not find " + name + " in ", env);
     throw new BaseException.InternalException(
-      "Report this as a bug to the compiler developer, this shouldn't happen "
+      `Report this as a bug to the compiler developer, this shouldn't happen (could not find ${name})`
     );
   }
   // NOTE(alex:mm): ADDRESS of the global variable is store in the environment
   return env.globals.get(name);
 }
 
-function codeGenStmt(stmt: Stmt<[Type, Location]>, env: GlobalEnv): Array<string> {
+function codeGenStmt(stmt: Stmt<[Type, Location]>, env: GlobalEnv): Array<Instr> {
   switch (stmt.tag) {
     case "return":
+      if (stmt.finally !== undefined) {
+        const [_, retLocal] = tryJumpLocals(stmt.finally);
+        return [
+          ...codeGenTempGuard(
+            [...codeGenExpr(stmt.value, env), local.set(`$${retLocal}`)],
+            FENCE_TEMPS
+          ),
+          ...codeGenLeave(stmt.finally, "return"),
+        ];
+      }
       var valStmts = codeGenTempGuard(codeGenExpr(stmt.value, env), FENCE_TEMPS);
-      valStmts.push("(return)");
+      valStmts.push(return_());
       return valStmts;
     case "assignment":
       const valueCode = codeGenExpr(stmt.value, env);
-      const getValue = "(local.get $$destruct)";
+      const getValue = [local.get("$$destruct")];
 
       // TODO(alex): make more granular?
       return codeGenTempGuard(
         [
           ...valueCode,
-          "(local.set $$destruct)",
+          local.set("$$destruct"),
           ...codeGenDestructure(stmt.destruct, getValue, env),
         ],
         FENCE_TEMPS
       );
+    case "aug-assign":
+      return codeGenTempGuard(codeGenAugAssign(stmt, env), FENCE_TEMPS);
     case "expr":
       var exprStmts = codeGenExpr(stmt.expr, env);
-      return codeGenTempGuard(exprStmts.concat([`(local.set $$last)`]), FENCE_TEMPS);
+      return codeGenTempGuard(exprStmts.concat([local.set("$$last")]), FENCE_TEMPS);
     case "if":
       // TODO(alex:mm): Are these temporary guards correct/minimal?
       var condExpr = codeGenTempGuard(
@@ -330,182 +534,594 @@ function codeGenStmt(stmt: Stmt<[Type, Location]>, env: GlobalEnv): Array<string
       );
       var thnStmts = stmt.thn.map((innerStmt) => codeGenStmt(innerStmt, env)).flat();
       var elsStmts = stmt.els.map((innerStmt) => codeGenStmt(innerStmt, env)).flat();
-      return condExpr
-        .concat(["(if (then"])
-        .concat(thnStmts)
-        .concat([")", "(else"])
-        .concat(elsStmts)
-        .concat(["))"]);
+      return condExpr.concat([if_(thnStmts, elsStmts)]);
     case "while":
       var wcondExpr = codeGenTempGuard(
         codeGenExpr(stmt.cond, env).concat(decodeLiteral),
         FENCE_TEMPS
       );
       var bodyStmts = stmt.body.map((innerStmt) => codeGenStmt(innerStmt, env)).flat();
-      return ["(block (loop (br_if 1"]
-        .concat(wcondExpr)
-        .concat(["(i32.eqz))"])
-        .concat(bodyStmts)
-        .concat(["(br 0) ))"]);
+      return [block([loop([...wcondExpr, i32.eqz(), br_if(1), ...bodyStmts, br(0)])])];
     case "for":
       var bodyStmts = stmt.body.map((innerStmt) => codeGenStmt(innerStmt, env)).flat();
-      var iter = codeGenExpr(stmt.iterable, env);
-
-      var rgExpr: Expr<[Type, Location]> = {
-        a: [CLASS("Range"), stmt.a[1]],
-        tag: "id",
-        name: "rg",
-      };
-      var Expr_cur: Expr<[Type, Location]> = {
-        a: [NUM, stmt.a[1]],
-        tag: "lookup",
-        obj: rgExpr,
-        field: "cur",
-      };
-      var Code_cur = codeGenExpr(Expr_cur, env);
-
-      var Expr_stop: Expr<[Type, Location]> = {
-        a: [NUM, stmt.a[1]],
-        tag: "lookup",
-        obj: rgExpr,
-        field: "stop",
-      };
-      var Code_stop = codeGenExpr(Expr_stop, env);
-
-      var Expr_step: Expr<[Type, Location]> = {
-        a: [NUM, stmt.a[1]],
-        tag: "lookup",
-        obj: rgExpr,
-        field: "step",
-      };
-      var Code_step_expr = codeGenExpr(Expr_step, env);
-
-      // name = cur
-      var ass: Stmt<[Type, Location]> = {
-        a: [NONE, stmt.a[1]],
-        tag: "assignment",
-        destruct: makeId([NUM, stmt.a[1]], stmt.name),
-        value: Expr_cur,
-      };
-      var Code_ass = codeGenStmt(ass, env);
-
-      // add step to cur
-      var ncur: Expr<[Type, Location]> = {
-        a: [NUM, stmt.a[1]],
-        tag: "binop",
-        op: BinOp.Plus,
-        left: Expr_cur,
-        right: Expr_step,
-      };
-      var step: Stmt<[Type, Location]> = {
-        a: rgExpr.a,
-        tag: "assignment",
-        destruct: makeLookup(rgExpr.a, rgExpr, "cur"),
-        value: ncur,
-      };
-      var Code_step = codeGenStmt(step, env);
-
-      // stop condition cur<step
-      var Expr_cond: Expr<[Type, Location]> = {
-        a: [BOOL, stmt.a[1]],
-        tag: "binop",
-        op: BinOp.Gte,
-        left: Expr_cur,
-        right: Expr_stop,
-      };
-      var Code_cond = codeGenExpr(Expr_cond, env);
-
-      // if have index
-      if (stmt.index) {
-        var iass: Stmt<[Type, Location]> = {
-          a: [NONE, stmt.a[1]],
-          tag: "assignment",
-          destruct: makeId([NUM, stmt.a[1]], stmt.index),
-          value: { a: [NUM, stmt.a[1]], tag: "literal", value: { tag: "num", value: BigInt(0) } },
-        };
-        var Code_iass = codeGenStmt(iass, env);
-
-        var nid: Expr<[Type, Location]> = {
-          a: [NUM, stmt.a[1]],
-          tag: "binop",
-          op: BinOp.Plus,
-          left: { a: [NUM, stmt.a[1]], tag: "id", name: stmt.index },
-          right: { a: [NUM, stmt.a[1]], tag: "literal", value: { tag: "num", value: BigInt(1) } },
-        };
-        var niass: Stmt<[Type, Location]> = {
-          a: [NONE, stmt.a[1]],
-          tag: "assignment",
-          destruct: makeId([NUM, stmt.a[1]], stmt.index),
-          value: nid,
-        };
-        var Code_idstep = codeGenStmt(niass, env);
-        // iterable should be a Range object
-        return codeGenTempGuard(
+      const [forStart, forNext] = codeGenForParts(stmt, env);
+      return codeGenTempGuard(
+        [...forStart, block("$$for_end", [loop([...forNext, ...bodyStmts, br(0)])])],
+        FENCE_TEMPS
+      );
+    case "pass":
+      return [];
+    case "break":
+    case "continue":
+      if (stmt.finally !== undefined) return codeGenLeave(stmt.finally, stmt.tag);
+      // break to depth
+      return [br(stmt.depth)];
+    case "try":
+      return codeGenTry(stmt, env);
+    case "raise":
+      return [
+        ...codeGenTempGuard(
           [
-            `(i32.const ${envLookup(env, "rg")})`,
-            ...iter,
-            `(i32.store)`,
-            ...Code_iass,
-            "(block",
-            "(loop",
-            ...Code_step,
-            ...Code_idstep,
-            ...["(bf_if 1", ...Code_cond, ...decodeLiteral, "))"],
-            ...Code_ass,
-            ...bodyStmts,
-            "(br 0)",
-            "))",
+            ...codeGenExpr(stmt.value, env),
+            ...codeGenPushStack(stmt.a[1]),
+            call("$$exc_raise"),
+            ...codeGenPopStack(),
           ],
           FENCE_TEMPS
-        );
-      }
-      // iterable should be a Range object
-      // test
-      // ${Code_cond.join("\n")}(call $print_bool)(local.set $$last)
-      // ${Code_cur.join("\n")}(call $print_num)(local.set $$last)
-      // ${Code_stop.join("\n")}(call $print_num)(local.set $$last)
-      // ${Code_step_expr.join("\n")}(call $print_num)(local.set $$last)
+        ),
+        br("$$unwind"),
+      ];
+    case "assert":
+      const assertMsg = stmt.msg === undefined ? [i32.const(0)] : codeGenExpr(stmt.msg, env);
       return codeGenTempGuard(
         [
-          `(i32.const ${envLookup(env, "rg")})`,
-          ...iter,
-          `(i32.store)`,
-          `(block`,
-          `  (loop`,
-          ...Code_step,
-          ...[`(br_if 1 `, ...Code_cond, ...decodeLiteral, ")"],
-          ...Code_ass,
-          ...bodyStmts,
-          `(br 0)`,
-          `))`,
+          ...codeGenExpr(stmt.cond, env),
+          ...decodeLiteral,
+          i32.eqz(),
+          if_([...assertMsg, ...codeGenCall(stmt.a[1], call("$$assert_failed"))]),
         ],
         FENCE_TEMPS
       );
-    case "pass":
-      return [];
-    case "break":
-      // break to depth
-      return [`(br ${stmt.depth})`];
-    case "continue":
-      console.log(stmt);
-      return [`(br ${stmt.depth})`];
+    case "del":
+      return codeGenTempGuard(
+        stmt.targets.map((target) => codeGenDel(target, env)).flat(),
+        FENCE_TEMPS
+      );
     default:
       unhandledTag(stmt);
   }
 }
 
+const FINALLY_JUMPS: Array<FinallyJump> = ["return", "break", "continue"];
+
+// Leaves a `try` statement by its `finally` block, which then goes on with the jump
+function codeGenLeave(loc: Location, jump: FinallyJump): Array<Instr> {
+  const [jumpLocal] = tryJumpLocals(loc);
+  return [
+    i32.const(FINALLY_JUMPS.indexOf(jump) + 1),
+    local.set(`$${jumpLocal}`),
+    br(tryFinallyLabel(loc)),
+  ];
+}
+
+// Exceptions raised in the body unwind to the end of its `$$unwind` block, where the handlers
+// are tried in order. The exception stays pending when no handler matches, and is raised
+// again once the `finally` block ran. `finally` runs with the exception set aside; the
+// handlers, the `else` block and `finally` get their own `$$unwind` block so that it also runs
+// when they raise.
+//
+// A `return`, `break` or `continue` that leaves the statement records itself in its jump local
+// and goes to the `finally` block, which goes on with it unless it raised. The returned value
+// stays in a temporary frame of the statement meanwhile.
+function codeGenTry(stmt: WithTag<Stmt<[Type, Location]>, "try">, env: GlobalEnv): Array<Instr> {
+  const tempsDepth = tryTempsDepth(stmt.a[1]);
+  const label = tryFinallyLabel(stmt.a[1]);
+  const hasFinally = stmt.finalbody.length > 0;
+  const guardFinally = (code: Array<Instr>) => (hasFinally ? [block("$$unwind", code)] : code);
+  const codeGenBlock = (stmts: Array<Stmt<[Type, Location]>>) =>
+    stmts.map((innerStmt) => codeGenStmt(innerStmt, env)).flat();
+
+  const handlers = stmt.handlers
+    .map((handler) => {
+      // a bare `except` matches every exception
+      const tblIdx = handler.type === undefined ? -1 : env.vtables.get(handler.type)[0];
+      return [
+        i32.const(tblIdx),
+        call("$$exc_match"),
+        if_([
+          call("$$exc_catch"),
+          call("$$addTemp"),
+          local.set(`$${stmt.caught}`),
+          ...guardFinally(codeGenBlock(handler.body)),
+          br(label),
+        ]),
+      ];
+    })
+    .flat();
+  const [jumpLocal, retLocal] = tryJumpLocals(stmt.a[1]);
+  const jumps = stmt.jumps === undefined ? [] : stmt.jumps;
+  const startJumps =
+    jumps.length > 0
+      ? [i32.const(0), local.set(`$${jumpLocal}`), i32.const(0), local.set(`$${retLocal}`)]
+      : [];
+  const finalbody = hasFinally
+    ? [
+        // a jump may leave the temporary frames of the statements it left behind
+        ...(jumps.length > 0
+          ? [
+              local.get(`$${tempsDepth}`),
+              call("$$unwindTemps"),
+              local.get(`$${retLocal}`),
+              call("$$addTemp"),
+              drop(),
+            ]
+          : []),
+        call("$$exc_stash"),
+        block("$$unwind", codeGenBlock(stmt.finalbody)),
+        call("$$exc_restore"),
+      ]
+    : [];
+  const goOn = (jump: FinallyJump): Array<Instr> => {
+    if (jump === "return") {
+      if (stmt.outerReturn === undefined) return [local.get(`$${retLocal}`), return_()];
+      const [_, outerRet] = tryJumpLocals(stmt.outerReturn);
+      return [
+        local.get(`$${retLocal}`),
+        local.set(`$${outerRet}`),
+        ...codeGenLeave(stmt.outerReturn, jump),
+      ];
+    }
+    if (stmt.outerLoop !== undefined) return codeGenLeave(stmt.outerLoop, jump);
+    // inside the `if` below, one block deeper than the statement
+    return [br(jump === "break" ? stmt.loopDepth + 1 : stmt.loopDepth)];
+  };
+  const dispatch = jumps
+    .map((jump) => [
+      local.get(`$${jumpLocal}`),
+      i32.const(FINALLY_JUMPS.indexOf(jump) + 1),
+      i32.eq(),
+      if_(goOn(jump)),
+    ])
+    .flat();
+  return [
+    ...codeGenTempGuard(
+      [
+        ...startJumps,
+        call("$$tempsDepth"),
+        local.set(`$${tempsDepth}`),
+        block(label, [
+          block("$$try_else", [
+            block("$$unwind", [...codeGenBlock(stmt.body), br("$$try_else")]),
+            local.get(`$${tempsDepth}`),
+            call("$$unwindTemps"),
+            ...handlers,
+            br(label),
+          ]),
+          ...guardFinally(codeGenBlock(stmt.els)),
+        ]),
+        ...finalbody,
+        ...codeGenUnwind,
+      ],
+      FENCE_TEMPS
+    ),
+    ...dispatch,
+  ];
+}
+
+// The loop variable of a `for` loop, assigned through its reference in a closure
+function forTarget(
+  name: string,
+  typ: Type,
+  loc: Location,
+  env: GlobalEnv
+): Destructure<[Type, Location]> {
+  const ref = name + EA_REF_SUFFIX;
+  if (!env.locals.has(ref)) {
+    return makeId([typ, loc], name);
+  }
+  return makeLookup(
+    [typ, loc],
+    { a: [CLASS(EA_REF_CLASS), loc], tag: "id", name: ref },
+    EA_DEREF_FIELD
+  );
+}
+
+/**
+ * Splits a `for` loop into the code that stores the iterable in the cursor of the loop, and the
+ * code that starts each iteration: it advances the cursor, leaves the loop through `$$for_end`
+ * once the iterable is exhausted and assigns the loop variable.
+ */
+function codeGenForParts(
+  stmt: WithTag<Stmt<[Type, Location]>, "for">,
+  env: GlobalEnv
+): [Array<Instr>, Array<Instr>] {
+  switch (stmt.iterable.a[0].tag) {
+    case "set":
+      return codeGenSetForParts(stmt, env);
+    case "generator":
+      return codeGenGeneratorForParts(stmt, env);
+    default:
+      return codeGenRangeForParts(stmt, env);
+  }
+}
+
+function codeGenRangeForParts(
+  stmt: WithTag<Stmt<[Type, Location]>, "for">,
+  env: GlobalEnv
+): [Array<Instr>, Array<Instr>] {
+  const cursor = rangeForCursor(stmt.a[1]);
+  var iter = codeGenExpr(stmt.iterable, env);
+
+  var rgExpr: Expr<[Type, Location]> = {
+    a: [CLASS("Range"), stmt.a[1]],
+    tag: "id",
+    name: cursor,
+  };
+  var Expr_cur: Expr<[Type, Location]> = {
+    a: [NUM, stmt.a[1]],
+    tag: "lookup",
+    obj: rgExpr,
+    field: "cur",
+  };
+
+  var Expr_stop: Expr<[Type, Location]> = {
+    a: [NUM, stmt.a[1]],
+    tag: "lookup",
+    obj: rgExpr,
+    field: "stop",
+  };
+
+  var Expr_step: Expr<[Type, Location]> = {
+    a: [NUM, stmt.a[1]],
+    tag: "lookup",
+    obj: rgExpr,
+    field: "step",
+  };
+
+  // name = cur
+  var ass: Stmt<[Type, Location]> = {
+    a: [NONE, stmt.a[1]],
+    tag: "assignment",
+    destruct: forTarget(stmt.name, NUM, stmt.a[1], env),
+    value: Expr_cur,
+  };
+  var Code_ass = codeGenStmt(ass, env);
+
+  // add step to cur
+  var ncur: Expr<[Type, Location]> = {
+    a: [NUM, stmt.a[1]],
+    tag: "binop",
+    op: BinOp.Plus,
+    left: Expr_cur,
+    right: Expr_step,
+  };
+  var step: Stmt<[Type, Location]> = {
+    a: rgExpr.a,
+    tag: "assignment",
+    destruct: makeLookup(rgExpr.a, rgExpr, "cur"),
+    value: ncur,
+  };
+  var Code_step = codeGenStmt(step, env);
+
+  // stop condition cur<step
+  var Expr_cond: Expr<[Type, Location]> = {
+    a: [BOOL, stmt.a[1]],
+    tag: "binop",
+    op: BinOp.Gte,
+    left: Expr_cur,
+    right: Expr_stop,
+  };
+  var Code_cond = codeGenExpr(Expr_cond, env);
+
+  // iterable should be a Range object
+  const start = [...iter, local.set(`$${cursor}`)];
+  const exit = [...Code_cond, ...decodeLiteral, br_if("$$for_end")];
+
+  // if have index
+  if (stmt.index) {
+    var iass: Stmt<[Type, Location]> = {
+      a: [NONE, stmt.a[1]],
+      tag: "assignment",
+      destruct: forTarget(stmt.index, NUM, stmt.a[1], env),
+      value: { a: [NUM, stmt.a[1]], tag: "literal", value: { tag: "num", value: BigInt(0) } },
+    };
+    var Code_iass = codeGenStmt(iass, env);
+
+    var nid: Expr<[Type, Location]> = {
+      a: [NUM, stmt.a[1]],
+      tag: "binop",
+      op: BinOp.Plus,
+      left: forTarget(stmt.index, NUM, stmt.a[1], env).targets[0].target,
+      right: { a: [NUM, stmt.a[1]], tag: "literal", value: { tag: "num", value: BigInt(1) } },
+    };
+    var niass: Stmt<[Type, Location]> = {
+      a: [NONE, stmt.a[1]],
+      tag: "assignment",
+      destruct: forTarget(stmt.index, NUM, stmt.a[1], env),
+      value: nid,
+    };
+    var Code_idstep = codeGenStmt(niass, env);
+    return [
+      [...start, ...Code_iass],
+      [...Code_step, ...Code_idstep, ...exit, ...Code_ass],
+    ];
+  }
+  return [start, [...Code_step, ...exit, ...Code_ass]];
+}
+
+function codeGenSetForParts(
+  stmt: WithTag<Stmt<[Type, Location]>, "for">,
+  env: GlobalEnv
+): [Array<Instr>, Array<Instr>] {
+  const [base, node] = setForCursor(stmt.a[1]);
+  const setType = stmt.iterable.a[0] as WithTag<Type, "set">;
+  // name = key of the current entry
+  var Code_ass = codeGenDestructure(
+    forTarget(stmt.name, setType.content_type, stmt.a[1], env),
+    [local.get(`$${node}`), i32.load()],
+    env
+  );
+  return [
+    [
+      ...codeGenExpr(stmt.iterable, env),
+      local.set(`$${base}`),
+      ...codeGenRuntimeCheck(stmt.a[1], [local.get(`$${base}`)], RunTime.CHECK_NONE_LOOKUP),
+      // NOTE: the set stays rooted even if the loop body reassigns its variable
+      local.get(`$${base}`),
+      call("$$addTemp"),
+      drop(),
+      i32.const(0),
+      local.set(`$${node}`),
+    ],
+    [
+      local.get(`$${base}`),
+      local.get(`$${node}`),
+      codeGenSetMode([setType.content_type]),
+      call("$set$next"),
+      local.set(`$${node}`),
+      local.get(`$${node}`),
+      i32.eqz(),
+      br_if("$$for_end"),
+      ...Code_ass,
+    ],
+  ];
+}
+
+// Each iteration resumes the generator, and the loop ends once its frame is marked as done
+function codeGenGeneratorForParts(
+  stmt: WithTag<Stmt<[Type, Location]>, "for">,
+  env: GlobalEnv
+): [Array<Instr>, Array<Instr>] {
+  const gen = generatorForCursor(stmt.a[1]);
+  const genType = stmt.iterable.a[0] as WithTag<Type, "generator">;
+  return [
+    [
+      ...codeGenExpr(stmt.iterable, env),
+      local.set(`$${gen}`),
+      ...codeGenRuntimeCheck(stmt.a[1], [local.get(`$${gen}`)], RunTime.CHECK_NONE_LOOKUP),
+      // NOTE: the generator stays rooted even if the loop body reassigns its variable
+      local.get(`$${gen}`),
+      call("$$addTemp"),
+      drop(),
+    ],
+    [
+      ...codeGenTempGuard(
+        [...codeGenResume(stmt.a[1], local.get(`$${gen}`)), local.set("$$destruct")],
+        FENCE_TEMPS
+      ),
+      local.get(`$${gen}`),
+      i32.load(4),
+      i32.const(0),
+      i32.lt_s(),
+      br_if("$$for_end"),
+      ...codeGenDestructure(
+        forTarget(stmt.name, genType.content_type, stmt.a[1], env),
+        [local.get("$$destruct")],
+        env
+      ),
+    ],
+  ];
+}
+
+// Binds the variable of a comprehension clause to the item on the stack. It is also stored where the
+// lambdas capturing it read it: in its reference in functions, and in its global at the top level
+function codeGenBindClause(name: string, env: GlobalEnv): Array<Instr> {
+  const bind = [local.set(`$${name}`)];
+  if (env.locals.has(`${name}_$ref`)) {
+    bind.push(local.get(`$${name}_$ref`), local.get(`$${name}`), i32.store());
+  } else if (env.globals.has(name)) {
+    bind.push(i32.const(envLookup(env, name)), local.get(`$${name}`), i32.store());
+  }
+  return bind;
+}
+
+/**
+ * A comprehension is a loop nest, one loop per `for` clause, that adds the element to the
+ * result in its innermost loop. An `if` clause that does not hold continues its loop.
+ * The iterables are rooted in the temporary frame of the enclosing statement, like the result.
+ */
+function codeGenComprehension(
+  expr: WithTag<Expr<[Type, Location]>, "comprehension">,
+  env: GlobalEnv
+): Array<Instr> {
+  const result = comprehensionResult(expr.a[1]);
+  let init: Array<Instr>;
+  let add: Array<Instr>;
+  switch (expr.kind) {
+    case "list":
+      const empty: Expr<[Type, Location]> = { a: expr.a, tag: "list-expr", contents: [] };
+      init = codeGenExpr(empty, env);
+      add = [
+        local.get(`$${result}`),
+        ...codeGenExpr(expr.expr, env),
+        call("$$list$append"),
+        local.set(`$${result}`),
+      ];
+      break;
+    case "set":
+      init = [call("$set$new")];
+      add = [
+        local.get(`$${result}`),
+        ...codeGenExpr(expr.expr, env),
+        codeGenSetMode([setElemType(expr.a[0]), expr.expr.a[0]]),
+        call("$set$add"),
+        drop(),
+      ];
+      break;
+    case "dict":
+      init = codeGenDictAlloc(10, env, 0);
+      add = [
+        local.get(`$${result}`),
+        ...codeGenDictKeyVal(expr.expr, codeGenExpr(expr.value, env), 10, env),
+      ];
+      break;
+  }
+
+  const loops = expr.clauses.reduceRight((inner, clause, i) => {
+    const [iter, index] = comprehensionCursor(expr.a[1], i);
+    let start: Array<Instr>;
+    let next: Array<Instr>;
+    switch (clause.iter.a[0].tag) {
+      case "list":
+        start = [i32.const(0), local.set(`$${index}`)];
+        next = [
+          local.get(`$${index}`),
+          local.get(`$${iter}`),
+          i32.const(4),
+          i32.add(),
+          i32.load(),
+          i32.ge_s(),
+          br_if(1),
+          local.get(`$${iter}`),
+          i32.const(12),
+          local.get(`$${index}`),
+          i32.const(4),
+          i32.mul(),
+          i32.add(),
+          i32.add(),
+          i32.load(),
+          ...codeGenBindClause(clause.name, env),
+          local.get(`$${index}`),
+          i32.const(1),
+          i32.add(),
+          local.set(`$${index}`),
+        ];
+        break;
+      case "set":
+        start = [i32.const(0), local.set(`$${index}`)];
+        next = [
+          local.get(`$${iter}`),
+          local.get(`$${index}`),
+          codeGenSetMode([setElemType(clause.iter.a[0])]),
+          call("$set$next"),
+          local.set(`$${index}`),
+          local.get(`$${index}`),
+          i32.eqz(),
+          br_if(1),
+          local.get(`$${index}`),
+          i32.load(),
+          ...codeGenBindClause(clause.name, env),
+        ];
+        break;
+      default:
+        // a Range: the position is the current number, which counts up to `stop` when the step
+        // is positive and down to it otherwise
+        const field = (offset: number) => [
+          local.get(`$${iter}`),
+          i32.const(offset),
+          i32.add(),
+          i32.load(),
+        ];
+        start = [...field(4), local.set(`$${index}`)];
+        next = [
+          ...field(12),
+          i32.const(1),
+          call("$$gt"),
+          ...decodeLiteral,
+          if_(
+            "i32",
+            [local.get(`$${index}`), ...field(8), call("$$lt")],
+            [local.get(`$${index}`), ...field(8), call("$$gt")]
+          ),
+          ...decodeLiteral,
+          i32.eqz(),
+          br_if(1),
+          local.get(`$${index}`),
+          ...codeGenBindClause(clause.name, env),
+          local.get(`$${index}`),
+          ...field(12),
+          call("$$add"),
+          local.set(`$${index}`),
+        ];
+    }
+    return [
+      ...codeGenExpr(clause.iter, env),
+      local.set(`$${iter}`),
+      ...codeGenRuntimeCheck(clause.a[1], [local.get(`$${iter}`)], RunTime.CHECK_NONE_LOOKUP),
+      local.get(`$${iter}`),
+      call("$$addTemp"),
+      drop(),
+      ...start,
+      block([
+        loop([
+          ...next,
+          ...clause.conds.flatMap((cond) => [
+            ...codeGenExpr(cond, env),
+            ...decodeLiteral,
+            i32.eqz(),
+            br_if(0),
+          ]),
+          ...inner,
+          br(0),
+        ]),
+      ]),
+    ];
+  }, add);
+
+  return [...init, local.set(`$${result}`), ...loops, local.get(`$${result}`)];
+}
+
 /**
  * Generate assign statements as described by the destructuring term
  * @param destruct Destructuring description of assign targets
- * @param value WASM code literal value for fetching the referenced value. E.g. "(local.get $$myValue)"
+ * @param value WASM code for fetching the referenced value. E.g. [local.get("$$myValue")]
  * @param env GlobalEnv
  */
+// `target op= value` saves the object and key of the target in locals, then assigns
+// `target op value` through them so that they are only evaluated once
+function codeGenAugAssign(
+  stmt: WithTag<Stmt<[Type, Location]>, "aug-assign">,
+  env: GlobalEnv
+): Array<Instr> {
+  const [objLocal, keyLocal] = augAssignLocals(stmt.a[1]);
+  const saveStmts: Array<Instr> = [];
+  const save = (e: Expr<[Type, Location]>, name: string): Expr<[Type, Location]> => {
+    // NOTE: the saved values stay rooted while the operator allocates
+    saveStmts.push(...codeGenExpr(e, env), call("$$addTemp"), local.set(`$${name}`));
+    return { a: e.a, tag: "id", name };
+  };
+  var target = stmt.target;
+  if (target.tag === "lookup") {
+    target = { ...target, obj: save(target.obj, objLocal) };
+  } else if (target.tag === "bracket-lookup") {
+    target = { ...target, obj: save(target.obj, objLocal), key: save(target.key, keyLocal) };
+  }
+  const value: Expr<[Type, Location]> = {
+    a: [target.a[0], stmt.a[1]],
+    tag: "binop",
+    op: stmt.op,
+    left: target,
+    right: stmt.value,
+  };
+  return [...saveStmts, ...codeGenAssignable(target, codeGenExpr(value, env), env)];
+}
+
 function codeGenDestructure(
   destruct: Destructure<[Type, Location]>,
-  value: string,
+  value: Array<Instr>,
   env: GlobalEnv
-): string[] {
-  let assignStmts: string[] = [];
+): Array<Instr> {
+  let assignStmts: Array<Instr> = [];
 
   if (destruct.isDestructured) {
     const objTyp = destruct.valueType[0];
@@ -524,7 +1140,7 @@ function codeGenDestructure(
             const [offset, _] = classFields.next().value;
             // The WASM code value that we extracted from the object at this current offset
             const addressOffset = offset * 4;
-            const fieldValue = [value, `(i32.load offset=${addressOffset})`];
+            const fieldValue = [...value, i32.load(addressOffset)];
             return codeGenAssignable(assignable, fieldValue, env);
           }
         });
@@ -538,7 +1154,7 @@ function codeGenDestructure(
           if (target.starred) {
             throw new Error("Do not currently support starred assignment targets for tuples");
           } else {
-            const fieldValue = [value, `(i32.load offset=${offset})`];
+            const fieldValue = [...value, i32.load(offset)];
             offset += 4;
             return codeGenAssignable(assignable, fieldValue, env);
           }
@@ -551,30 +1167,30 @@ function codeGenDestructure(
         const isStarred = destruct.targets.some((target) => target.starred);
 
         let targetListLength: number;
-        let compareLengthOperator: string;
+        let compareLengthOperator: Instr;
         if (isStarred) {
           // Targets list length - 1 is the lower bound for number of required elements in our array
           // The array can be larger/equal to this (because of star operator) but not smaller
           targetListLength = destruct.targets.length - 1;
-          compareLengthOperator = `(i32.ge_u)`;
+          compareLengthOperator = i32.ge_u();
         } else {
           // No star operator simply means the target lists and the runtime list must be same length
           targetListLength = destruct.targets.length;
-          compareLengthOperator = `(i32.eq)`;
+          compareLengthOperator = i32.eq();
         }
         // TODO: Add nice runtime error instead of "RuntimeError: unreachable"
         const lengthCheck = [
-          value,
-          `(i32.load offset=4)`, // list length, stored at byte offset 4
-          `(i32.const ${targetListLength})`, // number of destruct targets
+          ...value,
+          i32.load(4), // list length, stored at byte offset 4
+          i32.const(targetListLength), // number of destruct targets
           compareLengthOperator,
-          `(if (then (nop)) (else (unreachable)))`,
+          if_([nop()], [{ op: "unreachable" }]),
           //`(if (then (nop)) (else (call $SomeExitingErrorFunction)))`
         ];
 
         // Skip past the three header values of lists and to the actual values
-        let initalizeOffset = [`(i32.const 12)`, `(local.set $$destructListOffset)`];
-        let offset = [`(local.get $$destructListOffset)`];
+        let initalizeOffset = [i32.const(12), local.set("$$destructListOffset")];
+        let offset = [local.get("$$destructListOffset")];
         const targetStmts = destruct.targets.flatMap((target) => {
           const assignable = target.target;
           if (target.starred) {
@@ -582,29 +1198,29 @@ function codeGenDestructure(
 
             // The starting index of the star operator
             // subtracting the 12 for the header values, dividing by 4 to convert from byte offset to index in list
-            const startStarIndex = [`(i32.div_s (i32.sub ${offset} (i32.const 12)) (i32.const 4))`];
+            const startStarIndex = [...offset, i32.const(12), i32.sub(), i32.const(4), i32.div_s()];
 
             let nonStarredElements = destruct.targets.length - 1;
             // The WASM number of elements we need in our starred element list
             const numStarElements = [
-              value,
-              `(i32.load offset=4)`, // list length, stored at byte offset 4
-              `(i32.const ${nonStarredElements})`,
-              `(i32.sub)`, // results in the number of elements needed in the starred list
+              ...value,
+              i32.load(4), // list length, stored at byte offset 4
+              i32.const(nonStarredElements),
+              i32.sub(), // results in the number of elements needed in the starred list
             ];
             // The ending index of the star operator (exclusive)
-            const endStarIndex = [
-              `(i32.add ${startStarIndex.join("\n")} ${numStarElements.join("\n")})`,
-            ];
+            const endStarIndex = [...startStarIndex, ...numStarElements, i32.add()];
 
-            const sourceList = [value];
+            const sourceList = value;
             const incrementOffset = [
               ...offset,
-              `(i32.mul ${numStarElements.join("\n")} (i32.const 4))`,
-              `(i32.add)`,
-              `(local.set $$destructListOffset)`,
+              ...numStarElements,
+              i32.const(4),
+              i32.mul(),
+              i32.add(),
+              local.set("$$destructListOffset"),
             ];
-            let copyListSlice: string[] = [
+            let copyListSlice: Array<Instr> = [
               ...startStarIndex,
               ...endStarIndex,
               ...sourceList,
@@ -613,12 +1229,12 @@ function codeGenDestructure(
 
             return codeGenAssignable(assignable, copyListSlice, env).concat(incrementOffset);
           } else {
-            const fieldValue = [`(i32.load (i32.add ${value} ${offset}))`];
+            const fieldValue = [...value, ...offset, i32.add(), i32.load()];
             const incrementOffset = [
               ...offset,
-              `(i32.const 4)`,
-              `(i32.add)`,
-              `(local.set $$destructListOffset)`,
+              i32.const(4),
+              i32.add(),
+              local.set("$$destructListOffset"),
             ];
             return codeGenAssignable(assignable, fieldValue, env).concat(incrementOffset);
           }
@@ -629,7 +1245,7 @@ function codeGenDestructure(
     }
   } else {
     const target = destruct.targets[0];
-    assignStmts = codeGenAssignable(target.target, [value], env);
+    assignStmts = codeGenAssignable(target.target, value, env);
   }
 
   return assignStmts;
@@ -637,20 +1253,20 @@ function codeGenDestructure(
 
 function codeGenAssignable(
   target: Assignable<[Type, Location]>,
-  value: string[],
+  value: Array<Instr>,
   env: GlobalEnv
-): string[] {
+): Array<Instr> {
   // NOTE(alex:mm): temp guards are generated at the statement level
   switch (target.tag) {
     case "id": // Variables
       if (env.locals.has(target.name)) {
         const localIndex = env.locals.get(target.name);
-        const result = [...value, `(local.set $${target.name})`];
+        const result = [...value, local.set(`$${target.name}`)];
 
         return result;
       } else {
-        const locationToStore = [`(i32.const ${envLookup(env, target.name)}) ;; ${target.name}`];
-        return [...locationToStore, ...value, "(i32.store)"];
+        const locationToStore = [i32.const(envLookup(env, target.name))];
+        return [...locationToStore, ...value, i32.store()];
       }
     case "lookup": // Field lookup
       var objStmts = codeGenExpr(target.obj, env);
@@ -666,9 +1282,9 @@ function codeGenAssignable(
       const className = objTyp.name;
       const [offset, _] = env.classes.get(className).get(target.field);
       if (target.field == "$deref") {
-        return [...objStmts, ...value, `(i32.store)`];
+        return [...objStmts, ...value, i32.store()];
       } else {
-        return [...objStmts, `(i32.add (i32.const ${offset * 4}))`, ...value, `(i32.store)`];
+        return [...objStmts, i32.const(offset * 4), i32.add(), ...value, i32.store()];
       }
     case "bracket-lookup":
       switch (target.obj.a[0].tag) {
@@ -684,13 +1300,21 @@ function codeGenAssignable(
           //TODO key is bigNum handling
           const listLocationToStore = [
             ...listObjStmts,
-            `(i32.add (i32.const 12)) ;; move past type, size, bound`,
+            i32.const(12),
+            i32.add(), // move past type, size, bound
             ...listKeyStmts,
             ...decodeLiteral,
-            `(i32.mul (i32.const 4)) `,
-            `(i32.add)`,
+            i32.const(4),
+            i32.mul(),
+            i32.add(),
+          ];
+          return [...listLocationToStore, ...value, i32.store()];
+        case "class":
+          const key = codeGenExpr(target.key, env);
+          return [
+            ...codeGenDispatch(target.a[1], target.obj, "__setitem__", [key, value], env),
+            drop(),
           ];
-          return [...listLocationToStore, ...value, "(i32.store)"];
         default:
           throw new BaseException.InternalException(
             "Bracket-assign for types other than dict not implemented"
@@ -704,39 +1328,75 @@ function codeGenAssignable(
   }
 }
 
-function codeGenInit(init: VarInit<[Type, Location]>, env: GlobalEnv): Array<string> {
+// `del x` drops the value of a variable, which the type checker keeps from being read again.
+// List elements are shifted over the deleted ones, and dict entries become tombstones
+function codeGenDel(target: Expr<[Type, Location]>, env: GlobalEnv): Array<Instr> {
+  switch (target.tag) {
+    case "id":
+    case "lookup": // the reference of a local, see ea
+      return codeGenAssignable(target, codeGenLiteral({ tag: "none" }), env);
+    case "bracket-lookup":
+      const [keyArgs, delItem] =
+        target.obj.a[0].tag === "dict"
+          ? [
+              [i32.const(codeGenKeyMode(target.key.a[0])), codeGenTypeId(target.key.a[0], env)],
+              call("$dict$delete"),
+            ]
+          : [decodeLiteral, call("$$list$delete")];
+      return [
+        ...codeGenExpr(target.obj, env),
+        ...codeGenExpr(target.key, env),
+        ...keyArgs,
+        ...codeGenCall(target.a[1], delItem),
+        drop(),
+      ];
+    case "slicing":
+      // omitted bounds are None
+      const bound = (expr: Expr<[Type, Location]>, omitted: number) =>
+        expr.a[0].tag === "none"
+          ? [i32.const(omitted)]
+          : [...codeGenExpr(expr, env), ...decodeLiteral];
+      return [
+        ...codeGenExpr(target.name, env),
+        ...bound(target.start, 0),
+        ...bound(target.end, 0x7fffffff),
+        ...codeGenCall(target.a[1], call("$$list$delete_slice")),
+        drop(),
+      ];
+    default:
+      throw new BaseException.InternalException(`Cannot delete ${target.tag}`);
+  }
+}
+
+function codeGenInit(init: VarInit<[Type, Location]>, env: GlobalEnv): Array<Instr> {
   const value = codeGenLiteral(init.value);
   if (env.locals.has(init.name)) {
-    return [...value, `(local.set $${init.name})`];
+    return [...value, local.set(`$${init.name}`)];
   } else {
     const locationToStore = [
-      `(i32.const ${envLookup(env, init.name)}) ;; global variable ${init.name}`,
+      i32.const(envLookup(env, init.name)), // global variable ${init.name}
     ];
-    return locationToStore.concat(value).concat([`(i32.store)`]);
+    return locationToStore.concat(value).concat([i32.store()]);
   }
 }
 
 // NOTE(alex:mm): Assuming this is only called for closure allocation
 //   which uses a class-based layout
-function myMemAlloc(name: string, sizeInValueCount: number, closure?: boolean): Array<string> {
-  const allocs: Array<string> = [];
+function myMemAlloc(name: string, sizeInValueCount: number, closure?: boolean): Array<Instr> {
+  const allocs: Array<Instr> = [];
   const sizeInBytes = sizeInValueCount * 4;
   let tag = closure ? TAG_CLOSURE : TAG_REF;
-  allocs.push(
-    `(i32.const ${Number(closure ? TAG_CLOSURE : TAG_REF)}) ;; heap-tag: ${
-      closure ? "closure" : "ref"
-    }`
-  );
-  allocs.push(`(i32.const ${sizeInBytes})`);
-  allocs.push(`(call $$gcalloc)`);
-  allocs.push(`(local.set ${name}) ;; allocate memory for ${name}`);
+  allocs.push(i32.const(Number(tag))); // heap-tag: closure or ref
+  allocs.push(i32.const(sizeInBytes));
+  allocs.push(call("$$gcalloc"));
+  allocs.push(local.set(name)); // allocate memory for the name
   return allocs;
 }
 
-function initNested(nested: Array<string>, env: GlobalEnv): Array<string> {
+function initNested(nested: Array<string>, env: GlobalEnv): Array<Instr> {
   // this is where the closures are constructed, except for global closures
   // the accesses of callable variables does not create a closure
-  const inits: Array<string> = [];
+  const inits: Array<Instr> = [];
 
   nested.forEach((fun) => {
     inits.push(...myMemAlloc(`$${fun}_$ref`, 1));
@@ -746,14 +1406,18 @@ function initNested(nested: Array<string>, env: GlobalEnv): Array<string> {
     let [idx, nonlocals] = env.funs.get(fun);
     // NOTE(alex:mm): Pass `true` to allocate with TAG_CLOSURE
     inits.push(...myMemAlloc(`$$addr`, nonlocals.length + 1, true));
-    inits.push(`(i32.store (local.get $$addr) (i32.const ${idx})) ;; function idx`);
+    inits.push(local.get("$$addr"), i32.const(idx), i32.store());
     nonlocals.forEach((v, i) => {
       // the dependent variable 'v' exists in the parent scope
       inits.push(
-        `(i32.store (i32.add (local.get $$addr) (i32.const ${(i + 1) * 4})) (local.get $${v}_$ref))`
+        local.get("$$addr"),
+        i32.const((i + 1) * 4),
+        i32.add(),
+        local.get(`$${v}_$ref`),
+        i32.store()
       );
     });
-    inits.push(`(i32.store (local.get $${fun}_$ref) (local.get $$addr))`);
+    inits.push(local.get(`$${fun}_$ref`), local.get("$$addr"), i32.store());
   });
 
   return inits;
@@ -761,29 +1425,29 @@ function initNested(nested: Array<string>, env: GlobalEnv): Array<string> {
 
 const fPTR = "$$fPTR"; // the first extra argument
 
-function initNonlocals(nonlocals: Array<string>): Array<string> {
+function initNonlocals(nonlocals: Array<string>): Array<Instr> {
   // extract the references for nonlocals from the '$fPTR'
-  const inits: Array<string> = [];
+  const inits: Array<Instr> = [];
   nonlocals.forEach((v, i) => {
-    inits.push(`(i32.load (i32.add (local.get ${fPTR}) (i32.const ${(i + 1) * 4})))`);
-    inits.push(`(local.set $${v}_$ref)`);
+    inits.push(local.get(fPTR), i32.const((i + 1) * 4), i32.add(), i32.load());
+    inits.push(local.set(`$${v}_$ref`));
   });
 
   return inits;
 }
 
-function initRef(refs: Set<string>): Array<string> {
+function initRef(refs: Set<string>): Array<Instr> {
   // for parameters and local variables, extra references are created and initialized
-  const inits: Array<string> = [];
+  const inits: Array<Instr> = [];
   refs.forEach((name) => {
     inits.push(...myMemAlloc(`$${name}_$ref`, 1));
-    inits.push(`(i32.store (local.get $${name}_$ref) (local.get $${name}))`);
+    inits.push(local.get(`$${name}_$ref`), local.get(`$${name}`), i32.store());
   });
 
   return inits;
 }
 
-function codeGenClosureDef(def: ClosureDef<[Type, Location]>, env: GlobalEnv): Array<string> {
+function codeGenClosureDef(def: ClosureDef<[Type, Location]>, env: GlobalEnv): Array<Func> {
   let currentLocalIndex = 0;
   const definedVars: Set<string> = new Set();
   definedVars.add("$allocPointer"); // Used to cache the result of `gcalloc`
@@ -791,10 +1455,14 @@ function codeGenClosureDef(def: ClosureDef<[Type, Location]>, env: GlobalEnv): A
   definedVars.add("$addr");
   definedVars.add("$destruct");
   definedVars.add("$destructListOffset");
+  definedVars.add("$gen_next"); // generator resumed by `next`
   definedVars.add("$string_val"); //needed for string operations
   definedVars.add("$string_class"); //needed for strings in class
   definedVars.add("$string_index"); //needed for string index check out of bounds
   definedVars.add("$string_address"); //needed for string indexing
+  LIST_LOCALS.forEach((v) => definedVars.add(v)); // needed for list literals and operations
+  stmtLocals(def.body).forEach((v) => definedVars.add(v)); // locals of compound statements
+  exprLocals(def.body).forEach((v) => definedVars.add(v));
   def.nonlocals.forEach((v) => definedVars.add(`${v}_$ref`)); // nonlocals are reference, ending with '_$ref'
   def.nested.forEach((f) => definedVars.add(`${f}_$ref`)); // nested functions are references of function ptrs, ending with _$ref
   // ToDo, optimize after EA
@@ -822,16 +1490,19 @@ function codeGenClosureDef(def: ClosureDef<[Type, Location]>, env: GlobalEnv): A
   const nonlocals = initNonlocals(def.nonlocals);
   const nested = initNested(def.nested, env);
 
-  let params = def.parameters.map((p) => `(param $${p.name} i32)`).join(" ");
+  let params = i32Vars(fPTR, ...def.parameters.map((p) => `$${p.name}`));
+  if (def.generator) {
+    const prologue = inits.concat(refs, nonlocals, nested);
+    return codeGenGenerator(def, env, definedVars, params, prologue);
+  }
   let stmts = def.body.map((stmt) => codeGenStmt(stmt, env)).flat();
 
-  let body = locals
-    .concat(inits)
+  let body = inits
     .concat(refs)
     .concat(nonlocals)
     .concat(nested)
-    .concat(stmts)
-    .concat(["(i32.const 0)", "(return)"]);
+    .concat([block("$$unwind", stmts)])
+    .concat([i32.const(0), return_()]);
 
   const localMap = env.locals;
   const augmentedBody = augmentFnGc(body, localMap, {
@@ -840,119 +1511,430 @@ function codeGenClosureDef(def: ClosureDef<[Type, Location]>, env: GlobalEnv): A
       name: def.name,
     },
   });
-  const augmentedBodyStr = augmentedBody.join("\n");
   env.locals.clear();
 
-  return [
-    `(func $${def.name} (param ${fPTR} i32) ${params} (result i32)
-      ${augmentedBodyStr}
-    )`,
-  ];
+  return [{ name: `$${def.name}`, params, results: ["i32"], locals, body: augmentedBody }];
 }
 
-function codeGenFunDef(def: FunDef<[Type, Location]>, env: GlobalEnv): Array<string> {
-  var definedVars: Set<string> = new Set();
-  def.inits.forEach((v) => definedVars.add(v.name));
-  definedVars.add("$last");
-  // Used to cache the result of `gcalloc` and dump
-  //   it to the stack for initialization
-  // NOTE(alex:mm): need to `local.get` object pointer BEFORE generating code
-  //   for inner expressions
-  definedVars.add("$allocPointer"); // Used to cache the result of `gcalloc`
-  definedVars.add("$destruct");
-  definedVars.add("$destructListOffset");
-  definedVars.add("$string_val"); //needed for string operations
-  definedVars.add("$string_class"); //needed for strings in class
-  definedVars.add("$string_index"); //needed for string index check out of bounds
-  definedVars.add("$string_address"); //needed for string indexing
+// The locals a suspended generator keeps in its frame, and the yields generated so far
+type GeneratorFrame = {
+  slots: Array<string>;
+  loops: Set<string>; // cursors of the `for` loops around the code being generated
+  yields: number;
+};
 
-  // NOTE(alex:mm): parameters indices go first
-  let currLocalIndex = 0;
-  var params = def.parameters
-    .map((p) => {
-      env.locals.set(p.name, currLocalIndex);
-      currLocalIndex += 1;
-      return `(param $${p.name} i32)`;
-    })
-    .join(" ");
+// Locals of the function that resumes a generator
+const GEN_LOCALS = ["$gen_state", "$gen_resuming", "$gen_value", "$gen_temps"];
 
-  definedVars.forEach((v) => {
-    env.locals.set(v, currLocalIndex);
-    currLocalIndex += 1;
-  });
+// Offset of the first saved local in a generator frame, after the resume function and the state
+const GEN_SLOTS_OFFSET = 8;
 
-  const locals = makeLocals(definedVars);
-  const inits = def.inits.map((init) => codeGenInit(init, env)).flat();
-  var stmts = def.body.map((innerStmt) => codeGenStmt(innerStmt, env)).flat();
+/**
+ * A generator function returns a frame: [resume function table-index, state, saved locals...].
+ * The state is 0 before the first `next`, k while suspended at the k-th `yield` of the body and
+ * -1 once the body finished. The resume function reloads the locals from the frame and runs the
+ * body in resumable mode, skipping the code before the `yield` it stopped at.
+ */
+function codeGenGenerator(
+  def: ClosureDef<[Type, Location]>,
+  env: GlobalEnv,
+  definedVars: Set<string>,
+  params: Array<Param>,
+  prologue: Array<Instr>
+): Array<Func> {
+  // every variable is in a reference, so the references and the loop cursors are all the state
+  const slots = [...definedVars].filter((v) => v.endsWith(EA_REF_SUFFIX));
+  slots.push(...suspendedCursors(def.body));
+  const [resumeIdx, _] = env.funs.get(`${def.name}$resume`);
+
+  const create = [
+    i32.const(Number(TAG_GENERATOR)), // heap-tag: generator
+    i32.const(GEN_SLOTS_OFFSET + slots.length * 4),
+    call("$$gcalloc"),
+    local.set("$$addr"),
+    local.get("$$addr"),
+    i32.const(resumeIdx),
+    i32.store(), // resume function idx
+    local.get("$$addr"),
+    i32.const(0),
+    i32.store(4),
+    ...slots
+      .map((slot, i) => [
+        local.get("$$addr"),
+        local.get(`$${slot}`),
+        i32.store(GEN_SLOTS_OFFSET + i * 4),
+      ])
+      .flat(),
+    local.get("$$addr"),
+    return_(),
+  ];
+  const augmentedCreate = augmentFnGc(prologue.concat(create), env.locals, {
+    main: false,
+    debug: { name: def.name },
+  });
+  env.locals.clear();
 
-  const body = locals.concat(inits).concat(stmts).concat(["(i32.const 0)", "(return)"]);
-  const localMap = env.locals;
-  const augmentedBody = augmentFnGc(body, localMap, {
+  const resumeVars = new Set([...definedVars, ...GEN_LOCALS]);
+  let currentLocalIndex = 0;
+  resumeVars.forEach((v) => {
+    env.locals.set(v, currentLocalIndex);
+    currentLocalIndex += 1;
+  });
+  const frame: GeneratorFrame = { slots, loops: new Set(), yields: 0 };
+  const stmts = codeGenResumable(def.body, env, frame);
+  const resume = [
+    local.get("$$gen_frame"),
+    i32.load(4),
+    local.set("$$gen_state"),
+    local.get("$$gen_state"),
+    i32.const(0),
+    i32.lt_s(),
+    if_([i32.const(0), return_()]),
+    // the generator is done unless it reaches another `yield`
+    local.get("$$gen_frame"),
+    i32.const(-1),
+    i32.store(4),
+    local.get("$$gen_state"),
+    i32.const(0),
+    i32.gt_s(),
+    local.set("$$gen_resuming"),
+    call("$$tempsDepth"),
+    local.set("$$gen_temps"),
+    ...slots
+      .map((slot, i) => [
+        local.get("$$gen_frame"),
+        i32.load(GEN_SLOTS_OFFSET + i * 4),
+        local.set(`$${slot}`),
+      ])
+      .flat(),
+    block("$$unwind", stmts),
+    i32.const(0),
+    return_(),
+  ];
+  const augmentedResume = augmentFnGc(resume, env.locals, {
     main: false,
-    debug: {
-      name: def.name,
-    },
+    debug: { name: `${def.name}$resume` },
   });
-  const augmentedBodyStr = augmentedBody.join("\n");
   env.locals.clear();
 
   return [
-    `(func $${def.name} ${params} (result i32)
-    ${augmentedBodyStr}
-    )`,
+    {
+      name: `$${def.name}`,
+      params,
+      results: ["i32"],
+      locals: makeLocals(definedVars),
+      body: augmentedCreate,
+    },
+    {
+      name: `$${def.name}$resume`,
+      params: i32Vars("$$gen_frame"),
+      results: ["i32"],
+      locals: makeLocals(resumeVars),
+      body: augmentedResume,
+    },
   ];
 }
 
-function codeGenClass(cls: Class<[Type, Location]>, env: GlobalEnv): Array<string> {
-  const methods = [...cls.methods];
-  methods.forEach((method) => (method.name = `${cls.name}$${method.name}`));
-  const result = methods.map((method) => codeGenFunDef(method, env));
-  return result.flat();
+// The number of `yield` statements in these statements
+function countYields(stmts: Array<Stmt<[Type, Location]>>): number {
+  return stmts
+    .map((stmt) => {
+      switch (stmt.tag) {
+        case "yield":
+          return 1;
+        case "if":
+          return countYields(stmt.thn) + countYields(stmt.els);
+        case "while":
+        case "for":
+          return countYields(stmt.body);
+        default:
+          return 0;
+      }
+    })
+    .reduce((a, b) => a + b, 0);
 }
 
-function codeGenListCopy(mode: ListCopyMode): Array<string> {
-  var stmts: Array<string> = [];
-  var loopstmts: Array<string> = [];
-  var condstmts: Array<string> = [];
-  var concatstmts: Array<string> = [];
-  var doublestmts: Array<string> = [];
-  var tempstmts: Array<string> = [];
-  var listType = 10; //temporary list type number
-  var header = [4, 8]; //size, bound relative position
-  var cmp = [""];
-
+// The cursors of the `for` loops that a generator can be suspended in
+function suspendedCursors(stmts: Array<Stmt<[Type, Location]>>): Array<string> {
+  return stmts
+    .map((stmt) => {
+      switch (stmt.tag) {
+        case "if":
+          return [...suspendedCursors(stmt.thn), ...suspendedCursors(stmt.els)];
+        case "while":
+          return suspendedCursors(stmt.body);
+        case "for":
+          if (countYields(stmt.body) === 0) return [];
+          return [...forCursors(stmt), ...suspendedCursors(stmt.body)];
+        default:
+          return [];
+      }
+    })
+    .flat();
+}
+
+// Whether the state of a resumed generator is one of the `count` yields after those generated
+function codeGenResumesIn(frame: GeneratorFrame, count: number): Array<Instr> {
+  if (count === 0) {
+    return [i32.const(0)];
+  }
+  const [first, last] = [frame.yields + 1, frame.yields + count];
+  return [
+    local.get("$$gen_state"),
+    i32.const(first),
+    i32.ge_s(),
+    local.get("$$gen_state"),
+    i32.const(last),
+    i32.le_s(),
+    i32.and(),
+  ];
+}
+
+/**
+ * Generates the body of a generator so that, while `$$gen_resuming` is set, it skips to the
+ * `yield` it was suspended at. Statements without a `yield` are skipped as a whole; the others
+ * are skipped unless they contain that `yield`. Both are wrapped in a block to skip them, which
+ * `break` and `continue` statements must count.
+ */
+function codeGenResumable(
+  stmts: Array<Stmt<[Type, Location]>>,
+  env: GlobalEnv,
+  frame: GeneratorFrame
+): Array<Instr> {
+  const code: Array<Instr> = [];
+  let skipped: Array<Stmt<[Type, Location]>> = [];
+  const flush = () => {
+    if (skipped.length > 0) {
+      code.push(
+        block([
+          local.get("$$gen_resuming"),
+          br_if(0),
+          ...shiftLoopDepth(skipped, 1)
+            .map((stmt) => codeGenStmt(stmt, env))
+            .flat(),
+        ])
+      );
+      skipped = [];
+    }
+  };
+  stmts.forEach((stmt) => {
+    const count = countYields([stmt]);
+    if (count === 0) {
+      skipped.push(stmt);
+      return;
+    }
+    flush();
+    code.push(
+      block([
+        local.get("$$gen_resuming"),
+        ...codeGenResumesIn(frame, count),
+        i32.eqz(),
+        i32.and(),
+        br_if(0),
+        ...codeGenResumableStmt(shiftLoopDepth([stmt], 1)[0], env, frame),
+      ])
+    );
+  });
+  flush();
+  return code;
+}
+
+function codeGenResumableStmt(
+  stmt: Stmt<[Type, Location]>,
+  env: GlobalEnv,
+  frame: GeneratorFrame
+): Array<Instr> {
+  switch (stmt.tag) {
+    case "yield":
+      frame.yields += 1;
+      // only the cursors of the enclosing loops are live, the others are cleared for the GC
+      const saved = frame.slots.map((slot, i) => {
+        const value =
+          slot.endsWith(EA_REF_SUFFIX) || frame.loops.has(slot)
+            ? local.get(`$${slot}`)
+            : i32.const(0);
+        return [local.get("$$gen_frame"), value, i32.store(GEN_SLOTS_OFFSET + i * 4)];
+      });
+      return [
+        local.get("$$gen_resuming"),
+        if_(
+          [i32.const(0), local.set("$$gen_resuming")],
+          [
+            ...codeGenTempGuard(
+              [...codeGenExpr(stmt.value, env), local.set("$$gen_value")],
+              FENCE_TEMPS
+            ),
+            ...saved.flat(),
+            local.get("$$gen_frame"),
+            i32.const(frame.yields),
+            i32.store(4),
+            // the temporary frames of the enclosing loops are captured again once resumed
+            local.get("$$gen_temps"),
+            call("$$unwindTemps"),
+            local.get("$$gen_value"),
+            return_(),
+          ]
+        ),
+      ];
+    case "if":
+      const condExpr = codeGenTempGuard(
+        codeGenExpr(stmt.cond, env).concat(decodeLiteral),
+        FENCE_TEMPS
+      );
+      const resumesThn = codeGenResumesIn(frame, countYields(stmt.thn));
+      const thnStmts = codeGenResumable(stmt.thn, env, frame);
+      const elsStmts = codeGenResumable(stmt.els, env, frame);
+      return [
+        local.get("$$gen_resuming"),
+        if_("i32", resumesThn, condExpr),
+        if_(thnStmts, elsStmts),
+      ];
+    case "while":
+      const wcondExpr = codeGenTempGuard(
+        codeGenExpr(stmt.cond, env).concat(decodeLiteral),
+        FENCE_TEMPS
+      );
+      return [
+        block([
+          loop([
+            local.get("$$gen_resuming"),
+            if_("i32", [i32.const(0)], [...wcondExpr, i32.eqz()]),
+            br_if(1),
+            ...codeGenResumable(stmt.body, env, frame),
+            br(0),
+          ]),
+        ]),
+      ];
+    case "for":
+      // a resumed loop is already started and stays at the element it was suspended at
+      const [forStart, forNext] = codeGenForParts(stmt, env);
+      const cursors = forCursors(stmt);
+      cursors.forEach((cursor) => frame.loops.add(cursor));
+      const bodyStmts = codeGenResumable(stmt.body, env, frame);
+      cursors.forEach((cursor) => frame.loops.delete(cursor));
+      return codeGenTempGuard(
+        [
+          local.get("$$gen_resuming"),
+          i32.eqz(),
+          if_(forStart),
+          block("$$for_end", [
+            loop([local.get("$$gen_resuming"), i32.eqz(), if_(forNext), ...bodyStmts, br(0)]),
+          ]),
+        ],
+        FENCE_TEMPS
+      );
+    default:
+      throw new BaseException.InternalException(`a generator cannot yield in a ${stmt.tag}`);
+  }
+}
+
+function codeGenFunDef(def: FunDef<[Type, Location]>, env: GlobalEnv): Func {
+  var definedVars: Set<string> = new Set();
+  def.inits.forEach((v) => definedVars.add(v.name));
+  definedVars.add("$last");
+  // Used to cache the result of `gcalloc` and dump
+  //   it to the stack for initialization
+  // NOTE(alex:mm): need to `local.get` object pointer BEFORE generating code
+  //   for inner expressions
+  definedVars.add("$allocPointer"); // Used to cache the result of `gcalloc`
+  definedVars.add("$destruct");
+  definedVars.add("$destructListOffset");
+  definedVars.add("$gen_next"); // generator resumed by `next`
+  definedVars.add("$string_val"); //needed for string operations
+  definedVars.add("$string_class"); //needed for strings in class
+  definedVars.add("$string_index"); //needed for string index check out of bounds
+  definedVars.add("$string_address"); //needed for string indexing
+  LIST_LOCALS.forEach((v) => definedVars.add(v)); // needed for list literals and operations
+  stmtLocals(def.body).forEach((v) => definedVars.add(v)); // locals of compound statements
+  exprLocals(def.body).forEach((v) => definedVars.add(v));
+
+  // NOTE(alex:mm): parameters indices go first
+  let currLocalIndex = 0;
+  var params = def.parameters.map((p) => {
+    env.locals.set(p.name, currLocalIndex);
+    currLocalIndex += 1;
+    return `$${p.name}`;
+  });
+
+  definedVars.forEach((v) => {
+    env.locals.set(v, currLocalIndex);
+    currLocalIndex += 1;
+  });
+
+  const locals = makeLocals(definedVars);
+  const inits = def.inits.map((init) => codeGenInit(init, env)).flat();
+  var stmts = def.body.map((innerStmt) => codeGenStmt(innerStmt, env)).flat();
+
+  const body = inits.concat([block("$$unwind", stmts)]).concat([i32.const(0), return_()]);
+  const localMap = env.locals;
+  const augmentedBody = augmentFnGc(body, localMap, {
+    main: false,
+    debug: {
+      name: def.name,
+    },
+  });
+  env.locals.clear();
+
+  return {
+    name: `$${def.name}`,
+    params: i32Vars(...params),
+    results: ["i32"],
+    locals,
+    body: augmentedBody,
+  };
+}
+
+function codeGenClass(cls: Class<[Type, Location]>, env: GlobalEnv): Array<Func> {
+  const methods = [...cls.methods];
+  methods.forEach((method) => (method.name = `${cls.name}$${method.name}`));
+  return methods.map((method) => codeGenFunDef(method, env));
+}
+
+function codeGenListCopy(mode: ListCopyMode): Array<Instr> {
+  var stmts: Array<Instr> = [];
+  var loopstmts: Array<Instr> = [];
+  var condstmts: Array<Instr> = [];
+  var concatstmts: Array<Instr> = [];
+  var doublestmts: Array<Instr> = [];
+  var tempstmts: Array<Instr> = [];
+  var listType = 10; //temporary list type number
+  var header = [4, 8]; //size, bound relative position
+  var cmp = [""];
+
   stmts.push(
     ...[
-      `(local.tee $$list_cmp)`, //store first address to local var
-      `(i32.add (i32.const 8))`,
-      `(i32.load)`,
-      `(local.set $$list_temp)`, //capacity
-      `(i32.const 0)`,
-      `(local.set $$list_index2)`, //second index
+      local.tee("$$list_cmp"), //store first address to local var
+      i32.const(8),
+      i32.add(),
+      i32.load(),
+      local.set("$$list_temp"), //capacity
+      i32.const(0),
+      local.set("$$list_index2"), //second index
     ]
   );
 
   if (mode === ListCopyMode.Slice) {
     stmts.push(
       ...[
-        `(local.set $$list_bound)`, // max index(not include)
-        `(local.set $$list_index)`, // current index
-        `(local.get $$list_bound)`,
-        `(local.get $$list_index)`,
-        `(i32.sub)`,
-        `(local.set $$list_size)`,
+        local.set("$$list_bound"), // max index(not include)
+        local.set("$$list_index"), // current index
+        local.get("$$list_bound"),
+        local.get("$$list_index"),
+        i32.sub(),
+        local.set("$$list_size"),
       ] //size of list
     );
   } else {
     stmts.push(
       ...[
-        `(local.get $$list_cmp)`,
-        `(i32.add (i32.const 4))`,
-        `(i32.load)`,
-        `(local.tee $$list_size)`, //capacity
-        `(local.set $$list_bound)`,
-        `(i32.const 0)`,
-        `(local.set $$list_index)`,
+        local.get("$$list_cmp"),
+        i32.const(4),
+        i32.add(),
+        i32.load(),
+        local.tee("$$list_size"), //capacity
+        local.set("$$list_bound"),
+        i32.const(0),
+        local.set("$$list_index"),
       ]
     );
   }
@@ -961,18 +1943,20 @@ function codeGenListCopy(mode: ListCopyMode): Array<string> {
     cmp = ["", "2"];
     stmts.push(
       ...[
-        `(local.tee $$list_cmp2)`,
-        `(i32.add (i32.const 8))`,
-        `(i32.load)`,
-        `(local.get $$list_temp)`,
-        `(i32.add)`,
-        `(local.set $$list_temp)`, //capacity
-        `(local.get $$list_cmp2)`,
-        `(i32.add (i32.const 4))`,
-        `(i32.load)`,
-        `(local.get $$list_size)`,
-        `(i32.add)`,
-        `(local.set $$list_size)`, //size
+        local.tee("$$list_cmp2"),
+        i32.const(8),
+        i32.add(),
+        i32.load(),
+        local.get("$$list_temp"),
+        i32.add(),
+        local.set("$$list_temp"), //capacity
+        local.get("$$list_cmp2"),
+        i32.const(4),
+        i32.add(),
+        i32.load(),
+        local.get("$$list_size"),
+        i32.add(),
+        local.set("$$list_size"), //size
       ]
     );
   }
@@ -980,21 +1964,24 @@ function codeGenListCopy(mode: ListCopyMode): Array<string> {
   if (mode === ListCopyMode.Double) {
     stmts.push(
       ...[
-        `(local.get $$list_temp)`,
-        `(i32.mul (i32.const 2))`,
-        `(local.set $$list_temp)`, //capacity
+        local.get("$$list_temp"),
+        i32.const(2),
+        i32.mul(),
+        local.set("$$list_temp"), //capacity
       ]
     );
   }
 
   stmts.push(
     ...[
-      `(i32.const ${TAG_LIST})    ;; heap-tag: list`,
-      `(local.get $$list_temp)`, // load capacty
-      `(i32.add (i32.const 3))`,
-      `(i32.mul (i32.const 4))`,
-      `(call $$gcalloc)`,
-      `(local.set $$list_base)`,
+      i32.const(TAG_LIST), // heap-tag: list
+      local.get("$$list_temp"), // load capacty
+      i32.const(3),
+      i32.add(),
+      i32.const(4),
+      i32.mul(),
+      call("$$gcalloc"),
+      local.set("$$list_base"),
     ]
   );
 
@@ -1003,40 +1990,47 @@ function codeGenListCopy(mode: ListCopyMode): Array<string> {
     var varname = `list_${addr === 4 ? "size" : "temp"}`;
     stmts.push(
       ...[
-        `(local.get $$list_base)`,
-        `(i32.add (i32.const ${addr}))`,
-        `(local.get $$${varname})`,
-        `(i32.store)`,
+        local.get("$$list_base"),
+        i32.const(addr),
+        i32.add(),
+        local.get(`$$${varname}`),
+        i32.store(),
       ]
     );
   });
 
-  stmts.push(...[`(local.get $$list_base)`, "(i32.const " + listType + ")", "(i32.store)"]); //create a new list with type
+  stmts.push(...[local.get("$$list_base"), i32.const(listType), i32.store()]); //create a new list with type
 
   //check if the current index has reached the size of the list
-  condstmts.push(...[`(local.get $$list_bound)`, `(local.get $$list_index)`, `(i32.eq)`]);
+  condstmts.push(...[local.get("$$list_bound"), local.get("$$list_index"), i32.eq()]);
 
   //statement for loop through the compared list and add the elements to the new list
   loopstmts.push(
     ...[
-      `(local.get $$list_base)`,
-      `(i32.add (i32.const 12))`,
-      `(local.get $$list_index2)`,
-      `(i32.mul (i32.const 4))`,
-      `(i32.add)`,
-      `(local.get $$list_cmp)`,
-      `(i32.add (i32.const 12))`,
-      `(local.get $$list_index)`,
-      `(i32.mul (i32.const 4))`,
-      `(i32.add)`,
-      `(i32.load)`,
-      `(i32.store)`,
-      `(local.get $$list_index)`,
-      `(i32.add (i32.const 1))`,
-      `(local.set $$list_index)`,
-      `(local.get $$list_index2)`,
-      `(i32.add (i32.const 1))`,
-      `(local.set $$list_index2)`,
+      local.get("$$list_base"),
+      i32.const(12),
+      i32.add(),
+      local.get("$$list_index2"),
+      i32.const(4),
+      i32.mul(),
+      i32.add(),
+      local.get("$$list_cmp"),
+      i32.const(12),
+      i32.add(),
+      local.get("$$list_index"),
+      i32.const(4),
+      i32.mul(),
+      i32.add(),
+      i32.load(),
+      i32.store(),
+      local.get("$$list_index"),
+      i32.const(1),
+      i32.add(),
+      local.set("$$list_index"),
+      local.get("$$list_index2"),
+      i32.const(1),
+      i32.add(),
+      local.set("$$list_index2"),
     ]
   );
 
@@ -1044,54 +2038,92 @@ function codeGenListCopy(mode: ListCopyMode): Array<string> {
     if (s !== ``) {
       stmts.push(
         ...[
-          `(local.get $$list_cmp2)`,
-          `(local.set $$list_cmp)`,
-          `(i32.const 0)`,
-          `(local.set $$list_index)`,
-          `(local.get $$list_cmp)`,
-          `(i32.add (i32.const 4))`,
-          `(i32.load)`,
-          `(i32.add (local.get $$list_bound))`,
-          `(local.set $$list_bound)`,
+          local.get("$$list_cmp2"),
+          local.set("$$list_cmp"),
+          i32.const(0),
+          local.set("$$list_index"),
+          local.get("$$list_cmp"),
+          i32.const(4),
+          i32.add(),
+          i32.load(),
+          local.get("$$list_bound"),
+          i32.add(),
+          local.set("$$list_bound"),
         ]
       );
     }
 
     //while loop structure
-    stmts.push(
-      ...[`(block`, `(loop`, `(br_if 1`, ...condstmts, `)`, ...loopstmts, `(br 0)`, `)`, `)`]
-    );
+    stmts.push(...[block([loop([...condstmts, br_if(1), ...loopstmts, br(0)])])]);
   });
 
   return stmts.concat([
-    `(local.get $$list_base)`, // Get address for the object (this is the return value)
+    local.get("$$list_base"), // Get address for the object (this is the return value)
   ]);
 }
 
-function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string> {
+function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<Instr> {
   switch (expr.tag) {
     case "builtin1":
       const argTyp = expr.a[0];
       const argStmts = codeGenExpr(expr.arg, env);
       var callName = expr.name;
-      if (expr.name === "print" && argTyp === NUM) {
+      if (expr.name === "next") {
+        // the generator is kept in `$$gen_next` to find out whether it was exhausted
+        return [
+          ...argStmts,
+          local.set("$$gen_next"),
+          ...codeGenRuntimeCheck(expr.a[1], [local.get("$$gen_next")], RunTime.CHECK_NONE_LOOKUP),
+          ...codeGenResume(expr.a[1], local.get("$$gen_next")),
+          ...codeGenRuntimeCheck(
+            expr.a[1],
+            [local.get("$$gen_next"), i32.load(4)],
+            RunTime.CHECK_STOP_ITERATION
+          ),
+        ];
+      } else if (expr.name === "abs" || NUMERIC_BUILTINS.includes(expr.name)) {
+        return [...argStmts, ...codeGenNumericBuiltin(expr.a[1], expr.name, expr.arg.a[0])];
+      } else if (expr.name === "print" && argTyp === NUM) {
         callName = "print_num";
+      } else if (expr.name === "print" && argTyp.tag === "float") {
+        callName = "print_float";
       } else if (expr.name === "print" && argTyp === STRING) {
         callName = "print_str";
-        //print_list takes an additional arg: type of elements in list
-        //print_list(base_addr, elem_type)
-      } else if (expr.name === "print" && argTyp.tag === "list") {
-        return argStmts.concat([codeGenListElemType(argTyp.content_type), `(call $print_list)`]);
       } else if (expr.name === "print" && argTyp === BOOL) {
-        return argStmts.concat([`(call $print_bool)`]);
+        return argStmts.concat([call("$print_bool")]);
       } else if (expr.name === "print" && argTyp === NONE) {
-        return argStmts.concat([`(call $print_none)`]);
+        return argStmts.concat([call("$print_none")]);
+      } else if (expr.name === "print") {
+        // other values are printed as str() renders them, which may call a __str__ method
+        return [
+          ...argStmts,
+          codeGenTypeId(argTyp, env),
+          ...codeGenCall(expr.a[1], call("$print_value")),
+        ];
+      } else if (expr.name === "str" || expr.name === "repr") {
+        return [
+          ...argStmts,
+          codeGenTypeId(expr.arg.a[0], env),
+          ...codeGenCall(expr.a[1], call(`$$${expr.name}`)),
+        ];
       }
-      return argStmts.concat(codeGenCall(expr.a[1], `(call $${callName})`));
+      return argStmts.concat(codeGenCall(expr.a[1], call(`$${callName}`)));
     case "builtin2":
       const leftStmts = codeGenExpr(expr.left, env);
       const rightStmts = codeGenExpr(expr.right, env);
-      return [...leftStmts, ...rightStmts, `(call $${expr.name})`];
+      if (expr.a[0].tag === "float") {
+        const floatOp =
+          expr.name === "pow" ? call("$$float_pow") : expr.name === "min" ? f64.min() : f64.max();
+        return [
+          ...leftStmts,
+          ...codeGenToF64(expr.left.a[0]),
+          ...rightStmts,
+          ...codeGenToF64(expr.right.a[0]),
+          floatOp,
+          call("$$float_box"),
+        ];
+      }
+      return [...leftStmts, ...rightStmts, call(`$${expr.name}`)];
     // =======
     //       we will need to check with the built-in functions team to determine how BigNumbers will interface with the built-in functions
     //       return [
@@ -1107,17 +2139,53 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
       return codeGenLiteral(expr.value);
     case "id":
       if (env.locals.has(expr.name)) {
-        return [`(local.get $${expr.name}) ;; local ${expr.name}`];
+        return [local.get(`$${expr.name}`)];
       } else {
-        return [`(i32.const ${envLookup(env, expr.name)})`, `(i32.load)`];
+        return [i32.const(envLookup(env, expr.name)), i32.load()];
       }
     case "binop":
       const lhsStmts = codeGenExpr(expr.left, env);
       const rhsStmts = codeGenExpr(expr.right, env);
-      if (typeof expr.left.a !== "undefined" && expr.left.a[0].tag === "list") {
+      const dunder = DUNDER_BINOPS.get(expr.op);
+      if (
+        (expr.op == BinOp.In || expr.op == BinOp.NotIn) &&
+        hasDunder(expr.right.a[0], "__contains__", env)
+      ) {
+        const contains = codeGenDispatch(expr.a[1], expr.right, "__contains__", [lhsStmts], env);
+        return expr.op == BinOp.In ? contains : codeGenNot(contains);
+      } else if (hasDunder(expr.left.a[0], dunder, env)) {
+        return codeGenDispatch(expr.a[1], expr.left, dunder, [rhsStmts], env);
+      } else if (expr.op == BinOp.Neq && hasDunder(expr.left.a[0], "__eq__", env)) {
+        // without `__ne__`, `!=` negates `__eq__`
+        return codeGenNot(codeGenDispatch(expr.a[1], expr.left, "__eq__", [rhsStmts], env));
+      } else if (expr.op == BinOp.In || expr.op == BinOp.NotIn) {
+        return [...lhsStmts, ...rhsStmts, ...codeGenMembership(expr)];
+      } else if (expr.left.a[0].tag === "set") {
+        return [
+          ...lhsStmts,
+          ...rhsStmts,
+          codeGenSetMode([setElemType(expr.left.a[0]), setElemType(expr.right.a[0])]),
+          call(`$set$${codeGenSetOp(expr.op)}`),
+        ];
+      } else if (typeof expr.left.a !== "undefined" && expr.left.a[0].tag === "list") {
         return [...rhsStmts, ...lhsStmts, ...codeGenListCopy(ListCopyMode.Concat)];
+      } else if (expr.left.a[0].tag === "string") {
+        return [...lhsStmts, ...rhsStmts, ...codeGenStringOp(expr.op)];
       } else if (expr.op == BinOp.Is) {
         return [...lhsStmts, ...rhsStmts, codeGenBinOp(expr.op), ...encodeLiteral];
+      } else if ((expr.op == BinOp.Eq || expr.op == BinOp.Neq) && expr.left.a[0].tag === "class") {
+        // objects without `__eq__` are only equal to themselves
+        const identity = [...lhsStmts, ...rhsStmts, codeGenBinOp(BinOp.Is), ...encodeLiteral];
+        return expr.op == BinOp.Eq ? identity : codeGenNot(identity);
+      } else if (
+        expr.op == BinOp.Div ||
+        expr.left.a[0].tag === "float" ||
+        expr.right.a[0].tag === "float"
+      ) {
+        return codeGenFloatBinOp(expr, lhsStmts, rhsStmts);
+      } else if (expr.op == BinOp.LShift || expr.op == BinOp.RShift || expr.op == BinOp.Pow) {
+        // negative shift counts and exponents raise a ValueError
+        return [...lhsStmts, ...rhsStmts, ...codeGenCall(expr.a[1], codeGenBinOp(expr.op))];
       } else if (expr.op == BinOp.And || expr.op == BinOp.Or) {
         return [
           ...lhsStmts,
@@ -1137,7 +2205,7 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
                 [...rhsStmts, ...decodeLiteral],
                 RunTime.CHECK_ZERO_DIVISION
               )
-            : [""]),
+            : []),
           codeGenBinOp(expr.op),
         ];
       }
@@ -1145,9 +2213,19 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
       const exprStmts = codeGenExpr(expr.expr, env);
       switch (expr.op) {
         case UniOp.Neg:
-          return [...exprStmts, "(call $$bignum_neg)"];
+          if (hasDunder(expr.expr.a[0], "__neg__", env)) {
+            return codeGenDispatch(expr.a[1], expr.expr, "__neg__", [], env);
+          } else if (expr.expr.a[0].tag === "float") {
+            return [...exprStmts, f64.load(), f64.neg(), call("$$float_box")];
+          }
+          return [...exprStmts, call("$$bignum_neg")];
         case UniOp.Not:
-          return [`(i32.const 0)`, ...exprStmts, ...decodeLiteral, `(i32.eq)`, ...encodeLiteral];
+          return codeGenNot(exprStmts);
+        case UniOp.Invert:
+          if (hasDunder(expr.expr.a[0], "__invert__", env)) {
+            return codeGenDispatch(expr.a[1], expr.expr, "__invert__", [], env);
+          }
+          return [...exprStmts, call("$$bit_invert")];
         default:
           return unreachable(expr);
       }
@@ -1158,23 +2236,32 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
         //dict constructor call
         return codeGenExpr(expr.arguments[0], env); //call code gen for the dict argument
       }
+      if (expr.name === "set") {
+        return [call("$set$new")];
+      }
+      if (expr.name === "isinstance") {
+        return codeGenIsinstance(expr.arguments[0], expr.arguments[1].a[0], env);
+      }
+      if (expr.name === "type") {
+        return codeGenTypeOf(expr.arguments[0], env);
+      }
       if (expr.name === "range") {
         // TODO - error-reporting: stacktrace for range
         switch (expr.arguments.length) {
           case 1:
-            var valStmts = [`(i32.const 1)`];
+            var valStmts = [i32.const(1)];
             valStmts = valStmts.concat(expr.arguments.map((arg) => codeGenExpr(arg, env)).flat());
-            valStmts.push(`(i32.const 3)`);
-            valStmts.push(`(call $${expr.name})`);
+            valStmts.push(i32.const(3));
+            valStmts.push(call(`$${expr.name}`));
             return valStmts;
           case 2:
-            var valStmts = [`(i32.const 1)`];
+            var valStmts = [i32.const(1)];
             valStmts = valStmts.concat(expr.arguments.map((arg) => codeGenExpr(arg, env)).flat());
-            valStmts.push(`(call $${expr.name})`);
+            valStmts.push(call(`$${expr.name}`));
             return valStmts;
           case 3:
             var valStmts = expr.arguments.map((arg) => codeGenExpr(arg, env)).flat();
-            valStmts.push(`(call $${expr.name})`);
+            valStmts.push(call(`$${expr.name}`));
             return valStmts;
           default:
             throw new BaseException.InternalException("Unsupported range() call!");
@@ -1182,86 +2269,90 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
       } else if (expr.name === "len") {
         if (expr.arguments[0].a[0].tag === "list") {
           prefix = "$$list";
+        } else if (expr.arguments[0].a[0].tag === "set") {
+          prefix = "$set";
+        } else if (expr.arguments[0].a[0].tag === "string") {
+          // the number of code points, not bytes
+          return [
+            ...codeGenExpr(expr.arguments[0], env),
+            ...codeGenCall(expr.a[1], call("$str$len")),
+            ...encodeLiteral,
+          ];
+        } else if (hasDunder(expr.arguments[0].a[0], "__len__", env)) {
+          return codeGenDispatch(expr.a[1], expr.arguments[0], "__len__", [], env);
         } else {
           throw new Error("Unimplemented len() for " + expr.arguments[0].a[0].tag);
         }
       }
       var valStmts = expr.arguments.map((arg) => codeGenExpr(arg, env)).flat();
-      valStmts = valStmts.concat(codeGenCall(expr.a[1], `(call ${prefix}$${expr.name})`));
+      valStmts = valStmts.concat(codeGenCall(expr.a[1], call(`${prefix}$${expr.name}`)));
       return valStmts;
     case "call_expr":
-      const callExpr: Array<string> = [];
+      const callExpr: Array<Instr> = [];
       const nameExpr = expr.name;
       let funName: string;
       if (nameExpr.tag == "id") {
         // until now, all the function variables are wrapped in references
         // the 'id's serves for global functions
         funName = nameExpr.name;
-        callExpr.push(`(i32.load (i32.const ${envLookup(env, funName)})) ;; argument for $fPTR`);
-        expr.arguments.forEach((arg) => {
-          callExpr.push(...codeGenExpr(arg, env));
-        });
+        callExpr.push(i32.const(envLookup(env, funName)), i32.load()); // argument for $fPTR
+        callExpr.push(...codeGenCallArgs(expr, env).flat());
 
         // NOTE(alex:mm): necessary in order to root the return value
         callExpr.push(
           ...codeGenCall(
             expr.a[1],
-            `(call_indirect (type $callType${
-              expr.arguments.length + 1
-            }) (i32.load (i32.load (i32.const ${envLookup(env, funName)}))))`
+            i32.const(envLookup(env, funName)),
+            i32.load(),
+            i32.load(),
+            call_indirect(codeGenCallType(expr.arguments.length + 1, env))
           )
         );
       } else if (nameExpr.tag == "lookup") {
         funName = (nameExpr.obj as any).name;
-        callExpr.push(`(i32.load (local.get $${funName})) ;; argument for $fPTR`);
-        expr.arguments.forEach((arg) => {
-          callExpr.push(...codeGenExpr(arg, env));
-        });
+        callExpr.push(local.get(`$${funName}`), i32.load()); // argument for $fPTR
+        callExpr.push(...codeGenCallArgs(expr, env).flat());
         // NOTE(alex:mm): necessary in order to root the return value
         callExpr.push(
           ...codeGenCall(
             expr.a[1],
-            `(call_indirect (type $callType${
-              expr.arguments.length + 1
-            }) (i32.load (i32.load (local.get $${funName}))))`
+            local.get(`$${funName}`),
+            i32.load(),
+            i32.load(),
+            call_indirect(codeGenCallType(expr.arguments.length + 1, env))
           )
         );
-      } else if (nameExpr.tag == "call_expr") {
+      } else {
+        // any other callee, such as a call or a list element, evaluates to the closure
+        const callee = calleeLocal(expr.a[1]);
         callExpr.push(...codeGenExpr(nameExpr, env));
-        callExpr.push(`(local.set $$addr)`);
-        callExpr.push(`(local.get $$addr) ;; function ptr for the extra argument`);
-        expr.arguments.forEach((arg) => {
-          callExpr.push(...codeGenExpr(arg, env));
-        });
+        callExpr.push(local.set(`$${callee}`));
+        callExpr.push(local.get(`$${callee}`)); // function ptr for the extra argument
+        callExpr.push(...codeGenCallArgs(expr, env).flat());
         callExpr.push(
           ...codeGenCall(
             expr.a[1],
-            `(call_indirect (type $callType${
-              expr.arguments.length + 1
-            }) (i32.load (local.get $$addr)))`
+            local.get(`$${callee}`),
+            i32.load(),
+            call_indirect(codeGenCallType(expr.arguments.length + 1, env))
           )
         );
-      } else {
-        throw new BaseException.InternalException(`Invalid name of tag ${nameExpr.tag}`);
       }
       return callExpr;
     case "construct":
-      let allocSize = env.classes.get(expr.name).size * 4;
-      let heapTag = TAG_CLASS;
-      // TODO(alex:mm): figure out what do with ZSTs
-      // NOTE(alex:mm): calling `gcalloc` with size 0 is an error
-      // Either somehow do something with ZSTs or just allocate a placeholder
-      if (allocSize === 0) {
-        allocSize = 4;
-        heapTag = TAG_OPAQUE;
-      }
-      var stmts: Array<string> = [
-        `(i32.const ${Number(heapTag)})   ;; heap-tag: class`,
-        `(i32.const ${allocSize})   ;; size in bytes`,
-        `(call $$gcalloc)`,
-        `(local.set $$allocPointer)`,
-        `(local.get $$allocPointer)`, // return to parent expr
-        `(local.get $$allocPointer)`, // use in __init__
+      // NOTE: the vtable index makes every object at least one word, so there are no ZSTs
+      let allocSize = (env.classes.get(expr.name).size + 1) * 4;
+      const [vtableIdx, vtable] = env.vtables.get(expr.name);
+      var stmts: Array<Instr> = [
+        i32.const(Number(TAG_CLASS)), // heap-tag: class
+        i32.const(allocSize), // size in bytes
+        call("$$gcalloc"),
+        local.set("$$allocPointer"),
+        local.get("$$allocPointer"),
+        i32.const(vtableIdx),
+        i32.store(), // store vtable
+        local.get("$$allocPointer"), // return to parent expr
+        local.get("$$allocPointer"), // use in __init__
       ];
       // NOTE(alex): hack to get nested allocations to work
       // Let F by the number of fields in the class
@@ -1270,22 +2361,39 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
       //   * +1 in order to return the leave the pointer at the top of the stack
       const classLayout = env.classes.get(expr.name);
       classLayout.forEach(() => {
-        stmts.push(`(local.get $$allocPointer)`);
+        stmts.push(local.get("$$allocPointer"));
       });
       classLayout.forEach(([offset, initVal], field) =>
         stmts.push(
           ...[
             // Pointer should be on the top of the stack already
-            `(i32.add (i32.const ${offset * 4}))`, // Calc field offset from heap offset
+            i32.const(offset * 4),
+            i32.add(), // Calc field offset from heap offset
             ...codeGenLiteral(initVal), // Initialize field
-            `(i32.store) ;; store for ${field}`, // Put the default field value on the heap
+            i32.store(), // Put the default field value on the heap
           ]
         )
       );
+      const initArgs = codeGenCallArgs(expr, env).flat();
+      if (!vtable.has("__init__")) {
+        if (classLayout.has("message") && initArgs.length > 0) {
+          // Exceptions without an `__init__` store their message argument
+          return stmts.concat([
+            i32.const(classLayout.get("message")[0] * 4),
+            i32.add(),
+            ...initArgs,
+            i32.store(), // store for message
+          ]);
+        }
+        return stmts.concat([drop()]);
+      }
+      // The constructed class is known statically, so __init__ needs no dispatch
+      const initCls = vtable.get("__init__")[1];
       return stmts.concat([
         // Pointer to deref should be on the top of the stack already
-        ...codeGenCall(expr.a[1], `(call $${expr.name}$__init__)`), // call __init__
-        `(drop)`, // Drop None from __init__
+        ...initArgs,
+        ...codeGenCall(expr.a[1], call(`$${initCls}$__init__`)), // call __init__
+        drop(), // Drop None from __init__
         // Pointer to return should be on the top of the stack already
       ]);
     case "method-call":
@@ -1293,60 +2401,72 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
       //Object method calls
       if (objType.tag === "class") {
         let clsName = objType.name;
-        let argsExprs = expr.arguments.map((arg) => codeGenExpr(arg, env)).flat();
+        let args = codeGenCallArgs(expr, env);
         //Handle object indrect function calls
         if (env.classes.get(clsName).has(expr.method)) {
-          let callExpr: Array<string> = [];
+          let callExpr: Array<Instr> = [];
           callExpr.push(...codeGenExpr(expr.obj, env));
-          callExpr.push(
-            `(i32.add (i32.const ${env.classes.get(clsName).get(expr.method)[0] * 4}))`
-          );
-          callExpr.push(`(i32.load) ;; load the function pointer for the extra argument`);
-          callExpr.push(...argsExprs);
+          callExpr.push(i32.const(env.classes.get(clsName).get(expr.method)[0] * 4), i32.add());
+          callExpr.push(i32.load()); // load the function pointer for the extra argument
+          callExpr.push(...args.flat());
           callExpr.push(...codeGenExpr(expr.obj, env));
-          callExpr.push(
-            `(i32.add (i32.const ${env.classes.get(clsName).get(expr.method)[0] * 4}))`
-          );
-          callExpr.push(`(i32.load) ;; load the function pointer`);
-          callExpr.push(`(i32.load) ;; load the function index`);
+          callExpr.push(i32.const(env.classes.get(clsName).get(expr.method)[0] * 4), i32.add());
+          callExpr.push(i32.load()); // load the function pointer
+          callExpr.push(i32.load()); // load the function index
           callExpr.push(
             ...codeGenCall(
               expr.a[1],
-              `(call_indirect (type $callType${expr.arguments.length + 1}))`
+              call_indirect(codeGenCallType(expr.arguments.length + 1, env))
             )
           );
           return callExpr;
         } else {
-          //Regular class object calls
-          return [...codeGenExpr(expr.obj, env), ...argsExprs, `(call $${clsName}$${expr.method})`];
+          //Regular class object calls, dispatched through the receiver's vtable
+          return codeGenDispatch(expr.a[1], expr.obj, expr.method, args, env);
         }
         //Dict method calls
       } else if (objType.tag === "dict") {
-        return codeGenDictMethods(expr.obj, expr.method, expr.arguments, env);
+        return codeGenDictMethods(expr.obj, expr.method, expr.arguments, expr.a[1], env);
+      } else if (objType.tag === "set") {
+        return codeGenSetMethods(expr.obj, expr.method, expr.arguments, expr.a[1], env);
+      } else if (objType.tag === "string") {
+        var argsStmts = expr.arguments.map((arg) => codeGenExpr(arg, env)).flat();
+        if (expr.method === "split" && expr.arguments.length === 0) {
+          argsStmts = [i32.const(0)]; // split on whitespace
+        }
+        // the library returns raw numbers and booleans
+        const encodeResult =
+          expr.a[0].tag === "string" || expr.a[0].tag === "list" ? [] : encodeLiteral;
+        return [
+          ...codeGenExpr(expr.obj, env),
+          ...argsStmts,
+          ...codeGenCall(expr.a[1], call(`$str$${expr.method}`)),
+          ...encodeResult,
+        ];
       } else if (objType.tag === "list") {
         var objStmts = codeGenExpr(expr.obj, env);
         className = "$list";
-        var extStmts: Array<string> = [];
+        var extStmts: Array<Instr> = [];
         var objExpr = expr.obj;
         if (expr.method === "append") {
           switch (objExpr.tag) {
             case "id":
               if (env.locals.has(objExpr.name)) {
                 extStmts = [
-                  `(local.tee $$list_temp)`,
-                  `(local.set $${objExpr.name})`,
-                  `(local.get $$list_temp)`,
+                  local.tee("$$list_temp"),
+                  local.set(`$${objExpr.name}`),
+                  local.get("$$list_temp"),
                 ];
               } else {
                 const locationToStore = [
-                  `(i32.const ${envLookup(env, objExpr.name)}) ;; ${objExpr.name}`,
+                  i32.const(envLookup(env, objExpr.name)), // ${objExpr.name}
                 ];
                 extStmts = [
-                  `(local.set $$list_temp)`,
+                  local.set("$$list_temp"),
                   ...locationToStore,
-                  `(local.get $$list_temp)`,
-                  "(i32.store)",
-                  `(local.get $$list_temp)`,
+                  local.get("$$list_temp"),
+                  i32.store(),
+                  local.get("$$list_temp"),
                 ];
               }
               break;
@@ -1360,7 +2480,7 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
         return [
           ...objStmts,
           ...argsStmts,
-          ...codeGenCall(expr.a[1], `(call $${className}$${expr.method})`),
+          ...codeGenCall(expr.a[1], call(`$${className}$${expr.method}`)),
           ...extStmts,
         ];
       } else {
@@ -1383,12 +2503,12 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
       var className = objTyp.name;
       var [offset, _] = env.classes.get(className).get(expr.field);
       if (expr.field == "$deref") {
-        return [...objStmts, `(i32.load) ;; dereference`];
+        return [...objStmts, i32.load()]; // dereference
       } else {
-        return [...objStmts, `(i32.add (i32.const ${offset * 4}))`, `(i32.load)`];
+        return [...objStmts, i32.const(offset * 4), i32.add(), i32.load()];
       }
     case "dict":
-      let dictStmts: Array<string> = [];
+      let dictStmts: Array<Instr> = [];
       //Allocate memory on the heap for hashtable. Currently size is 10
       //It finally pushes address of dict on stack, ie the return value
       dictStmts = dictStmts.concat(codeGenDictAlloc(10, env, expr.entries.length));
@@ -1397,8 +2517,21 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
         dictStmts = dictStmts.concat(codeGenDictKeyVal(keyval[0], value, 10, env));
       });
       return dictStmts;
+    case "comprehension":
+      return codeGenComprehension(expr, env);
+    case "set-expr":
+      var stmts: Array<Instr> = [call("$set$new"), local.set("$$allocPointer")];
+      // One set pointer for each $set$add and one to return to the parent expr
+      for (let i = 0; i <= expr.contents.length; i++) {
+        stmts.push(local.get("$$allocPointer"));
+      }
+      expr.contents.forEach((content) => {
+        const mode = codeGenSetMode([setElemType(expr.a[0]), content.a[0]]);
+        stmts.push(...codeGenExpr(content, env), mode, call("$set$add"), drop());
+      });
+      return stmts;
     case "list-expr":
-      var stmts: Array<string> = [];
+      var stmts: Array<Instr> = [];
       var listType = 10;
       var listSize = expr.contents.length;
       var listBound = (expr.contents.length + 10) * 2;
@@ -1415,20 +2548,21 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
       //   Should be fine in this context
       stmts.push(
         ...[
-          `(i32.const ${TAG_LIST}) ;; heap-tag: list`,
-          `(i32.const ${(listBound + 3) * 4})`,
-          `(call $$gcalloc)`,
-          `(local.set $$allocPointer)`,
+          i32.const(TAG_LIST), // heap-tag: list
+          i32.const((listBound + 3) * 4),
+          call("$$gcalloc"),
+          local.set("$$allocPointer"),
         ]
       );
 
       listHeader.forEach((val) => {
         stmts.push(
           ...[
-            `(local.get $$allocPointer)`,
-            `(i32.add (i32.const ${listindex * 4}))`,
-            "(i32.const " + val + ")",
-            "(i32.store)",
+            local.get("$$allocPointer"),
+            i32.const(listindex * 4),
+            i32.add(),
+            i32.const(val),
+            i32.store(),
           ]
         );
         listindex += 1;
@@ -1436,23 +2570,39 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
       expr.contents.forEach((lexpr) => {
         stmts.push(
           ...[
-            `(local.set $$list_temp)`,
-            `(local.get $$allocPointer)`,
-            `(i32.add (i32.const ${listindex * 4}))`,
-            `(local.get $$list_temp)`,
-            "(i32.store)",
+            local.set("$$list_temp"),
+            local.get("$$allocPointer"),
+            i32.const(listindex * 4),
+            i32.add(),
+            local.get("$$list_temp"),
+            i32.store(),
           ]
         );
         listindex += 1;
       });
       //Move heap head to the end of the list and return list address
-      return stmts.concat([`(local.get $$allocPointer)`]);
+      return stmts.concat([local.get("$$allocPointer")]);
     case "tuple-expr":
       return codeGenTupleAlloc(expr, env);
+    case "ternary":
+      return [
+        ...codeGenExpr(expr.cond, env),
+        ...decodeLiteral,
+        if_(
+          "i32",
+          [...codeGenExpr(expr.thn, env), ...codeGenWiden(expr.thn.a[0], expr.a[0])],
+          [...codeGenExpr(expr.els, env), ...codeGenWiden(expr.els.a[0], expr.a[0])]
+        ),
+      ];
+    case "compare-chain":
+      return codeGenCompareChain(expr, env);
     case "bracket-lookup":
       switch (expr.obj.a[0].tag) {
         case "dict":
-          return codeGenDictBracketLookup(expr.obj, expr.key, 10, env);
+          return codeGenDictBracketLookup(expr.obj, expr.key, env);
+        case "class":
+          const itemStmts = codeGenExpr(expr.key, env);
+          return codeGenDispatch(expr.a[1], expr.obj, "__getitem__", [itemStmts], env);
         case "string":
           var brObjStmts = codeGenExpr(expr.obj, env);
           var brKeyStmts = codeGenExpr(expr.key, env);
@@ -1460,33 +2610,35 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
           brStmts.push(
             ...[
               ...brObjStmts, //Load the string object to be indexed
-              `(local.set $$string_address)`,
+              local.set("$$string_address"),
               ...brKeyStmts, //Gets the index
               ...decodeLiteral,
-              `(local.set $$string_index)`,
-              `(local.get $$string_index)`,
-              `(i32.const 0)(i32.lt_s)`, //check for negative index
-              `(if (then (local.get $$string_address)(i32.load)(i32.add (i32.const 1))(local.get $$string_index)(i32.add)(local.set $$string_index)))`, //if -ve, we do length + index
-              `(local.get $$string_index)(local.get $$string_address)(i32.load)(i32.gt_s)`, //Check for +ve index out of bounds
-              `(local.get $$string_index)(i32.const 0)(i32.lt_s)`, //Check for -ve index out of bounds
-              `(i32.or)`, // Check if string index is within bounds, i.e, b/w 0 and string_length
-              `(if (then (i32.const -1)(call $print_str)(drop)))`, //Check if string index is out of bounds
-              `(local.get $$string_address)`,
-              `(i32.add (i32.mul (i32.const 4)(local.get $$string_index)))`, //Add the index * 4 value to the address
-              `(i32.add (i32.const 4))`, //Adding 4 since string length is at first index
-              `(i32.load)`, //Load the ASCII value of the string index
-              `(local.set $$string_val)`, //store value in temp variable
-              `(i32.const ${TAG_STRING})`,
-              `(i32.const 8)`,
-              `(call $$gcalloc)`,
-              `(local.tee $$allocPointer)`,
-              `(i32.const 0)`, //Length of string is 1
-              `(i32.store)`, //Store length of string in the first position
-              `(local.get $$allocPointer)`,
-              `(i32.add (i32.const 4))`, //Add 4 since we have stored string length at beginning
-              `(local.get $$string_val)`, //load value in temp variable
-              "(i32.store)", //Store the ASCII value in the new address
-              `(local.get $$allocPointer)`,
+              local.set("$$string_index"),
+              local.get("$$string_index"),
+              i32.const(0),
+              i32.lt_s(), //check for negative index
+              if_([
+                local.get("$$string_address"),
+                i32.load(),
+                i32.const(1),
+                i32.add(),
+                local.get("$$string_index"),
+                i32.add(),
+                local.set("$$string_index"),
+              ]), //if -ve, we do length + index
+              local.get("$$string_index"),
+              local.get("$$string_address"),
+              i32.load(),
+              i32.gt_s(), //Check for +ve index out of bounds
+              local.get("$$string_index"),
+              i32.const(0),
+              i32.lt_s(), //Check for -ve index out of bounds
+              i32.or(), // Check if string index is within bounds, i.e, b/w 0 and string_length
+              if_([i32.const(-1), call("$print_str"), drop()]), //Check if string index is out of bounds
+              local.get("$$string_address"),
+              local.get("$$string_index"),
+              call("$str$charAt"), //Load the code point at the index
+              call("$str$fromChar"), //A new string of that code point
             ]
           );
           return brStmts;
@@ -1517,16 +2669,18 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
             codeGenRuntimeCheck(expr.a[1], objStmts, RunTime.CHECK_NONE_LOOKUP),
             codeGenRuntimeCheck(
               expr.a[1],
-              [...objStmts, `(i32.add (i32.const 4))`, `(i32.load)`, ...keyStmts, ...decodeLiteral],
+              [...objStmts, i32.const(4), i32.add(), i32.load(), ...keyStmts, ...decodeLiteral],
               RunTime.CHECK_INDEX_ERROR
             ),
             keyStmts,
             [
               ...decodeLiteral,
-              `(i32.mul (i32.const 4))`,
-              `(i32.add (i32.const 12)) ;; move past type, size, bound`,
-              `(i32.add) ;; retrieve element location`,
-              `(i32.load) ;; load list element`,
+              i32.const(4),
+              i32.mul(),
+              i32.const(12),
+              i32.add(), // move past type, size, bound
+              i32.add(), // retrieve element location
+              i32.load(), // load list element
             ]
           );
         case "tuple": {
@@ -1537,11 +2691,12 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
             ...codeGenExpr(expr.key, env),
             ...decodeLiteral,
             // Get byte offset
-            "(i32.mul (i32.const 4))",
+            i32.const(4),
+            i32.mul(),
             // Calculate target address
-            "(i32.add)",
+            i32.add(),
             // Load target value
-            "(i32.load)",
+            i32.load(),
           ];
         }
         default:
@@ -1557,19 +2712,19 @@ function codeGenExpr(expr: Expr<[Type, Location]>, env: GlobalEnv): Array<string
 function codeGenTupleAlloc(
   expr: WithTag<Expr<[Type, Location]>, "tuple-expr">,
   env: GlobalEnv
-): string[] {
-  let stmts = [
-    `(i32.const ${Number(TAG_TUPLE)})   ;; heap-tag: tuple`,
-    `(i32.const ${expr.contents.length * 4})   ;; size in bytes`,
-    `(call $$gcalloc)`,
-    `(local.set $$allocPointer)`,
+): Array<Instr> {
+  let stmts: Array<Instr> = [
+    i32.const(Number(TAG_TUPLE)), // heap-tag: tuple
+    i32.const(expr.contents.length * 4), // size in bytes
+    call("$$gcalloc"),
+    local.set("$$allocPointer"),
   ];
   // Adopting the object hack of pushing one copy of $$allocPointer onto the stack for every item in the tuple.
   // The best solution would be to reset allocPointer to its original value after creating the new stack
   // object, but it's probably too late to institute a change like that.
-  stmts.push("(local.get $$allocPointer)\n".repeat(expr.contents.length + 1));
+  stmts.push(...Array(expr.contents.length + 1).fill(local.get("$$allocPointer")));
   expr.contents.forEach((content, offset) => {
-    stmts.push(...codeGenExpr(content, env), `(i32.store offset=${offset * 4})`);
+    stmts.push(...codeGenExpr(content, env), i32.store(offset * 4));
   });
   return stmts;
 }
@@ -1578,356 +2733,718 @@ function codeGenDictMethods(
   obj: Expr<[Type, Location]>,
   method: string,
   args: Array<Expr<[Type, Location]>>,
+  loc: Location,
   env: GlobalEnv
-): Array<string> {
-  let dictMethodStmts: Array<string> = [];
+): Array<Instr> {
+  let dictMethodStmts: Array<Instr> = [];
   var objStmts = codeGenExpr(obj, env);
   switch (method) {
     case "get":
       var argsStmts = args.map((arg) => codeGenExpr(arg, env)).flat();
-      return [...objStmts, ...argsStmts, `(call $dict$get)`];
+      return [
+        ...objStmts,
+        ...argsStmts,
+        i32.const(codeGenKeyMode(args[0].a[0])),
+        call("$dict$get"),
+      ];
     case "update":
       if (args[0].tag === "dict") {
-        let dictStmts: Array<string> = [];
-        let dictAddress: Array<string> = [];
+        let dictStmts: Array<Instr> = [];
+        let dictAddress: Array<Instr> = [];
         args[0].entries.forEach((keyval) => {
           dictAddress = dictAddress.concat(...objStmts); //pushing the dict base address for each key-value pair update call
           const value = codeGenExpr(keyval[1], env);
           dictStmts = dictStmts.concat(codeGenDictKeyVal(keyval[0], value, 10, env));
         });
-        return [...dictAddress, ...dictStmts, "(i32.const 0)"]; //last parameter to indicate none is being returned by this function
+        return [...dictAddress, ...dictStmts, i32.const(0)]; //last parameter to indicate none is being returned by this function
       } else {
         throw new BaseException.InternalException(
           "Update doesn't support any other type of arguments other than a dict"
         );
       }
     case "pop":
-    case "clear":
       var argsStmts = args.map((arg) => codeGenExpr(arg, env)).flat();
-      return [...objStmts, ...argsStmts, `(call $dict$${method})`];
+      return [
+        ...objStmts,
+        ...argsStmts,
+        i32.const(codeGenKeyMode(args[0].a[0])),
+        codeGenTypeId(args[0].a[0], env),
+        ...codeGenCall(loc, call("$dict$pop")),
+      ];
+    case "clear":
+      return [...objStmts, call("$dict$clear")];
     default:
       throw new BaseException.InternalException("Unsupported dict method call");
   }
 }
 
-function codeGenDictAlloc(hashtableSize: number, env: GlobalEnv, entries: number): Array<string> {
+function codeGenSetMethods(
+  obj: Expr<[Type, Location]>,
+  method: string,
+  args: Array<Expr<[Type, Location]>>,
+  loc: Location,
+  env: GlobalEnv
+): Array<Instr> {
+  var objStmts = codeGenExpr(obj, env);
+  var argsStmts = args.map((arg) => codeGenExpr(arg, env)).flat();
+  var mode = codeGenSetMode([setElemType(obj.a[0]), args[0].a[0]]);
+  switch (method) {
+    case "add":
+      return [...objStmts, ...argsStmts, mode, ...codeGenCall(loc, call("$set$add"))];
+    case "discard":
+      return [
+        ...objStmts,
+        ...argsStmts,
+        mode,
+        ...codeGenCall(loc, call("$set$discard")),
+        drop(),
+        ...codeGenLiteral({ tag: "none" }),
+      ];
+    case "remove":
+      return [
+        ...objStmts,
+        ...argsStmts,
+        mode,
+        codeGenTypeId(args[0].a[0], env),
+        ...codeGenCall(loc, call("$set$remove")),
+      ];
+    default:
+      throw new BaseException.InternalException("Unsupported set method call");
+  }
+}
+
+// How $$valueEq compares two values of the same static type
+enum ValueEqMode {
+  Identity = 0, // bools, None and objects
+  Number, // ints may be bignums
+  String, // strings compare by content
+  Float, // floats are boxed
+}
+
+// Dicts and sets hash and compare strings and ints by content, other keys by identity
+function codeGenKeyMode(keyTyp: Type): ValueEqMode {
+  switch (keyTyp.tag) {
+    case "number":
+      return ValueEqMode.Number;
+    case "string":
+      return ValueEqMode.String;
+    default:
+      return ValueEqMode.Identity;
+  }
+}
+
+// The key mode of the elements of sets. The elements of an empty set literal are None, so the
+// mode comes from the first of the element types that is not
+function codeGenSetMode(elemTyps: Array<Type>): Instr {
+  const elemTyp = elemTyps.find((typ) => typ.tag !== "none");
+  return i32.const(elemTyp === undefined ? ValueEqMode.Identity : codeGenKeyMode(elemTyp));
+}
+
+function setElemType(setTyp: Type): Type {
+  return (setTyp as WithTag<Type, "set">).content_type;
+}
+
+function codeGenEqMode(typ: Type): ValueEqMode {
+  switch (typ.tag) {
+    case "number":
+      return ValueEqMode.Number;
+    case "string":
+      return ValueEqMode.String;
+    case "float":
+      return ValueEqMode.Float;
+    default:
+      return ValueEqMode.Identity;
+  }
+}
+
+// Looks up the key (left operand) in the container (right operand), both already on the stack.
+// Each kind of container has its own lookup function, returning 1 if the key is found
+function codeGenMembership(expr: WithTag<Expr<[Type, Location]>, "binop">): Array<Instr> {
+  const keyTyp = expr.left.a[0];
+  const containerTyp = expr.right.a[0];
+  var lookupStmts: Array<Instr>;
+  switch (containerTyp.tag) {
+    case "list":
+      // The content type of an empty list literal is unknown
+      const elemTyp = containerTyp.content_type === null ? keyTyp : containerTyp.content_type;
+      lookupStmts = [
+        i32.const(codeGenEqMode(elemTyp)),
+        ...codeGenCall(expr.a[1], call("$$list$in")),
+      ];
+      break;
+    case "string":
+      lookupStmts = codeGenCall(expr.a[1], call("$str$in"));
+      break;
+    case "dict":
+      lookupStmts = [
+        i32.const(codeGenKeyMode(keyTyp)),
+        ...codeGenCall(expr.a[1], call("$dict$in")),
+      ];
+      break;
+    case "set":
+      lookupStmts = [
+        codeGenSetMode([containerTyp.content_type, keyTyp]),
+        ...codeGenCall(expr.a[1], call("$dict$in")),
+      ];
+      break;
+    case "tuple":
+      // Only the elements whose static type is compared the same way as the key can equal it
+      if (containerTyp.contentTypes.length > 32) {
+        throw new BaseException.CompileError(
+          [expr.a[1]],
+          "'in' supports tuples of at most 32 elements"
+        );
+      }
+      const keyMode = codeGenEqMode(keyTyp);
+      const mask = containerTyp.contentTypes.reduce(
+        (mask, elemTyp, i) => (codeGenEqMode(elemTyp) === keyMode ? mask | (1 << i) : mask),
+        0
+      );
+      lookupStmts = [i32.const(mask), i32.const(keyMode), call("$tuple$in")];
+      break;
+    default:
+      throw new BaseException.InternalException(
+        "Report this as a bug to the compiler developer, this shouldn't happen " + containerTyp.tag
+      );
+  }
+  if (expr.op == BinOp.NotIn) {
+    lookupStmts.push(i32.eqz());
+  }
+  return [...lookupStmts, ...encodeLiteral];
+}
+
+function codeGenSetOp(op: BinOp): string {
+  switch (op) {
+    case BinOp.BitOr:
+      return "union";
+    case BinOp.BitAnd:
+      return "intersection";
+    case BinOp.Minus:
+      return "difference";
+    default:
+      throw new BaseException.InternalException("Unsupported set operator " + BinOp[op]);
+  }
+}
+
+function codeGenDictAlloc(hashtableSize: number, env: GlobalEnv, entries: number): Array<Instr> {
   // NOTE(alex:mm): $$allocPointer is clobbered by inner exprs
   // Dump it to the stack before you codegen for inner exprs
-  let dictAllocStmts: Array<string> = [];
+  let dictAllocStmts: Array<Instr> = [];
   dictAllocStmts = dictAllocStmts.concat([
-    `(i32.const ${Number(TAG_DICT)})   ;; heap-tag: dictionary`,
-    `(i32.const ${hashtableSize * 4})   ;; size in bytes`,
-    `(call $$gcalloc)`,
-    `(local.set $$allocPointer)`,
-    `(local.get $$allocPointer)`, // return to parent expr
+    i32.const(Number(TAG_DICT)), // heap-tag: dictionary
+    i32.const(hashtableSize * 4), // size in bytes
+    call("$$gcalloc"),
+    local.set("$$allocPointer"),
+    local.get("$$allocPointer"), // return to parent expr
   ]);
 
   //Ideally this loop should be replaced by call to allocator API to allocate hashtablesize entries on heap.
   for (let i = 0; i < hashtableSize; i++) {
     dictAllocStmts.push(
       ...[
-        `(local.get $$allocPointer)`,
-        `(i32.add (i32.const ${i * 4}))`, // Calc hash table entry offset from heap offset
+        local.get("$$allocPointer"),
+        i32.const(i * 4),
+        i32.add(), // Calc hash table entry offset from heap offset
         ...codeGenLiteral({ tag: "none" }), // CodeGen for "none" literal
-        "(i32.store)", // Initialize to none
+        i32.store(), // Initialize to none
       ]
     );
   }
   //Push the base address of dict on the stack to be consumed by each of the key:val pair initialization
   for (let i = 0; i < entries; i++) {
-    dictAllocStmts = dictAllocStmts.concat(["(local.get $$allocPointer)"]);
+    dictAllocStmts = dictAllocStmts.concat([local.get("$$allocPointer")]);
   }
 
   // entries + 1 dict pointers should be on the stack
   return dictAllocStmts;
 }
 
-function allocateStringMemory(string_val: string): Array<string> {
-  const stmts = [];
-  var i = 1;
-  // NOTE(alex:mm): It looks like characters are stored in 4 bytes?
-  const allocSizeBytes = (string_val.length + 1) * 4;
-  // Storing the length of the string at the beginning
-  // TODO(alex:mm): Where is the length storing code?
-  stmts.push(
-    ...[
-      `(i32.const ${Number(TAG_STRING)})  ;; heap-tag: string`,
-      `(i32.const ${allocSizeBytes})`,
-      `(call $$gcalloc)`,
-      `(local.set $$allocPointer)`,
-      `(local.get $$allocPointer)`,
-      `(i32.const ${string_val.length - 1})`, // Store ASCII value for 0 (end of string)
-      "(i32.store)", // Store the ASCII value 0 in the new address
-    ]
-  );
-  while (i != string_val.length + 1) {
-    const char_ascii = string_val.charCodeAt(i - 1);
+// See STRING_HEADER_SIZE for the layout of strings
+function allocateStringMemory(string_val: string): Array<Instr> {
+  const codePoints = stringCodePoints(string_val);
+  const kind = stringKind(codePoints);
+  const stmts: Array<Instr> = [
+    i32.const(Number(TAG_STRING)), // heap-tag: string
+    i32.const(stringSize(codePoints.length, kind)),
+    call("$$gcalloc"),
+    local.set("$$allocPointer"),
+    local.get("$$allocPointer"),
+    i32.const(codePoints.length - 1),
+    i32.store(), // length - 1
+    local.get("$$allocPointer"),
+    i32.const(kind),
+    i32.store(4), // bytes per code point
+  ];
+  stringWords(codePoints, kind).forEach((word, i) => {
     stmts.push(
-      ...[
-        `(local.get $$allocPointer)`,
-        `(i32.add (i32.const ${i * 4}))`, // Calc string index offset from heap offset
-        `(i32.const ${char_ascii})`, // Store the ASCII value of the string index
-        "(i32.store)", // Store the ASCII value in the new address
-      ]
+      local.get("$$allocPointer"),
+      i32.const(STRING_HEADER_SIZE + i * 4),
+      i32.add(),
+      i32.const(word),
+      i32.store()
     );
-    i += 1;
-  }
+  });
   return stmts.concat([
-    `(local.get $$allocPointer)`, // return the allocated pointer
+    local.get("$$allocPointer"), // return the allocated pointer
   ]);
 }
 
+// The dict and the key are evaluated once; a missing key raises a KeyError with its repr
 function codeGenDictBracketLookup(
   obj: Expr<[Type, Location]>,
   key: Expr<[Type, Location]>,
-  hashtableSize: number,
   env: GlobalEnv
-): Array<string> {
-  let dictKeyValStmts: Array<string> = [];
-  var objStmts = codeGenExpr(obj, env);
-  var checkNone = codeGenRuntimeCheck(obj.a[1], objStmts, RunTime.CHECK_NONE_LOOKUP);
-  var checkKey = codeGenRuntimeCheck(
-    obj.a[1],
-    [
-      ...objStmts,
-      ...codeGenExpr(key, env),
-      `(i32.const ${hashtableSize})`,
-      "(call $ha$htable$Lookup)",
-    ],
-    RunTime.CHECK_KEY_ERROR
-  );
-  dictKeyValStmts = dictKeyValStmts.concat(objStmts);
-  dictKeyValStmts = dictKeyValStmts.concat(checkNone);
-  dictKeyValStmts = dictKeyValStmts.concat(checkKey);
-  dictKeyValStmts = dictKeyValStmts.concat(codeGenExpr(key, env));
-  dictKeyValStmts = dictKeyValStmts.concat([
-    `(i32.const ${hashtableSize})`,
-    "(call $ha$htable$Lookup)",
-  ]);
-  return dictKeyValStmts.concat(["(i32.load)"]);
+): Array<Instr> {
+  return [
+    ...codeGenExpr(obj, env),
+    ...codeGenExpr(key, env),
+    i32.const(codeGenKeyMode(key.a[0])),
+    codeGenTypeId(key.a[0], env),
+    ...codeGenCall(obj.a[1], call("$dict$getitem")),
+  ];
 }
 
 //Assumes that base address of dict is pushed onto the stack already
 function codeGenDictKeyVal(
   key: Expr<[Type, Location]>,
-  val: string[],
+  val: Array<Instr>,
   hashtableSize: number,
   env: GlobalEnv
-): Array<string> {
-  let dictKeyValStmts: Array<string> = [];
+): Array<Instr> {
+  let dictKeyValStmts: Array<Instr> = [];
   dictKeyValStmts = dictKeyValStmts.concat(codeGenExpr(key, env));
   dictKeyValStmts = dictKeyValStmts.concat(val);
   dictKeyValStmts = dictKeyValStmts.concat([
-    `(i32.const ${hashtableSize})`,
-    "(call $ha$htable$Update)",
+    i32.const(hashtableSize),
+    i32.const(codeGenKeyMode(key.a[0])),
+    call("$ha$htable$Update"),
   ]);
   return dictKeyValStmts;
 }
 
-function listBuiltInFuns(): Array<string> {
-  let listFunStmts: Array<string> = [];
+// `$$dispatchN` calls the method in vtable `slot` of its first argument, `self`, with N arguments
+// (`self` included). The caller pushes the call location, so a None `self` is reported there.
+function dispatchFuns(maxArity: number): Array<Func> {
+  let dispatchFuns: Array<Func> = [];
+  for (let arity = 1; arity <= maxArity; arity++) {
+    const params = [...Array(arity).keys()].map((i) => `$$arg${i}`);
+    dispatchFuns.push({
+      name: `$$dispatch${arity}`,
+      params: i32Vars(...params, "$$slot"),
+      results: ["i32"],
+      locals: [],
+      body: [
+        local.get("$$arg0"),
+        call("$$check_none_class"),
+        ...returnOnException,
+        ...params.map((p) => local.get(p)),
+        // `$$` functions are not augmented by augmentFnGc, so place the callee's temps here
+        call("$$pushCaller"),
+        local.get("$$arg0"),
+        i32.load(),
+        local.get("$$slot"),
+        i32.add(), // vtable idx + slot
+        call_indirect({ params: Array(arity).fill("i32"), results: ["i32"] }),
+        call("$$popCaller"),
+        return_(),
+      ],
+    });
+  }
+  return dispatchFuns;
+}
+
+function listBuiltInFuns(): Array<Func> {
+  let listFunStmts: Array<Func> = [];
   //len function
-  listFunStmts.push(
-    ...[
-      "(func $$list$len (param $$list_cmp i32) (result i32)",
-      `(local.get $$list_cmp)`,
-      `(i32.add (i32.const 4))`,
-      `(i32.load)`,
+  listFunStmts.push({
+    name: "$$list$len",
+    params: i32Vars("$$list_cmp"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$$list_cmp"),
+      i32.const(4),
+      i32.add(),
+      i32.load(),
       ...encodeLiteral,
-      "(return))",
-      "",
-    ]
-  );
+      return_(),
+    ],
+  });
   //append function
-  listFunStmts.push(
-    ...[
-      "(func $$list$append (param $$list_cmp i32) (param $$val i32) (result i32)",
-      `(local $$list_base i32)`,
-      `(local $$list_index i32)`,
-      `(local $$list_index2 i32)`,
-      `(local $$list_size i32)`,
-      `(local $$list_bound i32)`,
-      `(local $$list_temp i32)`,
-      `(if `, // check if list bounds need to expand
-      `(i32.eq`,
-      `(local.get $$list_cmp)`, // get address of current list
-      `(i32.add (i32.const 8))`,
-      `(i32.load)`, // load the bound of the list
-      `(local.get $$list_cmp)`, // get address of current list
-      `(i32.add (i32.const 4))`,
-      `(i32.load)`, // load the size of the list
-      `)`,
-      `(then`,
-      `(local.get $$list_cmp)`, // generate code for append element
-      ...codeGenListCopy(ListCopyMode.Double),
-      `(local.set $$list_cmp)`,
-      `)`, // end then
-      `)`, // end if
-      `(local.get $$list_cmp)`,
-      `(i32.add (i32.const 4))`,
-      `(i32.load)`, //load index to store
-      `(i32.mul (i32.const 4))`,
-      `(i32.add (i32.const 12))`, // add base position
-      `(i32.add (local.get $$list_cmp))`,
-      `(local.get $$val)`,
-      `(i32.store)`,
-      `(local.get $$list_cmp)`,
-      `(i32.add (i32.const 4))`,
-      `(local.get $$list_cmp)`,
-      `(i32.add (i32.const 4))`,
-      `(i32.load)`,
-      `(i32.add (i32.const 1))`, // add 1 to the size
-      `(i32.store)`,
-      `(local.get $$list_cmp)`,
-      "(return))",
-      "",
-    ]
-  );
+  listFunStmts.push({
+    name: "$$list$append",
+    params: i32Vars("$$list_cmp", "$$val"),
+    results: ["i32"],
+    locals: i32Vars(
+      "$$list_base",
+      "$$list_index",
+      "$$list_index2",
+      "$$list_size",
+      "$$list_bound",
+      "$$list_temp"
+    ),
+    body: [
+      // check if list bounds need to expand
+      local.get("$$list_cmp"),
+      // get address of current list
+      i32.const(8),
+      i32.add(),
+      i32.load(),
+      // load the bound of the list
+      local.get("$$list_cmp"),
+      // get address of current list
+      i32.const(4),
+      i32.add(),
+      i32.load(),
+      // load the size of the list
+      i32.eq(),
+      if_([
+        local.get("$$list_cmp"),
+        // generate code for append element
+        ...codeGenListCopy(ListCopyMode.Double),
+        local.set("$$list_cmp"),
+        // end then
+      ]),
+      // end if
+      local.get("$$list_cmp"),
+      i32.const(4),
+      i32.add(),
+      i32.load(),
+      // load index to store
+      i32.const(4),
+      i32.mul(),
+      i32.const(12),
+      i32.add(),
+      // add base position
+      local.get("$$list_cmp"),
+      i32.add(),
+      local.get("$$val"),
+      i32.store(),
+      local.get("$$list_cmp"),
+      i32.const(4),
+      i32.add(),
+      local.get("$$list_cmp"),
+      i32.const(4),
+      i32.add(),
+      i32.load(),
+      i32.const(1),
+      i32.add(),
+      // add 1 to the size
+      i32.store(),
+      local.get("$$list_cmp"),
+      return_(),
+    ],
+  });
 
   //index function //count could be very similar to this function
-  listFunStmts.push(
-    ...[
-      "(func $$list$index (param $$list_cmp i32) (param $$val i32) (result i32)",
-      `(local $$list_index i32)`, // to iterate through list
-      `(local $$list_size i32)`, // size of list
-      `(i32.const 0)`, // list_index = 0
-      `(local.set $$list_index)`,
-      `(local.get $$list_cmp)`, // load list_size from list metadata
-      `(i32.add (i32.const 4))`,
-      `(i32.load)`,
-      `(local.set $$list_size)`,
-      `(local.get $$list_cmp)`, // beginning of list
-      `(i32.add (i32.const 12))`,
-      `(local.set $$list_cmp)`,
-      `(block`,
-      `(loop`, // while loop for searching the value
-      `(br_if 1`, // condition start
-      `(local.get $$list_size)`,
-      `(local.get $$list_index)`,
-      `(i32.eq)`,
-      `)`, // condition end
-      // loop body start
-
-      `(if `, // check if element of index match to the value
-      `(i32.eq`,
-      `(local.get $$list_cmp)`,
-      `(local.get $$list_index)`,
-      `(i32.mul (i32.const 4))`,
-      `(i32.add)`,
-      `(i32.load)`,
-      `(local.get $$val)`,
-      `)`,
-
-      `(then`, // return index
-      `(local.get $$list_index)`,
-      ...encodeLiteral,
-      `(return)`,
-      `)`, // end then
-      `)`, // end if
-      `(local.get $$list_index)`,
-      `(i32.add (i32.const 1))`,
-      `(local.set $$list_index)`,
-
-      `(br 0)`,
-      `)`,
-      `)`,
-      `(i32.const -1)`, // find nothing
+  listFunStmts.push({
+    name: "$$list$index",
+    params: i32Vars("$$list_cmp", "$$val"),
+    results: ["i32"],
+    locals: i32Vars("$$list_index", "$$list_size"),
+    body: [
+      // to iterate through list
+      // size of list
+      i32.const(0),
+      // list_index = 0
+      local.set("$$list_index"),
+      local.get("$$list_cmp"),
+      // load list_size from list metadata
+      i32.const(4),
+      i32.add(),
+      i32.load(),
+      local.set("$$list_size"),
+      local.get("$$list_cmp"),
+      // beginning of list
+      i32.const(12),
+      i32.add(),
+      local.set("$$list_cmp"),
+      block([
+        loop([
+          // while loop for searching the value
+          // condition start
+          local.get("$$list_size"),
+          local.get("$$list_index"),
+          i32.eq(),
+          br_if(1),
+          // condition end
+          // loop body start
+          // check if element of index match to the value
+          local.get("$$list_cmp"),
+          local.get("$$list_index"),
+          i32.const(4),
+          i32.mul(),
+          i32.add(),
+          i32.load(),
+          local.get("$$val"),
+          i32.eq(),
+          if_([
+            // return index
+            local.get("$$list_index"),
+            ...encodeLiteral,
+            return_(),
+            // end then
+          ]),
+          // end if
+          local.get("$$list_index"),
+          i32.const(1),
+          i32.add(),
+          local.set("$$list_index"),
+          br(0),
+        ]),
+      ]),
+      i32.const(-1),
+      // find nothing
       ...encodeLiteral,
-      "(return))",
-      "",
-    ]
-  );
+      return_(),
+    ],
+  });
 
   //count function, similar to index
-  listFunStmts.push(
-    ...[
-      "(func $$list$count (param $$list_cmp i32) (param $$val i32) (result i32)",
-      `(local $$list_counter i32)`, // counter of how many times we see list_cmp
-      `(local $$list_index i32)`, // to iterate through list
-      `(local $$list_size i32)`, // size of list
-      `(i32.const 0)`, // list_counter = 0
-      `(local.set $$list_counter)`,
-      `(i32.const 0)`, // list_index = 0
-      `(local.set $$list_index)`,
-      `(local.get $$list_cmp)`, // load list_size from list metadata
-      `(i32.add (i32.const 4))`,
-      `(i32.load)`,
-      `(local.set $$list_size)`,
-      `(local.get $$list_cmp)`, // beginning of list
-      `(i32.add (i32.const 12))`,
-      `(local.set $$list_cmp)`,
-      `(block`,
-      `(loop`, // while loop for searching the value
-      `(br_if 1`, // condition start
-      `(local.get $$list_size)`,
-      `(local.get $$list_index)`,
-      `(i32.eq)`,
-      `)`, // condition end
-      // loop body start
-
-      `(if `, // check if element of index match to the value
-      `(i32.eq`,
-      `(local.get $$list_cmp)`,
-      `(local.get $$list_index)`,
-      `(i32.mul (i32.const 4))`,
-      `(i32.add)`,
-      `(i32.load)`,
-      `(local.get $$val)`,
-      `)`,
-
-      `(then`, // add to count variable
-      `(local.get $$list_counter)`,
-      `(i32.add (i32.const 1))`,
-      `(local.set $$list_counter)`,
-      `)`, // end then
-      `)`, // end if
-      `(local.get $$list_index)`,
-      `(i32.add (i32.const 1))`,
-      `(local.set $$list_index)`,
-
-      `(br 0)`,
-      `)`,
-      `)`,
-      `(local.get $$list_counter)`, // return count
+  listFunStmts.push({
+    name: "$$list$count",
+    params: i32Vars("$$list_cmp", "$$val"),
+    results: ["i32"],
+    locals: i32Vars("$$list_counter", "$$list_index", "$$list_size"),
+    body: [
+      // counter of how many times we see list_cmp
+      // to iterate through list
+      // size of list
+      i32.const(0),
+      // list_counter = 0
+      local.set("$$list_counter"),
+      i32.const(0),
+      // list_index = 0
+      local.set("$$list_index"),
+      local.get("$$list_cmp"),
+      // load list_size from list metadata
+      i32.const(4),
+      i32.add(),
+      i32.load(),
+      local.set("$$list_size"),
+      local.get("$$list_cmp"),
+      // beginning of list
+      i32.const(12),
+      i32.add(),
+      local.set("$$list_cmp"),
+      block([
+        loop([
+          // while loop for searching the value
+          // condition start
+          local.get("$$list_size"),
+          local.get("$$list_index"),
+          i32.eq(),
+          br_if(1),
+          // condition end
+          // loop body start
+          // check if element of index match to the value
+          local.get("$$list_cmp"),
+          local.get("$$list_index"),
+          i32.const(4),
+          i32.mul(),
+          i32.add(),
+          i32.load(),
+          local.get("$$val"),
+          i32.eq(),
+          if_([
+            // add to count variable
+            local.get("$$list_counter"),
+            i32.const(1),
+            i32.add(),
+            local.set("$$list_counter"),
+            // end then
+          ]),
+          // end if
+          local.get("$$list_index"),
+          i32.const(1),
+          i32.add(),
+          local.set("$$list_index"),
+          br(0),
+        ]),
+      ]),
+      local.get("$$list_counter"),
+      // return count
       ...encodeLiteral,
-      "(return))",
-      "",
-    ]
-  );
+      return_(),
+    ],
+  });
 
   //clear function
   //simply sets internal metadata size to 0
-  listFunStmts.push(
-    ...[
-      "(func $$list$clear (param $$list_baseaddr i32) (result i32)",
-      `(local.get $$list_baseaddr)`, // get address of list size
-      `(i32.add (i32.const 4))`,
-      `(i32.const 0)`, // store 0 into list size
-      `(i32.store)`,
-      `(local.get $$list_baseaddr)`, // return address of the list
-      "(return))",
-      "",
-    ]
-  );
-
-  //copy function
-  //creates new copy of that list and returns new copy's base addr
-  listFunStmts.push(
-    ...[
-      "(func $$list$copy (param $$list_baseaddr i32) (result i32)",
-      `(local $$list_base i32)`,
-      `(local $$list_index i32)`,
-      `(local $$list_bound i32)`,
-      `(local $$list_temp i32)`,
-      `(local $$list_cmp i32)`,
-      `(local $$list_index2 i32)`,
-      `(local $$list_size i32)`,
-      `(local.get $$list_baseaddr)`,
-      ...codeGenListCopy(ListCopyMode.Copy),
-      "(return))",
-      "",
-    ]
-  );
+  listFunStmts.push({
+    name: "$$list$clear",
+    params: i32Vars("$$list_baseaddr"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$$list_baseaddr"),
+      // get address of list size
+      i32.const(4),
+      i32.add(),
+      i32.const(0),
+      // store 0 into list size
+      i32.store(),
+      local.get("$$list_baseaddr"),
+      // return address of the list
+      return_(),
+    ],
+  });
+
+  //delete function
+  //removes the element at an index, negative indices count from the end
+  listFunStmts.push({
+    name: "$$list$delete",
+    params: i32Vars("$$list_cmp", "$$list_index"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$$list_cmp"),
+      call("$$check_none_lookup"),
+      ...returnOnException,
+      local.get("$$list_index"),
+      i32.const(0),
+      i32.lt_s(),
+      if_([
+        local.get("$$list_index"),
+        local.get("$$list_cmp"),
+        i32.load(4),
+        i32.add(),
+        local.set("$$list_index"),
+      ]),
+      local.get("$$list_cmp"),
+      i32.load(4),
+      local.get("$$list_index"),
+      call("$$check_index"),
+      ...returnOnException,
+      local.get("$$list_cmp"),
+      local.get("$$list_index"),
+      local.get("$$list_index"),
+      i32.const(1),
+      i32.add(),
+      call("$$list$delete_slice"),
+      return_(),
+    ],
+  });
+
+  //delete slice function
+  //removes the elements from start up to end, bounds are clamped like in Python, and shifts the
+  //elements after them in place
+  listFunStmts.push({
+    name: "$$list$delete_slice",
+    params: i32Vars("$$list_cmp", "$$start", "$$end"),
+    results: ["i32"],
+    locals: i32Vars("$$list_size", "$$list_index"),
+    body: [
+      local.get("$$list_cmp"),
+      call("$$check_none_lookup"),
+      ...returnOnException,
+      local.get("$$list_cmp"),
+      i32.load(4),
+      local.set("$$list_size"),
+      local.get("$$start"),
+      local.get("$$list_size"),
+      call("$$list$clamp"),
+      local.set("$$start"),
+      local.get("$$end"),
+      local.get("$$list_size"),
+      call("$$list$clamp"),
+      local.set("$$end"),
+      local.get("$$end"),
+      local.get("$$start"),
+      i32.le_s(),
+      // empty slice
+      if_([i32.const(0), return_()]),
+      local.get("$$end"),
+      local.set("$$list_index"),
+      block([
+        loop([
+          // move each element after the slice to the start of the slice
+          local.get("$$list_index"),
+          local.get("$$list_size"),
+          i32.ge_s(),
+          br_if(1),
+          local.get("$$list_cmp"),
+          local.get("$$list_index"),
+          local.get("$$end"),
+          local.get("$$start"),
+          i32.sub(),
+          i32.sub(),
+          i32.const(4),
+          i32.mul(),
+          i32.add(),
+          local.get("$$list_cmp"),
+          local.get("$$list_index"),
+          i32.const(4),
+          i32.mul(),
+          i32.add(),
+          i32.load(12),
+          i32.store(12),
+          local.get("$$list_index"),
+          i32.const(1),
+          i32.add(),
+          local.set("$$list_index"),
+          br(0),
+        ]),
+      ]),
+      local.get("$$list_cmp"),
+      // shrink the size
+      local.get("$$list_size"),
+      local.get("$$end"),
+      local.get("$$start"),
+      i32.sub(),
+      i32.sub(),
+      i32.store(4),
+      i32.const(0),
+      return_(),
+    ],
+  });
+
+  //clamps a slice bound to a list size, negative bounds count from the end
+  listFunStmts.push({
+    name: "$$list$clamp",
+    params: i32Vars("$$list_index", "$$list_size"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$$list_index"),
+      i32.const(0),
+      i32.lt_s(),
+      if_([
+        local.get("$$list_index"),
+        local.get("$$list_size"),
+        i32.add(),
+        local.set("$$list_index"),
+      ]),
+      local.get("$$list_index"),
+      i32.const(0),
+      i32.lt_s(),
+      if_([i32.const(0), return_()]),
+      local.get("$$list_index"),
+      local.get("$$list_size"),
+      i32.gt_s(),
+      if_([local.get("$$list_size"), return_()]),
+      local.get("$$list_index"),
+      return_(),
+    ],
+  });
+
+  //copy function
+  //creates new copy of that list and returns new copy's base addr
+  listFunStmts.push({
+    name: "$$list$copy",
+    params: i32Vars("$$list_baseaddr"),
+    results: ["i32"],
+    locals: i32Vars(
+      "$$list_base",
+      "$$list_index",
+      "$$list_bound",
+      "$$list_temp",
+      "$$list_cmp",
+      "$$list_index2",
+      "$$list_size"
+    ),
+    body: [local.get("$$list_baseaddr"), ...codeGenListCopy(ListCopyMode.Copy), return_()],
+  });
 
   //          ["append",[[tObj.a.content_type], tObj.a]],
   //           ["clear", [[], tObj.a]],
@@ -1936,581 +3453,3076 @@ function listBuiltInFuns(): Array<string> {
   //           ["index", [[tObj.a.content_type], NUM]],
 
   //This function returns a memory address for the value of a key. It returns -1 if not found.
+  //in operator, returns 1 if an element equals $$val according to $$mode (see ValueEqMode)
+  listFunStmts.push({
+    name: "$$list$in",
+    params: i32Vars("$$val", "$$list_cmp", "$$mode"),
+    results: ["i32"],
+    locals: i32Vars("$$list_index", "$$list_size"),
+    body: [
+      // to iterate through list
+      // size of list
+      local.get("$$list_cmp"),
+      call("$$check_none_lookup"),
+      ...returnOnException,
+      local.get("$$list_cmp"),
+      // load list_size from list metadata
+      i32.const(4),
+      i32.add(),
+      i32.load(),
+      local.set("$$list_size"),
+      block([
+        loop([
+          // while loop for searching the value
+          local.get("$$list_size"),
+          local.get("$$list_index"),
+          i32.eq(),
+          br_if(1),
+          local.get("$$val"),
+          local.get("$$list_cmp"),
+          local.get("$$list_index"),
+          i32.const(4),
+          i32.mul(),
+          i32.add(),
+          i32.const(12),
+          i32.add(),
+          // move past type, size, bound
+          i32.load(),
+          local.get("$$mode"),
+          call("$$valueEq"),
+          if_([i32.const(1), return_()]),
+          // found the value
+          local.get("$$list_index"),
+          i32.const(1),
+          i32.add(),
+          local.set("$$list_index"),
+          br(0),
+        ]),
+      ]),
+      i32.const(0),
+      // find nothing
+      return_(),
+    ],
+  });
+
   return listFunStmts;
 }
 
-function dictUtilFuns(): Array<string> {
-  let dictFunStmts: Array<string> = [];
+// String methods, concatenation and comparison.
+// Layout of strings: [length - 1, kind, code points...], see STRING_HEADER_SIZE.
+// The functions take and return raw pointers and numbers, the caller encodes the results
+function codeGenStringOp(op: BinOp): Array<Instr> {
+  switch (op) {
+    case BinOp.Plus:
+      return [call("$str$concat")];
+    case BinOp.Eq:
+      return [call("$str$eq"), ...encodeLiteral];
+    case BinOp.Neq:
+      return [call("$str$eq"), i32.eqz(), ...encodeLiteral];
+    case BinOp.Lt:
+      return [call("$str$cmp"), i32.const(0), i32.lt_s(), ...encodeLiteral];
+    case BinOp.Lte:
+      return [call("$str$cmp"), i32.const(0), i32.le_s(), ...encodeLiteral];
+    case BinOp.Gt:
+      return [call("$str$cmp"), i32.const(0), i32.gt_s(), ...encodeLiteral];
+    case BinOp.Gte:
+      return [call("$str$cmp"), i32.const(0), i32.ge_s(), ...encodeLiteral];
+    default:
+      throw new BaseException.InternalException(`Unsupported string operator ${op}`);
+  }
+}
+
+function stringBuiltInFuns(): Array<Func> {
+  let strFunStmts: Array<Func> = [];
+  const len = (s: string) => [local.get(s), i32.load(), i32.const(1), i32.add()];
+  const kind = (s: string) => [local.get(s), i32.load(4)];
+  const charAt = (s: string, ...i: Array<Instr>) => [local.get(s), ...i, call("$str$charAt")];
+
+  //This function allocates a string of $len code points of $kind bytes, padded to a word
+  strFunStmts.push({
+    name: "$str$alloc",
+    params: i32Vars("$len", "$kind"),
+    results: ["i32"],
+    locals: i32Vars("$str"),
+    body: [
+      i32.const(TAG_STRING),
+      // heap-tag: string
+      local.get("$len"),
+      local.get("$kind"),
+      i32.mul(),
+      i32.const(3),
+      i32.add(),
+      i32.const(-4),
+      i32.and(),
+      // round up to a word
+      i32.const(STRING_HEADER_SIZE),
+      i32.add(),
+      call("$$gcalloc"),
+      local.set("$str"),
+      local.get("$str"),
+      local.get("$len"),
+      i32.const(1),
+      i32.sub(),
+      i32.store(),
+      local.get("$str"),
+      local.get("$kind"),
+      i32.store(4),
+      local.get("$str"),
+      return_(),
+    ],
+  });
 
-  //This function returns a memory address for the value of a key.
-  //If key is not found, throw a key not found error
-  dictFunStmts.push(
-    ...[
-      "(func $dict$get (param $baseAddr i32) (param $key i32) (param $defaultValue i32) (result i32)",
-      "(local $nodePtr i32)", // Local variable to store the address of nodes in linkedList
-      "(local $tagHitFlag i32)", // Local bool variable to indicate whether tag is hit
-      "(local $returnVal i32)",
-      "(local.get $defaultValue)",
-      "(local.set $returnVal)", // Initialize returnVal to defaultValue argument
-      "(i32.const 0)",
-      "(local.set $tagHitFlag)", // Initialize tagHitFlag to False
-      "(local.get $baseAddr)",
-      "(local.get $key)",
-      "(i32.const 10)", //hard-coding hash table size
-      "(i32.rem_s)", //Compute hash
-      "(i32.mul (i32.const 4))", //Multiply by 4 for memory offset
-      "(i32.add)", //Reaching the proper bucket. Call this bucketAddress
-      "(i32.load)",
-      "(local.set $nodePtr)",
-      "(local.get $nodePtr)",
-      "(i32.const 0)", //None
-      "(i32.eq)",
-      "(if",
-      "(then", // if the literal in bucketAddress is None
-      "(local.get $defaultValue)",
-      "(local.set $returnVal)", // Initialize returnVal to -1
-      ")", //close then
-      "(else",
-      "(block",
-      "(loop", // While loop till we find a node whose next is None
-      "(local.get $nodePtr)",
-      "(i32.load)", //Loading head of linkedList
-      "(local.get $key)",
-      "(i32.eq)", // if tag is same as the provided one
-      "(if",
-      "(then",
-      "(local.get $nodePtr)",
-      "(i32.const 4)",
-      "(i32.add)", // Value
-      "(i32.load)", //HT
-      "(local.set $returnVal)",
-      "(i32.const 1)",
-      "(local.set $tagHitFlag)", // Set tagHitFlag to True
-      ")", // closing then
-      ")", // closing if
-      "(local.get $nodePtr)",
-      "(i32.const 8)",
-      "(i32.add)", // Next pointer
-      "(i32.load)",
-      "(local.set $nodePtr)",
-      "(br_if 0", // Opening br_if
-      "(local.get $nodePtr)",
-      "(i32.const 0)", //None
-      "(i32.ne)", // If nodePtr not None
-      "(local.get $tagHitFlag)",
-      "(i32.eqz)",
-      "(i32.and)",
-      ")", // Closing br_if
-      "(br 1)",
-      ")", // Closing loop
-      ")", // Closing Block
-      ")", //close else
-      ")", // close if
-      "(local.get $returnVal)",
-      "(return))",
-      "",
-    ]
+  //The smallest kind that fits $char
+  strFunStmts.push(
+    {
+      name: "$str$kindOf",
+      params: i32Vars("$char"),
+      results: ["i32"],
+      locals: i32Vars(),
+      body: [
+        local.get("$char"),
+        i32.const(0x100),
+        i32.lt_u(),
+        if_([i32.const(1), return_()]),
+        local.get("$char"),
+        i32.const(0x10000),
+        i32.lt_u(),
+        if_([i32.const(2), return_()]),
+        i32.const(4),
+        return_(),
+      ],
+    },
+    {
+      name: "$str$widerKind",
+      params: i32Vars("$left", "$right"),
+      results: ["i32"],
+      locals: i32Vars(),
+      body: [
+        local.get("$left"),
+        local.get("$right"),
+        i32.gt_u(),
+        if_([local.get("$left"), return_()]),
+        local.get("$right"),
+        return_(),
+      ],
+    }
   );
-  //This function clears dictionary.
-  dictFunStmts.push(
-    ...[
-      "(func $dict$clear (param $baseAddr i32) (result i32)",
-      "(local.get $baseAddr)",
-      "(i32.const 0)", //None
-      "(i32.store)", // Clearing Bucket-1
-
-      "(local.get $baseAddr)",
-      "(i32.const 4)",
-      "(i32.add)",
-      "(i32.const 0)", //None
-      "(i32.store)", // Clearing Bucket-2
-
-      "(local.get $baseAddr)",
-      "(i32.const 8)",
-      "(i32.add)",
-      "(i32.const 0)", //None
-      "(i32.store)", // Clearing Bucket-3
-
-      "(local.get $baseAddr)",
-      "(i32.const 12)",
-      "(i32.add)",
-      "(i32.const 0)", //None
-      "(i32.store)", // Clearing Bucket-4
-
-      "(local.get $baseAddr)",
-      "(i32.const 16)",
-      "(i32.add)",
-      "(i32.const 0)", //None
-      "(i32.store)", // Clearing Bucket-5
-
-      "(local.get $baseAddr)",
-      "(i32.const 20)",
-      "(i32.add)",
-      "(i32.const 0)", //None
-      "(i32.store)", // Clearing Bucket-6
-
-      "(local.get $baseAddr)",
-      "(i32.const 24)",
-      "(i32.add)",
-      "(i32.const 0)", //None
-      "(i32.store)", // Clearing Bucket-7
-
-      "(local.get $baseAddr)",
-      "(i32.const 28)",
-      "(i32.add)",
-      "(i32.const 0)", //None
-      "(i32.store)", // Clearing Bucket-8
-
-      "(local.get $baseAddr)",
-      "(i32.const 32)",
-      "(i32.add)",
-      "(i32.const 0)", //None
-      "(i32.store)", // Clearing Bucket-9
-
-      "(local.get $baseAddr)",
-      "(i32.const 36)",
-      "(i32.add)",
-      "(i32.const 0)", //None
-      "(i32.store)", // Clearing Bucket-10
-
-      "(i32.const 0)",
-      "(return))",
-      "",
-    ]
+
+  //These functions read and write the code point at $index
+  strFunStmts.push(
+    {
+      name: "$str$charAt",
+      params: i32Vars("$str", "$index"),
+      results: ["i32"],
+      locals: i32Vars("$addr"),
+      body: [
+        local.get("$str"),
+        i32.const(STRING_HEADER_SIZE),
+        i32.add(),
+        local.set("$addr"),
+        ...kind("$str"),
+        i32.const(1),
+        i32.eq(),
+        if_([local.get("$addr"), local.get("$index"), i32.add(), i32.load8_u(), return_()]),
+        ...kind("$str"),
+        i32.const(2),
+        i32.eq(),
+        if_([
+          local.get("$addr"),
+          local.get("$index"),
+          i32.const(1),
+          i32.shl(),
+          i32.add(),
+          i32.load16_u(),
+          return_(),
+        ]),
+        local.get("$addr"),
+        local.get("$index"),
+        i32.const(2),
+        i32.shl(),
+        i32.add(),
+        i32.load(),
+        return_(),
+      ],
+    },
+    {
+      name: "$str$setChar",
+      params: i32Vars("$str", "$index", "$char"),
+      results: [],
+      locals: i32Vars("$addr"),
+      body: [
+        local.get("$str"),
+        i32.const(STRING_HEADER_SIZE),
+        i32.add(),
+        local.set("$addr"),
+        ...kind("$str"),
+        i32.const(1),
+        i32.eq(),
+        if_([
+          local.get("$addr"),
+          local.get("$index"),
+          i32.add(),
+          local.get("$char"),
+          i32.store8(),
+          return_(),
+          // closing then
+        ]),
+        // closing if
+        ...kind("$str"),
+        i32.const(2),
+        i32.eq(),
+        if_([
+          local.get("$addr"),
+          local.get("$index"),
+          i32.const(1),
+          i32.shl(),
+          i32.add(),
+          local.get("$char"),
+          i32.store16(),
+          return_(),
+          // closing then
+        ]),
+        // closing if
+        local.get("$addr"),
+        local.get("$index"),
+        i32.const(2),
+        i32.shl(),
+        i32.add(),
+        local.get("$char"),
+        i32.store(),
+        return_(),
+      ],
+    }
   );
 
-  //This function pops a key.
-  dictFunStmts.push(
-    ...[
-      "(func $dict$pop (param $baseAddr i32) (param $key i32) (result i32)",
-      "(local $prevPtr i32)", // Local variable to store the address of previous "next" nodes in linkedList
-      "(local $currPtr i32)", // Local variable to store the address of current "head" nodes in linkedList
-      "(local $returnVal i32)",
-      "(i32.const -1)",
-      "(local.set $returnVal)", // Initialize returnVal to -1
-      "(local.get $baseAddr)",
-      "(local.get $key)",
-      "(i32.const 10)", // Hard-coding hashtable size
-      "(i32.rem_s)", //Compute hash
-      "(i32.mul (i32.const 4))", //Multiply by 4 for memory offset
-      "(i32.add)", //Reaching the proper bucket. Call this bucketAddress
-      "(local.set $prevPtr)", // prevPtr equal to bucketAddress
-      "(local.get $prevPtr)",
-      "(i32.load)",
-      "(i32.const 0)", //None
-      "(i32.eq)",
-      "(if",
-      "(then", // if the literal in bucketAddress is None i.e. checking if the bucket is empty
-      "(i32.const -1)",
-      "(local.set $returnVal)", // Initialize returnVal to -1
-      ")", //close then
-      "(else",
-      "(local.get $prevPtr)",
-      "(i32.load)", // Address of the head of linkedList.
-      "(local.set $currPtr)", // currPtr stores the address of the head of the first node.
-      "(block",
-      "(loop",
-      "(local.get $currPtr)",
-      "(i32.load)",
-      "(local.get $key)",
-      "(i32.eq)", // if tag is same as the provided one
-      "(if",
-      "(then",
-      "(local.get $currPtr)",
-      "(i32.const 4)",
-      "(i32.add)",
-      "(local.set $returnVal)", // setting the returnValue to the address of value in the node.
-      "(local.get $prevPtr)",
-      "(local.get $currPtr)",
-      "(i32.const 8)",
-      "(i32.add)",
-      "(i32.load)",
-      "(i32.store)", // Updating the address of next in previous node to the next of the current node.
-      "(local.get $currPtr)",
-      "(i32.const 8)",
-      "(i32.add)",
-      "(local.set $prevPtr)", // Updating the prevPtr to the next of the current node.
-      "(local.get $currPtr)",
-      "(i32.const 8)",
-      "(i32.add)",
-      "(i32.load)",
-      "(local.set $currPtr)", // Updating the currPtr
-      ")", // closing then
-      ")", // closing if
-      "(br_if 0", // Opening br_if
-      "(local.get $currPtr)",
-      "(i32.const 0)", //None
-      "(i32.ne)", // If currPtr not None
-      ")", // Closing br_if
-      "(br 1)",
-      ")", // Closing loop
-      ")", // Closing Block
-      ")", //close else
-      ")", // close if
-      "(local.get $returnVal)",
-      "(i32.load)",
-      "(return))",
-      "",
-    ]
+  //This function allocates a string of one code point, used for indexing
+  strFunStmts.push(
+    {
+      name: "$str$fromChar",
+      params: i32Vars("$char"),
+      results: ["i32"],
+      locals: i32Vars("$str"),
+      body: [
+        i32.const(1),
+        local.get("$char"),
+        call("$str$kindOf"),
+        call("$str$alloc"),
+        local.set("$str"),
+        local.get("$str"),
+        i32.const(0),
+        local.get("$char"),
+        call("$str$setChar"),
+        local.get("$str"),
+        return_(),
+      ],
+    },
+    {
+      name: "$str$len",
+      params: i32Vars("$str"),
+      results: ["i32"],
+      locals: i32Vars(),
+      body: [...len("$str"), return_()],
+    }
   );
 
-  dictFunStmts.push(
-    ...[
-      "(func $ha$htable$CreateEntry (param $key i32) (param $val i32) (result i32)",
-      "(local $$allocPointer i32)",
-      `(i32.const ${TAG_DICT_ENTRY})    ;; heap-tag: opaque`,
-      "(i32.const 12)   ;; size in bytes",
-      "(call $$gcalloc)",
-      "(local.tee $$allocPointer)",
-      "(local.get $key)",
-      "(i32.store)", // Dumping tag
-      "(local.get $$allocPointer)",
-      "(i32.const 4)",
-      "(i32.add)", // Moving to the next block
-      "(local.get $val)",
-      "(i32.store)", // Dumping value
-      "(local.get $$allocPointer)",
-      "(i32.const 8)",
-      "(i32.add)", // Moving to the next block
-      "(i32.const 0)", //None
-      "(i32.store)", // Dumping None in the next
-      "(local.get $$allocPointer)",
-      "(return))",
-      "",
-    ]
+  //This function copies the characters $start to $end of $src into $dst from index $at.
+  //It returns the index in $dst after the copied characters
+  strFunStmts.push({
+    name: "$str$copy",
+    params: i32Vars("$dst", "$at", "$src", "$start", "$end"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      block([
+        loop([
+          local.get("$start"),
+          local.get("$end"),
+          i32.ge_s(),
+          br_if(1),
+          local.get("$dst"),
+          local.get("$at"),
+          ...charAt("$src", local.get("$start")),
+          call("$str$setChar"),
+          local.get("$at"),
+          i32.const(1),
+          i32.add(),
+          local.set("$at"),
+          local.get("$start"),
+          i32.const(1),
+          i32.add(),
+          local.set("$start"),
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      local.get("$at"),
+      return_(),
+    ],
+  });
+
+  strFunStmts.push({
+    name: "$str$slice",
+    params: i32Vars("$str", "$start", "$end"),
+    results: ["i32"],
+    locals: i32Vars("$result"),
+    body: [
+      local.get("$end"),
+      local.get("$start"),
+      i32.sub(),
+      ...kind("$str"),
+      call("$str$alloc"),
+      local.set("$result"),
+      local.get("$result"),
+      i32.const(0),
+      local.get("$str"),
+      local.get("$start"),
+      local.get("$end"),
+      call("$str$copy"),
+      drop(),
+      local.get("$result"),
+      return_(),
+    ],
+  });
+
+  strFunStmts.push({
+    name: "$str$concat",
+    params: i32Vars("$left", "$right"),
+    results: ["i32"],
+    locals: i32Vars("$str", "$at"),
+    body: [
+      ...len("$left"),
+      ...len("$right"),
+      i32.add(),
+      ...kind("$left"),
+      ...kind("$right"),
+      call("$str$widerKind"),
+      call("$str$alloc"),
+      local.set("$str"),
+      local.get("$str"),
+      i32.const(0),
+      local.get("$left"),
+      i32.const(0),
+      ...len("$left"),
+      call("$str$copy"),
+      local.set("$at"),
+      local.get("$str"),
+      local.get("$at"),
+      local.get("$right"),
+      i32.const(0),
+      ...len("$right"),
+      call("$str$copy"),
+      drop(),
+      local.get("$str"),
+      return_(),
+    ],
+  });
+
+  //This function returns -1, 0 or 1 if $left is before, equal to or after $right
+  strFunStmts.push({
+    name: "$str$cmp",
+    params: i32Vars("$left", "$right"),
+    results: ["i32"],
+    locals: i32Vars("$index", "$l", "$r"),
+    body: [
+      block([
+        loop([
+          local.get("$index"),
+          ...len("$left"),
+          i32.ge_s(),
+          br_if(1),
+          local.get("$index"),
+          ...len("$right"),
+          i32.ge_s(),
+          br_if(1),
+          ...charAt("$left", local.get("$index")),
+          local.set("$l"),
+          ...charAt("$right", local.get("$index")),
+          local.set("$r"),
+          local.get("$l"),
+          local.get("$r"),
+          i32.lt_s(),
+          if_([i32.const(-1), return_()]),
+          local.get("$l"),
+          local.get("$r"),
+          i32.gt_s(),
+          if_([i32.const(1), return_()]),
+          local.get("$index"),
+          i32.const(1),
+          i32.add(),
+          local.set("$index"),
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      // one is a prefix of the other, the shorter one comes first
+      ...len("$left"),
+      ...len("$right"),
+      i32.gt_s(),
+      ...len("$left"),
+      ...len("$right"),
+      i32.lt_s(),
+      i32.sub(),
+      return_(),
+    ],
+  });
+
+  //This function returns 1 if $sub occurs in $str at index $at, 0 otherwise
+  strFunStmts.push({
+    name: "$str$matchAt",
+    params: i32Vars("$str", "$sub", "$at"),
+    results: ["i32"],
+    locals: i32Vars("$index"),
+    body: [
+      local.get("$at"),
+      i32.const(0),
+      i32.lt_s(),
+      if_([i32.const(0), return_()]),
+      local.get("$at"),
+      ...len("$sub"),
+      i32.add(),
+      ...len("$str"),
+      i32.gt_s(),
+      if_([i32.const(0), return_()]),
+      block([
+        loop([
+          local.get("$index"),
+          ...len("$sub"),
+          i32.ge_s(),
+          br_if(1),
+          ...charAt("$str", local.get("$at"), local.get("$index"), i32.add()),
+          ...charAt("$sub", local.get("$index")),
+          i32.ne(),
+          if_([i32.const(0), return_()]),
+          local.get("$index"),
+          i32.const(1),
+          i32.add(),
+          local.set("$index"),
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      i32.const(1),
+      return_(),
+    ],
+  });
+
+  // upper and lower map every code point as Python does, which the runtime leaves to JS
+  strFunStmts.push(
+    {
+      name: "$str$upper",
+      params: i32Vars("$str"),
+      results: ["i32"],
+      locals: i32Vars(),
+      body: [local.get("$str"), call("$$str_upper"), return_()],
+    },
+    {
+      name: "$str$lower",
+      params: i32Vars("$str"),
+      results: ["i32"],
+      locals: i32Vars(),
+      body: [local.get("$str"), call("$$str_lower"), return_()],
+    }
   );
 
-  //This function returns a memory address for the value of a key. It returns -1 if not found.
-  dictFunStmts.push(
-    ...[
-      "(func $ha$htable$Lookup (param $baseAddr i32) (param $key i32) (param $hashtablesize i32) (result i32)",
-      "(local $nodePtr i32)", // Local variable to store the address of nodes in linkedList
-      "(local $tagHitFlag i32)", // Local bool variable to indicate whether tag is hit
-      "(local $returnVal i32)",
-      "(i32.const -1)",
-      "(local.set $returnVal)", // Initialize returnVal to -1
-      "(i32.const 0)",
-      "(local.set $tagHitFlag)", // Initialize tagHitFlag to False
-      "(local.get $baseAddr)",
-      "(local.get $key)",
-      "(local.get $hashtablesize)",
-      "(i32.rem_s)", //Compute hash
-      "(i32.mul (i32.const 4))", //Multiply by 4 for memory offset
-      "(i32.add)", //Reaching the proper bucket. Call this bucketAddress
-      "(i32.load)",
-      "(local.set $nodePtr)",
-      "(local.get $nodePtr)",
-      "(i32.const 0)", //None
-      "(i32.eq)",
-      "(if",
-      "(then", // if the literal in bucketAddress is None
-      "(i32.const -1)",
-      "(local.set $returnVal)", // Initialize returnVal to -1
-      ")", //close then
-      "(else",
-      "(block",
-      "(loop", // While loop till we find a node whose next is None
-      "(local.get $nodePtr)",
-      "(i32.load)", //Loading head of linkedList
-      "(local.get $key)",
-      "(i32.eq)", // if tag is same as the provided one
-      "(if",
-      "(then",
-      "(local.get $nodePtr)",
-      "(i32.const 4)",
-      "(i32.add)", // Value
-      "(local.set $returnVal)",
-      "(i32.const 1)",
-      "(local.set $tagHitFlag)", // Set tagHitFlag to True
-      ")", // closing then
-      ")", // closing if
-      "(local.get $nodePtr)",
-      "(i32.const 8)",
-      "(i32.add)", // Next pointer
-      "(i32.load)",
-      "(local.set $nodePtr)",
-      "(br_if 0", // Opening br_if
-      "(local.get $nodePtr)",
-      "(i32.const 0)", //None
-      "(i32.ne)", // If nodePtr not None
-      "(local.get $tagHitFlag)",
-      "(i32.eqz)",
-      "(i32.and)",
-      ")", // Closing br_if
-      "(br 1)",
-      ")", // Closing loop
-      ")", // Closing Block
-      ")", //close else
-      ")", // close if
-      "(local.get $returnVal)",
-      "(return))",
-      "",
-    ]
+  //Whitespace is the space character and \t, \n, \v, \f, \r
+  strFunStmts.push({
+    name: "$str$isSpace",
+    params: i32Vars("$char"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$char"),
+      i32.const(32),
+      i32.eq(),
+      local.get("$char"),
+      i32.const(9),
+      i32.ge_s(),
+      local.get("$char"),
+      i32.const(13),
+      i32.le_s(),
+      i32.and(),
+      i32.or(),
+      return_(),
+    ],
+  });
+
+  strFunStmts.push({
+    name: "$str$strip",
+    params: i32Vars("$str"),
+    results: ["i32"],
+    locals: i32Vars("$start", "$end"),
+    body: [
+      ...len("$str"),
+      local.set("$end"),
+      block([
+        loop([
+          local.get("$start"),
+          local.get("$end"),
+          i32.ge_s(),
+          br_if(1),
+          ...charAt("$str", local.get("$start")),
+          call("$str$isSpace"),
+          i32.eqz(),
+          br_if(1),
+          local.get("$start"),
+          i32.const(1),
+          i32.add(),
+          local.set("$start"),
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      block([
+        loop([
+          local.get("$start"),
+          local.get("$end"),
+          i32.ge_s(),
+          br_if(1),
+          ...charAt("$str", local.get("$end"), i32.const(1), i32.sub()),
+          call("$str$isSpace"),
+          i32.eqz(),
+          br_if(1),
+          local.get("$end"),
+          i32.const(1),
+          i32.sub(),
+          local.set("$end"),
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      local.get("$str"),
+      local.get("$start"),
+      local.get("$end"),
+      call("$str$slice"),
+      return_(),
+    ],
+  });
+
+  //This function returns the first index of $sub in $str, -1 if it does not occur
+  strFunStmts.push({
+    name: "$str$find",
+    params: i32Vars("$str", "$sub"),
+    results: ["i32"],
+    locals: i32Vars("$index"),
+    body: [
+      block([
+        loop([
+          local.get("$index"),
+          ...len("$sub"),
+          i32.add(),
+          ...len("$str"),
+          i32.gt_s(),
+          br_if(1),
+          local.get("$str"),
+          local.get("$sub"),
+          local.get("$index"),
+          call("$str$matchAt"),
+          if_([local.get("$index"), return_()]),
+          local.get("$index"),
+          i32.const(1),
+          i32.add(),
+          local.set("$index"),
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      i32.const(-1),
+      return_(),
+    ],
+  });
+
+  //This function counts the non-overlapping occurrences of $sub in $str.
+  //The empty string occurs before every character and at the end
+  strFunStmts.push({
+    name: "$str$count",
+    params: i32Vars("$str", "$sub"),
+    results: ["i32"],
+    locals: i32Vars("$index", "$count"),
+    body: [
+      ...len("$sub"),
+      i32.eqz(),
+      if_([...len("$str"), i32.const(1), i32.add(), return_()]),
+      block([
+        loop([
+          local.get("$index"),
+          ...len("$sub"),
+          i32.add(),
+          ...len("$str"),
+          i32.gt_s(),
+          br_if(1),
+          local.get("$str"),
+          local.get("$sub"),
+          local.get("$index"),
+          call("$str$matchAt"),
+          if_(
+            [
+              local.get("$count"),
+              i32.const(1),
+              i32.add(),
+              local.set("$count"),
+              local.get("$index"),
+              ...len("$sub"),
+              i32.add(),
+              local.set("$index"),
+              // closing then
+            ],
+            [
+              local.get("$index"),
+              i32.const(1),
+              i32.add(),
+              local.set("$index"),
+              // closing else
+            ]
+          ),
+          // closing if
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      local.get("$count"),
+      return_(),
+    ],
+  });
+
+  //This function replaces the occurrences of $old in $str with $new, like count() finds them
+  strFunStmts.push({
+    name: "$str$replace",
+    params: i32Vars("$str", "$old", "$new"),
+    results: ["i32"],
+    locals: i32Vars("$result", "$index", "$at"),
+    body: [
+      ...len("$str"),
+      local.get("$str"),
+      local.get("$old"),
+      call("$str$count"),
+      ...len("$new"),
+      ...len("$old"),
+      i32.sub(),
+      i32.mul(),
+      i32.add(),
+      ...kind("$str"),
+      ...kind("$new"),
+      call("$str$widerKind"),
+      call("$str$alloc"),
+      local.set("$result"),
+      ...len("$old"),
+      i32.eqz(),
+      if_([
+        // $new goes before every character and at the end
+        block([
+          loop([
+            local.get("$result"),
+            local.get("$at"),
+            local.get("$new"),
+            i32.const(0),
+            ...len("$new"),
+            call("$str$copy"),
+            local.set("$at"),
+            local.get("$index"),
+            ...len("$str"),
+            i32.ge_s(),
+            br_if(1),
+            local.get("$result"),
+            local.get("$at"),
+            ...charAt("$str", local.get("$index")),
+            call("$str$setChar"),
+            local.get("$at"),
+            i32.const(1),
+            i32.add(),
+            local.set("$at"),
+            local.get("$index"),
+            i32.const(1),
+            i32.add(),
+            local.set("$index"),
+            br(0),
+          ]),
+          // Closing loop
+        ]),
+        // Closing Block
+        local.get("$result"),
+        return_(),
+        // closing then
+      ]),
+      // closing if
+      block([
+        loop([
+          local.get("$index"),
+          ...len("$str"),
+          i32.ge_s(),
+          br_if(1),
+          local.get("$str"),
+          local.get("$old"),
+          local.get("$index"),
+          call("$str$matchAt"),
+          if_(
+            [
+              local.get("$result"),
+              local.get("$at"),
+              local.get("$new"),
+              i32.const(0),
+              ...len("$new"),
+              call("$str$copy"),
+              local.set("$at"),
+              local.get("$index"),
+              ...len("$old"),
+              i32.add(),
+              local.set("$index"),
+              // closing then
+            ],
+            [
+              local.get("$result"),
+              local.get("$at"),
+              ...charAt("$str", local.get("$index")),
+              call("$str$setChar"),
+              local.get("$at"),
+              i32.const(1),
+              i32.add(),
+              local.set("$at"),
+              local.get("$index"),
+              i32.const(1),
+              i32.add(),
+              local.set("$index"),
+              // closing else
+            ]
+          ),
+          // closing if
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      local.get("$result"),
+      return_(),
+    ],
+  });
+
+  strFunStmts.push(
+    {
+      name: "$str$startswith",
+      params: i32Vars("$str", "$prefix"),
+      results: ["i32"],
+      locals: i32Vars(),
+      body: [
+        local.get("$str"),
+        local.get("$prefix"),
+        i32.const(0),
+        call("$str$matchAt"),
+        return_(),
+      ],
+    },
+    {
+      name: "$str$endswith",
+      params: i32Vars("$str", "$suffix"),
+      results: ["i32"],
+      locals: i32Vars(),
+      body: [
+        local.get("$str"),
+        local.get("$suffix"),
+        ...len("$str"),
+        ...len("$suffix"),
+        i32.sub(),
+        call("$str$matchAt"),
+        return_(),
+      ],
+    }
   );
 
+  //This function returns 1 if $str is not empty and only has the characters 0 to 9
+  strFunStmts.push({
+    name: "$str$isdigit",
+    params: i32Vars("$str"),
+    results: ["i32"],
+    locals: i32Vars("$index", "$char"),
+    body: [
+      ...len("$str"),
+      i32.eqz(),
+      if_([i32.const(0), return_()]),
+      block([
+        loop([
+          local.get("$index"),
+          ...len("$str"),
+          i32.ge_s(),
+          br_if(1),
+          ...charAt("$str", local.get("$index")),
+          local.set("$char"),
+          local.get("$char"),
+          i32.const(48),
+          i32.lt_s(),
+          local.get("$char"),
+          i32.const(57),
+          i32.gt_s(),
+          i32.or(),
+          if_([i32.const(0), return_()]),
+          local.get("$index"),
+          i32.const(1),
+          i32.add(),
+          local.set("$index"),
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      i32.const(1),
+      return_(),
+    ],
+  });
+
+  //This function splits $str on $sep into a list of strings.
+  //Without a separator ($sep is 0) it splits on runs of whitespace and drops the empty parts
+  strFunStmts.push({
+    name: "$str$split",
+    params: i32Vars("$str", "$sep"),
+    results: ["i32"],
+    locals: i32Vars("$list", "$index", "$start"),
+    body: [
+      i32.const(TAG_LIST),
+      i32.const((4 + 3) * 4),
+      call("$$gcalloc"),
+      local.set("$list"),
+      local.get("$list"),
+      i32.const(10),
+      i32.store(),
+      // type
+      local.get("$list"),
+      i32.const(4),
+      i32.add(),
+      i32.const(0),
+      i32.store(),
+      // size
+      local.get("$list"),
+      i32.const(8),
+      i32.add(),
+      i32.const(4),
+      i32.store(),
+      // bound
+      local.get("$sep"),
+      i32.eqz(),
+      if_([
+        block([
+          loop([
+            block([
+              // skip the whitespace before a part
+              loop([
+                local.get("$index"),
+                ...len("$str"),
+                i32.ge_s(),
+                br_if(1),
+                ...charAt("$str", local.get("$index")),
+                call("$str$isSpace"),
+                i32.eqz(),
+                br_if(1),
+                local.get("$index"),
+                i32.const(1),
+                i32.add(),
+                local.set("$index"),
+                br(0),
+              ]),
+              // Closing loop
+            ]),
+            // Closing Block
+            local.get("$index"),
+            ...len("$str"),
+            i32.ge_s(),
+            br_if(1),
+            local.get("$index"),
+            local.set("$start"),
+            block([
+              // find the end of the part
+              loop([
+                local.get("$index"),
+                ...len("$str"),
+                i32.ge_s(),
+                br_if(1),
+                ...charAt("$str", local.get("$index")),
+                call("$str$isSpace"),
+                br_if(1),
+                local.get("$index"),
+                i32.const(1),
+                i32.add(),
+                local.set("$index"),
+                br(0),
+              ]),
+              // Closing loop
+            ]),
+            // Closing Block
+            local.get("$list"),
+            local.get("$str"),
+            local.get("$start"),
+            local.get("$index"),
+            call("$str$slice"),
+            call("$$list$append"),
+            local.set("$list"),
+            br(0),
+          ]),
+          // Closing loop
+        ]),
+        // Closing Block
+        local.get("$list"),
+        return_(),
+        // closing then
+      ]),
+      // closing if
+      ...len("$sep"),
+      call("$$check_separator"),
+      ...returnOnException,
+      block([
+        loop([
+          local.get("$index"),
+          ...len("$sep"),
+          i32.add(),
+          ...len("$str"),
+          i32.gt_s(),
+          br_if(1),
+          local.get("$str"),
+          local.get("$sep"),
+          local.get("$index"),
+          call("$str$matchAt"),
+          if_(
+            [
+              local.get("$list"),
+              local.get("$str"),
+              local.get("$start"),
+              local.get("$index"),
+              call("$str$slice"),
+              call("$$list$append"),
+              local.set("$list"),
+              local.get("$index"),
+              ...len("$sep"),
+              i32.add(),
+              local.set("$index"),
+              local.get("$index"),
+              local.set("$start"),
+              // closing then
+            ],
+            [
+              local.get("$index"),
+              i32.const(1),
+              i32.add(),
+              local.set("$index"),
+              // closing else
+            ]
+          ),
+          // closing if
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      local.get("$list"),
+      local.get("$str"),
+      local.get("$start"),
+      ...len("$str"),
+      call("$str$slice"),
+      call("$$list$append"),
+      local.set("$list"),
+      local.get("$list"),
+      return_(),
+    ],
+  });
+
+  //This function joins the strings of $list with $sep between them
+  strFunStmts.push({
+    name: "$str$join",
+    params: i32Vars("$sep", "$list"),
+    results: ["i32"],
+    locals: i32Vars("$size", "$index", "$item", "$total", "$kind", "$result", "$at"),
+    body: [
+      local.get("$list"),
+      call("$$check_none_lookup"),
+      ...returnOnException,
+      local.get("$list"),
+      i32.const(4),
+      i32.add(),
+      i32.load(),
+      local.set("$size"),
+      local.get("$size"),
+      i32.eqz(),
+      if_([i32.const(0), i32.const(1), call("$str$alloc"), return_()]),
+      ...len("$sep"),
+      local.get("$size"),
+      i32.const(1),
+      i32.sub(),
+      i32.mul(),
+      local.set("$total"),
+      ...kind("$sep"),
+      local.set("$kind"),
+      block([
+        loop([
+          local.get("$index"),
+          local.get("$size"),
+          i32.ge_s(),
+          br_if(1),
+          local.get("$list"),
+          i32.const(12),
+          local.get("$index"),
+          i32.const(4),
+          i32.mul(),
+          i32.add(),
+          i32.add(),
+          i32.load(),
+          local.set("$item"),
+          local.get("$total"),
+          ...len("$item"),
+          i32.add(),
+          local.set("$total"),
+          local.get("$kind"),
+          ...kind("$item"),
+          call("$str$widerKind"),
+          local.set("$kind"),
+          local.get("$index"),
+          i32.const(1),
+          i32.add(),
+          local.set("$index"),
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      local.get("$total"),
+      local.get("$kind"),
+      call("$str$alloc"),
+      local.set("$result"),
+      i32.const(0),
+      local.set("$index"),
+      block([
+        loop([
+          local.get("$index"),
+          local.get("$size"),
+          i32.ge_s(),
+          br_if(1),
+          local.get("$index"),
+          i32.const(0),
+          i32.gt_s(),
+          if_([
+            local.get("$result"),
+            local.get("$at"),
+            local.get("$sep"),
+            i32.const(0),
+            ...len("$sep"),
+            call("$str$copy"),
+            local.set("$at"),
+            // closing then
+          ]),
+          // closing if
+          local.get("$list"),
+          i32.const(12),
+          local.get("$index"),
+          i32.const(4),
+          i32.mul(),
+          i32.add(),
+          i32.add(),
+          i32.load(),
+          local.set("$item"),
+          local.get("$result"),
+          local.get("$at"),
+          local.get("$item"),
+          i32.const(0),
+          ...len("$item"),
+          call("$str$copy"),
+          local.set("$at"),
+          local.get("$index"),
+          i32.const(1),
+          i32.add(),
+          local.set("$index"),
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      local.get("$result"),
+      return_(),
+    ],
+  });
+
+  return strFunStmts;
+}
+
+function dictUtilFuns(): Array<Func> {
+  let dictFunStmts: Array<Func> = [];
+
+  //This function returns a memory address for the value of a key.
+  //If key is not found, throw a key not found error
+  dictFunStmts.push({
+    name: "$dict$get",
+    params: i32Vars("$baseAddr", "$key", "$defaultValue", "$mode"),
+    results: ["i32"],
+    locals: i32Vars("$nodePtr", "$tagHitFlag", "$returnVal"),
+    body: [
+      // Local variable to store the address of nodes in linkedList
+      // Local bool variable to indicate whether tag is hit
+      local.get("$defaultValue"),
+      local.set("$returnVal"),
+      // Initialize returnVal to defaultValue argument
+      i32.const(0),
+      local.set("$tagHitFlag"),
+      // Initialize tagHitFlag to False
+      local.get("$baseAddr"),
+      local.get("$key"),
+      local.get("$mode"),
+      call("$ha$hash"),
+      i32.const(10),
+      // hard-coding hash table size
+      i32.rem_u(),
+      // Compute hash
+      i32.const(4),
+      i32.mul(),
+      // Multiply by 4 for memory offset
+      i32.add(),
+      // Reaching the proper bucket. Call this bucketAddress
+      i32.load(),
+      local.set("$nodePtr"),
+      local.get("$nodePtr"),
+      i32.const(0),
+      // None
+      i32.eq(),
+      if_(
+        [
+          // if the literal in bucketAddress is None
+          local.get("$defaultValue"),
+          local.set("$returnVal"),
+          // Initialize returnVal to -1
+          // close then
+        ],
+        [
+          block([
+            loop([
+              // While loop till we find a node whose next is None
+              local.get("$nodePtr"),
+              i32.load(),
+              // Loading head of linkedList
+              local.get("$key"),
+              local.get("$mode"),
+              call("$$valueEq"),
+              // if tag is same as the provided one
+              local.get("$nodePtr"),
+              i32.load(12),
+              i32.eqz(),
+              i32.and(),
+              // and the entry is not deleted
+              if_([
+                local.get("$nodePtr"),
+                i32.const(4),
+                i32.add(),
+                // Value
+                i32.load(),
+                // HT
+                local.set("$returnVal"),
+                i32.const(1),
+                local.set("$tagHitFlag"),
+                // Set tagHitFlag to True
+                // closing then
+              ]),
+              // closing if
+              local.get("$nodePtr"),
+              i32.const(8),
+              i32.add(),
+              // Next pointer
+              i32.load(),
+              local.set("$nodePtr"),
+              // Opening br_if
+              local.get("$nodePtr"),
+              i32.const(0),
+              // None
+              i32.ne(),
+              // If nodePtr not None
+              local.get("$tagHitFlag"),
+              i32.eqz(),
+              i32.and(),
+              br_if(0),
+              // Closing br_if
+              br(1),
+            ]),
+            // Closing loop
+          ]),
+          // Closing Block
+          // close else
+        ]
+      ),
+      // close if
+      local.get("$returnVal"),
+      return_(),
+    ],
+  });
+  //This function clears dictionary.
+  dictFunStmts.push({
+    name: "$dict$clear",
+    params: i32Vars("$baseAddr"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$baseAddr"),
+      i32.const(0),
+      // None
+      i32.store(),
+      // Clearing Bucket-1
+      local.get("$baseAddr"),
+      i32.const(4),
+      i32.add(),
+      i32.const(0),
+      // None
+      i32.store(),
+      // Clearing Bucket-2
+      local.get("$baseAddr"),
+      i32.const(8),
+      i32.add(),
+      i32.const(0),
+      // None
+      i32.store(),
+      // Clearing Bucket-3
+      local.get("$baseAddr"),
+      i32.const(12),
+      i32.add(),
+      i32.const(0),
+      // None
+      i32.store(),
+      // Clearing Bucket-4
+      local.get("$baseAddr"),
+      i32.const(16),
+      i32.add(),
+      i32.const(0),
+      // None
+      i32.store(),
+      // Clearing Bucket-5
+      local.get("$baseAddr"),
+      i32.const(20),
+      i32.add(),
+      i32.const(0),
+      // None
+      i32.store(),
+      // Clearing Bucket-6
+      local.get("$baseAddr"),
+      i32.const(24),
+      i32.add(),
+      i32.const(0),
+      // None
+      i32.store(),
+      // Clearing Bucket-7
+      local.get("$baseAddr"),
+      i32.const(28),
+      i32.add(),
+      i32.const(0),
+      // None
+      i32.store(),
+      // Clearing Bucket-8
+      local.get("$baseAddr"),
+      i32.const(32),
+      i32.add(),
+      i32.const(0),
+      // None
+      i32.store(),
+      // Clearing Bucket-9
+      local.get("$baseAddr"),
+      i32.const(36),
+      i32.add(),
+      i32.const(0),
+      // None
+      i32.store(),
+      // Clearing Bucket-10
+      i32.const(0),
+      return_(),
+    ],
+  });
+
+  //This function pops a key.
+  dictFunStmts.push({
+    name: "$dict$pop",
+    params: i32Vars("$baseAddr", "$key", "$mode", "$typeId"),
+    results: ["i32"],
+    locals: i32Vars("$prevPtr", "$currPtr", "$returnVal"),
+    body: [
+      // Local variable to store the address of previous "next" nodes in linkedList
+      // Local variable to store the address of current "head" nodes in linkedList
+      local.get("$baseAddr"),
+      call("$$check_none_lookup"),
+      ...returnOnException,
+      i32.const(-1),
+      local.set("$returnVal"),
+      // Initialize returnVal to -1
+      local.get("$baseAddr"),
+      local.get("$key"),
+      local.get("$mode"),
+      call("$ha$hash"),
+      i32.const(10),
+      // Hard-coding hashtable size
+      i32.rem_u(),
+      // Compute hash
+      i32.const(4),
+      i32.mul(),
+      // Multiply by 4 for memory offset
+      i32.add(),
+      // Reaching the proper bucket. Call this bucketAddress
+      local.set("$prevPtr"),
+      // prevPtr equal to bucketAddress
+      local.get("$prevPtr"),
+      i32.load(),
+      i32.const(0),
+      // None
+      i32.eq(),
+      if_(
+        [
+          // if the literal in bucketAddress is None i.e. checking if the bucket is empty
+          i32.const(-1),
+          local.set("$returnVal"),
+          // Initialize returnVal to -1
+          // close then
+        ],
+        [
+          local.get("$prevPtr"),
+          i32.load(),
+          // Address of the head of linkedList.
+          local.set("$currPtr"),
+          // currPtr stores the address of the head of the first node.
+          block([
+            loop([
+              local.get("$currPtr"),
+              i32.load(),
+              local.get("$key"),
+              local.get("$mode"),
+              call("$$valueEq"),
+              // if tag is same as the provided one
+              local.get("$currPtr"),
+              i32.load(12),
+              i32.eqz(),
+              i32.and(),
+              // and the entry is not deleted
+              if_([
+                local.get("$currPtr"),
+                i32.const(4),
+                i32.add(),
+                local.set("$returnVal"),
+                // setting the returnValue to the address of value in the node.
+                local.get("$prevPtr"),
+                local.get("$currPtr"),
+                i32.const(8),
+                i32.add(),
+                i32.load(),
+                i32.store(),
+                // Updating the address of next in previous node to the next of the current node.
+                br(2),
+                // The entry is removed
+                // closing then
+              ]),
+              // closing if
+              local.get("$currPtr"),
+              i32.const(8),
+              i32.add(),
+              local.set("$prevPtr"),
+              // Updating the prevPtr to the next of the current node.
+              local.get("$currPtr"),
+              i32.const(8),
+              i32.add(),
+              i32.load(),
+              local.set("$currPtr"),
+              // Updating the currPtr
+              // Opening br_if
+              local.get("$currPtr"),
+              i32.const(0),
+              // None
+              i32.ne(),
+              // If currPtr not None
+              br_if(0),
+              // Closing br_if
+              br(1),
+            ]),
+            // Closing loop
+          ]),
+          // Closing Block
+          // close else
+        ]
+      ),
+      // close if
+      local.get("$returnVal"),
+      local.get("$key"),
+      local.get("$typeId"),
+      call("$$check_key"),
+      ...returnOnException,
+      local.get("$returnVal"),
+      i32.load(),
+      return_(),
+    ],
+  });
+
+  //This function returns the value of a key. A missing key raises a KeyError, which renders the
+  //key after its static type at $typeId
+  dictFunStmts.push({
+    name: "$dict$getitem",
+    params: i32Vars("$baseAddr", "$key", "$mode", "$typeId"),
+    results: ["i32"],
+    locals: i32Vars("$valuePtr"),
+    body: [
+      local.get("$baseAddr"),
+      call("$$check_none_lookup"),
+      ...returnOnException,
+      local.get("$baseAddr"),
+      local.get("$key"),
+      i32.const(10),
+      // Hard-coding hashtable size
+      local.get("$mode"),
+      call("$ha$htable$Lookup"),
+      local.set("$valuePtr"),
+      local.get("$valuePtr"),
+      local.get("$key"),
+      local.get("$typeId"),
+      call("$$check_key"),
+      ...returnOnException,
+      local.get("$valuePtr"),
+      i32.load(),
+      return_(),
+    ],
+  });
+
+  //This function deletes a key. The entry stays in its bucket as a tombstone, which lookups skip
+  //and updates of the key revive
+  dictFunStmts.push({
+    name: "$dict$delete",
+    params: i32Vars("$baseAddr", "$key", "$mode", "$typeId"),
+    results: ["i32"],
+    locals: i32Vars("$valuePtr"),
+    body: [
+      local.get("$baseAddr"),
+      call("$$check_none_lookup"),
+      ...returnOnException,
+      local.get("$baseAddr"),
+      local.get("$key"),
+      i32.const(10),
+      // Hard-coding hashtable size
+      local.get("$mode"),
+      call("$ha$htable$Lookup"),
+      local.set("$valuePtr"),
+      local.get("$valuePtr"),
+      local.get("$key"),
+      local.get("$typeId"),
+      call("$$check_key"),
+      ...returnOnException,
+      local.get("$valuePtr"),
+      i32.const(0),
+      i32.store(),
+      // Releasing the value
+      local.get("$valuePtr"),
+      i32.const(1),
+      i32.store(8),
+      // Setting the deleted flag
+      i32.const(0),
+      return_(),
+    ],
+  });
+
+  //This function returns the hash of a key, see codeGenKeyMode
+  dictFunStmts.push({
+    name: "$ha$hash",
+    params: i32Vars("$key", "$mode"),
+    results: ["i32"],
+    locals: i32Vars("$hash", "$index"),
+    body: [
+      local.get("$mode"),
+      i32.const(ValueEqMode.Number),
+      i32.eq(),
+      if_([
+        local.get("$key"),
+        i32.const(1),
+        i32.and(),
+        // Tagged int
+        if_([local.get("$key"), return_()]),
+        local.get("$key"),
+        i32.load(4),
+        local.set("$index"),
+        // Number of digits of the bignum
+        block([
+          loop([
+            // From the most significant digit, so that leading zero digits leave the hash as is
+            local.get("$index"),
+            i32.eqz(),
+            br_if(1),
+            local.get("$index"),
+            i32.const(1),
+            i32.sub(),
+            local.set("$index"),
+            local.get("$hash"),
+            i32.const(31),
+            i32.mul(),
+            local.get("$key"),
+            local.get("$index"),
+            i32.const(4),
+            i32.mul(),
+            i32.add(),
+            i32.load(8),
+            i32.const(1),
+            i32.shr_u(),
+            i32.add(),
+            local.set("$hash"),
+            br(0),
+          ]),
+          // Closing loop
+        ]),
+        // Closing Block
+        local.get("$hash"),
+        local.get("$key"),
+        i32.load(),
+        i32.add(),
+        return_(),
+        // Adding the sign
+        // closing then
+      ]),
+      // closing if
+      local.get("$mode"),
+      i32.const(ValueEqMode.String),
+      i32.ne(),
+      if_([local.get("$key"), return_()]),
+      block([
+        loop([
+          local.get("$index"),
+          local.get("$key"),
+          i32.load(),
+          i32.gt_s(),
+          br_if(1),
+          local.get("$hash"),
+          i32.const(31),
+          i32.mul(),
+          local.get("$key"),
+          local.get("$index"),
+          call("$str$charAt"),
+          i32.add(),
+          local.set("$hash"),
+          local.get("$index"),
+          i32.const(1),
+          i32.add(),
+          local.set("$index"),
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      local.get("$hash"),
+      return_(),
+    ],
+  });
+
+  dictFunStmts.push({
+    name: "$ha$htable$CreateEntry",
+    params: i32Vars("$key", "$val"),
+    results: ["i32"],
+    locals: i32Vars("$$allocPointer"),
+    body: [
+      i32.const(TAG_DICT_ENTRY),
+      // heap-tag: opaque
+      i32.const(16),
+      // size in bytes
+      call("$$gcalloc"),
+      local.tee("$$allocPointer"),
+      local.get("$key"),
+      i32.store(),
+      // Dumping tag
+      local.get("$$allocPointer"),
+      i32.const(4),
+      i32.add(),
+      // Moving to the next block
+      local.get("$val"),
+      i32.store(),
+      // Dumping value
+      local.get("$$allocPointer"),
+      i32.const(8),
+      i32.add(),
+      // Moving to the next block
+      i32.const(0),
+      // None
+      i32.store(),
+      // Dumping None in the next
+      local.get("$$allocPointer"),
+      i32.const(0),
+      i32.store(12),
+      // Not deleted
+      local.get("$$allocPointer"),
+      return_(),
+    ],
+  });
+
+  //This function returns a memory address for the value of a key. It returns -1 if not found.
+  dictFunStmts.push({
+    name: "$ha$htable$Lookup",
+    params: i32Vars("$baseAddr", "$key", "$hashtablesize", "$mode"),
+    results: ["i32"],
+    locals: i32Vars("$nodePtr", "$tagHitFlag", "$returnVal"),
+    body: [
+      // Local variable to store the address of nodes in linkedList
+      // Local bool variable to indicate whether tag is hit
+      i32.const(-1),
+      local.set("$returnVal"),
+      // Initialize returnVal to -1
+      i32.const(0),
+      local.set("$tagHitFlag"),
+      // Initialize tagHitFlag to False
+      local.get("$baseAddr"),
+      local.get("$key"),
+      local.get("$mode"),
+      call("$ha$hash"),
+      local.get("$hashtablesize"),
+      i32.rem_u(),
+      // Compute hash
+      i32.const(4),
+      i32.mul(),
+      // Multiply by 4 for memory offset
+      i32.add(),
+      // Reaching the proper bucket. Call this bucketAddress
+      i32.load(),
+      local.set("$nodePtr"),
+      local.get("$nodePtr"),
+      i32.const(0),
+      // None
+      i32.eq(),
+      if_(
+        [
+          // if the literal in bucketAddress is None
+          i32.const(-1),
+          local.set("$returnVal"),
+          // Initialize returnVal to -1
+          // close then
+        ],
+        [
+          block([
+            loop([
+              // While loop till we find a node whose next is None
+              local.get("$nodePtr"),
+              i32.load(),
+              // Loading head of linkedList
+              local.get("$key"),
+              local.get("$mode"),
+              call("$$valueEq"),
+              // if tag is same as the provided one
+              local.get("$nodePtr"),
+              i32.load(12),
+              i32.eqz(),
+              i32.and(),
+              // and the entry is not deleted
+              if_([
+                local.get("$nodePtr"),
+                i32.const(4),
+                i32.add(),
+                // Value
+                local.set("$returnVal"),
+                i32.const(1),
+                local.set("$tagHitFlag"),
+                // Set tagHitFlag to True
+                // closing then
+              ]),
+              // closing if
+              local.get("$nodePtr"),
+              i32.const(8),
+              i32.add(),
+              // Next pointer
+              i32.load(),
+              local.set("$nodePtr"),
+              // Opening br_if
+              local.get("$nodePtr"),
+              i32.const(0),
+              // None
+              i32.ne(),
+              // If nodePtr not None
+              local.get("$tagHitFlag"),
+              i32.eqz(),
+              i32.and(),
+              br_if(0),
+              // Closing br_if
+              br(1),
+            ]),
+            // Closing loop
+          ]),
+          // Closing Block
+          // close else
+        ]
+      ),
+      // close if
+      local.get("$returnVal"),
+      return_(),
+    ],
+  });
+
   dictFunStmts.push(
-    ...[
-      "(func $ha$htable$Update (param $baseAddr i32) (param $key i32) (param $val i32) (param $hashtablesize i32)",
-      "(local $nodePtr i32)", // Local variable to store the address of nodes in linkedList
-      "(local $tagHitFlag i32)", // Local bool variable to indicate whether tag is hit
-      "(local $$allocPointer i32)",
-      "(i32.const 0)",
-      "(local.set $tagHitFlag)", // Initialize tagHitFlag to False
-      "(local.get $baseAddr)",
-      "(local.get $key)",
-      "(local.get $hashtablesize)",
-      "(i32.rem_s)", //Compute hash
-      "(i32.mul (i32.const 4))", //Multiply by 4 for memory offset
-      "(i32.add)", //Reaching the proper bucket. Call this bucketAddress
-      "(i32.load)",
-      "(i32.const 0)", //None
-      "(i32.eq)",
-      "(if",
-      "(then", // if the literal in bucketAddress is None
-      "(local.get $key)",
-      "(local.get $val)",
-      "(call $ha$htable$CreateEntry)", //create node
-      "(local.set $$allocPointer)",
-      "(local.get $baseAddr)", // Recomputing the bucketAddress to update it.
-      "(local.get $key)",
-      "(local.get $hashtablesize)",
-      "(i32.rem_s)", //Compute hash
-      "(i32.mul (i32.const 4))", //Multiply by 4 for memory offset
-      "(i32.add)", //Recomputed bucketAddress
-      "(local.get $$allocPointer)",
-      "(i32.store)", //Updated the bucketAddress pointing towards first element.
-      ")", // Closing then
-      "(else", // Opening else
-      "(local.get $baseAddr)", // Recomputing the bucketAddress to follow the linkedList.
-      "(local.get $key)",
-      "(local.get $hashtablesize)",
-      "(i32.rem_s)", //Compute hash
-      "(i32.mul (i32.const 4))", //Multiply by 4 for memory offset
-      "(i32.add)", //Recomputed bucketAddress
-      "(i32.load)", //Loading head of linkedList
-      "(i32.load)", //Loading the tag of head
-      "(local.get $key)",
-      "(i32.eq)",
-      "(if", // if tag is same as the provided one
-      "(then",
-      "(local.get $baseAddr)", // Recomputing the bucketAddress to follow the linkedList.
-      "(local.get $key)",
-      "(local.get $hashtablesize)",
-      "(i32.rem_s)", //Compute hash
-      "(i32.mul (i32.const 4))", //Multiply by 4 for memory offset
-      "(i32.add)", //Recomputed bucketAddress
-      "(i32.load)", //Loading head of linkedList
-      "(i32.const 4)",
-      "(i32.add)", // Value
-      "(local.get $val)",
-      "(i32.store)", // Updating the value
-      "(i32.const 1)",
-      "(local.set $tagHitFlag)", // Set tagHitFlag to True
-      ")", // closing then
-      ")", // closing if
-      "(local.get $baseAddr)", // Recomputing the bucketAddress to follow the linkedList.
-      "(local.get $key)",
-      "(local.get $hashtablesize)",
-      "(i32.rem_s)", //Compute hash
-      "(i32.mul (i32.const 4))", //Multiply by 4 for memory offset
-      "(i32.add)", //Recomputed bucketAddress
-      "(i32.load)", //Loading head of linkedList
-      "(i32.const 8)",
-      "(i32.add)", // Next pointer
-      "(local.set $nodePtr)",
-      "(block",
-      "(loop", // While loop till we find a node whose next is None
-      "(local.get $nodePtr)",
-      "(i32.load)", // Traversing to head of next node
-      "(i32.const 0)", //None
-      "(i32.ne)", // If nodePtr not None
-      "(if",
-      "(then",
-      "(local.get $nodePtr)",
-      "(i32.load)", //Loading head of linkedList
-      "(i32.load)", //Loading the tag of head
-      "(local.get $key)",
-      "(i32.eq)", // if tag is same as the provided one
-      "(if",
-      "(then",
-      "(local.get $nodePtr)",
-      "(i32.load)", //Loading head of linkedList
-      "(i32.const 4)",
-      "(i32.add)", // Value
-      "(local.get $val)",
-      "(i32.store)", // Updating the value
-      "(i32.const 1)",
-      "(local.set $tagHitFlag)", // Set tagHitFlag to True
-      ")", // closing then
-      ")", // closing if
-      "(local.get $nodePtr)",
-      "(i32.load)", //Loading head of linkedList
-      "(i32.const 8)",
-      "(i32.add)", // Next pointer
-      "(local.set $nodePtr)",
-      ")", // Closing then
-      ")", // Closing if
-      "(br_if 0", // Opening br_if
-      "(local.get $nodePtr)",
-      "(i32.load)", // Traversing to head of next node
-      "(i32.const 0)", //None
-      "(i32.ne)", // If nodePtr not None
-      ")", // Closing br_if
-      "(br 1)",
-      ")", // Closing loop
-      ")", // Closing Block
-      "(local.get $tagHitFlag)",
-      "(i32.const 0)",
-      "(i32.eq)", // Add a new node only if tag hit is false.
-      "(if",
-      "(then",
-      "(local.get $key)",
-      "(local.get $val)",
-      "(call $ha$htable$CreateEntry)", //create node
-      "(local.set $$allocPointer)",
-      "(local.get $nodePtr)", // Get the address of "next" block in node, whose next is None.
-      "(local.get $$allocPointer)",
-      "(i32.store)", // Updated the next pointing towards first element of new node.
-      ")", // Closing then inside else
-      ")", // Closing if inside else
-      ")", // Closing else
-      ")", // Closing if
-      "(return))", //
-    ]
+    {
+      name: "$ha$htable$Update",
+      params: i32Vars("$baseAddr", "$key", "$val", "$hashtablesize", "$mode"),
+      results: [],
+      locals: i32Vars("$nodePtr", "$tagHitFlag", "$$allocPointer"),
+      body: [
+        // Local variable to store the address of nodes in linkedList
+        // Local bool variable to indicate whether tag is hit
+        i32.const(0),
+        local.set("$tagHitFlag"),
+        // Initialize tagHitFlag to False
+        local.get("$baseAddr"),
+        local.get("$key"),
+        local.get("$mode"),
+        call("$ha$hash"),
+        local.get("$hashtablesize"),
+        i32.rem_u(),
+        // Compute hash
+        i32.const(4),
+        i32.mul(),
+        // Multiply by 4 for memory offset
+        i32.add(),
+        // Reaching the proper bucket. Call this bucketAddress
+        i32.load(),
+        i32.const(0),
+        // None
+        i32.eq(),
+        if_(
+          [
+            // if the literal in bucketAddress is None
+            local.get("$key"),
+            local.get("$val"),
+            call("$ha$htable$CreateEntry"),
+            // create node
+            local.set("$$allocPointer"),
+            local.get("$baseAddr"),
+            // Recomputing the bucketAddress to update it.
+            local.get("$key"),
+            local.get("$mode"),
+            call("$ha$hash"),
+            local.get("$hashtablesize"),
+            i32.rem_u(),
+            // Compute hash
+            i32.const(4),
+            i32.mul(),
+            // Multiply by 4 for memory offset
+            i32.add(),
+            // Recomputed bucketAddress
+            local.get("$$allocPointer"),
+            i32.store(),
+            // Updated the bucketAddress pointing towards first element.
+            // Closing then
+          ],
+          [
+            // Opening else
+            local.get("$baseAddr"),
+            // Recomputing the bucketAddress to follow the linkedList.
+            local.get("$key"),
+            local.get("$mode"),
+            call("$ha$hash"),
+            local.get("$hashtablesize"),
+            i32.rem_u(),
+            // Compute hash
+            i32.const(4),
+            i32.mul(),
+            // Multiply by 4 for memory offset
+            i32.add(),
+            // Recomputed bucketAddress
+            i32.load(),
+            // Loading head of linkedList
+            i32.load(),
+            // Loading the tag of head
+            local.get("$key"),
+            local.get("$mode"),
+            call("$$valueEq"),
+            // if tag is same as the provided one
+            if_([
+              local.get("$baseAddr"),
+              // Recomputing the bucketAddress to follow the linkedList.
+              local.get("$key"),
+              local.get("$mode"),
+              call("$ha$hash"),
+              local.get("$hashtablesize"),
+              i32.rem_u(),
+              // Compute hash
+              i32.const(4),
+              i32.mul(),
+              // Multiply by 4 for memory offset
+              i32.add(),
+              // Recomputed bucketAddress
+              i32.load(),
+              // Loading head of linkedList
+              local.tee("$nodePtr"),
+              i32.const(4),
+              i32.add(),
+              // Value
+              local.get("$val"),
+              i32.store(),
+              // Updating the value
+              local.get("$nodePtr"),
+              i32.const(0),
+              i32.store(12),
+              // Reviving a deleted entry
+              i32.const(1),
+              local.set("$tagHitFlag"),
+              // Set tagHitFlag to True
+              // closing then
+            ]),
+            // closing if
+            local.get("$baseAddr"),
+            // Recomputing the bucketAddress to follow the linkedList.
+            local.get("$key"),
+            local.get("$mode"),
+            call("$ha$hash"),
+            local.get("$hashtablesize"),
+            i32.rem_u(),
+            // Compute hash
+            i32.const(4),
+            i32.mul(),
+            // Multiply by 4 for memory offset
+            i32.add(),
+            // Recomputed bucketAddress
+            i32.load(),
+            // Loading head of linkedList
+            i32.const(8),
+            i32.add(),
+            // Next pointer
+            local.set("$nodePtr"),
+            block([
+              loop([
+                // While loop till we find a node whose next is None
+                local.get("$nodePtr"),
+                i32.load(),
+                // Traversing to head of next node
+                i32.const(0),
+                // None
+                i32.ne(),
+                // If nodePtr not None
+                if_([
+                  local.get("$nodePtr"),
+                  i32.load(),
+                  // Loading head of linkedList
+                  i32.load(),
+                  // Loading the tag of head
+                  local.get("$key"),
+                  local.get("$mode"),
+                  call("$$valueEq"),
+                  // if tag is same as the provided one
+                  if_([
+                    local.get("$nodePtr"),
+                    i32.load(),
+                    // Loading head of linkedList
+                    i32.const(4),
+                    i32.add(),
+                    // Value
+                    local.get("$val"),
+                    i32.store(),
+                    // Updating the value
+                    local.get("$nodePtr"),
+                    i32.load(),
+                    i32.const(0),
+                    i32.store(12),
+                    // Reviving a deleted entry
+                    i32.const(1),
+                    local.set("$tagHitFlag"),
+                    // Set tagHitFlag to True
+                    // closing then
+                  ]),
+                  // closing if
+                  local.get("$nodePtr"),
+                  i32.load(),
+                  // Loading head of linkedList
+                  i32.const(8),
+                  i32.add(),
+                  // Next pointer
+                  local.set("$nodePtr"),
+                  // Closing then
+                ]),
+                // Closing if
+                // Opening br_if
+                local.get("$nodePtr"),
+                i32.load(),
+                // Traversing to head of next node
+                i32.const(0),
+                // None
+                i32.ne(),
+                // If nodePtr not None
+                br_if(0),
+                // Closing br_if
+                br(1),
+              ]),
+              // Closing loop
+            ]),
+            // Closing Block
+            local.get("$tagHitFlag"),
+            i32.const(0),
+            i32.eq(),
+            // Add a new node only if tag hit is false.
+            if_([
+              local.get("$key"),
+              local.get("$val"),
+              call("$ha$htable$CreateEntry"),
+              // create node
+              local.set("$$allocPointer"),
+              local.get("$nodePtr"),
+              // Get the address of "next" block in node, whose next is None.
+              local.get("$$allocPointer"),
+              i32.store(),
+              // Updated the next pointing towards first element of new node.
+              // Closing then inside else
+            ]),
+            // Closing if inside else
+            // Closing else
+          ]
+        ),
+        // Closing if
+        return_(),
+      ],
+    }
+    //
   );
+  //This function returns 1 if the key is in the hashtable of a dict or set, 0 otherwise
+  dictFunStmts.push({
+    name: "$dict$in",
+    params: i32Vars("$key", "$baseAddr", "$mode"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$baseAddr"),
+      call("$$check_none_lookup"),
+      ...returnOnException,
+      local.get("$baseAddr"),
+      local.get("$key"),
+      i32.const(10),
+      // Hard-coding hashtable size
+      local.get("$mode"),
+      call("$ha$htable$Lookup"),
+      i32.const(-1),
+      i32.ne(),
+      return_(),
+    ],
+  });
+
   return dictFunStmts;
 }
 
-function codeGenBigInt(num: bigint): Array<string> {
+// Floats are f64s boxed in 8 bytes. The functions that raise exceptions report them at the
+// location pushed by their caller, see codeGenCall
+function floatFuns(): Array<Func> {
+  const returnZeroOnException = [global.get("$$exc_pending"), if_([f64.const(0), return_()])];
+  const x: Param = { name: "$x", type: "f64" };
+  const y: Param = { name: "$y", type: "f64" };
+  return [
+    {
+      name: "$$float_box",
+      params: [x],
+      results: ["i32"],
+      locals: i32Vars("$box"),
+      body: [
+        i32.const(Number(TAG_FLOAT)),
+        i32.const(8),
+        call("$$gcalloc"),
+        local.set("$box"),
+        local.get("$box"),
+        local.get("$x"),
+        f64.store(),
+        local.get("$box"),
+      ],
+    },
+    // ints are either tagged or bignums
+    {
+      name: "$$float_of_int",
+      params: i32Vars("$x"),
+      results: ["f64"],
+      locals: [],
+      body: [
+        local.get("$x"),
+        i32.const(1),
+        i32.and(),
+        if_(
+          "f64",
+          [local.get("$x"), i32.const(nTagBits), i32.shr_s(), f64.convert_i32_s()],
+          [local.get("$x"), call("$$big_to_float")]
+        ),
+      ],
+    },
+    // rounds towards zero, infinities and NaN have no int
+    {
+      name: "$$float_to_int",
+      params: [x],
+      results: ["i32"],
+      locals: [],
+      body: [
+        local.get("$x"),
+        call("$$check_float_to_int"),
+        ...returnOnException,
+        local.get("$x"),
+        f64.trunc(),
+        call("$$big_of_float"),
+      ],
+    },
+    {
+      name: "$$float_div",
+      params: [x, y],
+      results: ["f64"],
+      locals: [],
+      body: [
+        local.get("$y"),
+        f64.const(0),
+        f64.ne(),
+        call("$$check_division"),
+        ...returnZeroOnException,
+        local.get("$x"),
+        local.get("$y"),
+        f64.div(),
+      ],
+    },
+    // like ints, floor division rounds down and the remainder takes the sign of the divisor
+    {
+      name: "$$float_floordiv",
+      params: [x, y],
+      results: ["f64"],
+      locals: [],
+      body: [local.get("$x"), local.get("$y"), call("$$float_div"), f64.floor()],
+    },
+    {
+      name: "$$float_mod",
+      params: [x, y],
+      results: ["f64"],
+      locals: [],
+      body: [
+        local.get("$x"),
+        local.get("$y"),
+        local.get("$x"),
+        local.get("$y"),
+        call("$$float_floordiv"),
+        f64.mul(),
+        f64.sub(),
+      ],
+    },
+    {
+      name: "$$float_sqrt",
+      params: [x],
+      results: ["f64"],
+      locals: [],
+      body: [
+        local.get("$x"),
+        f64.const(0),
+        f64.lt(),
+        i32.eqz(),
+        call("$$check_math_domain"),
+        ...returnZeroOnException,
+        local.get("$x"),
+        f64.sqrt(),
+      ],
+    },
+    {
+      name: "$$float_log",
+      params: [x],
+      results: ["f64"],
+      locals: [],
+      body: [
+        local.get("$x"),
+        f64.const(0),
+        f64.le(),
+        i32.eqz(),
+        call("$$check_math_domain"),
+        ...returnZeroOnException,
+        local.get("$x"),
+        call("$$float_ln"),
+      ],
+    },
+  ];
+}
+
+// Value equality and the lookups of the `in` operator for strings and tuples.
+// List, dict and set lookups live with their other builtins
+function membershipFuns(): Array<Func> {
+  let memberFunStmts: Array<Func> = [];
+
+  //This function returns 1 if the two values are equal according to $mode (see ValueEqMode)
+  memberFunStmts.push({
+    name: "$$valueEq",
+    params: i32Vars("$x", "$y", "$mode"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$mode"),
+      i32.const(ValueEqMode.Number),
+      i32.eq(),
+      if_([
+        local.get("$x"),
+        local.get("$y"),
+        call("$$eq"),
+        // bignum aware
+        ...decodeLiteral,
+        return_(),
+        // closing then
+      ]),
+      // closing if
+      local.get("$mode"),
+      i32.const(ValueEqMode.String),
+      i32.eq(),
+      if_([
+        local.get("$x"),
+        local.get("$y"),
+        call("$str$eq"),
+        return_(),
+        // closing then
+      ]),
+      // closing if
+      local.get("$mode"),
+      i32.const(ValueEqMode.Float),
+      i32.eq(),
+      if_([
+        local.get("$x"),
+        f64.load(),
+        local.get("$y"),
+        f64.load(),
+        f64.eq(),
+        return_(),
+        // closing then
+      ]),
+      // closing if
+      local.get("$x"),
+      local.get("$y"),
+      i32.eq(),
+      return_(),
+    ],
+  });
+
+  //This function returns 1 if $needle occurs in $hay, 0 otherwise.
+  //Layout of strings: [length - 1, kind, code points...]
+  memberFunStmts.push({
+    name: "$str$in",
+    params: i32Vars("$needle", "$hay"),
+    results: ["i32"],
+    locals: i32Vars("$needleLen", "$hayLen", "$start", "$index"),
+    body: [
+      // index in $hay where the comparison starts
+      // index in $needle
+      local.get("$hay"),
+      call("$$check_none_lookup"),
+      ...returnOnException,
+      local.get("$needle"),
+      i32.load(),
+      i32.const(1),
+      i32.add(),
+      local.set("$needleLen"),
+      local.get("$hay"),
+      i32.load(),
+      i32.const(1),
+      i32.add(),
+      local.set("$hayLen"),
+      block([
+        loop([
+          // try every start position
+          local.get("$start"),
+          local.get("$needleLen"),
+          i32.add(),
+          local.get("$hayLen"),
+          i32.gt_s(),
+          br_if(1),
+          i32.const(0),
+          local.set("$index"),
+          block([
+            loop([
+              // compare the characters from $start
+              local.get("$index"),
+              local.get("$needleLen"),
+              i32.ge_s(),
+              br_if(1),
+              local.get("$hay"),
+              local.get("$start"),
+              local.get("$index"),
+              i32.add(),
+              call("$str$charAt"),
+              local.get("$needle"),
+              local.get("$index"),
+              call("$str$charAt"),
+              i32.ne(),
+              br_if(1),
+              // closing br_if on a mismatch
+              local.get("$index"),
+              i32.const(1),
+              i32.add(),
+              local.set("$index"),
+              br(0),
+            ]),
+            // Closing loop
+          ]),
+          // Closing Block
+          local.get("$index"),
+          local.get("$needleLen"),
+          i32.eq(),
+          if_([
+            i32.const(1),
+            return_(),
+            // closing then
+          ]),
+          // closing if
+          local.get("$start"),
+          i32.const(1),
+          i32.add(),
+          local.set("$start"),
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      i32.const(0),
+      return_(),
+    ],
+  });
+
+  //Strings of the same length are equal if one occurs in the other
+  memberFunStmts.push({
+    name: "$str$eq",
+    params: i32Vars("$left", "$right"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$left"),
+      i32.load(),
+      local.get("$right"),
+      i32.load(),
+      i32.ne(),
+      if_([
+        i32.const(0),
+        return_(),
+        // closing then
+      ]),
+      // closing if
+      local.get("$left"),
+      local.get("$right"),
+      call("$str$in"),
+      return_(),
+    ],
+  });
+
+  //This function returns 1 if an element of the tuple equals $key according to $mode.
+  //Only the elements whose bit is set in $mask are compared
+  memberFunStmts.push({
+    name: "$tuple$in",
+    params: i32Vars("$key", "$tuple", "$mask", "$mode"),
+    results: ["i32"],
+    locals: i32Vars("$index"),
+    body: [
+      block([
+        loop([
+          local.get("$mask"),
+          i32.eqz(),
+          br_if(1),
+          // no elements left to compare
+          local.get("$mask"),
+          i32.const(1),
+          i32.and(),
+          if_([
+            local.get("$key"),
+            local.get("$tuple"),
+            local.get("$index"),
+            i32.const(4),
+            i32.mul(),
+            i32.add(),
+            i32.load(),
+            local.get("$mode"),
+            call("$$valueEq"),
+            if_([i32.const(1), return_()]),
+            // closing then
+          ]),
+          // closing if
+          local.get("$mask"),
+          i32.const(1),
+          i32.shr_u(),
+          local.set("$mask"),
+          local.get("$index"),
+          i32.const(1),
+          i32.add(),
+          local.set("$index"),
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      i32.const(0),
+      return_(),
+    ],
+  });
+
+  return memberFunStmts;
+}
+
+// Sets reuse the dictionary hashtable: every key maps to None.
+// Functions that take a set from a method call check for None; the caller pushes the call location
+function setUtilFuns(): Array<Func> {
+  let setFunStmts: Array<Func> = [];
+
+  //This function allocates an empty set
+  setFunStmts.push({
+    name: "$set$new",
+    params: i32Vars(),
+    results: ["i32"],
+    locals: i32Vars("$baseAddr"),
+    body: [
+      i32.const(Number(TAG_SET)),
+      // heap-tag: set
+      i32.const(40),
+      // size in bytes
+      call("$$gcalloc"),
+      local.tee("$baseAddr"),
+      call("$dict$clear"),
+      // Initialize every bucket to None
+      drop(),
+      local.get("$baseAddr"),
+      return_(),
+    ],
+  });
+
+  //This function adds a key to the set and returns None
+  setFunStmts.push({
+    name: "$set$add",
+    params: i32Vars("$baseAddr", "$key", "$mode"),
+    results: ["i32"],
+    locals: i32Vars(),
+    body: [
+      local.get("$baseAddr"),
+      call("$$check_none_class"),
+      ...returnOnException,
+      local.get("$baseAddr"),
+      local.get("$key"),
+      i32.const(0),
+      // None as the value
+      i32.const(10),
+      // Hard-coding hashtable size
+      local.get("$mode"),
+      call("$ha$htable$Update"),
+      i32.const(0),
+      return_(),
+    ],
+  });
+
+  //This function unlinks a key from the set. It returns 1 if the key was found, 0 otherwise
+  setFunStmts.push({
+    name: "$set$discard",
+    params: i32Vars("$baseAddr", "$key", "$mode"),
+    results: ["i32"],
+    locals: i32Vars("$prevPtr", "$currPtr"),
+    body: [
+      // Address of the "next" field pointing to currPtr
+      local.get("$baseAddr"),
+      call("$$check_none_class"),
+      ...returnOnException,
+      local.get("$baseAddr"),
+      local.get("$key"),
+      local.get("$mode"),
+      call("$ha$hash"),
+      i32.const(10),
+      // Hard-coding hashtable size
+      i32.rem_u(),
+      // Compute hash
+      i32.const(4),
+      i32.mul(),
+      // Multiply by 4 for memory offset
+      i32.add(),
+      // Reaching the proper bucket
+      local.set("$prevPtr"),
+      block([
+        loop([
+          local.get("$prevPtr"),
+          i32.load(),
+          local.set("$currPtr"),
+          local.get("$currPtr"),
+          i32.eqz(),
+          br_if(1),
+          // End of the linkedList
+          local.get("$currPtr"),
+          i32.load(),
+          local.get("$key"),
+          local.get("$mode"),
+          call("$$valueEq"),
+          if_([
+            local.get("$prevPtr"),
+            local.get("$currPtr"),
+            i32.const(8),
+            i32.add(),
+            i32.load(),
+            i32.store(),
+            i32.const(1),
+            return_(),
+            // closing then
+          ]),
+          // closing if
+          local.get("$currPtr"),
+          i32.const(8),
+          i32.add(),
+          local.set("$prevPtr"),
+          // Next pointer
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      i32.const(0),
+      return_(),
+    ],
+  });
+
+  //This function unlinks a key from the set and returns None. A missing key raises a KeyError,
+  //which renders the key after its static type at $typeId
+  setFunStmts.push({
+    name: "$set$remove",
+    params: i32Vars("$baseAddr", "$key", "$mode", "$typeId"),
+    results: ["i32"],
+    locals: i32Vars("$found"),
+    body: [
+      local.get("$baseAddr"),
+      local.get("$key"),
+      local.get("$mode"),
+      call("$set$discard"),
+      local.set("$found"),
+      ...returnOnException,
+      local.get("$found"),
+      i32.const(1),
+      i32.sub(),
+      // -1 if the key was not found
+      local.get("$key"),
+      local.get("$typeId"),
+      call("$$check_key"),
+      i32.const(0),
+      return_(),
+    ],
+  });
+
+  //This function returns the entry following $nodePtr in iteration order, or None after the last.
+  //Entries are visited bucket by bucket; a None $nodePtr starts from the first bucket.
+  setFunStmts.push({
+    name: "$set$next",
+    params: i32Vars("$baseAddr", "$nodePtr", "$mode"),
+    results: ["i32"],
+    locals: i32Vars("$bucket"),
+    body: [
+      local.get("$nodePtr"),
+      if_([
+        local.get("$nodePtr"),
+        i32.const(8),
+        i32.add(),
+        i32.load(),
+        // Next pointer
+        if_([
+          local.get("$nodePtr"),
+          i32.const(8),
+          i32.add(),
+          i32.load(),
+          return_(),
+          // closing then
+        ]),
+        // closing if
+        local.get("$nodePtr"),
+        i32.load(),
+        local.get("$mode"),
+        call("$ha$hash"),
+        // Key of the node
+        i32.const(10),
+        // Hard-coding hashtable size
+        i32.rem_u(),
+        // Compute hash
+        i32.const(1),
+        i32.add(),
+        local.set("$bucket"),
+        // Continue from the following bucket
+        // closing then
+      ]),
+      // closing if
+      block([
+        loop([
+          local.get("$bucket"),
+          i32.const(10),
+          i32.ge_u(),
+          br_if(1),
+          local.get("$baseAddr"),
+          local.get("$bucket"),
+          i32.const(4),
+          i32.mul(),
+          i32.add(),
+          i32.load(),
+          local.set("$nodePtr"),
+          local.get("$nodePtr"),
+          if_([
+            local.get("$nodePtr"),
+            return_(),
+            // closing then
+          ]),
+          // closing if
+          local.get("$bucket"),
+          i32.const(1),
+          i32.add(),
+          local.set("$bucket"),
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      i32.const(0),
+      return_(),
+    ],
+  });
+
+  //This function returns the number of keys in the set, counting the entries bucket by bucket
+  setFunStmts.push({
+    name: "$set$len",
+    params: i32Vars("$baseAddr"),
+    results: ["i32"],
+    locals: i32Vars("$bucket", "$nodePtr", "$count"),
+    body: [
+      block([
+        loop([
+          local.get("$bucket"),
+          i32.const(10),
+          i32.ge_u(),
+          br_if(1),
+          local.get("$baseAddr"),
+          local.get("$bucket"),
+          i32.const(4),
+          i32.mul(),
+          i32.add(),
+          i32.load(),
+          local.set("$nodePtr"),
+          block([
+            loop([
+              local.get("$nodePtr"),
+              i32.eqz(),
+              br_if(1),
+              local.get("$count"),
+              i32.const(1),
+              i32.add(),
+              local.set("$count"),
+              local.get("$nodePtr"),
+              i32.const(8),
+              i32.add(),
+              i32.load(),
+              local.set("$nodePtr"),
+              // Next pointer
+              br(0),
+            ]),
+            // Closing loop
+          ]),
+          // Closing Block
+          local.get("$bucket"),
+          i32.const(1),
+          i32.add(),
+          local.set("$bucket"),
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+      local.get("$count"),
+      ...encodeLiteral,
+      return_(),
+    ],
+  });
+
+  //This function adds each key of $src to $dst if its membership in $other equals $keepFound
+  setFunStmts.push({
+    name: "$set$filterInto",
+    params: i32Vars("$dst", "$src", "$other", "$keepFound", "$mode"),
+    results: [],
+    locals: i32Vars("$nodePtr"),
+    body: [
+      block([
+        loop([
+          local.get("$src"),
+          local.get("$nodePtr"),
+          local.get("$mode"),
+          call("$set$next"),
+          local.set("$nodePtr"),
+          local.get("$nodePtr"),
+          i32.eqz(),
+          br_if(1),
+          local.get("$other"),
+          local.get("$nodePtr"),
+          i32.load(),
+          // Key of the node
+          i32.const(10),
+          // Hard-coding hashtable size
+          local.get("$mode"),
+          call("$ha$htable$Lookup"),
+          i32.const(-1),
+          i32.ne(),
+          // Whether the key is in $other
+          local.get("$keepFound"),
+          i32.eq(),
+          if_([
+            local.get("$dst"),
+            local.get("$nodePtr"),
+            i32.load(),
+            local.get("$mode"),
+            call("$set$add"),
+            drop(),
+            // closing then
+          ]),
+          // closing if
+          br(0),
+        ]),
+        // Closing loop
+      ]),
+      // Closing Block
+    ],
+  });
+
+  //These functions return a new set. Keys already added to the new set are skipped for the union
+  setFunStmts.push(
+    {
+      name: "$set$union",
+      params: i32Vars("$left", "$right", "$mode"),
+      results: ["i32"],
+      locals: i32Vars("$baseAddr"),
+      body: [
+        call("$set$new"),
+        local.set("$baseAddr"),
+        local.get("$baseAddr"),
+        local.get("$left"),
+        local.get("$baseAddr"),
+        i32.const(0),
+        local.get("$mode"),
+        call("$set$filterInto"),
+        local.get("$baseAddr"),
+        local.get("$right"),
+        local.get("$baseAddr"),
+        i32.const(0),
+        local.get("$mode"),
+        call("$set$filterInto"),
+        local.get("$baseAddr"),
+        return_(),
+      ],
+    },
+    {
+      name: "$set$intersection",
+      params: i32Vars("$left", "$right", "$mode"),
+      results: ["i32"],
+      locals: i32Vars("$baseAddr"),
+      body: [
+        call("$set$new"),
+        local.set("$baseAddr"),
+        local.get("$baseAddr"),
+        local.get("$left"),
+        local.get("$right"),
+        i32.const(1),
+        local.get("$mode"),
+        call("$set$filterInto"),
+        local.get("$baseAddr"),
+        return_(),
+      ],
+    },
+    {
+      name: "$set$difference",
+      params: i32Vars("$left", "$right", "$mode"),
+      results: ["i32"],
+      locals: i32Vars("$baseAddr"),
+      body: [
+        call("$set$new"),
+        local.set("$baseAddr"),
+        local.get("$baseAddr"),
+        local.get("$left"),
+        local.get("$right"),
+        i32.const(0),
+        local.get("$mode"),
+        call("$set$filterInto"),
+        local.get("$baseAddr"),
+        return_(),
+      ],
+    }
+  );
+
+  return setFunStmts;
+}
+
+function codeGenBigInt(num: bigint): Array<Instr> {
   const WORD_SIZE = 4;
   var [sign, size, words] = bigintToWords(num);
   var alloc = [
-    `(i32.const ${TAG_BIGINT})`,
-    `(i32.const ${(2 + size) * WORD_SIZE})`, // size in bytes
-    `(call $$gcalloc)`,
-    `(local.tee $$allocPointer)`,
-    `(i32.add (i32.const ${0 * WORD_SIZE}))`, // add space for sign field
-    `(i32.const ${sign})`,
-    "(i32.store)", // store sign val
-    `(local.get $$allocPointer)`,
-    `(i32.add (i32.const ${1 * WORD_SIZE}))`, // move offset another 4 for size
-    `(i32.const ${size})`, // size is only 32 bits :(
-    "(i32.store)", // store size
+    i32.const(TAG_BIGINT),
+    i32.const((2 + size) * WORD_SIZE), // size in bytes
+    call("$$gcalloc"),
+    local.tee("$$allocPointer"),
+    i32.const(0 * WORD_SIZE),
+    i32.add(), // add space for sign field
+    i32.const(sign),
+    i32.store(), // store sign val
+    local.get("$$allocPointer"),
+    i32.const(1 * WORD_SIZE),
+    i32.add(), // move offset another 4 for size
+    i32.const(size), // size is only 32 bits :(
+    i32.store(), // store size
   ];
   words.forEach((w, i) => {
     alloc = alloc.concat([
-      `(local.get $$allocPointer)`,
-      `(i32.add (i32.const ${(2 + i) * WORD_SIZE}))`, // advance pointer
-      `(i32.const ${w})`,
+      local.get("$$allocPointer"),
+      i32.const((2 + i) * WORD_SIZE),
+      i32.add(), // advance pointer
+      i32.const(w),
       ...encodeLiteral,
-      "(i32.store)", // store
+      i32.store(), // store
     ]);
   });
   alloc = alloc.concat([
-    `(local.get $$allocPointer)`, // address for the number
+    local.get("$$allocPointer"), // address for the number
   ]);
-  console.log(words, size, sign);
   return alloc;
 }
 
-function codeGenLiteral(literal: Literal): Array<string> {
+function codeGenLiteral(literal: Literal): Array<Instr> {
   switch (literal.tag) {
     case "string":
       return allocateStringMemory(literal.value);
     case "num":
       if (literal.value <= INT_LITERAL_MAX && literal.value >= INT_LITERAL_MIN) {
-        return [`(i32.const ${literal.value})`, ...encodeLiteral];
+        return [i32.const(literal.value), ...encodeLiteral];
       } else {
         return codeGenBigInt(literal.value);
       }
+    case "float":
+      return [f64.const(literal.value), call("$$float_box")];
     case "bool":
-      return [`(i32.const ${Number(literal.value)})`, ...encodeLiteral];
+      return [i32.const(Number(literal.value)), ...encodeLiteral];
     case "none":
-      return [`(i32.const 0)`];
+      return [i32.const(0)];
     default:
       unhandledTag(literal);
   }
 }
 
-function codeGenBinOp(op: BinOp): string {
+function codeGenBinOp(op: BinOp): Instr {
   switch (op) {
     case BinOp.Plus:
-      return "(call $$add)";
+      return call("$$add");
     case BinOp.Minus:
-      return "(call $$sub)";
+      return call("$$sub");
     case BinOp.Mul:
-      return "(call $$mul)";
+      return call("$$mul");
     case BinOp.IDiv:
-      return "(call $$div)";
+      return call("$$div");
     case BinOp.Mod:
-      return "(call $$mod)";
+      return call("$$mod");
     case BinOp.Eq:
-      return "(call $$eq)";
+      return call("$$eq");
     case BinOp.Neq:
-      return "(call $$ne)";
+      return call("$$ne");
     case BinOp.Lte:
-      return "(call $$lte)";
+      return call("$$lte");
     case BinOp.Gte:
-      return "(call $$gte)";
+      return call("$$gte");
     case BinOp.Lt:
-      return "(call $$lt)";
+      return call("$$lt");
     case BinOp.Gt:
-      return "(call $$gt)";
+      return call("$$gt");
     case BinOp.Is:
-      return "(i32.eq)";
+      return i32.eq();
     case BinOp.And:
-      return "(i32.and)";
+      return i32.and();
     case BinOp.Or:
-      return "(i32.or)";
+      return i32.or();
+    case BinOp.BitAnd:
+      return call("$$bit_and");
+    case BinOp.BitOr:
+      return call("$$bit_or");
+    case BinOp.BitXor:
+      return call("$$bit_xor");
+    case BinOp.LShift:
+      return call("$$shl");
+    case BinOp.RShift:
+      return call("$$shr");
+    case BinOp.Pow:
+      return call("$$pow");
   }
 }
 
 // @param:  loc: Location of the stmt/expr
 //          code: codes for the parameters to pass in the check function
 //          func: ENUM to identify the checkFunction.
-function codeGenRuntimeCheck(loc: Location, code: Array<string>, func: RunTime): Array<string> {
+function codeGenRuntimeCheck(loc: Location, code: Array<Instr>, func: RunTime): Array<Instr> {
   if (func == RunTime.CHECK_VALUE_ERROR) return [];
-  return [...codeGenPushStack(loc), ...code, `(call $$${func.toString()})`, ...codeGenPopStack()];
+  return [
+    ...codeGenPushStack(loc),
+    ...code,
+    call(`$$${func.toString()}`),
+    ...codeGenPopStack(),
+    ...codeGenUnwind,
+  ];
 }
 
-function codeGenPushStack(loc: Location): Array<string> {
+// Raised exceptions leave the innermost `try` body, or else the function, through `$$unwind`
+const codeGenUnwind = [global.get("$$exc_pending"), br_if("$$unwind")];
+
+// Library functions have no `$$unwind` block and return as soon as one of their checks raised
+const returnOnException = [global.get("$$exc_pending"), if_([i32.const(0), return_()])];
+
+function codeGenPushStack(loc: Location): Array<Instr> {
   return [
-    `(i32.const ${loc.line})`,
-    `(i32.const ${loc.col})`,
-    `(i32.const ${loc.length})`,
-    `(i32.const ${loc.fileId})`,
-    "(call $$pushStack)",
+    i32.const(loc.line),
+    i32.const(loc.col),
+    i32.const(loc.length),
+    i32.const(loc.fileId),
+    call("$$pushStack"),
   ];
 }
 
-function codeGenPopStack(): Array<string> {
-  return ["(call $$popStack)"];
+function codeGenPopStack(): Array<Instr> {
+  return [call("$$popStack")];
 }
 
-function codeGenCall(loc: Location, code: string): Array<string> {
-  return [...codeGenPushStack(loc), code, ...codeGenPopStack()];
+function codeGenCall(loc: Location, ...code: Array<Instr>): Array<Instr> {
+  return [...codeGenPushStack(loc), ...code, ...codeGenPopStack(), ...codeGenUnwind];
 }
 
-function codeGenListElemType(elemTyp: Type): string {
-  switch (elemTyp.tag) {
-    case "number":
-      return `(i32.const ${ListContentTag.Num})`;
-    case "bool":
-      return `(i32.const ${ListContentTag.Bool})`;
-    case "none":
-      return `(i32.const ${ListContentTag.None})`;
-    case "string":
-      return `(i32.const ${ListContentTag.Str})`;
-    case "class":
-      return `(i32.const ${ListContentTag.Class})`;
-    case "list":
-      return `(i32.const ${ListContentTag.List})`;
-    case "dict":
-      return `(i32.const ${ListContentTag.Dict})`;
-    case "callable":
-      return `(i32.const ${ListContentTag.Callable})`;
+// Converts a value of type `t`, an int or a float, to an f64
+function codeGenToF64(t: Type): Array<Instr> {
+  // bools are tagged like ints
+  return t.tag === "float" ? [f64.load()] : [call("$$float_of_int")];
+}
+
+// Arithmetic and comparisons with a float operand, and true division. Ints are promoted
+function codeGenFloatBinOp(
+  expr: WithTag<Expr<[Type, Location]>, "binop">,
+  lhsStmts: Array<Instr>,
+  rhsStmts: Array<Instr>
+): Array<Instr> {
+  const operands = [
+    ...lhsStmts,
+    ...codeGenToF64(expr.left.a[0]),
+    ...rhsStmts,
+    ...codeGenToF64(expr.right.a[0]),
+  ];
+  const box = call("$$float_box");
+  switch (expr.op) {
+    case BinOp.Plus:
+      return [...operands, f64.add(), box];
+    case BinOp.Minus:
+      return [...operands, f64.sub(), box];
+    case BinOp.Mul:
+      return [...operands, f64.mul(), box];
+    case BinOp.Div:
+      return [...operands, ...codeGenCall(expr.a[1], call("$$float_div")), box];
+    case BinOp.IDiv:
+      return [...operands, ...codeGenCall(expr.a[1], call("$$float_floordiv")), box];
+    case BinOp.Mod:
+      return [...operands, ...codeGenCall(expr.a[1], call("$$float_mod")), box];
+    case BinOp.Pow:
+      return [...operands, call("$$float_pow"), box];
+    case BinOp.Eq:
+      return [...operands, f64.eq(), ...encodeLiteral];
+    case BinOp.Neq:
+      return [...operands, f64.ne(), ...encodeLiteral];
+    case BinOp.Lte:
+      return [...operands, f64.le(), ...encodeLiteral];
+    case BinOp.Gte:
+      return [...operands, f64.ge(), ...encodeLiteral];
+    case BinOp.Lt:
+      return [...operands, f64.lt(), ...encodeLiteral];
+    case BinOp.Gt:
+      return [...operands, f64.gt(), ...encodeLiteral];
+    default:
+      throw new BaseException.InternalException(`no float operator ${BinOp[expr.op]}`);
+  }
+}
+
+// `abs` and NUMERIC_BUILTINS on the value of type `argTyp` on the stack
+function codeGenNumericBuiltin(loc: Location, name: string, argTyp: Type): Array<Instr> {
+  const isFloat = argTyp.tag === "float";
+  const box = call("$$float_box");
+  switch (name) {
+    case "abs":
+      return isFloat ? [f64.load(), f64.abs(), box] : codeGenCall(loc, call("$abs"));
+    case "int":
+      return isFloat ? [f64.load(), ...codeGenCall(loc, call("$$float_to_int"))] : [];
+    case "floor":
+    case "ceil":
+      return isFloat
+        ? [
+            f64.load(),
+            name === "floor" ? f64.floor() : f64.ceil(),
+            ...codeGenCall(loc, call("$$float_to_int")),
+          ]
+        : [];
+    case "float":
+      return isFloat ? [] : [call("$$float_of_int"), box];
+    case "sqrt":
+    case "log":
+      // these raise a ValueError outside of their domain
+      return [...codeGenToF64(argTyp), ...codeGenCall(loc, call(`$$float_${name}`)), box];
+    default:
+      return [...codeGenToF64(argTyp), call(`$$float_${name}`), box];
   }
 }
+
+// Whether `t` is a class that defines the operator method `method`, e.g. `__add__`
+function hasDunder(t: Type, method: string, env: GlobalEnv): boolean {
+  return t.tag === "class" && env.vtables.has(t.name) && env.vtables.get(t.name)[1].has(method);
+}
+
+// Calls the method `method` of the object `obj` through the vtable of its class, `args` are the
+// code of the other arguments
+function codeGenDispatch(
+  loc: Location,
+  obj: Expr<[Type, Location]>,
+  method: string,
+  args: Array<Array<Instr>>,
+  env: GlobalEnv
+): Array<Instr> {
+  const cls = (obj.a[0] as WithTag<Type, "class">).name;
+  const [slot, _] = env.vtables.get(cls)[1].get(method);
+  codeGenCallType(args.length + 1, env);
+  return [
+    ...codeGenExpr(obj, env),
+    ...args.flat(),
+    i32.const(slot), // vtable slot of ${method}
+    ...codeGenCall(loc, call(`$$dispatch${args.length + 1}`)),
+  ];
+}
+
+// The code of each argument of a call. When the arguments were not written in the order of the
+// parameters, the code of the first one saves them all in locals in the order they were written,
+// and each argument then reads back its own
+function codeGenCallArgs(
+  expr: {
+    a?: [Type, Location];
+    arguments: Array<Expr<[Type, Location]>>;
+    evalOrder?: Array<ArgumentPath>;
+  },
+  env: GlobalEnv
+): Array<Array<Instr>> {
+  if (expr.evalOrder === undefined) {
+    return expr.arguments.map((arg) => codeGenExpr(arg, env));
+  }
+  const args = expr.arguments.map((arg) => {
+    if (arg.tag === "list-expr") {
+      return { ...arg, contents: [...arg.contents] };
+    } else if (arg.tag === "dict") {
+      return { ...arg, entries: [...arg.entries] };
+    }
+    return arg;
+  });
+  const save: Array<Instr> = [];
+  expr.evalOrder.forEach(([i, j], k) => {
+    const arg = args[i];
+    let written: Expr<[Type, Location]>;
+    if (j === undefined) {
+      written = arg;
+    } else if (arg.tag === "list-expr") {
+      written = arg.contents[j];
+    } else if (arg.tag === "dict") {
+      written = arg.entries[j][1];
+    } else {
+      throw new BaseException.InternalException(`Argument ${i} of a call is not packed`);
+    }
+    save.push(
+      ...codeGenExpr(written, env),
+      call("$$addTemp"),
+      local.set(`$${callArgument(expr.a[1], k)}`)
+    );
+    const saved: Expr<[Type, Location]> = {
+      a: written.a,
+      tag: "id",
+      name: callArgument(expr.a[1], k),
+    };
+    if (j === undefined) {
+      args[i] = saved;
+    } else if (arg.tag === "list-expr") {
+      arg.contents[j] = saved;
+    } else if (arg.tag === "dict") {
+      arg.entries[j] = [arg.entries[j][0], saved];
+    }
+  });
+  return args.map((arg, i) => (i === 0 ? save : []).concat(codeGenExpr(arg, env)));
+}
+
+// The type of the functions with `arity` parameters, for an indirect call. The program declares
+// the `$$dispatchN` functions up to the most arguments it calls with
+function codeGenCallType(arity: number, env: GlobalEnv): FuncType {
+  env.arity = Math.max(env.arity, arity);
+  return { params: Array(arity).fill("i32"), results: ["i32"] };
+}
+
+// The negation of the boolean computed by `stmts`
+// Converts the value of type `from` on the stack to the type `to` it was joined to, see join
+function codeGenWiden(from: Type, to: Type): Array<Instr> {
+  if (from.tag === "number" && to.tag === "float") {
+    return [call("$$float_of_int"), call("$$float_box")];
+  }
+  return [];
+}
+
+// Saves each operand of the chain in a local before comparing it, and nests the remaining
+// comparisons in the branch taken when the comparison is true
+function codeGenCompareChain(
+  expr: WithTag<Expr<[Type, Location]>, "compare-chain">,
+  env: GlobalEnv
+): Array<Instr> {
+  const operands: Array<Expr<[Type, Location]>> = expr.operands.map((operand, i) => {
+    return { a: operand.a, tag: "id", name: compareChainOperand(expr.a[1], i) };
+  });
+  const save = (i: number) => [
+    ...codeGenExpr(expr.operands[i], env),
+    call("$$addTemp"),
+    local.set(`$${compareChainOperand(expr.a[1], i)}`),
+  ];
+  const compare = (i: number) =>
+    codeGenExpr(
+      {
+        a: [BOOL, expr.a[1]],
+        tag: "binop",
+        op: expr.ops[i],
+        left: operands[i],
+        right: operands[i + 1],
+      },
+      env
+    );
+  const last = expr.ops.length - 1;
+  var code = [...save(last + 1), ...compare(last)];
+  for (let i = last - 1; i >= 0; i--) {
+    code = [
+      ...save(i + 1),
+      ...compare(i),
+      ...decodeLiteral,
+      if_("i32", [...code], [...codeGenLiteral({ tag: "bool", value: false })]),
+    ];
+  }
+  return [...save(0), ...code];
+}
+
+function codeGenNot(stmts: Array<Instr>): Array<Instr> {
+  return [i32.const(0), ...stmts, ...decodeLiteral, i32.eq(), ...encodeLiteral];
+}
+
+// Runs the generator `gen` until its next `yield`, which leaves the yielded value on the stack
+function codeGenResume(loc: Location, gen: Instr): Array<Instr> {
+  return [
+    gen,
+    ...codeGenCall(loc, gen, i32.load(), call_indirect({ params: ["i32"], results: ["i32"] })),
+  ];
+}
+
+// `isinstance(obj, C)` needs the runtime class table when obj is an instance of a class. For the
+// other types the result is known statically: None is an object and bools are ints.
+function codeGenIsinstance(obj: Expr<[Type, Location]>, cls: Type, env: GlobalEnv): Array<Instr> {
+  const objStmts = codeGenExpr(obj, env);
+  const objTyp = obj.a[0];
+  const isObject = cls.tag === "class" && cls.name === "object";
+  if (objTyp.tag === "class" && cls.tag === "class" && !isObject) {
+    return [
+      ...objStmts,
+      i32.const(env.vtables.get(cls.name)[0]), // class id
+      call("$$isinstance"),
+      ...encodeLiteral,
+    ];
+  }
+  const holds =
+    isObject || objTyp.tag === cls.tag || (objTyp.tag === "bool" && cls.tag === "number");
+  return [...objStmts, drop(), ...codeGenLiteral({ tag: "bool", value: holds })];
+}
+
+// `type(obj)` is the `type` object of the class of obj, which holds its name in the field __name__
+function codeGenTypeOf(obj: Expr<[Type, Location]>, env: GlobalEnv): Array<Instr> {
+  return [...codeGenExpr(obj, env), codeGenTypeId(obj.a[0], env), call("$$type_of")];
+}
+
+// The static type of a value rendered by print, str or repr, as its index in the types of the
+// environment. Values carry no type of their own, e.g. True and 1 are the same word.
+function codeGenTypeId(typ: Type, env: GlobalEnv): Instr {
+  // default arguments of callables are bigints, which the manifests of programs can't hold
+  const key = JSON.stringify(typ, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+  let id = env.types.findIndex((t) => JSON.stringify(t) === key);
+  if (id === -1) {
+    id = env.types.length;
+    env.types.push(JSON.parse(key));
+  }
+  return i32.const(id); // type id
+}
+
 function isInternal(s: string): boolean {
   return s.substring(1).indexOf("$") !== -1;
 }
@@ -2520,15 +6532,15 @@ function isInternal(s: string): boolean {
 //   freed
 // Necessary because cannot scan the WASM stack for pointers so the MemoryManager
 //   must maintain its own list of reachable objects
-function codeGenTempGuard(c: Array<string>, kind: number): Array<string> {
+function codeGenTempGuard(c: Array<Instr>, kind: number): Array<Instr> {
   switch (kind) {
     case FENCE_TEMPS:
-      return ["(call $$captureTemps)"].concat(c).concat(["(call $$releaseTemps)"]);
+      return [call("$$captureTemps")].concat(c).concat([call("$$releaseTemps")]);
 
     case HOLD_TEMPS:
-      return ["(call $$captureTemps)"].concat(c);
+      return [call("$$captureTemps")].concat(c);
 
     case RELEASE_TEMPS:
-      return c.concat(["(call $$releaseTemps)"]);
+      return c.concat([call("$$releaseTemps")]);
   }
 }
@@ -10,9 +10,12 @@ import {
   Expr,
   Destructure,
   AssignTarget,
+  Assignable,
   Location,
+  VarInit,
 } from "./ast";
 import * as BaseException from "./error";
+import { rewriteStmts } from "./optimize";
 
 /** The seperater used to flatten nested functions */
 export const EA_NAMING_SEP = "_$";
@@ -34,6 +37,7 @@ type LocalEnv = {
   prefix: string; // prefix is used to rename nested functions
   varIds: string[]; // local variables & parameters
   funIds: string[]; // nested functions defined (name without prefix)
+  globalIds: string[]; // variables declared `global`
   parent: LocalEnv; // parent namespace, null for global
 };
 
@@ -42,6 +46,7 @@ const globalLocalEnv: (fun_names: string[]) => LocalEnv = (fun_names: string[])
   prefix: "",
   varIds: [],
   funIds: [],
+  globalIds: [],
   parent: null,
 });
 
@@ -54,7 +59,7 @@ export function ea(tAst: Program<[Type, Location]>): Program<[Type, Location]> {
   return {
     a: tAst.a,
     funs: [],
-    inits: tAst.inits,
+    inits: tAst.inits.concat(comprehensionInits(tAst.stmts)),
     classes: tAst.classes,
     stmts: tAst.stmts,
     closures: [].concat(
@@ -68,6 +73,7 @@ export function eaClass(cl: Class<[Type, Location]>): Class<[Type, Location]> {
   return {
     a: cl.a,
     name: cl.name,
+    super: cl.super,
     fields: cl.fields,
     methods: [].concat(
       ...cl.methods.map((f) => eaFunDef(f, globalLocalEnv(cl.methods.map((f) => f.name)), false))
@@ -95,10 +101,15 @@ export function eaFunDef(
     prefix: parentEnv.prefix + f.name + EA_NAMING_SEP,
     varIds: [],
     funIds: [],
+    globalIds: [],
     parent: parentEnv,
   };
+  const inits = f.inits.concat(comprehensionInits(f.body));
   f.parameters.forEach((p) => localEnv.varIds.push(p.name));
-  f.inits.forEach((i) => localEnv.varIds.push(i.name));
+  f.decls.forEach((d) => {
+    if (d.tag === "global") localEnv.globalIds.push(d.name);
+  });
+  inits.forEach((i) => localEnv.varIds.push(i.name));
   f.funs.forEach((nf) => localEnv.funIds.push(nf.name));
 
   // recursively apply to inner functions
@@ -124,14 +135,65 @@ export function eaFunDef(
     ret: f.ret,
     nonlocals: [...nonlocalSet],
     nested: f.funs.map((nf) => localEnv.prefix + nf.name),
-    inits: f.inits,
+    inits,
     isGlobal: isGlobal,
     body: processedBody,
+    ...(f.generator ? { generator: true } : {}),
   };
 
   return [currClosure].concat(innerClosures);
 }
 
+/**
+ * The variables bound by the comprehensions in `stmts`, declared like the other variables of the
+ * scope so that the lambdas in the comprehensions can capture them: globals at the top level, and
+ * locals with references in functions.
+ */
+function comprehensionInits(
+  stmts: Array<Stmt<[Type, Location]>>
+): Array<VarInit<[Type, Location]>> {
+  const inits: Array<VarInit<[Type, Location]>> = [];
+  rewriteStmts(stmts, {
+    expr: (e) => {
+      if (e.tag === "comprehension") {
+        e.clauses.forEach((c) => {
+          inits.push({ a: c.a, name: c.name, type: c.a[0], value: { tag: "none" } });
+        });
+      }
+      return e;
+    },
+  });
+  return inits;
+}
+
+// Assigning to a variable that escapes writes through its reference
+function eaAssignable(
+  target: Assignable<[Type, Location]>,
+  e: LocalEnv,
+  nSet: Set<string>
+): Assignable<[Type, Location]> {
+  switch (target.tag) {
+    case "id":
+      const id = lookupId(target.name, e);
+      if (id.varScope == VarScope.GLOBAL) return target; // Globel names should keep the same
+      if (id.varScope == VarScope.NONLOCAL) nSet.add(id.name);
+      return {
+        a: target.a,
+        tag: "lookup",
+        obj: { a: [TRef, target.a[1]], tag: "id", name: target.name + EA_REF_SUFFIX },
+        field: EA_DEREF_FIELD,
+      };
+    case "lookup":
+      return { ...target, obj: eaExpr(target.obj, e, nSet) };
+    case "bracket-lookup":
+      return {
+        ...target,
+        obj: eaExpr(target.obj, e, nSet),
+        key: eaExpr(target.key, e, nSet),
+      };
+  }
+}
+
 /**
  * Do escape analysis for a statement.
  *
@@ -153,26 +215,7 @@ function eaStmt(
     case "assignment":
       const targets: AssignTarget<[Type, Location]>[] = stmt.destruct.targets.map((at) => {
         if (at.ignore) return at; // do nothing for the ignore case
-        switch (at.target.tag) {
-          case "id":
-            const id = lookupId(at.target.name, e);
-            if (id.varScope == VarScope.GLOBAL) return at; // Globel names should keep the same
-            if (id.varScope == VarScope.NONLOCAL) nSet.add(id.name);
-            return {
-              ...at,
-              target: {
-                a: at.target.a,
-                tag: "lookup",
-                obj: { a: [TRef, at.target.a[1]], tag: "id", name: at.target.name + EA_REF_SUFFIX },
-                field: EA_DEREF_FIELD,
-              },
-            };
-          case "lookup":
-            return { ...at, target: { ...at.target, obj: eaExpr(at.target.obj, e, nSet) } };
-          case "bracket-lookup": {
-            throw new Error('Not implemented yet: "bracket-lookup" case');
-          }
-        }
+        return { ...at, target: eaAssignable(at.target, e, nSet) };
       });
 
       const aVlaue = eaExpr(stmt.value, e, nSet);
@@ -183,7 +226,15 @@ function eaStmt(
       // TODO (closure group): assume everything escapes by now
       return { ...stmt, destruct: aDestruct, value: aVlaue };
 
+    case "aug-assign":
+      return {
+        ...stmt,
+        target: eaAssignable(stmt.target, e, nSet),
+        value: eaExpr(stmt.value, e, nSet),
+      };
+
     case "return":
+    case "yield":
       return { ...stmt, value: eaExpr(stmt.value, e, nSet) };
 
     case "expr":
@@ -214,10 +265,46 @@ function eaStmt(
       return stmt;
 
     case "for":
-      return { ...stmt }; // TODO: implement ea for this new case while merging
+      // the loop variables keep their names; the compiler assigns them through their references
+      [stmt.name, stmt.index].forEach((name) => {
+        if (name && lookupId(name, e).varScope == VarScope.NONLOCAL) nSet.add(name);
+      });
+      return {
+        ...stmt,
+        iterable: eaExpr(stmt.iterable, e, nSet),
+        body: stmt.body.map((s) => eaStmt(s, e, nSet)),
+      };
 
     case "bracket-assign":
       return { ...stmt }; // TODO: implement ea for this new case while merging
+
+    case "try":
+      return {
+        ...stmt,
+        body: stmt.body.map((s) => eaStmt(s, e, nSet)),
+        handlers: stmt.handlers.map((h) => {
+          return { ...h, body: h.body.map((s) => eaStmt(s, e, nSet)) };
+        }),
+        els: stmt.els.map((s) => eaStmt(s, e, nSet)),
+        finalbody: stmt.finalbody.map((s) => eaStmt(s, e, nSet)),
+      };
+
+    case "raise":
+      return { ...stmt, value: eaExpr(stmt.value, e, nSet) };
+    case "assert":
+      return {
+        ...stmt,
+        cond: eaExpr(stmt.cond, e, nSet),
+        msg: stmt.msg === undefined ? undefined : eaExpr(stmt.msg, e, nSet),
+      };
+
+    case "del":
+      return {
+        ...stmt,
+        targets: stmt.targets.map((target) =>
+          target.tag === "id" ? eaAssignable(target, e, nSet) : eaExpr(target, e, nSet)
+        ),
+      };
   }
 }
 
@@ -254,7 +341,8 @@ function eaExpr(
       return { ...expr, left: eaExpr(expr.left, e, nSet), right: eaExpr(expr.right, e, nSet) };
 
     case "call":
-      throw new Error("Pls migrate to call_expr whose callee is an expression.");
+      // the builtins range, len, dict, set, isinstance and type
+      return { ...expr, arguments: expr.arguments.map((arg) => eaExpr(arg, e, nSet)) };
 
     case "id":
       const idid = lookupId(expr.name, e);
@@ -281,13 +369,22 @@ function eaExpr(
       };
 
     case "construct":
-      return expr;
+      return { ...expr, arguments: expr.arguments.map((a) => eaExpr(a, e, nSet)) };
 
     case "lambda":
       throw new BaseException.InternalException(`ea not yet implemented!: ${expr.tag}`);
 
     case "comprehension":
-      throw new BaseException.InternalException(`ea not yet implemented!: ${expr.tag}`);
+      return {
+        ...expr,
+        expr: eaExpr(expr.expr, e, nSet),
+        value: expr.value === undefined ? undefined : eaExpr(expr.value, e, nSet),
+        clauses: expr.clauses.map((c) => ({
+          ...c,
+          iter: eaExpr(c.iter, e, nSet),
+          conds: c.conds.map((cond) => eaExpr(cond, e, nSet)),
+        })),
+      };
 
     case "block":
       throw new BaseException.InternalException(`ea not yet implemented!: ${expr.tag}`);
@@ -300,8 +397,7 @@ function eaExpr(
       };
 
     case "list-expr":
-      throw new BaseException.InternalException(`ea not yet implemented!: ${expr.tag}`);
-
+    case "set-expr":
     case "tuple-expr":
       return {
         ...expr,
@@ -309,10 +405,22 @@ function eaExpr(
       };
 
     case "slicing":
-      throw new BaseException.InternalException(`ea not yet implemented!: ${expr.tag}`);
+      return {
+        ...expr,
+        name: eaExpr(expr.name, e, nSet),
+        start: eaExpr(expr.start, e, nSet),
+        end: eaExpr(expr.end, e, nSet),
+        stride: eaExpr(expr.stride, e, nSet),
+      };
 
     case "dict":
-      throw new BaseException.InternalException(`ea not yet implemented!: ${expr.tag}`);
+      return {
+        ...expr,
+        entries: expr.entries.map(([k, v]): [Expr<[Type, Location]>, Expr<[Type, Location]>] => [
+          eaExpr(k, e, nSet),
+          eaExpr(v, e, nSet),
+        ]),
+      };
 
     case "bracket-lookup":
       return {
@@ -320,6 +428,17 @@ function eaExpr(
         obj: eaExpr(expr.obj, e, nSet),
         key: eaExpr(expr.key, e, nSet),
       };
+
+    case "ternary":
+      return {
+        ...expr,
+        cond: eaExpr(expr.cond, e, nSet),
+        thn: eaExpr(expr.thn, e, nSet),
+        els: eaExpr(expr.els, e, nSet),
+      };
+
+    case "compare-chain":
+      return { ...expr, operands: expr.operands.map((o) => eaExpr(o, e, nSet)) };
   }
 }
 
@@ -341,7 +460,8 @@ function lookupId(n: string, local: LocalEnv): { varScope: VarScope; name: strin
   if (local.funIds.includes(n)) return { varScope: VarScope.LOCAL, name: local.prefix + n };
 
   // n is a glocal variable
-  if (local.parent == null) return { varScope: VarScope.GLOBAL, name: n };
+  if (local.parent == null || local.globalIds.includes(n))
+    return { varScope: VarScope.GLOBAL, name: n };
 
   const nameInParent = lookupId(n, local.parent);
   return nameInParent.varScope == VarScope.GLOBAL
@@ -6,6 +6,7 @@ Use instanceof to get additional properties of each Error type, if necessary.
 
 +-- RuntimeError (DynamicError)
 		+-- StopInteration
+		+-- AssertionError
 		+-- ArithmeticError
     |   +-- OverflowError
     |   +-- ZeroDivisionError
@@ -19,6 +20,8 @@ Use instanceof to get additional properties of each Error type, if necessary.
 
 +-- CompileError  (StaticError)
     +-- AttributeError
+    +-- ImportError
+    |   +-- ModuleNotFoundError
     +-- NameError
     |   +-- UnBoundLocalError
     +-- SyntaxError
@@ -27,6 +30,9 @@ Use instanceof to get additional properties of each Error type, if necessary.
     |		+-- UnsupportedOperandTypeError -> This error class is for TypeError related to operator like + - // * ....
 		|		+-- TypeMismatchError -> This error class is for TypeError that is allowed in Python but not in our project
 		|		+-- ConditionTypeError -> This error class is for condition type check in while and if, which does not exist in real python.
+
+Programs catch these errors through the ChocoPy classes in BUILTIN_EXCEPTIONS. An exception
+raised by a program that is never caught surfaces as a RuntimeError named after its class.
 */
 
 import { BinOp, UniOp, Location, Type } from "./ast";
@@ -81,6 +87,13 @@ export class StopIteration extends RuntimeError {
   }
 }
 
+// `assert cond, msg` with a false condition
+export class AssertionError extends RuntimeError {
+  constructor(callStack: Array<Location>, message?: string) {
+    super(callStack, message, "AssertionError");
+  }
+}
+
 export class ArithmeticError extends RuntimeError {
   constructor(callStack: Array<Location>, message?: string, name = "ArithmeticError") {
     super(callStack, message, name);
@@ -114,9 +127,10 @@ export class IndexError extends LookupError {
   }
 }
 
+// The message is the repr of the missing key
 export class KeyError extends LookupError {
-  constructor(callStack: Array<Location>) {
-    super(callStack, ``, "KeyError");
+  constructor(callStack: Array<Location>, message = "") {
+    super(callStack, message, "KeyError");
   }
 }
 
@@ -152,6 +166,19 @@ export class RecursionError extends RuntimeError {
   }
 }
 
+// Imports are resolved when the program is compiled, see modules.ts
+export class ImportError extends CompileError {
+  constructor(callStack: Array<Location>, message?: string, name = "ImportError") {
+    super(callStack, message, name);
+  }
+}
+
+export class ModuleNotFoundError extends ImportError {
+  constructor(callStack: Array<Location>, module: string) {
+    super(callStack, `No module named '${module}'`, "ModuleNotFoundError");
+  }
+}
+
 export class SyntaxError extends CompileError {
   constructor(callStack: Array<Location>, message?: string, name = "SyntaxError") {
     super(callStack, message == undefined ? `invalid syntax` : message, name);
@@ -253,15 +280,39 @@ export class ValueError extends RuntimeError {
 }
 
 export class UnicodeError extends ValueError {
-  constructor(callStack: Array<Location>, codec: string, character: string, pos: number) {
+  constructor(
+    callStack: Array<Location>,
+    codec: string,
+    character: string,
+    pos: number,
+    action: "encode" | "decode" = "encode"
+  ) {
     super(
       callStack,
-      `'${codec}' codec can't encode character '${character}' in position ${pos}`,
+      `'${codec}' codec can't ${action} character '${character}' in position ${pos}`,
       "UnicodeError"
     );
   }
 }
 
+// Exception classes visible to ChocoPy programs, each with its superclass.
+// Runtime errors raised by the checks above are caught as the class of the same name.
+export const BUILTIN_EXCEPTIONS: Array<[string, string]> = [
+  ["Exception", "object"],
+  ["ArithmeticError", "Exception"],
+  ["OverflowError", "ArithmeticError"],
+  ["ZeroDivisionError", "ArithmeticError"],
+  ["LookupError", "Exception"],
+  ["IndexError", "LookupError"],
+  ["KeyError", "LookupError"],
+  ["ValueError", "Exception"],
+  ["UnicodeError", "ValueError"],
+  ["TypeError", "Exception"],
+  ["AttributeError", "Exception"],
+  ["StopIteration", "Exception"],
+  ["AssertionError", "Exception"],
+];
+
 function typeToString(typ: Type): string {
   switch (typ.tag) {
     case "callable":
@@ -1,12 +1,33 @@
 import * as BaseException from "./error";
 import { Location } from "./ast";
+import { STRING, PyValue, PyString, encodeValue } from "./utils";
+import { TAG_CLASS } from "./alloc";
+import { ClassTable } from "./rtti";
+
+// An exception on its way to a handler. `obj` is the raised ChocoPy object, or 0 for errors
+// raised by the runtime checks until a handler asks for an object.
+type PendingException = { error: Error; name: string; obj: number };
 
 export class ErrorManager {
   sources: Array<string>;
+  // <file id, module name> of the sources of imported modules
+  moduleNames: Map<number, string>;
   callStack: Array<Location>;
+  // Set while an exception is pending; compiled code unwinds until a handler clears it
+  excPending: WebAssembly.Global;
+  pending: PendingException;
+  // Exceptions set aside while a `finally` block runs
+  stashed: Array<PendingException>;
+  // The classes of the programs, which exceptions are matched against
+  classes: ClassTable;
   constructor() {
     this.sources = new Array<string>();
+    this.moduleNames = new Map();
     this.callStack = new Array<Location>();
+    this.excPending = new WebAssembly.Global({ value: "i32", mutable: true }, 0);
+    this.pending = null;
+    this.stashed = [];
+    this.classes = new ClassTable();
   }
 
   __pushStack(line: number, col: number, length: number, fileId: number) {
@@ -18,6 +39,18 @@ export class ErrorManager {
     this.callStack.pop();
   }
 
+  // File ids count the sources from 1, see parse. Compiling a program only numbers its sources,
+  // they are set here when it runs
+  setSource(fileId: number, source: string, module?: string) {
+    this.sources[fileId - 1] = source;
+    if (module !== undefined) this.moduleNames.set(fileId, module);
+  }
+
+  // Modules are named after their file, other sources go by their id
+  fileName(fileId: number): string {
+    return this.moduleNames.has(fileId) ? `${this.moduleNames.get(fileId)}.py` : `${fileId}`;
+  }
+
   locToString(loc: Location): string {
     return this.sources[loc.fileId - 1]
       .split(/\r?\n/)
@@ -29,7 +62,7 @@ export class ErrorManager {
     let previousCall = "main";
     callStack.forEach((loc, i) => {
       if (i <= 10) {
-        result += `at line ${loc.line} of file ${loc.fileId} in ${previousCall} \n`;
+        result += `at line ${loc.line} of file ${this.fileName(loc.fileId)} in ${previousCall} \n`;
         let file: string[] = this.sources[loc.fileId - 1].split(/\r?\n/);
         let fileLines = file.length;
         let start = Math.max(loc.line - 1, 1);
@@ -51,33 +84,176 @@ export class ErrorManager {
     this.callStack = new Array<Location>();
   }
 
+  registerClass(tblIdx: number, name: string, superName: string, methods: Array<[string, number]>) {
+    this.classes.register(tblIdx, name, superName, methods);
+  }
+
+  // Errors keep a copy of the call stack, which shrinks again while the exception unwinds
+  raise(error: Error, obj = 0) {
+    this.pending = { error, name: error.name, obj };
+    this.excPending.value = 1;
+  }
+
+  clearPending() {
+    this.pending = null;
+    this.excPending.value = 0;
+  }
+
+  resetExceptions() {
+    this.clearPending();
+    this.stashed = [];
+  }
+
+  // Called once the program finished; an exception still pending was never caught
+  throwUncaught() {
+    const pending = this.pending;
+    this.resetExceptions();
+    if (pending !== null) throw pending.error;
+  }
+
   __checkNoneClass(arg: number) {
-    if (arg == 0)
-      throw new BaseException.AttributeError(
-        this.callStack,
-        { tag: "none" },
-        this.locToString(this.callStack[this.callStack.length - 1]).split(".")[1]
+    if (arg == 0) {
+      const source = this.locToString(this.callStack[this.callStack.length - 1]);
+      // without an attribute, None was the operand of an operator such as `+` or `[]`
+      const attr = source.split(".")[1];
+      this.raise(
+        attr === undefined
+          ? new BaseException.TypeError(
+              [...this.callStack],
+              `unsupported operand type 'NoneType' in '${source}'`
+            )
+          : new BaseException.AttributeError([...this.callStack], { tag: "none" }, attr)
       );
+    }
   }
 
   __checkNoneLookup(arg: number) {
     if (arg == 0)
-      throw new BaseException.TypeError(
-        this.callStack,
-        "'NoneType' object is not subscriptable or does not support item assignment"
+      this.raise(
+        new BaseException.TypeError(
+          [...this.callStack],
+          "'NoneType' object is not subscriptable or does not support item assignment"
+        )
       );
   }
 
   __checkIndex(size: number, key: number) {
-    if (key < 0 || key >= size) throw new BaseException.IndexError(this.callStack);
+    if (key < 0 || key >= size) this.raise(new BaseException.IndexError([...this.callStack]));
   }
 
-  __checkKey(key: number) {
-    if (key === -1) throw new BaseException.KeyError(this.callStack);
+  // `repr` renders the missing key, or returns undefined when its __repr__ method raised an
+  // exception, which is then left pending instead
+  __checkKey(found: number, repr: () => string) {
+    if (found !== -1) return;
+    const key = repr();
+    if (key !== undefined) this.raise(new BaseException.KeyError([...this.callStack], key));
   }
 
   __checkZeroDivision(key: number) {
-    if (key == 0) throw new BaseException.ZeroDivisionError(this.callStack);
+    if (key == 0) this.raise(new BaseException.ZeroDivisionError([...this.callStack]));
+  }
+
+  __checkSeparator(length: number) {
+    if (length == 0)
+      this.raise(new BaseException.ValueError([...this.callStack], "empty separator"));
+  }
+
+  // A generator frame whose state is negative is exhausted
+  __checkStopIteration(state: number) {
+    if (state < 0) this.raise(new BaseException.StopIteration([...this.callStack]));
+  }
+
+  __checkFloatToInt(x: number) {
+    if (Number.isNaN(x))
+      this.raise(
+        new BaseException.ValueError([...this.callStack], "cannot convert float NaN to integer")
+      );
+    else if (!Number.isFinite(x))
+      this.raise(
+        new BaseException.OverflowError(
+          [...this.callStack],
+          "cannot convert float infinity to integer"
+        )
+      );
+  }
+
+  // `ok` is 0 when the argument of a math function is outside of its domain
+  __checkMathDomain(ok: number) {
+    if (ok == 0) this.raise(new BaseException.ValueError([...this.callStack], "math domain error"));
+  }
+
+  __checkShiftCount(negative: number) {
+    if (negative)
+      this.raise(new BaseException.ValueError([...this.callStack], "negative shift count"));
+  }
+
+  // The power of an int is an int, so its exponent cannot be negative
+  __checkExponent(negative: number) {
+    if (negative)
+      this.raise(
+        new BaseException.ValueError(
+          [...this.callStack],
+          "negative exponent in int ** int, use a float base"
+        )
+      );
+  }
+
+  // `msg` is the message of the assertion, 0 when it has none
+  __assertFailed(msg: number, memory: WebAssembly.Memory) {
+    const message = msg === 0 ? undefined : PyValue(STRING, msg, memory.buffer);
+    this.raise(
+      new BaseException.AssertionError(
+        [...this.callStack],
+        message !== undefined && message.tag === "string" ? message.value : ""
+      )
+    );
+  }
+
+  // `raise obj`: exception objects keep their message in their first field
+  __excRaise(obj: number, memory: WebAssembly.Memory) {
+    const view = new Int32Array(memory.buffer);
+    const name = this.classes.className(obj, memory);
+    const msgPtr = view[obj / 4 + 1];
+    const msg = PyValue(STRING, msgPtr, memory.buffer);
+    const message = msgPtr === 0 || msg.tag !== "string" ? "" : msg.value;
+    this.raise(new BaseException.RuntimeError([...this.callStack], message, name), obj);
+  }
+
+  // Whether the pending exception is an instance of the class at `tblIdx`; -1 matches anything
+  __excMatch(tblIdx: number): number {
+    if (tblIdx === -1) return 1;
+    return this.classes.isSubclass(this.pending.name, this.classes.names.get(tblIdx)) ? 1 : 0;
+  }
+
+  // Handles the pending exception and returns its object, allocating one for a runtime error
+  __excCatch(gcalloc: (tag: number, size: number) => number, memory: WebAssembly.Memory): number {
+    const pending = this.pending;
+    this.clearPending();
+    if (pending.obj !== 0) return pending.obj;
+
+    // runtime errors of other classes are caught as an Exception, the class at index 0
+    const tblIdx = this.classes.id(pending.name);
+    const message = pending.error.message;
+    const msgPtr = encodeValue(PyString(message, 0), gcalloc, new Int32Array(memory.buffer));
+    const obj = gcalloc(Number(TAG_CLASS), 8);
+    const view = new Int32Array(memory.buffer);
+    view[obj / 4] = tblIdx === undefined ? 0 : tblIdx;
+    view[obj / 4 + 1] = msgPtr;
+    return obj;
+  }
+
+  // `finally` runs with no exception pending and restores the one it set aside,
+  // unless it raised a new exception
+  __excStash() {
+    this.stashed.push(this.pending);
+    this.clearPending();
+  }
+
+  __excRestore() {
+    const stashed = this.stashed.pop();
+    if (stashed !== null && this.pending === null) {
+      this.raise(stashed.error, stashed.obj);
+    }
   }
 }
 
@@ -102,13 +278,60 @@ export function importErrorManager(importObject: any, em: ErrorManager) {
     em.__checkIndex(size, id);
   };
 
-  importObject.imports.__checkKey = (key: number) => {
-    em.__checkKey(key);
+  importObject.imports.__checkKey = (found: number, key: number, typeId: number) => {
+    em.__checkKey(found, () => importObject.imports.printer.render(key, typeId, "repr"));
   };
 
   importObject.imports.__checkZeroDivision = (key: number) => {
     em.__checkZeroDivision(key);
   };
+
+  importObject.imports.__checkSeparator = (length: number) => {
+    em.__checkSeparator(length);
+  };
+
+  importObject.imports.__checkStopIteration = (state: number) => {
+    em.__checkStopIteration(state);
+  };
+
+  importObject.imports.__checkFloatToInt = (x: number) => {
+    em.__checkFloatToInt(x);
+  };
+
+  importObject.imports.__checkMathDomain = (ok: number) => {
+    em.__checkMathDomain(ok);
+  };
+
+  importObject.imports.__checkShiftCount = (negative: number) => {
+    em.__checkShiftCount(negative);
+  };
+
+  importObject.imports.__checkExponent = (negative: number) => {
+    em.__checkExponent(negative);
+  };
+
+  importObject.imports.__assertFailed = (msg: number) => {
+    em.__assertFailed(msg, importObject.js.memory);
+  };
+
+  importObject.imports.__excPending = em.excPending;
+
+  importObject.imports.__excRaise = (obj: number) => {
+    em.__excRaise(obj, importObject.js.memory);
+  };
+
+  importObject.imports.__excMatch = (tblIdx: number) => em.__excMatch(tblIdx);
+
+  importObject.imports.__excCatch = () =>
+    em.__excCatch(importObject.imports.gcalloc, importObject.js.memory);
+
+  importObject.imports.__excStash = () => {
+    em.__excStash();
+  };
+
+  importObject.imports.__excRestore = () => {
+    em.__excRestore();
+  };
 }
 
 export enum RunTime {
@@ -118,4 +341,5 @@ export enum RunTime {
   CHECK_INDEX_ERROR = "check_index",
   CHECK_VALUE_ERROR = "check_value",
   CHECK_KEY_ERROR = "check_key",
+  CHECK_STOP_ITERATION = "check_stop_iteration",
 }
@@ -13,6 +13,9 @@ export type HeapTag =
   | typeof TAG_REF
   | typeof TAG_DICT_ENTRY
   | typeof TAG_TUPLE
+  | typeof TAG_SET
+  | typeof TAG_GENERATOR
+  | typeof TAG_FLOAT
   | typeof TAG_OPAQUE;
 
 // FIXME: This should really be an enum...
@@ -25,6 +28,9 @@ export const TAG_REF = 0x6n;
 export const TAG_DICT_ENTRY = 0x7n;
 export const TAG_CLOSURE = 0x8n;
 export const TAG_TUPLE = 0x9n;
+export const TAG_SET = 0xan;
+export const TAG_GENERATOR = 0xbn;
+export const TAG_FLOAT = 0xcn;
 export const TAG_OPAQUE = 0x12n; // NOTE(alex:mm) needed to mark zero-sized-types
 
 // NOTE(alex:mm): controls whether any GC is ever run
@@ -198,6 +204,9 @@ export class RootSet {
   // Holds the temporary set of a function call expression
   tempPlacementStack: Array<number>;
 
+  // Objects that are never freed, e.g. the type objects returned by `type(x)`
+  pinned: Set<Pointer>;
+
   constructor(memory: Uint8Array) {
     this.memory = memory;
 
@@ -205,6 +214,7 @@ export class RootSet {
     this.localsStack = [];
     this.tempsStack = [];
     this.tempPlacementStack = [];
+    this.pinned = new Set();
 
     this.captureTempsFlag = false;
   }
@@ -228,7 +238,13 @@ export class RootSet {
       msg = msg.concat("]");
       throw new Error(`Bad temps stack: ${msg} (len=${this.tempsStack.length}, index=${index})`);
     }
-    this.tempsStack[index].add(value);
+    // Functions also return ints and booleans, which must not be traced
+    if (isPointer(value)) {
+      const ptr = extractPointer(value);
+      if (ptr != 0x0n) {
+        this.tempsStack[index].add(ptr);
+      }
+    }
   }
 
   addTemp(value: bigint) {
@@ -266,6 +282,16 @@ export class RootSet {
     this.captureTempsFlag = this.tempsStack.length > 0;
   }
 
+  tempsDepth(): number {
+    return this.tempsStack.length;
+  }
+
+  // Drops the temporary frames of statements abandoned by a raised exception
+  unwindTemps(depth: number) {
+    this.tempsStack.length = depth;
+    this.captureTempsFlag = this.tempsStack.length > 0;
+  }
+
   pushFrame() {
     this.localsStack.push(new Map());
   }
@@ -300,6 +326,11 @@ export class RootSet {
     this.globals.add(ptr);
   }
 
+  // ptr: pointer to a heap object
+  pin(ptr: Pointer) {
+    this.pinned.add(ptr);
+  }
+
   // Iterate through all roots
   // Global variables are pruned for pointers
   forEach(callback: (heapObjPtr: Pointer) => void) {
@@ -326,6 +357,8 @@ export class RootSet {
       });
     });
 
+    this.pinned.forEach((ptr) => callback(ptr));
+
     // Temp set is already a set of pointers to heap values
     this.tempsStack.forEach((frame) => {
       frame.forEach((localPtrValue) => {
@@ -395,8 +428,11 @@ export class MnS<A extends MarkableAllocator> {
       // NOTE(alex:mm): using a `switch` here breaks occasionally for whatever reason
       if (childTag === TAG_CLASS || childTag === TAG_TUPLE) {
         // classes and tuples use the same memory structure: a value at each memory position
+        // Classes are prefixed by their 32-bit vtable table-index, which is never a pointer.
+        // It is their class id, see rtti.ts
         // NOTE(alex:mm): use field indices for debug info later
-        for (let fieldIndex = 0n; fieldIndex < childSize / 4n; fieldIndex++) {
+        const firstField = childTag === TAG_CLASS ? 1n : 0n;
+        for (let fieldIndex = firstField; fieldIndex < childSize / 4n; fieldIndex++) {
           const fieldValue = this.getField(childPtr + 4n * fieldIndex);
           if (!isPointer(fieldValue)) {
             continue;
@@ -438,29 +474,33 @@ export class MnS<A extends MarkableAllocator> {
             }
           }
         }
-      } else if (childTag === TAG_STRING || childTag === TAG_BIGINT) {
+      } else if (childTag === TAG_STRING || childTag === TAG_BIGINT || childTag === TAG_FLOAT) {
         // Just mark the pointer?
         this.setMarked(childPtr);
-      } else if (childTag === TAG_DICT) {
-        for (let listIndex = childPtr; listIndex < childSize; listIndex += 4n) {
-          // Trace each linked-list
+      } else if (childTag === TAG_DICT || childTag === TAG_SET) {
+        // Layout: [32-bit bucket heads...], each bucket a linked-list of TAG_DICT_ENTRY nodes
+        // Sets share the dictionary hashtable, storing None for every value
+        for (let bucketPtr = childPtr; bucketPtr < childPtr + childSize; bucketPtr += 4n) {
           // NOTE(sagar): always assumed to be an address. Unnecessary to check
-          let currListAddr = this.getField(listIndex);
-          while (currListAddr !== 0n) {
-            // Not none
-
-            const key = this.getField(currListAddr);
-            const value = this.getField(currListAddr + 4n);
-            // NOTE(sagar): keys probably can't be None
-            if (key !== 0n && isPointer(key)) {
-              worklist.push(key);
-            }
+          const entryPtr = this.getField(bucketPtr);
+          if (entryPtr !== 0n && !this.isMarked(entryPtr)) {
+            this.setMarked(entryPtr);
+            worklist.push(entryPtr);
+          }
+        }
+      } else if (childTag === TAG_DICT_ENTRY) {
+        // Layout: [32-bit key, 32-bit value, 32-bit next entry, 32-bit deleted flag]
+        for (let fieldIndex = 0n; fieldIndex < 3n; fieldIndex++) {
+          const fieldValue = this.getField(childPtr + 4n * fieldIndex);
+          // NOTE: the next-entry pointer is untagged, but entries are always word-aligned
+          if (!isPointer(fieldValue)) {
+            continue;
+          }
 
-            // Check for none
-            if (value !== 0n && isPointer(value)) {
-              worklist.push(value);
-            }
-            currListAddr = this.getField(currListAddr + 8n);
+          const fieldPointerValue = extractPointer(fieldValue);
+          if (fieldPointerValue !== 0n && !this.isMarked(fieldPointerValue)) {
+            this.setMarked(fieldPointerValue);
+            worklist.push(fieldPointerValue);
           }
         }
       } else if (childTag === TAG_REF) {
@@ -487,11 +527,25 @@ export class MnS<A extends MarkableAllocator> {
             worklist.push(pointerValue);
           }
         }
+      } else if (childTag === TAG_GENERATOR) {
+        // Layout [32-bit resume fn table-index, 32-bit state, saved locals...]
+        for (let dataPtr = childPtr + 8n; dataPtr < childPtr + childSize; dataPtr += 4n) {
+          const value = readI32(this.memory, Number(dataPtr));
+          if (isPointer(value) && value !== 0n) {
+            const pointerValue = extractPointer(value);
+            if (!this.isMarked(pointerValue)) {
+              this.setMarked(pointerValue);
+              worklist.push(pointerValue);
+            }
+          }
+        }
       } else if (childTag === TAG_OPAQUE) {
         // NOP
       } else {
         throw new Error(
-          `Trying to trace unknown heap object: { addr=${childPtr}, tag=${childTag.toString()}, size=${childSize} }`
+          `Trying to trace unknown heap object: { addr=${childPtr}, tag=${String(
+            childTag
+          )}, size=${childSize} }`
         );
       }
     }
@@ -0,0 +1,66 @@
+// Runs programs compiled ahead of time by the `chocopy` CLI.
+
+import { Type, Value } from "./ast";
+import { ErrorManager } from "./errorManager";
+import { Logger } from "./logger";
+import { importRuntime } from "./runtime";
+import { CompiledProgram } from "./runner";
+import { resultValue } from "./printer";
+
+// What the runtime needs besides the binary, written next to it as JSON
+export type Manifest = {
+  source: string;
+  returnType: Type;
+  // addresses of the global variables, which are roots for the GC
+  globals: Array<number>;
+  // vtable index, name, superclass and methods of every class
+  classes: Array<[number, string, string, Array<[string, number]>]>;
+  // static types of the values the program renders
+  types: Array<Type>;
+  // name and source of every imported module, for tracebacks
+  modules: Array<[string, string]>;
+};
+
+export function makeManifest(source: string, compiled: CompiledProgram): Manifest {
+  return {
+    source,
+    returnType: compiled.resultType,
+    globals: Array.from(compiled.newEnv.globals.values()),
+    classes: compiled.classes,
+    types: compiled.types,
+    modules: compiled.modules,
+  };
+}
+
+// `importObject.imports.print` receives the printed values, as for the REPL
+export async function loadProgram(
+  binary: BufferSource,
+  manifest: Manifest,
+  importObject: any,
+  logger: Logger = new Logger()
+): Promise<Value> {
+  // Only the runtime is set up, the compiler is not needed. The static storage of the fresh
+  // memory manager is laid out as it was when the program was compiled.
+  const errorManager = new ErrorManager();
+  const memoryManager = importRuntime(importObject, errorManager, logger);
+  errorManager.setSource(1, manifest.source);
+  manifest.modules.forEach(([name, source], i) => errorManager.setSource(i + 2, source, name));
+  manifest.globals.forEach((addr) => memoryManager.addGlobal(BigInt(addr)));
+  manifest.classes.forEach(([tblIdx, cls, superCls, methods]) =>
+    errorManager.registerClass(tblIdx, cls, superCls, methods)
+  );
+  errorManager.classes.types = manifest.types;
+
+  errorManager.resetExceptions();
+  const wasmModule = await WebAssembly.instantiate(binary, importObject);
+  errorManager.classes.callMethod = wasmModule.instance.exports.call_method as (
+    tblIdx: number,
+    obj: number
+  ) => number;
+  const result = (wasmModule.instance.exports.exported_func as () => number)();
+  errorManager.throwUncaught();
+  const value = resultValue(importObject, result, manifest.returnType);
+  // raised by a __repr__ method
+  errorManager.throwUncaught();
+  return value;
+}
@@ -0,0 +1,81 @@
+// Tracing for the stages of the compiler and the runtime.
+//
+// Messages go to a named channel with a level. Nothing is printed until a handler
+// subscribes to some channels, so a fresh Logger is silent.
+
+export type Channel = "parse" | "tc" | "opt" | "ea" | "codegen" | "wasm" | "gc";
+
+export const CHANNELS: Array<Channel> = ["parse", "tc", "opt", "ea", "codegen", "wasm", "gc"];
+
+// Lower levels are more important; a subscriber gets its level and everything below it
+export enum LogLevel {
+  Error,
+  Warn,
+  Info,
+  Debug,
+  Trace,
+}
+
+export type LogHandler = (channel: Channel, level: LogLevel, ...args: Array<any>) => void;
+
+type Subscription = { channels: Set<Channel>; level: LogLevel; handler: LogHandler };
+
+// Prints to the console, prefixed with the channel
+export function consoleHandler(channel: Channel, level: LogLevel, ...args: Array<any>) {
+  const print = level <= LogLevel.Warn ? console.error : console.log;
+  print(`[${channel}]`, ...args);
+}
+
+export class Logger {
+  subscriptions: Array<Subscription>;
+
+  constructor() {
+    this.subscriptions = [];
+  }
+
+  // Returns a function that cancels the subscription
+  subscribe(
+    channels: Array<Channel> = CHANNELS,
+    level: LogLevel = LogLevel.Debug,
+    handler: LogHandler = consoleHandler
+  ): () => void {
+    const subscription = { channels: new Set(channels), level, handler };
+    this.subscriptions.push(subscription);
+    return () => {
+      this.subscriptions = this.subscriptions.filter((s) => s !== subscription);
+    };
+  }
+
+  // Lets callers skip building expensive messages nobody listens to
+  enabled(channel: Channel, level: LogLevel): boolean {
+    return this.subscriptions.some((s) => s.channels.has(channel) && level <= s.level);
+  }
+
+  log(channel: Channel, level: LogLevel, ...args: Array<any>) {
+    this.subscriptions.forEach((s) => {
+      if (s.channels.has(channel) && level <= s.level) {
+        s.handler(channel, level, ...args);
+      }
+    });
+  }
+
+  error(channel: Channel, ...args: Array<any>) {
+    this.log(channel, LogLevel.Error, ...args);
+  }
+
+  warn(channel: Channel, ...args: Array<any>) {
+    this.log(channel, LogLevel.Warn, ...args);
+  }
+
+  info(channel: Channel, ...args: Array<any>) {
+    this.log(channel, LogLevel.Info, ...args);
+  }
+
+  debug(channel: Channel, ...args: Array<any>) {
+    this.log(channel, LogLevel.Debug, ...args);
+  }
+
+  trace(channel: Channel, ...args: Array<any>) {
+    this.log(channel, LogLevel.Trace, ...args);
+  }
+}
@@ -0,0 +1,499 @@
+/**
+ * Imports between ChocoPy modules. A module is the source of a single file, found by a
+ * `ModuleLoader`. Each module is type-checked once, the first time it is imported, and its
+ * top-level code runs before the code of the program importing it.
+ *
+ * The names defined by a module are qualified with the module's name, so `x` in `mod` becomes
+ * `mod.x` in the type environment and in the compiled program. Before a program is type-checked,
+ * `qualify` rewrites its references to imported names: `mod.x` where `mod` is an imported module
+ * and `x` where it was imported with `from mod import x` both become `mod.x`. A variable imported
+ * with `from mod import x` is copied instead, see copyImports.
+ */
+import {
+  Class,
+  ComprehensionClause,
+  Expr,
+  FunDef,
+  Import,
+  Keyword,
+  Literal,
+  Location,
+  Parameter,
+  Program,
+  Stmt,
+  Type,
+} from "./ast";
+import { CLASS } from "./utils";
+import { parse } from "./parser";
+import { tc, GlobalTypeEnv } from "./type-check";
+import { Config } from "./runner";
+import * as BaseException from "./error";
+
+type A = [Type, Location];
+
+/** Finds the source of a module by its name, undefined when there is no such module */
+export type ModuleLoader = (name: string) => string | undefined;
+
+/** Loads modules from a map of sources, e.g. the files open in the browser */
+export function mapLoader(sources: Map<string, string>): ModuleLoader {
+  return (name) => sources.get(name);
+}
+
+/**
+ * What the names of a program refer to besides its local variables: imported modules by the
+ * name they are bound to in `modules`, and other names by their qualified name in `names`.
+ */
+type Scope = { names: Map<string, string>; modules: Map<string, string> };
+
+// A variable imported with `from mod import x`, which the importing program copies to `name`
+type Copy = { a: Location; name: string; qualified: string; type: Type };
+
+/**
+ * Type-checks a program together with the modules it imports that were not loaded yet. The
+ * modules come first in the returned program, so that their top-level code runs first.
+ * Also returns the name and source of every module that was loaded.
+ */
+export function tcWithImports(
+  env: GlobalTypeEnv,
+  program: Program<Location>,
+  config: Config
+): [Program<A>, GlobalTypeEnv, Array<[string, string]>] {
+  const loaded: Array<[string, string]> = [];
+  const modules: Array<Program<A>> = [];
+  const [newEnv, bindings, copies] = loadImports(env, program, config, [], loaded, modules);
+  program = copyImports(program, copies, newEnv);
+  // Imports of earlier programs stay in scope, unless this program redefines their names
+  const imports = new Map([...env.imports, ...bindings]);
+  topLevelNames(program).forEach((name) => imports.delete(name));
+  const [tprogram, tenv] = tc(newEnv, qualify(program, scopeOf(imports, newEnv.modules)));
+  const merged: Program<A> = {
+    a: tprogram.a,
+    inits: [].concat(...modules.map((m) => m.inits), tprogram.inits),
+    funs: [].concat(...modules.map((m) => m.funs), tprogram.funs),
+    classes: [].concat(...modules.map((m) => m.classes), tprogram.classes),
+    stmts: [].concat(...modules.map((m) => m.stmts), tprogram.stmts),
+    closures: [],
+  };
+  return [merged, { ...tenv, imports }, loaded];
+}
+
+function topLevelNames(program: Program<Location>): Array<string> {
+  return [
+    ...program.inits.map((init) => init.name),
+    ...program.funs.map((fun) => fun.name),
+    ...program.classes.map((cls) => cls.name),
+  ];
+}
+
+// Splits the names bound by imports into modules and qualified names
+function scopeOf(bindings: Map<string, string>, modules: Set<string>): Scope {
+  const scope: Scope = { names: new Map(), modules: new Map() };
+  bindings.forEach((target, name) => {
+    if (modules.has(target)) scope.modules.set(name, target);
+    else scope.names.set(name, target);
+  });
+  return scope;
+}
+
+/**
+ * Loads the modules imported by `program`, adding them to `typed` in the order they run, and
+ * returns the names its imports bind and the variables they copy. `importing` holds the modules
+ * whose imports are being loaded, which cannot be imported again.
+ */
+function loadImports(
+  env: GlobalTypeEnv,
+  program: Program<Location>,
+  config: Config,
+  importing: Array<string>,
+  loaded: Array<[string, string]>,
+  typed: Array<Program<A>>
+): [GlobalTypeEnv, Map<string, string>, Array<Copy>] {
+  const bindings = new Map<string, string>();
+  const copies: Array<Copy> = [];
+  (program.imports || []).forEach((imp) => {
+    if (importing.includes(imp.module)) {
+      throw new BaseException.ImportError(
+        [imp.a],
+        `circular import of '${imp.module}' from '${importing[importing.length - 1]}'`
+      );
+    }
+    if (!env.modules.has(imp.module)) {
+      env = loadModule(env, imp, config, importing, loaded, typed);
+    }
+    if (imp.names === undefined) {
+      bindings.set(imp.alias, imp.module);
+      return;
+    }
+    imp.names.forEach(({ name, alias }) => {
+      const qualified = `${imp.module}.${name}`;
+      if (!env.globals.has(qualified) && !env.classes.has(qualified)) {
+        throw new BaseException.ImportError(
+          [imp.a],
+          `cannot import name '${name}' from '${imp.module}'`
+        );
+      }
+      if (env.globals.has(qualified) && !env.functions.has(qualified)) {
+        copies.push({ a: imp.a, name: alias, qualified, type: env.globals.get(qualified) });
+      } else {
+        bindings.set(alias, qualified);
+      }
+    });
+  });
+  return [env, bindings, copies];
+}
+
+/**
+ * Declares the variables imported with `from mod import x` as globals of the program, assigned
+ * the value `mod.x` has when the program starts. Assigning `x` then leaves `mod.x` as is, and
+ * assigning `mod.x` leaves `x`, like in Python. A program that runs after the one that declared
+ * `x` assigns it again.
+ */
+function copyImports(
+  program: Program<Location>,
+  copies: Array<Copy>,
+  env: GlobalTypeEnv
+): Program<Location> {
+  const inits = copies
+    .filter((copy) => !env.globals.has(copy.name))
+    .map(({ a, name, type }) => ({ a, name, type, value: placeholder(type) }));
+  const assigns = copies.map(
+    ({ a, name, qualified }): Stmt<Location> => ({
+      a,
+      tag: "assignment",
+      destruct: {
+        isDestructured: false,
+        targets: [{ target: { a, tag: "id", name }, starred: false, ignore: false }],
+      },
+      value: { a, tag: "id", name: qualified },
+    })
+  );
+  return {
+    ...program,
+    inits: [...inits, ...program.inits],
+    stmts: [...assigns, ...program.stmts],
+  };
+}
+
+// The initial value of a copied variable, until the value of the module's variable replaces it
+function placeholder(t: Type): Literal {
+  switch (t.tag) {
+    case "number":
+      return { tag: "num", value: BigInt(0) };
+    case "bool":
+      return { tag: "bool", value: false };
+    case "float":
+      return { tag: "float", value: 0 };
+    case "string":
+      return { tag: "string", value: "" };
+    default:
+      return { tag: "none" };
+  }
+}
+
+function loadModule(
+  env: GlobalTypeEnv,
+  imp: Import<Location>,
+  config: Config,
+  importing: Array<string>,
+  loaded: Array<[string, string]>,
+  typed: Array<Program<A>>
+): GlobalTypeEnv {
+  const name = imp.module;
+  const source = config.modules(name);
+  if (source === undefined) {
+    throw new BaseException.ModuleNotFoundError([imp.a], name);
+  }
+  loaded.push([name, source]);
+  // the file ids of the loaded modules follow the one of the importing program
+  const parsed = parse(source, config, config.errorManager.sources.length + 1 + loaded.length);
+  config.logger.debug("parse", parsed);
+  const [depEnv, bindings, copies] = loadImports(
+    env,
+    parsed,
+    config,
+    [...importing, name],
+    loaded,
+    typed
+  );
+  const program = copyImports(parsed, copies, depEnv);
+  topLevelNames(program).forEach((n) => bindings.set(n, `${name}.${n}`));
+  const [tmodule, newEnv] = tc(depEnv, qualify(program, scopeOf(bindings, depEnv.modules)));
+  typed.push(tmodule);
+  return { ...newEnv, modules: new Set(newEnv.modules).add(name) };
+}
+
+// The scope without the names bound by local variables
+function without(scope: Scope, bound: Array<string>): Scope {
+  if (!bound.some((name) => scope.names.has(name) || scope.modules.has(name))) {
+    return scope;
+  }
+  const names = new Map(scope.names);
+  const modules = new Map(scope.modules);
+  bound.forEach((name) => {
+    names.delete(name);
+    modules.delete(name);
+  });
+  return { names, modules };
+}
+
+function qualifyName(name: string, scope: Scope): string {
+  return scope.names.has(name) ? scope.names.get(name) : name;
+}
+
+// Class names can also be written `module.Class`
+function qualifyClass(name: string, scope: Scope): string {
+  const dot = name.indexOf(".");
+  if (dot > 0 && scope.modules.has(name.substring(0, dot))) {
+    return scope.modules.get(name.substring(0, dot)) + name.substring(dot);
+  }
+  return qualifyName(name, scope);
+}
+
+function qualifyType(t: Type, scope: Scope): Type {
+  if (t === null || t === undefined) return t;
+  switch (t.tag) {
+    case "class":
+      return CLASS(qualifyClass(t.name, scope));
+    case "list":
+    case "set":
+    case "generator":
+      return { ...t, content_type: qualifyType(t.content_type, scope) };
+    case "dict":
+      return { ...t, key: qualifyType(t.key, scope), value: qualifyType(t.value, scope) };
+    case "tuple":
+      return { ...t, contentTypes: t.contentTypes.map((c) => qualifyType(c, scope)) };
+    case "callable":
+      return { ...t, args: qualifyParams(t.args, scope), ret: qualifyType(t.ret, scope) };
+    default:
+      return t;
+  }
+}
+
+function qualifyParams(params: Array<Parameter>, scope: Scope): Array<Parameter> {
+  return params.map((p) => ({ ...p, type: qualifyType(p.type, scope) }));
+}
+
+/** Rewrites the references of a program to imported names, see the top of this file */
+function qualify(program: Program<Location>, scope: Scope): Program<Location> {
+  const inits = program.inits.map((init) => ({
+    ...init,
+    name: qualifyName(init.name, scope),
+    type: qualifyType(init.type, scope),
+  }));
+  const funs = program.funs.map((f) => ({
+    ...qualifyFunDef(f, scope),
+    name: qualifyName(f.name, scope),
+  }));
+  const classes = program.classes.map((cls) => qualifyClassDef(cls, scope));
+  const stmts = qualifyStmts(program.stmts, scope);
+  return { ...program, imports: [], inits, funs, classes, stmts };
+}
+
+function qualifyClassDef(cls: Class<Location>, scope: Scope): Class<Location> {
+  return {
+    ...cls,
+    name: qualifyClass(cls.name, scope),
+    super: qualifyClass(cls.super, scope),
+    fields: cls.fields.map((field) => ({ ...field, type: qualifyType(field.type, scope) })),
+    methods: cls.methods.map((method) => qualifyFunDef(method, scope)),
+  };
+}
+
+// Parameters, local variables and nested functions hide the names of the enclosing scope,
+// unless they are declared `global`
+function qualifyFunDef(f: FunDef<Location>, scope: Scope): FunDef<Location> {
+  const globals = f.decls.filter((d) => d.tag === "global").map((d) => d.name);
+  const bound = [
+    ...f.parameters.map((p) => p.name),
+    ...f.inits.map((init) => init.name),
+    ...f.funs.map((nested) => nested.name),
+  ].filter((name) => !globals.includes(name));
+  const inner = without(scope, bound);
+  return {
+    ...f,
+    parameters: qualifyParams(f.parameters, scope),
+    ret: qualifyType(f.ret, scope),
+    decls: f.decls.map((d) =>
+      d.tag === "global" ? { ...d, name: qualifyName(d.name, scope) } : d
+    ),
+    inits: f.inits.map((init) => ({ ...init, type: qualifyType(init.type, scope) })),
+    funs: f.funs.map((nested) => qualifyFunDef(nested, inner)),
+    body: qualifyStmts(f.body, inner),
+  };
+}
+
+function qualifyStmts(stmts: Array<Stmt<Location>>, scope: Scope): Array<Stmt<Location>> {
+  return stmts.map((stmt) => qualifyStmt(stmt, scope));
+}
+
+function qualifyStmt(stmt: Stmt<Location>, scope: Scope): Stmt<Location> {
+  const expr = (e: Expr<Location>) => qualifyExpr(e, scope);
+  const stmts = (ss: Array<Stmt<Location>>) => qualifyStmts(ss, scope);
+  switch (stmt.tag) {
+    case "assignment":
+      return {
+        ...stmt,
+        destruct: {
+          ...stmt.destruct,
+          targets: stmt.destruct.targets.map((t) => ({
+            ...t,
+            target: qualifyAssignable(t.target),
+          })),
+        },
+        value: expr(stmt.value),
+      };
+    case "aug-assign":
+      return { ...stmt, target: qualifyAssignable(stmt.target), value: expr(stmt.value) };
+    case "return":
+    case "yield":
+    case "raise":
+      return { ...stmt, value: stmt.value === undefined ? undefined : expr(stmt.value) };
+    case "assert":
+      return {
+        ...stmt,
+        cond: expr(stmt.cond),
+        msg: stmt.msg === undefined ? undefined : expr(stmt.msg),
+      };
+    case "del":
+      return { ...stmt, targets: stmt.targets.map(expr) };
+    case "expr":
+      return { ...stmt, expr: expr(stmt.expr) };
+    case "if":
+      return { ...stmt, cond: expr(stmt.cond), thn: stmts(stmt.thn), els: stmts(stmt.els) };
+    case "while":
+      return { ...stmt, cond: expr(stmt.cond), body: stmts(stmt.body) };
+    case "field-assign":
+      return { ...stmt, obj: expr(stmt.obj), value: expr(stmt.value) };
+    case "for":
+      return {
+        ...stmt,
+        name: qualifyName(stmt.name, scope),
+        index: stmt.index === undefined ? undefined : qualifyName(stmt.index, scope),
+        iterable: expr(stmt.iterable),
+        body: stmts(stmt.body),
+      };
+    case "bracket-assign":
+      return { ...stmt, obj: expr(stmt.obj), key: expr(stmt.key), value: expr(stmt.value) };
+    case "try":
+      return {
+        ...stmt,
+        body: stmts(stmt.body),
+        handlers: stmt.handlers.map((h) => ({
+          ...h,
+          type: h.type === undefined ? undefined : qualifyClass(h.type, scope),
+          body: stmts(h.body),
+        })),
+        els: stmts(stmt.els),
+        finalbody: stmts(stmt.finalbody),
+      };
+    case "pass":
+    case "break":
+    case "continue":
+      return stmt;
+  }
+
+  function qualifyAssignable<T extends Expr<Location>>(target: T): T {
+    return qualifyExpr(target, scope) as T;
+  }
+}
+
+function qualifyExpr(e: Expr<Location>, scope: Scope): Expr<Location> {
+  const expr = (child: Expr<Location>) =>
+    child === undefined ? undefined : qualifyExpr(child, scope);
+  const exprs = (children: Array<Expr<Location>>) => children.map(expr);
+  const keywords = (kws: Array<Keyword<Location>>) =>
+    kws === undefined ? {} : { keywords: kws.map((k) => ({ ...k, value: expr(k.value) })) };
+  // `mod.x` where `mod` is an imported module
+  const moduleMember = (obj: Expr<Location>, field: string): string | undefined =>
+    obj.tag === "id" && scope.modules.has(obj.name)
+      ? `${scope.modules.get(obj.name)}.${field}`
+      : undefined;
+  switch (e.tag) {
+    case "literal":
+      return e;
+    case "id":
+      return { ...e, name: qualifyName(e.name, scope) };
+    case "lookup": {
+      const member = moduleMember(e.obj, e.field);
+      if (member !== undefined) return { a: e.a, tag: "id", name: member };
+      return { ...e, obj: expr(e.obj) };
+    }
+    case "method-call": {
+      const member = moduleMember(e.obj, e.method);
+      if (member !== undefined) {
+        return {
+          a: e.a,
+          tag: "call_expr",
+          name: { a: e.obj.a, tag: "id", name: member },
+          arguments: exprs(e.arguments),
+          ...keywords(e.keywords),
+        };
+      }
+      return { ...e, obj: expr(e.obj), arguments: exprs(e.arguments), ...keywords(e.keywords) };
+    }
+    case "binop":
+      return { ...e, left: expr(e.left), right: expr(e.right) };
+    case "uniop":
+      return { ...e, expr: expr(e.expr) };
+    case "builtin1":
+      return { ...e, arg: expr(e.arg) };
+    case "builtin2":
+      return { ...e, left: expr(e.left), right: expr(e.right) };
+    case "call":
+      return { ...e, arguments: exprs(e.arguments) };
+    case "construct":
+      return { ...e, name: qualifyClass(e.name, scope), arguments: exprs(e.arguments) };
+    case "lambda":
+      return { ...e, ret: qualifyExpr(e.ret, without(scope, e.args)) };
+    case "comprehension": {
+      // each clause binds its name for the clauses after it and for the element
+      let inner = scope;
+      const clauses = e.clauses.map(
+        (clause): ComprehensionClause<Location> => {
+          const iter = qualifyExpr(clause.iter, inner);
+          inner = without(inner, [clause.name]);
+          const conds = clause.conds.map((cond) => qualifyExpr(cond, inner));
+          return { ...clause, iter, conds };
+        }
+      );
+      return {
+        ...e,
+        expr: qualifyExpr(e.expr, inner),
+        value: e.value === undefined ? undefined : qualifyExpr(e.value, inner),
+        clauses,
+      };
+    }
+    case "block":
+      return { ...e, block: qualifyStmts(e.block, scope), expr: expr(e.expr) };
+    case "call_expr":
+      return {
+        ...e,
+        name: expr(e.name),
+        arguments: exprs(e.arguments),
+        ...keywords(e.keywords),
+      };
+    case "list-expr":
+    case "set-expr":
+    case "tuple-expr":
+      return { ...e, contents: exprs(e.contents) };
+    case "slicing":
+      return {
+        ...e,
+        name: expr(e.name),
+        start: expr(e.start),
+        end: expr(e.end),
+        stride: expr(e.stride),
+      };
+    case "dict":
+      return {
+        ...e,
+        entries: e.entries.map(([k, v]): [Expr<Location>, Expr<Location>] => [expr(k), expr(v)]),
+      };
+    case "ternary":
+      return { ...e, cond: expr(e.cond), thn: expr(e.thn), els: expr(e.els) };
+    case "compare-chain":
+      return { ...e, operands: exprs(e.operands) };
+    case "bracket-lookup":
+      return { ...e, obj: expr(e.obj), key: expr(e.key) };
+  }
+}
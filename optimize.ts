@@ -0,0 +1,389 @@
+/** Optimization passes over the typed AST, run between the type checker and escape analysis */
+import {
+  AssignTarget,
+  BinOp,
+  Expr,
+  FunDef,
+  Literal,
+  Location,
+  Program,
+  Stmt,
+  Type,
+  UniOp,
+} from "./ast";
+import { BOOL, NUM } from "./utils";
+import { Logger } from "./logger";
+
+type A = [Type, Location];
+
+/**
+ * Rewrites parts of a program. Children are rewritten before their parent, so `expr` sees
+ * expressions whose operands were already rewritten and `stmts` sees rewritten statements.
+ */
+export type Rewriter = {
+  expr?: (expr: Expr<A>) => Expr<A>;
+  stmts?: (stmts: Array<Stmt<A>>) => Array<Stmt<A>>;
+};
+
+export type Pass = { name: string; rewriter: Rewriter };
+
+/** Enables or disables passes by name; passes missing from it are enabled */
+export type PassToggles = { [name: string]: boolean };
+
+export function rewriteProgram(program: Program<A>, rewriter: Rewriter): Program<A> {
+  return {
+    ...program,
+    funs: program.funs.map((f) => rewriteFunDef(f, rewriter)),
+    classes: program.classes.map((c) => ({
+      ...c,
+      methods: c.methods.map((m) => rewriteFunDef(m, rewriter)),
+    })),
+    stmts: rewriteStmts(program.stmts, rewriter),
+    closures: program.closures.map((c) => ({ ...c, body: rewriteStmts(c.body, rewriter) })),
+  };
+}
+
+function rewriteFunDef(f: FunDef<A>, rewriter: Rewriter): FunDef<A> {
+  return {
+    ...f,
+    funs: f.funs.map((nested) => rewriteFunDef(nested, rewriter)),
+    body: rewriteStmts(f.body, rewriter),
+  };
+}
+
+export function rewriteStmts(stmts: Array<Stmt<A>>, rewriter: Rewriter): Array<Stmt<A>> {
+  const rewritten = stmts.map((s) => rewriteStmt(s, rewriter));
+  return rewriter.stmts ? rewriter.stmts(rewritten) : rewritten;
+}
+
+function rewriteStmt(stmt: Stmt<A>, rewriter: Rewriter): Stmt<A> {
+  const expr = (e: Expr<A>) => (e === undefined ? e : rewriteExpr(e, rewriter));
+  const stmts = (ss: Array<Stmt<A>>) => rewriteStmts(ss, rewriter);
+  switch (stmt.tag) {
+    case "assignment":
+      const targets = stmt.destruct.targets.map(
+        (t): AssignTarget<A> => ({ ...t, target: expr(t.target) as AssignTarget<A>["target"] })
+      );
+      return {
+        ...stmt,
+        destruct: { ...stmt.destruct, targets },
+        value: expr(stmt.value),
+      };
+    case "aug-assign":
+      return {
+        ...stmt,
+        target: expr(stmt.target) as AssignTarget<A>["target"],
+        value: expr(stmt.value),
+      };
+    case "return":
+    case "yield":
+      return { ...stmt, value: expr(stmt.value) };
+    case "expr":
+      return { ...stmt, expr: expr(stmt.expr) };
+    case "if":
+      return { ...stmt, cond: expr(stmt.cond), thn: stmts(stmt.thn), els: stmts(stmt.els) };
+    case "while":
+      return { ...stmt, cond: expr(stmt.cond), body: stmts(stmt.body) };
+    case "field-assign":
+      return { ...stmt, obj: expr(stmt.obj), value: expr(stmt.value) };
+    case "for":
+      return { ...stmt, iterable: expr(stmt.iterable), body: stmts(stmt.body) };
+    case "bracket-assign":
+      return { ...stmt, obj: expr(stmt.obj), key: expr(stmt.key), value: expr(stmt.value) };
+    case "try":
+      return {
+        ...stmt,
+        body: stmts(stmt.body),
+        handlers: stmt.handlers.map((h) => ({ ...h, body: stmts(h.body) })),
+        els: stmts(stmt.els),
+        finalbody: stmts(stmt.finalbody),
+      };
+    case "raise":
+      return { ...stmt, value: expr(stmt.value) };
+    case "assert":
+      return { ...stmt, cond: expr(stmt.cond), msg: expr(stmt.msg) };
+    case "del":
+      return { ...stmt, targets: stmt.targets.map(expr) };
+    case "pass":
+    case "break":
+    case "continue":
+      return stmt;
+  }
+}
+
+function rewriteExpr(e: Expr<A>, rewriter: Rewriter): Expr<A> {
+  const expr = (child: Expr<A>) => (child === undefined ? child : rewriteExpr(child, rewriter));
+  const exprs = (children: Array<Expr<A>>) => children.map(expr);
+  let result: Expr<A>;
+  switch (e.tag) {
+    case "literal":
+    case "id":
+      result = e;
+      break;
+    case "binop":
+      result = { ...e, left: expr(e.left), right: expr(e.right) };
+      break;
+    case "uniop":
+      result = { ...e, expr: expr(e.expr) };
+      break;
+    case "builtin1":
+      result = { ...e, arg: expr(e.arg) };
+      break;
+    case "builtin2":
+      result = { ...e, left: expr(e.left), right: expr(e.right) };
+      break;
+    case "call":
+    case "construct":
+      result = { ...e, arguments: exprs(e.arguments) };
+      break;
+    case "lookup":
+      result = { ...e, obj: expr(e.obj) };
+      break;
+    case "method-call":
+      result = { ...e, obj: expr(e.obj), arguments: exprs(e.arguments) };
+      break;
+    case "lambda":
+      result = { ...e, ret: expr(e.ret) };
+      break;
+    case "comprehension":
+      result = {
+        ...e,
+        expr: expr(e.expr),
+        value: expr(e.value),
+        clauses: e.clauses.map((c) => ({ ...c, iter: expr(c.iter), conds: exprs(c.conds) })),
+      };
+      break;
+    case "block":
+      result = { ...e, block: rewriteStmts(e.block, rewriter), expr: expr(e.expr) };
+      break;
+    case "call_expr":
+      result = { ...e, name: expr(e.name), arguments: exprs(e.arguments) };
+      break;
+    case "list-expr":
+    case "set-expr":
+    case "tuple-expr":
+      result = { ...e, contents: exprs(e.contents) };
+      break;
+    case "slicing":
+      result = {
+        ...e,
+        name: expr(e.name),
+        start: expr(e.start),
+        end: expr(e.end),
+        stride: expr(e.stride),
+      };
+      break;
+    case "dict":
+      result = { ...e, entries: e.entries.map(([k, v]): [Expr<A>, Expr<A>] => [expr(k), expr(v)]) };
+      break;
+    case "ternary":
+      result = { ...e, cond: expr(e.cond), thn: expr(e.thn), els: expr(e.els) };
+      break;
+    case "compare-chain":
+      result = { ...e, operands: exprs(e.operands) };
+      break;
+    case "bracket-lookup":
+      result = { ...e, obj: expr(e.obj), key: expr(e.key) };
+      break;
+  }
+  return rewriter.expr ? rewriter.expr(result) : result;
+}
+
+// Python rounds integer division towards negative infinity, bigint division towards zero
+function floorDiv(x: bigint, y: bigint): bigint {
+  const q = x / y;
+  return x % y !== 0n && x < 0n !== y < 0n ? q - 1n : q;
+}
+
+// The remainder takes the sign of the divisor
+function floorMod(x: bigint, y: bigint): bigint {
+  const r = x % y;
+  return r !== 0n && r < 0n !== y < 0n ? r + y : r;
+}
+
+function foldBinOp(op: BinOp, left: Literal, right: Literal): Literal | undefined {
+  if (left.tag === "num" && right.tag === "num") {
+    const [x, y] = [left.value, right.value];
+    switch (op) {
+      case BinOp.Plus:
+        return { tag: "num", value: x + y };
+      case BinOp.Minus:
+        return { tag: "num", value: x - y };
+      case BinOp.Mul:
+        return { tag: "num", value: x * y };
+      // division by zero is left to raise at runtime
+      case BinOp.IDiv:
+        return y === 0n ? undefined : { tag: "num", value: floorDiv(x, y) };
+      case BinOp.Mod:
+        return y === 0n ? undefined : { tag: "num", value: floorMod(x, y) };
+      case BinOp.Eq:
+        return { tag: "bool", value: x === y };
+      case BinOp.Neq:
+        return { tag: "bool", value: x !== y };
+      case BinOp.Lte:
+        return { tag: "bool", value: x <= y };
+      case BinOp.Gte:
+        return { tag: "bool", value: x >= y };
+      case BinOp.Lt:
+        return { tag: "bool", value: x < y };
+      case BinOp.Gt:
+        return { tag: "bool", value: x > y };
+      case BinOp.BitAnd:
+        return { tag: "num", value: x & y };
+      case BinOp.BitOr:
+        return { tag: "num", value: x | y };
+      case BinOp.BitXor:
+        return { tag: "num", value: x ^ y };
+      // negative shift counts and exponents are left to raise at runtime, and large results
+      // to be computed there
+      case BinOp.LShift:
+        return y < 0n || y > 64n ? undefined : { tag: "num", value: x << y };
+      case BinOp.RShift:
+        return y < 0n ? undefined : { tag: "num", value: x >> y };
+      case BinOp.Pow:
+        return y < 0n || y > 64n ? undefined : { tag: "num", value: x ** y };
+    }
+  }
+  if (left.tag === "bool" && right.tag === "bool") {
+    const [x, y] = [left.value, right.value];
+    switch (op) {
+      case BinOp.Eq:
+        return { tag: "bool", value: x === y };
+      case BinOp.Neq:
+        return { tag: "bool", value: x !== y };
+      case BinOp.And:
+        return { tag: "bool", value: x && y };
+      case BinOp.Or:
+        return { tag: "bool", value: x || y };
+      case BinOp.BitAnd:
+        return { tag: "bool", value: x && y };
+      case BinOp.BitOr:
+        return { tag: "bool", value: x || y };
+      case BinOp.BitXor:
+        return { tag: "bool", value: x !== y };
+    }
+  }
+  return undefined;
+}
+
+function foldUniOp(op: UniOp, operand: Literal): Literal | undefined {
+  if (op === UniOp.Neg && operand.tag === "num") {
+    return { tag: "num", value: -operand.value };
+  }
+  if (op === UniOp.Invert && operand.tag === "num") {
+    return { tag: "num", value: ~operand.value };
+  }
+  if (op === UniOp.Not && operand.tag === "bool") {
+    return { tag: "bool", value: !operand.value };
+  }
+  return undefined;
+}
+
+function literalType(literal: Literal): Type {
+  return literal.tag === "num" ? NUM : BOOL;
+}
+
+/** Replaces arithmetic, comparisons and logic on literals with their result */
+export const foldConstants: Pass = {
+  name: "fold-constants",
+  rewriter: {
+    expr: (e) => {
+      let folded: Literal | undefined;
+      if (e.tag === "binop" && e.left.tag === "literal" && e.right.tag === "literal") {
+        folded = foldBinOp(e.op, e.left.value, e.right.value);
+      } else if (e.tag === "uniop" && e.expr.tag === "literal") {
+        folded = foldUniOp(e.op, e.expr.value);
+      }
+      if (folded === undefined) return e;
+      return { a: [literalType(folded), e.a[1]], tag: "literal", value: folded };
+    },
+  },
+};
+
+/**
+ * `break` and `continue` count the enclosing `if` statements to find their loop, so the
+ * statements of an `if` that is replaced by one of its branches must count one less, and
+ * statements that the compiler wraps in more wasm blocks must count more.
+ * Loops inside the statements restart the count and are left alone.
+ */
+export function shiftLoopDepth(stmts: Array<Stmt<A>>, delta: number): Array<Stmt<A>> {
+  return stmts.map((stmt) => {
+    switch (stmt.tag) {
+      case "break":
+      case "continue":
+        return { ...stmt, depth: stmt.depth + delta };
+      case "if":
+        return {
+          ...stmt,
+          thn: shiftLoopDepth(stmt.thn, delta),
+          els: shiftLoopDepth(stmt.els, delta),
+        };
+      case "try":
+        return {
+          ...stmt,
+          body: shiftLoopDepth(stmt.body, delta),
+          handlers: stmt.handlers.map((h) => ({ ...h, body: shiftLoopDepth(h.body, delta) })),
+          els: shiftLoopDepth(stmt.els, delta),
+          finalbody: shiftLoopDepth(stmt.finalbody, delta),
+          loopDepth: stmt.loopDepth === undefined ? undefined : stmt.loopDepth + delta,
+        };
+      default:
+        return stmt;
+    }
+  });
+}
+
+function isBoolLiteral(e: Expr<A>, value: boolean): boolean {
+  return e.tag === "literal" && e.value.tag === "bool" && e.value.value === value;
+}
+
+/** Keeps only the branch taken by an `if` with a constant condition, and drops `while False` */
+export const removeDeadBranches: Pass = {
+  name: "dead-branches",
+  rewriter: {
+    stmts: (stmts) =>
+      [].concat(
+        ...stmts.map(
+          (stmt): Array<Stmt<A>> => {
+            if (stmt.tag === "if" && stmt.cond.tag === "literal") {
+              const branch = isBoolLiteral(stmt.cond, true) ? stmt.thn : stmt.els;
+              // an emptied block still needs a statement
+              return branch.length > 0 ? shiftLoopDepth(branch, -1) : [{ a: stmt.a, tag: "pass" }];
+            }
+            if (stmt.tag === "while" && isBoolLiteral(stmt.cond, false)) {
+              return [];
+            }
+            return [stmt];
+          }
+        )
+      ),
+  },
+};
+
+/** Drops the statements that follow a `return`, `break`, `continue` or `raise` in a block */
+export const removeUnreachableCode: Pass = {
+  name: "unreachable-code",
+  rewriter: {
+    stmts: (stmts) => {
+      const end = stmts.findIndex((s) => ["return", "break", "continue", "raise"].includes(s.tag));
+      return end < 0 ? stmts : stmts.slice(0, end + 1);
+    },
+  },
+};
+
+/** The passes run by default, in order */
+export const PASSES: Array<Pass> = [foldConstants, removeDeadBranches, removeUnreachableCode];
+
+export function optimize(
+  program: Program<A>,
+  toggles: PassToggles,
+  logger: Logger,
+  passes: Array<Pass> = PASSES
+): Program<A> {
+  return passes.reduce((p, pass) => {
+    if (toggles[pass.name] === false) return p;
+    const optimized = rewriteProgram(p, pass.rewriter);
+    logger.debug("opt", pass.name, optimized);
+    return optimized;
+  }, program);
+}
@@ -1,5 +1,5 @@
 import { parser } from "lezer-python";
-import { TreeCursor } from "lezer-tree";
+import { SyntaxNode, Tree, TreeCursor } from "lezer-tree";
 import {
   Program,
   Expr,
@@ -17,8 +17,27 @@ import {
   Destructure,
   ASSIGNABLE_TAGS,
   Location,
+  ExceptHandler,
+  ComprehensionClause,
+  Keyword,
+  NUMERIC_BUILTINS,
+  SHADOWABLE_BUILTINS,
+  COMPARISON_OPS,
+  Import,
 } from "./ast";
-import { NUM, BOOL, NONE, CLASS, isTagged, STRING, LIST, TUPLE } from "./utils";
+import {
+  NUM,
+  FLOAT,
+  BOOL,
+  NONE,
+  CLASS,
+  isTagged,
+  STRING,
+  LIST,
+  TUPLE,
+  SET,
+  GENERATOR,
+} from "./utils";
 
 import * as BaseException from "./error";
 import { Config } from "./runner";
@@ -26,6 +45,58 @@ import { get } from "http";
 
 var id: number;
 
+// The operators of augmented assignments, `x += 1`
+const AUG_ASSIGN_OPS = new Map<string, BinOp>([
+  ["+=", BinOp.Plus],
+  ["-=", BinOp.Minus],
+  ["*=", BinOp.Mul],
+  ["/=", BinOp.Div],
+  ["//=", BinOp.IDiv],
+  ["%=", BinOp.Mod],
+  ["&=", BinOp.BitAnd],
+  ["|=", BinOp.BitOr],
+  ["^=", BinOp.BitXor],
+  ["<<=", BinOp.LShift],
+  [">>=", BinOp.RShift],
+  ["**=", BinOp.Pow],
+]);
+
+// lezer-python cannot parse a type annotation on `*args` or `**kwargs`, and it loses the parameters
+// after one. The parser is given the source with the stars of the starred parameters of functions
+// blanked out, found on the parse tree one pass at a time since each pass can only see those
+// before the first broken one. They are remembered by the position of the name
+var starredParams: Map<number, "args" | "kwargs"> = new Map();
+
+function parseStarredParams(source: string): Tree {
+  starredParams = new Map();
+  const chars = source.split("");
+  let t = parser.parse(source);
+  for (;;) {
+    const c = t.cursor();
+    const stars: Array<SyntaxNode> = [];
+    while (c.next()) {
+      const name = c.node.nextSibling;
+      if (
+        (c.type.name === "*" || c.type.name === "**") &&
+        c.node.parent.type.name === "ParamList" &&
+        c.node.parent.parent.type.name === "FunctionDefinition" &&
+        name !== null &&
+        name.type.name === "VariableName"
+      ) {
+        stars.push(c.node);
+      }
+    }
+    if (stars.length === 0) {
+      return t;
+    }
+    stars.forEach((star) => {
+      for (let i = star.from; i < star.to; i++) chars[i] = " ";
+      starredParams.set(star.nextSibling.from, star.type.name === "*" ? "args" : "kwargs");
+    });
+    t = parser.parse(chars.join(""));
+  }
+}
+
 export function getSourcePos(c: TreeCursor, s: string): Location {
   const substring = s.substring(0, c.node.from);
   const line = substring.split("\n").length;
@@ -46,9 +117,14 @@ export function traverseLiteral(c: TreeCursor, s: string): Literal {
   var location: Location = getSourcePos(c, s);
   switch (c.type.name) {
     case "Number":
+      const digits = s.substring(c.from, c.to).replace(/_/g, "");
+      // hexadecimal, octal and binary numbers are always ints
+      if (!/^0[xob]/i.test(digits) && /[.e]/i.test(digits)) {
+        return { tag: "float", value: Number(digits) };
+      }
       return {
         tag: "num",
-        value: BigInt(s.substring(c.from, c.to)),
+        value: BigInt(digits),
       };
     case "String":
       const str = s.substring(c.from, c.to);
@@ -93,15 +169,23 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
       c.firstChild();
       const callExpr = traverseExpr(c, s);
       c.nextSibling(); // go to arglist
-      let args = traverseArguments(c, s);
+      const { args, keywords } = traverseArguments(c, s);
+      // calls without keyword arguments leave them out
+      const withKeywords = keywords.length > 0 ? { keywords } : {};
       c.parent(); // pop CallExpression
 
-      if (callExpr.tag === "call_expr" || callExpr.tag === "method-call") {
+      if (
+        callExpr.tag === "call_expr" ||
+        callExpr.tag === "method-call" ||
+        callExpr.tag === "lambda" ||
+        callExpr.tag === "bracket-lookup"
+      ) {
         return {
           a: location,
           tag: "call_expr",
           name: callExpr,
           arguments: args,
+          ...withKeywords,
         };
       } else if (callExpr.tag === "lookup") {
         return {
@@ -110,11 +194,41 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
           obj: callExpr.obj,
           method: callExpr.field,
           arguments: args,
+          ...withKeywords,
         };
       } else if (callExpr.tag === "id") {
         const callName = callExpr.name;
         var expr: Expr<Location>;
-        if (callName === "print" || callName === "abs") {
+        const builtins = [
+          "print",
+          "abs",
+          "next",
+          "str",
+          "repr",
+          ...NUMERIC_BUILTINS,
+          "max",
+          "min",
+          "pow",
+          "range",
+          "len",
+          "dict",
+          "set",
+        ];
+        const isBuiltin = builtins.includes(callName) && !SHADOWABLE_BUILTINS.includes(callName);
+        if (keywords.length > 0 && isBuiltin) {
+          throw new BaseException.CompileError(
+            [keywords[0].a],
+            `${callName}() takes no keyword arguments`
+          );
+        }
+        if (
+          callName === "print" ||
+          callName === "abs" ||
+          callName === "next" ||
+          callName === "str" ||
+          callName === "repr" ||
+          (isBuiltin && NUMERIC_BUILTINS.includes(callName))
+        ) {
           expr = {
             a: location,
             tag: "builtin1",
@@ -136,7 +250,7 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
             name: callName,
             arguments: args,
           };
-        } else if (callName === "dict") {
+        } else if (callName === "dict" || callName === "set") {
           expr = {
             a: location,
             tag: "call",
@@ -149,6 +263,7 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
             tag: "call_expr",
             name: { a: location, tag: "id", name: callName },
             arguments: args,
+            ...withKeywords,
           };
           // expr = { tag: "call", name: callName, arguments: args };
         }
@@ -163,6 +278,8 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
 
     case "BinaryExpression":
       c.firstChild(); // go to lhs
+      // `a < b < c` parses as `(a < b) < c` without the parentheses
+      const lhsIsBinary = c.type.name === "BinaryExpression";
       const lhsExpr = traverseExpr(c, s);
       c.nextSibling(); // go to op
       var opStr = s.substring(c.from, c.to);
@@ -180,6 +297,9 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
         case "//":
           op = BinOp.IDiv;
           break;
+        case "/":
+          op = BinOp.Div;
+          break;
         case "%":
           op = BinOp.Mod;
           break;
@@ -210,6 +330,31 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
         case "or":
           op = BinOp.Or;
           break;
+        case "in":
+          op = BinOp.In;
+          break;
+        case "not":
+          c.nextSibling(); // `not in` is split into two tokens
+          op = BinOp.NotIn;
+          break;
+        case "&":
+          op = BinOp.BitAnd;
+          break;
+        case "|":
+          op = BinOp.BitOr;
+          break;
+        case "^":
+          op = BinOp.BitXor;
+          break;
+        case "<<":
+          op = BinOp.LShift;
+          break;
+        case ">>":
+          op = BinOp.RShift;
+          break;
+        case "**":
+          op = BinOp.Pow;
+          break;
         default:
           throw new BaseException.CompileError(
             [location],
@@ -220,6 +365,23 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
       c.nextSibling(); // go to rhs
       const rhsExpr = traverseExpr(c, s);
       c.parent();
+      if (lhsIsBinary && COMPARISON_OPS.includes(op)) {
+        if (lhsExpr.tag === "compare-chain") {
+          return {
+            a: location,
+            tag: "compare-chain",
+            operands: [...lhsExpr.operands, rhsExpr],
+            ops: [...lhsExpr.ops, op],
+          };
+        } else if (lhsExpr.tag === "binop" && COMPARISON_OPS.includes(lhsExpr.op)) {
+          return {
+            a: location,
+            tag: "compare-chain",
+            operands: [lhsExpr.left, lhsExpr.right, rhsExpr],
+            ops: [lhsExpr.op, op],
+          };
+        }
+      }
       return {
         a: location,
         tag: "binop",
@@ -228,6 +390,18 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
         right: rhsExpr,
       };
 
+    case "ConditionalExpression":
+      c.firstChild(); // go to the value when true
+      const thnExpr = traverseExpr(c, s);
+      c.nextSibling(); // go to if
+      c.nextSibling(); // go to the condition
+      const condExpr = traverseExpr(c, s);
+      c.nextSibling(); // go to else
+      c.nextSibling(); // go to the value when false
+      const elsExpr = traverseExpr(c, s);
+      c.parent();
+      return { a: location, tag: "ternary", cond: condExpr, thn: thnExpr, els: elsExpr };
+
     case "ParenthesizedExpression":
       c.firstChild(); // Focus on (
       c.nextSibling(); // Focus on inside
@@ -245,6 +419,9 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
         case "not":
           op = UniOp.Not;
           break;
+        case "~":
+          op = UniOp.Invert;
+          break;
         default:
           throw new BaseException.CompileError(
             [location],
@@ -296,10 +473,11 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
           tag: "literal",
           value: { tag: "num", value: BigInt(0) },
         };
+        // an omitted end is None, since -1 stands for the last element
         var end_index: Expr<Location> = {
           a: location,
           tag: "literal",
-          value: { tag: "num", value: BigInt(-1) },
+          value: { tag: "none" },
         };
         var stride_value: Expr<Location> = {
           a: location,
@@ -331,10 +509,8 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
           );
         if (sliced_list[0] != "") {
           start_index = traverseExpr(c, s);
-          console.log("First case " + s.substring(c.from, c.to));
           if (sliced_list.length == 1) {
             //end_index = start_index;
-            console.log("Bracket lookup");
             c.parent();
             return { a: location, tag: "bracket-lookup", obj: objExpr, key: start_index };
           }
@@ -343,16 +519,13 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
         if (c.nextSibling())
           if (sliced_list[1] != "") {
             end_index = traverseExpr(c, s);
-            console.log("Second case " + s.substring(c.from, c.to));
             c.nextSibling();
           }
         if (c.nextSibling())
           if (sliced_list[2] != "") {
             stride_value = traverseExpr(c, s);
-            console.log("Third case " + s.substring(c.from, c.to));
             c.nextSibling();
           }
-        console.log("Final case " + s.substring(c.from, c.to));
         c.parent();
         return {
           a: location,
@@ -395,6 +568,10 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
         tag: "list-expr",
         contents: listExpr,
       };
+    case "ArrayComprehensionExpression":
+    case "SetComprehensionExpression":
+    case "DictionaryComprehensionExpression":
+      return traverseComprehension(c, s);
     case "TupleExpression":
       let tupleExpr: Expr<Location>[] = [];
       c.firstChild(); // Open parenthesis "("
@@ -432,6 +609,21 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
         tag: "dict",
         entries: keyValuePairs,
       };
+    case "SetExpression":
+      let setExpr: Array<Expr<Location>> = [];
+      c.firstChild(); // Focus on "{"
+      c.nextSibling();
+      while (s.substring(c.from, c.to) !== "}") {
+        setExpr.push(traverseExpr(c, s));
+        c.nextSibling(); // comma ","
+        c.nextSibling(); // next expression or closing brace "}"
+      }
+      c.parent(); // Pop to SetExpression
+      return {
+        a: location,
+        tag: "set-expr",
+        contents: setExpr,
+      };
     case "LambdaExpression":
       c.firstChild(); // go to lambda
       c.nextSibling(); // go to ParamList
@@ -457,6 +649,13 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
       } else {
         throw new BaseException.CompileError([location], "Invalid Lambda Expression");
       }
+    case "YieldExpression":
+      // generators are only resumed by `next` and `for`, so nothing is ever sent to a `yield`
+      throw new BaseException.CompileError(
+        [location],
+        "yield is only supported as a statement",
+        "ParsingError"
+      );
 
     default:
       throw new BaseException.CompileError(
@@ -467,18 +666,89 @@ export function traverseExpr(c: TreeCursor, s: string): Expr<Location> {
   }
 }
 
-export function traverseArguments(c: TreeCursor, s: string): Array<Expr<Location>> {
+// `[expr for x in xs if cond ...]`, `{expr for ...}` and `{key: value for ...}`
+function traverseComprehension(c: TreeCursor, s: string): Expr<Location> {
+  const location = getSourcePos(c, s);
+  const kind =
+    c.type.name === "ArrayComprehensionExpression"
+      ? "list"
+      : c.type.name === "SetComprehensionExpression"
+      ? "set"
+      : "dict";
+  c.firstChild(); // Focuses on "[" or "{"
+  c.nextSibling();
+  const expr = traverseExpr(c, s);
+  let value: Expr<Location> = undefined;
+  c.nextSibling();
+  if (kind === "dict") {
+    c.nextSibling(); // Skips ":"
+    value = traverseExpr(c, s);
+    c.nextSibling();
+  }
+  const clauses: Array<ComprehensionClause<Location>> = [];
+  while (c.type.name === "for") {
+    clauses.push(traverseComprehensionClause(c, s));
+  }
+  c.parent();
+  return { a: location, tag: "comprehension", kind, expr, value, clauses };
+}
+
+// `for <name> in <iter> if <cond> ...`, leaving the cursor after the clause
+function traverseComprehensionClause(c: TreeCursor, s: string): ComprehensionClause<Location> {
+  const location = getSourcePos(c, s);
+  c.nextSibling();
+  if (c.name !== "VariableName") {
+    throw new BaseException.CompileError(
+      [getSourcePos(c, s)],
+      "comprehensions can only bind a single variable",
+      "ParsingError"
+    );
+  }
+  const name = s.substring(c.from, c.to);
+  c.nextSibling(); // Focuses on "in"
+  c.nextSibling();
+  const iter = traverseExpr(c, s);
+  const conds: Array<Expr<Location>> = [];
+  c.nextSibling();
+  while (c.type.name === "if") {
+    c.nextSibling();
+    conds.push(traverseExpr(c, s));
+    c.nextSibling();
+  }
+  return { a: location, name, iter, conds };
+}
+
+export function traverseArguments(
+  c: TreeCursor,
+  s: string
+): { args: Array<Expr<Location>>; keywords: Array<Keyword<Location>> } {
   c.firstChild(); // Focuses on open paren
   const args = [];
+  const keywords: Array<Keyword<Location>> = [];
   c.nextSibling();
   while (c.type.name !== ")") {
-    let expr = traverseExpr(c, s);
-    args.push(expr);
+    const location = getSourcePos(c, s);
+    const name = s.substring(c.from, c.to);
+    const isName = c.type.name === "VariableName";
+    if (isName && c.nextSibling() && c.type.name === "AssignOp") {
+      c.nextSibling(); // Focuses on the value of a keyword argument
+      keywords.push({ a: location, name, value: traverseExpr(c, s) });
+    } else {
+      if (isName) c.prevSibling(); // Back to the name itself
+      if (keywords.length > 0) {
+        throw new BaseException.CompileError(
+          [location],
+          "positional argument follows keyword argument",
+          "ParsingError"
+        );
+      }
+      args.push(traverseExpr(c, s));
+    }
     c.nextSibling(); // Focuses on either "," or ")"
     c.nextSibling(); // Focuses on a VariableName
   }
   c.parent(); // Pop to ArgList
-  return args;
+  return { args, keywords };
 }
 
 // Traverse the next target of an assignment and return it
@@ -626,6 +896,28 @@ export function traverseStmt(c: TreeCursor, s: string): Stmt<Location> {
         destruct,
         value,
       };
+    case "UpdateStatement":
+      c.firstChild(); // go to target
+      const augTarget = traverseAssignment(c, s);
+      c.nextSibling(); // go to op
+      const augOp = s.substring(c.from, c.to);
+      c.nextSibling(); // go to value
+      const augValue = traverseExpr(c, s);
+      c.parent();
+      if (augTarget.starred || augTarget.ignore || !AUG_ASSIGN_OPS.has(augOp)) {
+        throw new BaseException.CompileError(
+          [location],
+          `Could not parse augmented assignment ${s.substring(c.from, c.to)}`,
+          "ParsingError"
+        );
+      }
+      return {
+        a: location,
+        tag: "aug-assign",
+        target: augTarget.target,
+        op: AUG_ASSIGN_OPS.get(augOp),
+        value: augValue,
+      };
     case "ExpressionStatement":
       c.firstChild();
       const expr = traverseExpr(c, s);
@@ -747,6 +1039,102 @@ export function traverseStmt(c: TreeCursor, s: string): Stmt<Location> {
         return { tag: "for", name: name, index: index, iterable: iter, body: body, a: location };
       }
       return { tag: "for", name: name, iterable: iter, body: body, a: location };
+    case "RaiseStatement":
+      c.firstChild(); // Focus on raise
+      var raised: Expr<Location> = undefined;
+      if (c.nextSibling()) {
+        // Focus on the raised expression
+        raised = traverseExpr(c, s);
+      }
+      c.parent();
+      return { tag: "raise", value: raised, a: location };
+    case "AssertStatement":
+      c.firstChild(); // Focus on assert
+      c.nextSibling(); // Focus on the condition
+      const asserted = traverseExpr(c, s);
+      var assertMsg: Expr<Location> = undefined;
+      if (c.nextSibling()) {
+        c.nextSibling(); // Focus on the message after ","
+        assertMsg = traverseExpr(c, s);
+      }
+      c.parent();
+      return { tag: "assert", cond: asserted, msg: assertMsg, a: location };
+    case "DeleteStatement":
+      c.firstChild(); // Focus on del
+      const deleted: Array<Expr<Location>> = [];
+      while (c.nextSibling()) {
+        if (s.substring(c.from, c.to) === ",") continue;
+        deleted.push(traverseExpr(c, s));
+      }
+      c.parent();
+      return { tag: "del", targets: deleted, a: location };
+    case "YieldStatement":
+      c.firstChild(); // Focus on yield
+      var yielded: Expr<Location> = { a: location, tag: "literal", value: { tag: "none" } };
+      // a bare `yield` leaves an error node where the value would be
+      if (c.nextSibling() && c.type.name !== "⚠") {
+        yielded = traverseExpr(c, s);
+      }
+      c.parent();
+      return { tag: "yield", value: yielded, a: location };
+    case "TryStatement":
+      c.firstChild(); // Focus on try
+      c.nextSibling(); // Focus on body
+      var tryBody = [];
+      c.firstChild(); // Focus on :
+      while (c.nextSibling()) {
+        tryBody.push(traverseStmt(c, s));
+      }
+      c.parent();
+      var handlers: Array<ExceptHandler<Location>> = [];
+      var tryEls: Array<Stmt<Location>> = [];
+      var finalbody: Array<Stmt<Location>> = [];
+      while (c.nextSibling()) {
+        // lezer reports the dedent before a clause of an indented try statement as an error
+        if (c.type.isError) continue;
+        // Focus on except / else / finally
+        const clause = c.name;
+        const handler: ExceptHandler<Location> = { a: getSourcePos(c, s), body: [] };
+        c.nextSibling();
+        if (clause === "except" && c.name === "VariableName") {
+          handler.type = s.substring(c.from, c.to);
+          c.nextSibling(); // Focus on as / body
+          if ((c.name as string) === "as") {
+            c.nextSibling(); // Focus on name
+            handler.name = s.substring(c.from, c.to);
+            c.nextSibling(); // Focus on body
+          }
+        }
+        if (c.name !== "Body") {
+          throw new BaseException.CompileError(
+            [location],
+            "except clauses only support a class name",
+            "ParsingError"
+          );
+        }
+        var clauseBody = [];
+        c.firstChild(); // Focus on :
+        while (c.nextSibling()) {
+          clauseBody.push(traverseStmt(c, s));
+        }
+        c.parent();
+        if (clause === "except") {
+          handlers.push({ ...handler, body: clauseBody });
+        } else if (clause === "else") {
+          tryEls = clauseBody;
+        } else {
+          finalbody = clauseBody;
+        }
+      }
+      c.parent();
+      return {
+        tag: "try",
+        body: tryBody,
+        handlers,
+        els: tryEls,
+        finalbody,
+        a: location,
+      };
     default:
       throw new BaseException.CompileError(
         [location],
@@ -785,6 +1173,24 @@ export function traverseBracketType(c: TreeCursor, s: string): Type {
   }
 }
 
+export function traverseSetType(c: TreeCursor, s: string): Type {
+  c.firstChild(); // Focus on set
+  c.nextSibling(); // [
+  c.nextSibling(); // Focus on element type
+  const contentType = traverseType(c, s);
+  c.parent();
+  return SET(contentType);
+}
+
+export function traverseGeneratorType(c: TreeCursor, s: string): Type {
+  c.firstChild(); // Focus on Generator
+  c.nextSibling(); // [
+  c.nextSibling(); // Focus on the type of the yielded values
+  const contentType = traverseType(c, s);
+  c.parent();
+  return GENERATOR(contentType);
+}
+
 export function traverseType(c: TreeCursor, s: string): Type {
   let name = s.substring(c.from, c.to);
   if (c.node.type.name === "ArrayExpression") return traverseBracketType(c, s);
@@ -817,12 +1223,18 @@ export function traverseType(c: TreeCursor, s: string): Type {
           return STRING;
         case "bool":
           return BOOL;
+        case "float":
+          return FLOAT;
         default:
           return CLASS(name);
       }
     case "ArrayExpression":
       return traverseBracketType(c, s);
     case "MemberExpression":
+      if (s.substring(c.from, c.to).startsWith("set[")) return traverseSetType(c, s);
+      if (s.substring(c.from, c.to).startsWith("Generator[")) return traverseGeneratorType(c, s);
+      // a class of an imported module, `module.Class`
+      if (/^\w+\.\w+$/.test(s.substring(c.from, c.to))) return CLASS(s.substring(c.from, c.to));
       return traverseCallable(c, s);
     default:
       throw new BaseException.InternalException("Unable to parse type");
@@ -883,11 +1295,42 @@ export function traverseCallable(c: TreeCursor, s: string): Type {
 export function traverseParameters(c: TreeCursor, s: string): Array<Parameter> {
   var location: Location = getSourcePos(c, s);
   c.firstChild(); // Focuses on open paren
-  const parameters = [];
+  const parameters: Array<Parameter> = [];
   c.nextSibling(); // Focuses on a VariableName
   let traversedDefaultParam = false; // When a default param is encountered once, all following params must also be default params
+  let keywordOnly = false; // Params after *args or a bare * can only be passed by keyword
   while (c.type.name !== ")") {
+    if (parameters.some((p) => p.variadic === "kwargs")) {
+      throw new BaseException.CompileError(
+        [location],
+        "Expected **" + parameters[parameters.length - 1].name + " to be the last parameter",
+        "ParsingError"
+      );
+    }
+    if (c.type.name === "*" || c.type.name === "**") {
+      // annotated starred params had their stars blanked, so these have no type or no name
+      c.nextSibling();
+      const afterStar: string = c.type.name;
+      if (afterStar === "VariableName") {
+        throw new BaseException.CompileError(
+          [location],
+          "Missed type annotation for parameter " + s.substring(c.from, c.to),
+          "ParsingError"
+        );
+      }
+      if (keywordOnly) {
+        throw new BaseException.CompileError(
+          [location],
+          "Duplicate * in parameters",
+          "ParsingError"
+        );
+      }
+      keywordOnly = true;
+      c.nextSibling(); // Focuses on a VariableName
+      continue;
+    }
     let name = s.substring(c.from, c.to);
+    const variadic = starredParams.get(c.from);
     c.nextSibling(); // Focuses on "TypeDef", hopefully, or "," if mistake
     let nextTagName = c.type.name; // NOTE(joe): a bit of a hack so the next line doesn't if-split
     if (nextTagName !== "TypeDef") {
@@ -903,17 +1346,37 @@ export function traverseParameters(c: TreeCursor, s: string): Array<Parameter> {
     c.parent();
     c.nextSibling(); // Move on to comma or ")" or "="
     nextTagName = c.type.name; // NOTE(daniel): copying joe's hack for now (what would be the proper way to avoid this?)
-    if (nextTagName === "AssignOp") {
+    if (variadic !== undefined) {
+      if (nextTagName === "AssignOp") {
+        throw new BaseException.CompileError(
+          [location],
+          "Unexpected default value for " + name,
+          "ParsingError"
+        );
+      }
+      if (variadic === "args" && keywordOnly) {
+        throw new BaseException.CompileError(
+          [location],
+          "Duplicate * in parameters",
+          "ParsingError"
+        );
+      }
+      // *args collects a list and **kwargs a dict from names
+      typ = variadic === "args" ? LIST(typ) : { tag: "dict", key: STRING, value: typ };
+      parameters.push({ name, type: typ, variadic });
+      keywordOnly = true;
+    } else if (nextTagName === "AssignOp") {
       traversedDefaultParam = true;
       c.nextSibling(); // Move on to default value
       let val = traverseLiteral(c, s);
-      parameters.push({ name, type: typ, value: val });
+      parameters.push({ name, type: typ, value: val, ...(keywordOnly && { keywordOnly }) });
       c.nextSibling(); // Move on to comma
     } else {
-      if (traversedDefaultParam === true) {
+      // keyword-only params need no default since they are matched by name
+      if (traversedDefaultParam === true && !keywordOnly) {
         throw new BaseException.CompileError([location], "Expected a default value for " + name);
       }
-      parameters.push({ name, type: typ });
+      parameters.push({ name, type: typ, ...(keywordOnly && { keywordOnly }) });
     }
     c.nextSibling(); // Focuses on a VariableName
   }
@@ -952,7 +1415,7 @@ export function traverseScope(c: TreeCursor, s: string): Scope<Location> {
   switch (scope) {
     case "global":
       c.parent();
-      throw new BaseException.CompileError([location], "Glocal declaration not supported.");
+      return { tag: "global", name, a: location };
     case "nonlocal":
       c.parent();
       return { tag: "nonlocal", name, a: location };
@@ -1016,7 +1479,24 @@ export function traverseClass(c: TreeCursor, s: string): Class<Location> {
   c.nextSibling(); // Focus on class name
   const className = s.substring(c.from, c.to);
   c.nextSibling(); // Focus on arglist/superclass
-  c.nextSibling(); // Focus on body
+  var superclass = "object";
+  if (c.type.name === "ArgList") {
+    c.firstChild(); // Focus on (
+    c.nextSibling(); // Focus on superclass or )
+    if (c.name === "VariableName") {
+      superclass = s.substring(c.from, c.to);
+      c.nextSibling();
+    }
+    if (c.name !== ")") {
+      throw new BaseException.CompileError(
+        [location],
+        `Multiple inheritance is not supported: ${className}`,
+        "ParsingError"
+      );
+    }
+    c.parent();
+    c.nextSibling(); // Focus on body
+  }
   c.firstChild(); // Focus colon
   while (c.nextSibling()) {
     // Focuses first field
@@ -1024,6 +1504,8 @@ export function traverseClass(c: TreeCursor, s: string): Class<Location> {
       fields.push(traverseVarInit(c, s));
     } else if (isFunDef(c, s)) {
       methods.push(traverseFunDef(c, s));
+    } else if (c.type.name === "PassStatement") {
+      continue; // e.g. a subclass with nothing of its own
     } else {
       throw new BaseException.CompileError(
         [location],
@@ -1035,7 +1517,8 @@ export function traverseClass(c: TreeCursor, s: string): Class<Location> {
   c.parent();
   c.parent();
 
-  if (!methods.find((method) => method.name === "__init__")) {
+  // NOTE: subclasses without their own __init__ inherit the superclass's
+  if (superclass === "object" && !methods.find((method) => method.name === "__init__")) {
     methods.push({
       a: location,
       name: "__init__",
@@ -1050,6 +1533,7 @@ export function traverseClass(c: TreeCursor, s: string): Class<Location> {
   return {
     a: location,
     name: className,
+    super: superclass,
     fields,
     methods,
   };
@@ -1077,6 +1561,43 @@ export function traverseDefs(
   }
 }
 
+// `import a, b as c` imports two modules; `from m import f, g as h` two names from one module.
+// Modules are single files, there are no packages
+export function traverseImports(c: TreeCursor, s: string): Array<Import<Location>> {
+  const location = getSourcePos(c, s);
+  const tokens: Array<string> = [];
+  c.firstChild();
+  do {
+    tokens.push(s.substring(c.from, c.to));
+  } while (c.nextSibling());
+  c.parent();
+  const invalid = (message: string) =>
+    new BaseException.CompileError([location], message, "ParsingError");
+  if (tokens.includes(".")) throw invalid("packages and relative imports are not supported");
+  if (tokens.includes("*")) throw invalid("wildcard imports are not supported");
+
+  // `name` or `name as alias`, separated by commas
+  const aliases = (list: Array<string>) =>
+    list
+      .filter((t) => t !== "(" && t !== ")")
+      .join(" ")
+      .split(" , ")
+      .map((entry) => {
+        const words = entry.split(" ");
+        if (words.length === 1) return { name: words[0], alias: words[0] };
+        if (words.length === 3 && words[1] === "as") return { name: words[0], alias: words[2] };
+        throw invalid(`invalid import of '${entry}'`);
+      });
+  if (tokens[0] === "from") {
+    return [{ a: location, module: tokens[1], names: aliases(tokens.slice(3)) }];
+  }
+  return aliases(tokens.slice(1)).map(({ name, alias }) => ({ a: location, module: name, alias }));
+}
+
+export function isImport(c: TreeCursor, s: string): boolean {
+  return c.type.name === "ImportStatement";
+}
+
 export function isVarInit(c: TreeCursor, s: string): boolean {
   if (c.type.name === "AssignStatement") {
     c.firstChild(); // Focus on lhs
@@ -1110,6 +1631,7 @@ export function traverse(c: TreeCursor, s: string): Program<Location> {
   var location: Location = getSourcePos(c, s);
   switch (c.node.type.name) {
     case "Script":
+      const imports: Array<Import<Location>> = [];
       const inits: Array<VarInit<Location>> = [];
       const funs: Array<FunDef<Location>> = [];
       const classes: Array<Class<Location>> = [];
@@ -1117,7 +1639,9 @@ export function traverse(c: TreeCursor, s: string): Program<Location> {
       var hasChild = c.firstChild();
 
       while (hasChild) {
-        if (isVarInit(c, s)) {
+        if (isImport(c, s)) {
+          imports.push(...traverseImports(c, s));
+        } else if (isVarInit(c, s)) {
           inits.push(traverseVarInit(c, s));
         } else if (isFunDef(c, s)) {
           funs.push(traverseFunDef(c, s));
@@ -1134,8 +1658,7 @@ export function traverse(c: TreeCursor, s: string): Program<Location> {
         hasChild = c.nextSibling();
       }
       c.parent();
-      console.log("parser-output:", { funs, inits, classes, stmts });
-      return { funs, inits, classes, stmts, closures: [], a: location };
+      return { imports, funs, inits, classes, stmts, closures: [], a: location };
     default:
       throw new BaseException.CompileError(
         [location],
@@ -1144,8 +1667,9 @@ export function traverse(c: TreeCursor, s: string): Program<Location> {
       );
   }
 }
-export function parse(source: string, config?: Config): Program<Location> {
-  const t = parser.parse(source);
-  id = config == undefined ? 1 : config.errorManager.sources.length;
+// The source gets the file id `fileId`, by default the one after the sources of `config`
+export function parse(source: string, config?: Config, fileId?: number): Program<Location> {
+  const t = parseStarredParams(source);
+  id = fileId ?? (config == undefined ? 1 : config.errorManager.sources.length + 1);
   return traverse(t.cursor(), source);
 }
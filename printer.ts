@@ -0,0 +1,208 @@
+// Renders ChocoPy values the way Python's str() and repr() do. The static type of a value tells
+// how to read it, while objects are rendered after their runtime class: by its __str__ or
+// __repr__ method when it defines one.
+
+import { Type, Value } from "./ast";
+import { ErrorManager } from "./errorManager";
+import { NUM, FLOAT, BOOL, PyString, PyValue, decodeString, encodeValue, stringify } from "./utils";
+
+// Thrown when a __str__ or __repr__ method raised an exception, which is left pending
+class Interrupted {}
+
+// Python's repr of a string: quoted, with its special characters escaped
+export function reprString(s: string): string {
+  const quote = s.includes("'") && !s.includes('"') ? '"' : "'";
+  const escaped = Array.from(s, (c) => {
+    const codePoint = c.codePointAt(0);
+    if (c === quote || c === "\\") return "\\" + c;
+    if (c === "\n") return "\\n";
+    if (c === "\r") return "\\r";
+    if (c === "\t") return "\\t";
+    if (codePoint < 0x20 || (codePoint >= 0x7f && codePoint <= 0xa0)) {
+      return "\\x" + codePoint.toString(16).padStart(2, "0");
+    }
+    return c;
+  });
+  return quote + escaped.join("") + quote;
+}
+
+export class Printer {
+  errorManager: ErrorManager;
+  memory: WebAssembly.Memory;
+  // Addresses of the containers being rendered. A container that contains itself renders
+  // as [...] or {...} the second time.
+  rendering: Set<number>;
+  constructor(errorManager: ErrorManager, memory: WebAssembly.Memory) {
+    this.errorManager = errorManager;
+    this.memory = memory;
+    this.rendering = new Set();
+  }
+
+  // str() or repr() of a value whose type is at `typeId` in the class table, or undefined
+  // when a __str__ or __repr__ method raised an exception
+  render(value: number, typeId: number, mode: "str" | "repr"): string {
+    return this.renderType(value, this.errorManager.classes.types[typeId], mode);
+  }
+
+  // str() or repr() of a value of type `typ`, see render
+  renderType(value: number, typ: Type, mode: "str" | "repr"): string {
+    try {
+      return mode === "str" ? this.str(value, typ) : this.repr(value, typ);
+    } catch (err) {
+      if (err instanceof Interrupted) return undefined;
+      throw err;
+    }
+  }
+
+  str(value: number, typ: Type): string {
+    if (value !== 0 && typ.tag === "string") return decodeString(this.memory.buffer, value);
+    if (value !== 0 && typ.tag === "class") return this.object(value, "__str__");
+    return this.repr(value, typ);
+  }
+
+  // Pointers are never 0 and ints and bools are odd, so 0 is None whatever the type
+  repr(value: number, typ: Type): string {
+    if (value === 0) return "None";
+    const view = new Int32Array(this.memory.buffer);
+    const address = `0x${value.toString(16)}`;
+    switch (typ.tag) {
+      case "number":
+        return stringify(PyValue(NUM, value, view));
+      case "float":
+        return stringify(PyValue(FLOAT, value, this.memory.buffer));
+      case "bool":
+        return stringify(PyValue(BOOL, value, view));
+      case "none":
+        return "None";
+      case "string":
+        return reprString(decodeString(this.memory.buffer, value));
+      case "list": {
+        // Layout: [32-bit type, 32-bit <length>, 32-bit <capacity>, data...]
+        const elems = Array.from(view.subarray(value / 4 + 3, value / 4 + 3 + view[value / 4 + 1]));
+        return this.container(value, "[", "]", () =>
+          elems.map((elem) => this.repr(elem, typ.content_type))
+        );
+      }
+      case "tuple": {
+        const elems = typ.contentTypes.map((elemTyp, i) => this.repr(view[value / 4 + i], elemTyp));
+        return elems.length === 1 ? `(${elems[0]},)` : `(${elems.join(", ")})`;
+      }
+      case "dict":
+        return this.container(value, "{", "}", () =>
+          this.entries(value).map(
+            ([key, val]) => `${this.repr(key, typ.key)}: ${this.repr(val, typ.value)}`
+          )
+        );
+      case "set": {
+        const keys = this.entries(value).map(([key]) => key);
+        if (keys.length === 0) return "set()";
+        return this.container(value, "{", "}", () =>
+          keys.map((key) => this.repr(key, typ.content_type))
+        );
+      }
+      case "class":
+        return this.object(value, "__repr__");
+      case "callable":
+        return `<function object at ${address}>`;
+      case "generator":
+        return `<generator object at ${address}>`;
+    }
+  }
+
+  private container(
+    address: number,
+    open: string,
+    close: string,
+    renderElems: () => Array<string>
+  ): string {
+    if (this.rendering.has(address)) return `${open}...${close}`;
+    this.rendering.add(address);
+    try {
+      return open + renderElems().join(", ") + close;
+    } finally {
+      this.rendering.delete(address);
+    }
+  }
+
+  // The [key, value] entries of a dict or set
+  private entries(address: number): Array<[number, number]> {
+    const view = new Int32Array(this.memory.buffer);
+    const entries: Array<[number, number]> = [];
+    // Layout: 10 bucket heads, each a linked-list of [key, value, next, deleted] entries
+    for (let bucket = 0; bucket < 10; bucket++) {
+      let entry = view[address / 4 + bucket];
+      while (entry !== 0) {
+        if (view[entry / 4 + 3] === 0) entries.push([view[entry / 4], view[entry / 4 + 1]]);
+        entry = view[entry / 4 + 2];
+      }
+    }
+    return entries;
+  }
+
+  // str() of an object falls back on its __repr__ method
+  private object(obj: number, method: "__str__" | "__repr__"): string {
+    const classes = this.errorManager.classes;
+    const name = classes.className(obj, this.memory);
+    const methods = classes.methods.has(name) ? classes.methods.get(name) : new Map();
+    const found = [method, "__repr__"].find((m) => methods.has(m));
+    if (found !== undefined) {
+      const result = classes.callMethod(methods.get(found), obj);
+      if (this.errorManager.pending !== null) throw new Interrupted();
+      return result === 0 ? "None" : decodeString(this.memory.buffer, result);
+    }
+
+    // builtin classes keep their name or message in their first field
+    const shortName = name.substring(name.lastIndexOf(".") + 1);
+    if (name === "type" || classes.isSubclass(name, "Exception")) {
+      const field = new Int32Array(this.memory.buffer)[obj / 4 + 1];
+      const fieldStr = field === 0 ? "" : decodeString(this.memory.buffer, field);
+      if (name === "type") return `<class '${fieldStr}'>`;
+      const args = fieldStr === "" ? "" : reprString(fieldStr);
+      return method === "__str__" ? fieldStr : `${shortName}(${args})`;
+    }
+    const qualified = name.includes(".") ? name : `__main__.${name}`;
+    return `<${qualified} object at 0x${obj.toString(16)}>`;
+  }
+}
+
+// The result of a program run against `importObject`, of type `typ`. Objects and containers carry
+// their repr, which is how the REPL shows them. They stay rooted in a temporary frame of their own
+// while a __repr__ method runs
+export function resultValue(importObject: any, result: number, typ: Type): Value {
+  const printer: Printer = importObject.imports.printer;
+  const value = printer.errorManager.classes.pyValue(typ, result, printer.memory);
+  if (value.tag !== "object") return value;
+  importObject.imports.captureTemps();
+  importObject.imports.addTemp(result);
+  try {
+    return { ...value, repr: printer.renderType(result, typ, "repr") };
+  } finally {
+    importObject.imports.releaseTemps();
+  }
+}
+
+export function importPrinter(importObject: any, printer: Printer) {
+  importObject.imports.printer = printer;
+
+  const encode = (s: string) =>
+    s === undefined
+      ? 0
+      : encodeValue(
+          PyString(s, 0),
+          importObject.imports.gcalloc,
+          new Int32Array(importObject.js.memory.buffer)
+        );
+
+  // `print(arg)` where arg is neither an int, a float, a string, a bool nor None
+  importObject.imports.__internal_print_value = (arg: number, typeId: number) => {
+    const rendered = printer.render(arg, typeId, "str");
+    if (rendered !== undefined) importObject.imports.print(PyString(rendered, arg));
+    return arg;
+  };
+
+  importObject.imports.__str = (arg: number, typeId: number) =>
+    encode(printer.render(arg, typeId, "str"));
+
+  importObject.imports.__repr = (arg: number, typeId: number) =>
+    encode(printer.render(arg, typeId, "repr"));
+}
@@ -0,0 +1,119 @@
+// Runtime type information. A class instance keeps the vtable index of its class in its first
+// word. Every class owns at least one slot of the function table (see augmentEnv), so the
+// index identifies the class of the instance: it is the class id.
+//
+// Values carry no type of their own, e.g. True and 1 are the same word. The compiled code passes
+// the static type of the values that it renders, or whose type it asks for, as an index into
+// `types`, see codeGenTypeId.
+
+import { Type, Value } from "./ast";
+import { TAG_CLASS } from "./alloc";
+import { PyObj, PyString, PyValue, encodeValue } from "./utils";
+
+// The names of the types whose values are not instances of classes
+const TYPE_NAMES: Record<Exclude<Type["tag"], "class">, string> = {
+  number: "int",
+  float: "float",
+  bool: "bool",
+  none: "NoneType",
+  string: "str",
+  list: "list",
+  dict: "dict",
+  set: "set",
+  tuple: "tuple",
+  generator: "generator",
+  callable: "function",
+};
+
+export class ClassTable {
+  // <class id, class name> and <class name, superclass name> of every class
+  names: Map<number, string>;
+  supers: Map<string, string>;
+  // <class name, <method name, index in the function table>>, inherited methods included
+  methods: Map<string, Map<string, number>>;
+  types: Array<Type>;
+  // <class name, type object>: `type(x)` is the same object for every instance x of a class
+  typeObjects: Map<string, number>;
+  // Calls the method at `tblIdx` on `obj`, through the function table of the running program
+  callMethod: (tblIdx: number, obj: number) => number;
+  constructor() {
+    this.names = new Map();
+    this.supers = new Map();
+    this.methods = new Map();
+    this.types = [];
+    this.typeObjects = new Map();
+  }
+
+  register(id: number, name: string, superName: string, methods: Array<[string, number]>) {
+    this.names.set(id, name);
+    this.supers.set(name, superName);
+    this.methods.set(name, new Map(methods));
+  }
+
+  // The id of the class named `name`, undefined when no program defined it
+  id(name: string): number {
+    let id: number = undefined;
+    this.names.forEach((cls, idx) => {
+      if (cls === name) id = idx;
+    });
+    return id;
+  }
+
+  // Whether the class named `name` is `ancestor` or one of its subclasses
+  isSubclass(name: string, ancestor: string): boolean {
+    let curr = name;
+    while (curr !== undefined) {
+      if (curr === ancestor) return true;
+      curr = this.supers.get(curr);
+    }
+    return false;
+  }
+
+  // The name of the class of the instance at `obj`, where None is of class NoneType
+  className(obj: number, memory: WebAssembly.Memory): string {
+    if (obj === 0) return "NoneType";
+    return this.names.get(new Int32Array(memory.buffer)[obj / 4]);
+  }
+
+  // The value of a result of type `typ`, where objects are named after their runtime class
+  pyValue(typ: Type, result: number, memory: WebAssembly.Memory): Value {
+    if (typ.tag === "class" && result !== 0) {
+      const name = this.className(result, memory);
+      return PyObj(name === undefined ? typ.name : name, result);
+    }
+    return PyValue(typ, result, new Int32Array(memory.buffer));
+  }
+}
+
+export function importClassTable(importObject: any, table: ClassTable) {
+  // `isinstance(obj, C)` where `id` is the class id of C; None is an instance of no class
+  importObject.imports.__isinstance = (obj: number, id: number): number =>
+    obj !== 0 && table.isSubclass(table.className(obj, importObject.js.memory), table.names.get(id))
+      ? 1
+      : 0;
+
+  // `type(obj)` where `typeId` is the static type of obj, see codeGenTypeId. The type object of
+  // a class is allocated the first time it is asked for, and lives as long as the runtime.
+  importObject.imports.__typeOf = (obj: number, typeId: number): number => {
+    const typ = table.types[typeId];
+    const name =
+      typ.tag === "class" ? table.className(obj, importObject.js.memory) : TYPE_NAMES[typ.tag];
+    if (!table.typeObjects.has(name)) {
+      const gcalloc = importObject.imports.gcalloc;
+      // Classes of modules are registered as `module.Class`, but __name__ leaves out the module
+      const typeName = encodeValue(
+        PyString(name.substring(name.lastIndexOf(".") + 1), 0),
+        gcalloc,
+        new Int32Array(importObject.js.memory.buffer)
+      );
+      // Layout: [class id of type, __name__]
+      const typeObject = gcalloc(Number(TAG_CLASS), 8);
+      const view = new Int32Array(importObject.js.memory.buffer);
+      view[typeObject / 4] = table.id("type");
+      view[typeObject / 4 + 1] = typeName;
+      importObject.imports.memoryManager.pin(BigInt(typeObject));
+      table.typeObjects.set(name, typeObject);
+    }
+    return table.typeObjects.get(name);
+  };
+}
@@ -3,78 +3,351 @@
 // - https://github.com/AssemblyScript/wabt.js/
 // - https://developer.mozilla.org/en-US/docs/WebAssembly/Using_the_JavaScript_API
 
-import wabt from "wabt";
 import * as compiler from "./compiler";
 import { parse } from "./parser";
 // import { emptyLocalTypeEnv, GlobalTypeEnv, tc, tcStmt } from "./type-check";
 // import { Type, Value } from "./ast";
 // import { PyValue, NONE, BOOL, NUM, CLASS } from "./utils";
-import { GlobalTypeEnv, tc } from "./type-check";
-import { Value } from "./ast";
-import { PyValue, NONE } from "./utils";
-import { importMemoryManager, MemoryManager, TAG_CLASS } from "./alloc";
+import { GlobalTypeEnv } from "./type-check";
+import { Location, Program, Type, Value } from "./ast";
+import { NONE } from "./utils";
+import { importMemoryManager, MemoryManager, StaticPlan, TAG_CLASS } from "./alloc";
 import { ea } from "./ea";
 import { ErrorManager } from "./errorManager";
+import { Logger } from "./logger";
+import { optimize, PassToggles } from "./optimize";
+import {
+  call,
+  call_indirect,
+  drop,
+  Func,
+  i32,
+  i32Vars,
+  Import,
+  Instr,
+  local,
+  Module,
+  printWat,
+  return_,
+  unreachable,
+  ValType,
+} from "./wasm-ir";
+import { encodeModule } from "./wasm-encoder";
+import { ModuleLoader, tcWithImports } from "./modules";
+import { resultValue } from "./printer";
 
 export type Config = {
   importObject: any;
   env: compiler.GlobalEnv;
   typeEnv: GlobalTypeEnv;
-  functions: string; // prelude functions
+  functions: Array<Func>; // prelude functions
   errorManager: ErrorManager;
   memoryManager: MemoryManager;
+  logger: Logger;
+  passes: PassToggles; // optimization passes to skip, see optimize.ts
+  modules: ModuleLoader; // finds the modules that programs import
 };
 
-// NOTE(joe): This is a hack to get the CLI Repl to run. WABT registers a global
-// uncaught exn handler, and this is not allowed when running the REPL
-// (https://nodejs.org/api/repl.html#repl_global_uncaught_exceptions). No reason
-// is given for this in the docs page, and I haven't spent time on the domain
-// module to figure out what's going on here. It doesn't seem critical for WABT
-// to have this support, so we patch it away.
-if (typeof process !== "undefined") {
-  const oldProcessOn = process.on;
-  process.on = (...args: any): any => {
-    if (args[0] === "uncaughtException") {
-      return;
-    } else {
-      return oldProcessOn.apply(process, args);
-    }
-  };
-}
+// Every stage of compiling a program, ready to be instantiated any number of times. Compiling
+// changes nothing in the configuration, instantiating the program registers its sources and
+// allocates its globals
+export type CompiledProgram = {
+  source: string;
+  fileId: number; // of the source, the modules take the ids after it
+  ast: Program<Location>;
+  typedAst: Program<[Type, Location]>;
+  wasmSource: string;
+  module: Module; // wasmSource as instructions, see printWat for a readable listing
+  binary: Uint8Array;
+  resultType: Type; // type of the value the program evaluates to
+  newEnv: compiler.GlobalEnv;
+  newTypeEnv: GlobalTypeEnv;
+  functions: Array<Func>; // functions added by the program
+  // vtable index, name, superclass and <method, function table index> of every class, used to
+  // match raised exceptions and to render objects
+  classes: Array<[number, string, string, Array<[string, number]>]>;
+  // static types of the values the program renders, see codeGenTypeId
+  types: Array<Type>;
+  // name and source of every module loaded by the program's imports, in the order of their file ids
+  modules: Array<[string, string]>;
+  statics: StaticPlan; // static storage of the globals
+};
 
-export async function runWat(source: string, importObject: any): Promise<any> {
-  const wabtInterface = await wabt();
-  const myModule = wabtInterface.parseWat("test.wat", source);
-  var asBinary = myModule.toBinary({});
-  var wasmModule = await WebAssembly.instantiate(asBinary.buffer, importObject);
-  const result = (wasmModule.instance.exports.exported_func as any)();
-  return result;
+export type RunResult = {
+  value: Value;
+  program: CompiledProgram;
+};
+
+// The functions of the runtime, as [name, field of the "imports" object, params, results]
+const RUNTIME_FUNCS: Array<[string, string, Array<ValType>, Array<ValType>]> = [
+  ["$print", "__internal_print", ["i32"], ["i32"]],
+  ["$print_str", "__internal_print_str", ["i32"], ["i32"]],
+  ["$print_value", "__internal_print_value", ["i32", "i32"], ["i32"]],
+  ["$print_num", "__internal_print_num", ["i32"], ["i32"]],
+  ["$print_bool", "__internal_print_bool", ["i32"], ["i32"]],
+  ["$print_float", "__internal_print_float", ["i32"], ["i32"]],
+  ["$print_none", "__internal_print_none", ["i32"], ["i32"]],
+  ["$abs", "abs", ["i32"], ["i32"]],
+  ["$min", "min", ["i32", "i32"], ["i32"]],
+  ["$max", "max", ["i32", "i32"], ["i32"]],
+  ["$pow", "pow", ["i32", "i32"], ["i32"]],
+  ["$$big_add", "__big_num_add", ["i32", "i32"], ["i32"]],
+  ["$$big_sub", "__big_num_sub", ["i32", "i32"], ["i32"]],
+  ["$$big_mul", "__big_num_mul", ["i32", "i32"], ["i32"]],
+  ["$$big_div", "__big_num_div", ["i32", "i32"], ["i32"]],
+  ["$$big_mod", "__big_num_mod", ["i32", "i32"], ["i32"]],
+  ["$$big_eq", "__big_num_eq", ["i32", "i32"], ["i32"]],
+  ["$$big_ne", "__big_num_ne", ["i32", "i32"], ["i32"]],
+  ["$$big_lt", "__big_num_lt", ["i32", "i32"], ["i32"]],
+  ["$$big_lte", "__big_num_lte", ["i32", "i32"], ["i32"]],
+  ["$$big_gt", "__big_num_gt", ["i32", "i32"], ["i32"]],
+  ["$$big_gte", "__big_num_gte", ["i32", "i32"], ["i32"]],
+  ["$$big_and", "__big_num_and", ["i32", "i32"], ["i32"]],
+  ["$$big_or", "__big_num_or", ["i32", "i32"], ["i32"]],
+  ["$$big_xor", "__big_num_xor", ["i32", "i32"], ["i32"]],
+  ["$$big_invert", "__big_num_invert", ["i32"], ["i32"]],
+  ["$$big_shl", "__big_num_shl", ["i32", "i32"], ["i32"]],
+  ["$$big_shr", "__big_num_shr", ["i32", "i32"], ["i32"]],
+  ["$$big_pow", "__big_num_pow", ["i32", "i32"], ["i32"]],
+  ["$$big_to_float", "__big_num_to_float", ["i32"], ["f64"]],
+  ["$$big_of_float", "__big_num_of_float", ["f64"], ["i32"]],
+  ["$$float_pow", "__float_pow", ["f64", "f64"], ["f64"]],
+  ["$$float_sin", "__float_sin", ["f64"], ["f64"]],
+  ["$$float_cos", "__float_cos", ["f64"], ["f64"]],
+  ["$$float_ln", "__float_ln", ["f64"], ["f64"]],
+  ["$$str_upper", "__str_upper", ["i32"], ["i32"]],
+  ["$$str_lower", "__str_lower", ["i32"], ["i32"]],
+  ["$$pushStack", "__pushStack", ["i32", "i32", "i32", "i32"], []],
+  ["$$popStack", "__popStack", [], []],
+  ["$$check_none_class", "__checkNoneClass", ["i32"], []],
+  ["$$check_index", "__checkIndex", ["i32", "i32"], []],
+  ["$$check_key", "__checkKey", ["i32", "i32", "i32"], []],
+  ["$$check_none_lookup", "__checkNoneLookup", ["i32"], []],
+  ["$$check_division", "__checkZeroDivision", ["i32"], []],
+  ["$$check_separator", "__checkSeparator", ["i32"], []],
+  ["$$check_stop_iteration", "__checkStopIteration", ["i32"], []],
+  ["$$check_float_to_int", "__checkFloatToInt", ["f64"], []],
+  ["$$check_math_domain", "__checkMathDomain", ["i32"], []],
+  ["$$check_shift_count", "__checkShiftCount", ["i32"], []],
+  ["$$check_exponent", "__checkExponent", ["i32"], []],
+  ["$$assert_failed", "__assertFailed", ["i32"], []],
+  ["$$exc_raise", "__excRaise", ["i32"], []],
+  ["$$exc_match", "__excMatch", ["i32"], ["i32"]],
+  ["$$exc_catch", "__excCatch", [], ["i32"]],
+  ["$$exc_stash", "__excStash", [], []],
+  ["$$exc_restore", "__excRestore", [], []],
+  ["$$isinstance", "__isinstance", ["i32", "i32"], ["i32"]],
+  ["$$type_of", "__typeOf", ["i32", "i32"], ["i32"]],
+  ["$$str", "__str", ["i32", "i32"], ["i32"]],
+  ["$$repr", "__repr", ["i32", "i32"], ["i32"]],
+  ["$$gcalloc", "gcalloc", ["i32", "i32"], ["i32"]],
+  ["$$pushCaller", "pushCaller", [], []],
+  ["$$popCaller", "popCaller", [], []],
+  ["$$addTemp", "addTemp", ["i32"], ["i32"]],
+  ["$$returnTemp", "returnTemp", ["i32"], ["i32"]],
+  ["$$captureTemps", "captureTemps", [], []],
+  ["$$releaseTemps", "releaseTemps", [], []],
+  ["$$tempsDepth", "tempsDepth", [], ["i32"]],
+  ["$$unwindTemps", "unwindTemps", ["i32"], []],
+  ["$$pushFrame", "pushFrame", [], []],
+  ["$$addLocal", "addLocal", ["i32", "i32"], []],
+  ["$$removeLocal", "removeLocal", ["i32"], []],
+  ["$$releaseLocals", "releaseLocals", [], []],
+  ["$$forceCollect", "forceCollect", [], []],
+];
+
+/*
+  class Range(object):
+    cur : int = 0
+    stop : int = 0
+    step : int = 1
+  def range(start : int, end : int, sp : int)->Range:
+    self:Range = None
+    self = Range()
+    self.cur = start
+    self.stop = end
+    self.step = sp
+    return self
+*/
+function rangeFuns(rangeId: number): Array<Func> {
+  const setField = (offset: number, value: string) => [
+    local.get("$self"),
+    i32.const(offset),
+    i32.add(),
+    local.get(value),
+    i32.store(),
+  ];
+  return [
+    {
+      name: "$range",
+      params: i32Vars("$start", "$end", "$sp"),
+      results: ["i32"],
+      locals: i32Vars("$self", "$$last"),
+      body: [
+        i32.const(Number(TAG_CLASS)),
+        i32.const(96),
+        call("$$gcalloc"),
+        local.set("$self"),
+        local.get("$self"),
+        i32.const(rangeId), // class id
+        i32.store(),
+        local.get("$self"),
+        i32.const(4),
+        i32.add(),
+        i32.const(0),
+        i32.store(),
+        local.get("$self"),
+        i32.const(8),
+        i32.add(),
+        i32.const(0),
+        i32.store(),
+        local.get("$self"),
+        i32.const(12),
+        i32.add(),
+        i32.const(1),
+        i32.store(),
+        local.get("$self"),
+        call("$Range$__init__"),
+        drop(),
+        ...setField(4, "$start"),
+        ...setField(8, "$end"),
+        ...setField(12, "$sp"),
+        local.get("$self"),
+        return_(),
+      ],
+    },
+    {
+      name: "$Range$__init__",
+      params: i32Vars("$self"),
+      results: ["i32"],
+      locals: i32Vars("$$last"),
+      body: [i32.const(0), return_()],
+    },
+  ];
 }
 
-export async function run(
-  source: string,
-  config: Config
-): Promise<[Value, compiler.GlobalEnv, GlobalTypeEnv, string, ErrorManager]> {
-  config.errorManager.sources.push(source);
-  const parsed = parse(source, config);
-  console.log(parsed);
-  const [tprogram, tenv] = tc(config.typeEnv, parsed);
-  console.log(tprogram);
+export async function compileProgram(source: string, config: Config): Promise<CompiledProgram> {
+  const fileId = config.errorManager.sources.length + 1;
+  const parsed = parse(source, config, fileId);
+  config.logger.debug("parse", parsed);
+  const [tprogram, tenv, modules] = tcWithImports(config.typeEnv, parsed, config);
+  config.logger.debug("tc", tprogram);
   const progTyp = tprogram.a[0];
-  var returnType = "";
-  var returnExpr = "";
+  var returnType: Array<ValType> = [];
+  var returnExpr: Array<Instr> = [];
   // const lastExpr = parsed.stmts[parsed.stmts.length - 1]
   // const lastExprTyp = lastExpr.a;
   // console.log("LASTEXPR", lastExpr);
   if (progTyp !== NONE) {
-    returnType = "(result i32)";
-    returnExpr = "(local.get $$last)";
+    returnType = ["i32"];
+    returnExpr = [local.get("$$last")];
   }
   // let globalsBefore = (config.env.globals as Map<string, number>).size;
-  const eaProgram = ea(tprogram);
-  const compiled = compiler.compile(eaProgram, config.env, config.memoryManager);
+  const optimized = optimize(tprogram, config.passes, config.logger);
+  const eaProgram = ea(optimized);
+  config.logger.debug("ea", eaProgram);
+  const statics = config.memoryManager.planStatic();
+  const compiled = compiler.compile(eaProgram, config.env, statics);
   // let globalsAfter = compiled.newEnv.globals.size;
 
+  const funs = compiled.newEnv.funs;
+  const vtables = compiled.newEnv.vtables;
+  let sorted_funs = new Array<string>();
+  const classes: Array<[number, string, string, Array<[string, number]>]> = [];
+  funs.forEach((v, k) => {
+    sorted_funs[v[0]] = `$${k}`;
+  });
+  vtables.forEach(([tblIdx, methods], cls) => {
+    methods.forEach(([slot, cls], method) => {
+      sorted_funs[tblIdx + slot] = `$${cls}$${method}`;
+    });
+    // classes without methods still own a slot so that their vtable index is unique
+    if (methods.size === 0) {
+      sorted_funs[tblIdx] = "$$no_method";
+    }
+    const methodIdxs: Array<[string, number]> = [];
+    methods.forEach(([slot], method) => methodIdxs.push([method, tblIdx + slot]));
+    classes.push([tblIdx, cls, tenv.classes.get(cls)[2], methodIdxs]);
+  });
+
+  const imports: Array<Import> = [
+    { kind: "memory", module: "js", field: "memory", min: 1 },
+    ...RUNTIME_FUNCS.map(
+      ([name, field, params, results]): Import => {
+        return { kind: "func", module: "imports", field, name, type: { params, results } };
+      }
+    ),
+    {
+      kind: "global",
+      module: "imports",
+      field: "__excPending",
+      name: "$$exc_pending",
+      type: "i32",
+      mutable: true,
+    },
+  ];
+  const funcs: Array<Func> = [
+    ...rangeFuns(compiled.newEnv.vtables.get("Range")[0]),
+    { name: "$$no_method", params: [], results: ["i32"], locals: [], body: [unreachable()] },
+    // lets the runtime call __str__ and __repr__ methods, which return their result to the
+    // temporaries of the calling statement as any call does
+    {
+      name: "$$call_method",
+      params: i32Vars("$tblIdx", "$obj"),
+      results: ["i32"],
+      locals: [],
+      body: [
+        call("$$pushCaller"),
+        local.get("$obj"),
+        local.get("$tblIdx"),
+        call_indirect({ params: ["i32"], results: ["i32"] }),
+        call("$$popCaller"),
+      ],
+    },
+    ...config.functions,
+    ...compiled.functions,
+    {
+      ...compiled.main,
+      name: "$$exported_func",
+      results: returnType,
+      body: [...compiled.main.body, ...returnExpr],
+    },
+  ];
+  const module: Module = {
+    types: [],
+    imports,
+    funcs,
+    table: { min: sorted_funs.length },
+    globals: [],
+    exports: [
+      { name: "call_method", kind: "func", ref: "$$call_method" },
+      { name: "exported_func", kind: "func", ref: "$$exported_func" },
+    ],
+    elems: [{ offset: [i32.const(0)], funcs: sorted_funs }],
+  };
+  const wasmSource = printWat(module);
+  config.logger.debug("codegen", wasmSource);
+  return {
+    source,
+    fileId,
+    ast: parsed,
+    typedAst: tprogram,
+    wasmSource,
+    module,
+    binary: encodeModule(module),
+    resultType: progTyp,
+    newEnv: compiled.newEnv,
+    newTypeEnv: tenv,
+    functions: compiled.functions,
+    classes,
+    types: compiled.newEnv.types,
+    modules,
+    statics,
+  };
+}
+
+// Runs a compiled program against the memory and runtime state of `config`
+export async function instantiate(program: CompiledProgram, config: Config): Promise<Value> {
   const importObject = config.importObject;
   if (!importObject.js) {
     const memory = new WebAssembly.Memory({ initial: 2000, maximum: 2000 });
@@ -90,7 +363,6 @@ export async function run(
     importMemoryManager(importObject, memoryManager);
   }
 
-  const oldView = new Int32Array(importObject.js.memory.buffer);
   // NOTE(alex:mm): view[0] becomes entirely meaningless b/c metadata
   //   is stored on the JS heap via MemoryManager
   //
@@ -98,143 +370,35 @@ export async function run(
   // console.log("before updating: ", offsetBefore);
   // view[0] = offsetBefore + (globalsAfter - globalsBefore) * 4;
   // console.log("after updating: ", view[0]);
-  console.log("mem view:", oldView);
+  config.logger.trace("wasm", "mem view:", new Int32Array(importObject.js.memory.buffer));
 
-  const funs = compiled.newEnv.funs;
-  let sorted_funs = new Array<string>(funs.size);
-  funs.forEach((v, k) => {
-    sorted_funs[v[0]] = `$${k}`;
-  });
-
-  let funRef = `
-(table ${funs.size} funcref)
-(elem (i32.const 0) ${sorted_funs.join(" ")})
-`;
+  config.errorManager.setSource(program.fileId, program.source);
+  program.modules.forEach(([name, source], i) =>
+    config.errorManager.setSource(program.fileId + 1 + i, source, name)
+  );
+  config.memoryManager.commitStatic(program.statics);
+  program.classes.forEach(([tblIdx, cls, superCls, methods]) =>
+    config.errorManager.registerClass(tblIdx, cls, superCls, methods)
+  );
+  config.errorManager.classes.types = program.types;
+  config.errorManager.resetExceptions();
+  const wasmModule = await WebAssembly.instantiate(program.binary, importObject);
+  config.errorManager.classes.callMethod = wasmModule.instance.exports.call_method as (
+    tblIdx: number,
+    obj: number
+  ) => number;
+  const result = (wasmModule.instance.exports.exported_func as () => number)();
+  config.errorManager.throwUncaught();
 
-  /*
-  class Range(object):
-    cur : int = 0
-    stop : int = 0
-    step : int = 1
-  def range(start : int, end : int, sp : int)->Range:
-    self:Range = None
-    self = Range()
-    self.cur = start
-    self.stop = end
-    self.step = sp
-    return self
-*/
-  const wasmSource = `(module
-    (import "js" "memory" (memory 1))
-    (func $print (import "imports" "__internal_print") (param i32) (result i32))
-    (func $print_str (import "imports" "__internal_print_str") (param i32) (result i32))
-    (func $print_list (import "imports" "__internal_print_list") (param i32) (param i32) (result i32))
-    (func $print_num (import "imports" "__internal_print_num") (param i32) (result i32))
-    (func $print_bool (import "imports" "__internal_print_bool") (param i32) (result i32))
-    (func $print_none (import "imports" "__internal_print_none") (param i32) (result i32))
-    (func $abs (import "imports" "abs") (param i32) (result i32))
-    (func $min (import "imports" "min") (param i32) (param i32) (result i32))
-    (func $max (import "imports" "max") (param i32) (param i32) (result i32))
-    (func $pow (import "imports" "pow") (param i32) (param i32) (result i32))
-    (func $$big_add (import "imports" "__big_num_add") (param i32) (param i32) (result i32))
-    (func $$big_sub (import "imports" "__big_num_sub") (param i32) (param i32) (result i32))
-    (func $$big_mul (import "imports" "__big_num_mul") (param i32) (param i32) (result i32))
-    (func $$big_div (import "imports" "__big_num_div") (param i32) (param i32) (result i32))
-    (func $$big_mod (import "imports" "__big_num_mod") (param i32) (param i32) (result i32))
-    (func $$big_eq (import "imports" "__big_num_eq") (param i32) (param i32) (result i32))
-    (func $$big_ne (import "imports" "__big_num_ne") (param i32) (param i32) (result i32))
-    (func $$big_lt (import "imports" "__big_num_lt") (param i32) (param i32) (result i32))
-    (func $$big_lte (import "imports" "__big_num_lte") (param i32) (param i32) (result i32))
-    (func $$big_gt (import "imports" "__big_num_gt") (param i32) (param i32) (result i32))
-    (func $$big_gte (import "imports" "__big_num_gte") (param i32) (param i32) (result i32))
-    (func $$pushStack (import "imports" "__pushStack") (param i32) (param i32) (param i32) (param i32))
-    (func $$popStack (import "imports" "__popStack"))
-    (func $$check_none_class (import "imports" "__checkNoneClass") (param i32))
-    (func $$check_index (import "imports" "__checkIndex") (param i32) (param i32))
-    (func $$check_key (import "imports" "__checkKey") (param i32))
-    (func $$check_none_lookup (import "imports" "__checkNoneLookup") (param i32))
-    (func $$check_division (import "imports" "__checkZeroDivision") (param i32))
-
-    (func $$gcalloc (import "imports" "gcalloc") (param i32) (param i32) (result i32))
-    (func $$pushCaller (import "imports" "pushCaller"))
-    (func $$popCaller (import "imports" "popCaller"))
-    (func $$addTemp (import "imports" "addTemp") (param i32) (result i32))
-    (func $$returnTemp (import "imports" "returnTemp") (param i32) (result i32))
-    (func $$captureTemps (import "imports" "captureTemps"))
-    (func $$releaseTemps (import "imports" "releaseTemps"))
-    (func $$pushFrame (import "imports" "pushFrame"))
-    (func $$addLocal (import "imports" "addLocal") (param i32) (param i32))
-    (func $$removeLocal (import "imports" "removeLocal") (param i32))
-    (func $$releaseLocals (import "imports" "releaseLocals"))
-    (func $$forceCollect (import "imports" "forceCollect"))
-
-    (func $range (param $start i32) (param $end i32) (param $sp i32) (result i32)
-      (local $self i32)
-      (local $$last i32)
-      (i32.const ${TAG_CLASS})
-      (i32.const 96)
-      (call $$gcalloc)
-      (local.set $self)
-      (local.get $self)
-      (i32.const 0)
-      (i32.store)
-      (local.get $self)
-      (i32.add (i32.const 4))
-      (i32.const 0)
-      (i32.store)
-      (local.get $self)
-      (i32.add (i32.const 8))
-      (i32.const 1)
-      (i32.store)
-      (local.get $self)
-      (call $Range$__init__)
-      (drop)
-      (local.get $self)
-      (local.get $self)
-      (i32.add (i32.const 0))
-      (local.get $start)
-      (i32.store)
-      (local.get $self)
-      (i32.add (i32.const 4))
-      (local.get $end)
-      (i32.store)
-      (local.get $self)
-      (i32.add (i32.const 8))
-      (local.get $sp)
-      (i32.store)
-
-      (local.get $self)
-      return (i32.const 0)
-    (return))
-
-    (func $Range$__init__ (param $self i32) (result i32)
-      (local $$last i32)
-      (i32.const 0)
-    (return))
-    (type $callType0 (func (result i32)))
-    (type $callType1 (func (param i32) (result i32)))
-    (type $callType2 (func (param i32) (param i32) (result i32)))
-    (type $callType3 (func (param i32) (param i32) (param i32) (result i32)))
-    (type $callType4 (func (param i32) (param i32) (param i32) (param i32) (result i32)))
-    (type $callType5 (func (param i32) (param i32) (param i32) (param i32) (param i32) (result i32)))
-    ${funRef}
-    ${config.functions}
-    ${compiled.functions}
-    (func (export "exported_func") ${returnType}
-      ${compiled.mainSource}
-      ${returnExpr}
-    )
-  )`;
-  console.log(wasmSource);
-  const result = await runWat(wasmSource, importObject);
-  const newView = new Int32Array(importObject.js.memory.buffer);
+  config.logger.debug("wasm", "About to return", program.resultType, result);
+  const value = resultValue(importObject, result, program.resultType);
+  // raised by a __repr__ method
+  config.errorManager.throwUncaught();
+  return value;
+}
 
-  console.log("About to return", progTyp, result);
-  return [
-    PyValue(progTyp, result, newView),
-    compiled.newEnv,
-    tenv,
-    compiled.functions,
-    config.errorManager,
-  ];
+export async function run(source: string, config: Config): Promise<RunResult> {
+  const program = await compileProgram(source, config);
+  const value = await instantiate(program, config);
+  return { value, program };
 }
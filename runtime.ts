@@ -0,0 +1,245 @@
+// The imports a compiled program needs at runtime: its memory, the memory manager, printing,
+// the builtins implemented in JavaScript and the error manager. The REPL and the loader of
+// programs compiled ahead of time share them, the loader without the compiler.
+
+import { importMemoryManager, MemoryManager } from "./alloc";
+import {
+  NUM,
+  FLOAT,
+  STRING,
+  BOOL,
+  NONE,
+  PyValue,
+  PyBigInt,
+  PyBool,
+  PyString,
+  decodeString,
+  encodeValue,
+} from "./utils";
+import { InternalException } from "./error";
+import { ErrorManager, importErrorManager } from "./errorManager";
+import { importClassTable } from "./rtti";
+import { importPrinter, Printer } from "./printer";
+import { Logger } from "./logger";
+
+// Fills in `importObject`, creating its memory and memory manager unless it has them already
+export function importRuntime(
+  importObject: any,
+  errorManager: ErrorManager,
+  logger: Logger
+): MemoryManager {
+  if (!importObject.js) {
+    const memory = new WebAssembly.Memory({ initial: 2000, maximum: 2000 });
+    const view = new Int32Array(memory.buffer);
+    view[0] = 4;
+    importObject.js = { memory: memory };
+  }
+
+  let memoryManager: MemoryManager;
+  if (!importObject.memoryManager) {
+    const memory = importObject.js.memory;
+    memoryManager = new MemoryManager(new Uint8Array(memory.buffer), {
+      staticStorage: 512n,
+      total: 2000n,
+      logger: logger,
+    });
+    importMemoryManager(importObject, memoryManager);
+  }
+  importObject.imports.__internal_print = (arg: any) => {
+    logger.debug("wasm", "Logging from WASM: ", arg);
+    importObject.imports.print(PyValue(NUM, arg, new Uint32Array(importObject.js.memory.buffer)));
+    return arg;
+  };
+  importObject.imports.__internal_print_none = (arg: number) => {
+    logger.debug("wasm", "Logging from WASM: ", arg);
+    importObject.imports.print(PyValue(NONE, arg, null));
+    return arg;
+  };
+  importObject.imports.__internal_print_num = (arg: number) => {
+    logger.debug("wasm", "Logging from WASM: ", arg);
+    importObject.imports.print(PyValue(NUM, arg, new Uint32Array(importObject.js.memory.buffer)));
+    return arg;
+  };
+  importObject.imports.__internal_print_str = (arg: number) => {
+    logger.debug("wasm", "Logging from WASM: ", arg);
+    importObject.imports.print(
+      PyValue(STRING, arg, new Uint32Array(importObject.js.memory.buffer))
+    );
+    return arg;
+  };
+  importObject.imports.__internal_print_float = (arg: number) => {
+    logger.debug("wasm", "Logging from WASM: ", arg);
+    importObject.imports.print(PyValue(FLOAT, arg, importObject.js.memory.buffer));
+    return arg;
+  };
+  importObject.imports.__internal_print_bool = (arg: number) => {
+    logger.debug("wasm", "Logging from WASM: ", arg);
+    importObject.imports.print(PyValue(BOOL, arg, null));
+    return arg;
+  };
+  importObject.imports.abs = (arg: number) =>
+    uniOpInterface(importObject, arg, (val: bigint) => {
+      return val < 0 ? -val : val;
+    });
+  importObject.imports.pow = (base: number, exp: number) =>
+    binOpInterface(importObject, base, exp, (baseVal: bigint, expVal: bigint) => {
+      // Javascript does not allow a negative BigInt exponent.
+      if (expVal < 1) {
+        return 0n;
+      } else {
+        return baseVal ** expVal;
+      }
+    });
+  importObject.imports.max = (x: number, y: number) =>
+    binOpInterface(importObject, x, y, (xval: bigint, yval: bigint) => {
+      var res = xval > yval ? xval : yval;
+      return res;
+    });
+  importObject.imports.min = (x: number, y: number) =>
+    binOpInterface(importObject, x, y, (xval: bigint, yval: bigint) => {
+      var res = xval < yval ? xval : yval;
+      return res;
+    });
+  importObject.imports.__big_num_add = (x: number, y: number) =>
+    binOpInterface(importObject, x, y, (x: bigint, y: bigint) => {
+      return x + y;
+    });
+  importObject.imports.__big_num_sub = (x: number, y: number) =>
+    binOpInterface(importObject, x, y, (x: bigint, y: bigint) => {
+      return x - y;
+    });
+  importObject.imports.__big_num_mul = (x: number, y: number) =>
+    binOpInterface(importObject, x, y, (x: bigint, y: bigint) => {
+      return x * y;
+    });
+  importObject.imports.__big_num_div = (x: number, y: number) =>
+    binOpInterface(importObject, x, y, (x: bigint, y: bigint) => {
+      if (y === 0n) {
+        // TODO change this back to ZeroDivisionError
+        throw new Error("Cannot divide by zero");
+        //           throw new ZeroDivisionError();
+      }
+      return (x - (((x % y) + y) % y)) / y;
+    });
+  importObject.imports.__big_num_mod = (x: number, y: number) =>
+    binOpInterface(importObject, x, y, (x: bigint, y: bigint) => {
+      return ((x % y) + y) % y;
+    });
+  importObject.imports.__big_num_and = (x: number, y: number) =>
+    binOpInterface(importObject, x, y, (x: bigint, y: bigint) => {
+      return x & y;
+    });
+  importObject.imports.__big_num_or = (x: number, y: number) =>
+    binOpInterface(importObject, x, y, (x: bigint, y: bigint) => {
+      return x | y;
+    });
+  importObject.imports.__big_num_xor = (x: number, y: number) =>
+    binOpInterface(importObject, x, y, (x: bigint, y: bigint) => {
+      return x ^ y;
+    });
+  importObject.imports.__big_num_invert = (x: number) =>
+    uniOpInterface(importObject, x, (x: bigint) => {
+      return ~x;
+    });
+  // The shift count and exponent were checked to be non-negative
+  importObject.imports.__big_num_shl = (x: number, y: number) =>
+    binOpInterface(importObject, x, y, (x: bigint, y: bigint) => {
+      return x << y;
+    });
+  importObject.imports.__big_num_shr = (x: number, y: number) =>
+    binOpInterface(importObject, x, y, (x: bigint, y: bigint) => {
+      return x >> y;
+    });
+  importObject.imports.__big_num_pow = (x: number, y: number) =>
+    binOpInterface(importObject, x, y, (x: bigint, y: bigint) => {
+      return x ** y;
+    });
+  importObject.imports.__big_num_to_float = (x: number) => {
+    const val = PyValue(NUM, x, new Uint32Array(importObject.js.memory.buffer));
+    return Number(val.tag === "num" ? val.value : 0n);
+  };
+  importObject.imports.__big_num_of_float = (x: number) =>
+    encodeValue(
+      PyBigInt(BigInt(x)),
+      importObject.imports.gcalloc,
+      new Uint32Array(importObject.js.memory.buffer)
+    );
+  importObject.imports.__float_pow = Math.pow;
+  importObject.imports.__float_sin = Math.sin;
+  importObject.imports.__float_cos = Math.cos;
+  importObject.imports.__float_ln = Math.log;
+  importObject.imports.__str_upper = (x: number) =>
+    strOpInterface(importObject, x, (s: string) => s.toUpperCase());
+  importObject.imports.__str_lower = (x: number) =>
+    strOpInterface(importObject, x, (s: string) => s.toLowerCase());
+  importObject.imports.__big_num_eq = (x: number, y: number) =>
+    binOpInterfaceBool(importObject, x, y, (x: bigint, y: bigint) => {
+      return x === y;
+    });
+  importObject.imports.__big_num_ne = (x: number, y: number) =>
+    binOpInterfaceBool(importObject, x, y, (x: bigint, y: bigint) => {
+      return x !== y;
+    });
+  importObject.imports.__big_num_lt = (x: number, y: number) =>
+    binOpInterfaceBool(importObject, x, y, (x: bigint, y: bigint) => {
+      return x < y;
+    });
+  importObject.imports.__big_num_lte = (x: number, y: number) =>
+    binOpInterfaceBool(importObject, x, y, (x: bigint, y: bigint) => {
+      return x <= y;
+    });
+  importObject.imports.__big_num_gt = (x: number, y: number) =>
+    binOpInterfaceBool(importObject, x, y, (x: bigint, y: bigint) => {
+      return x > y;
+    });
+  importObject.imports.__big_num_gte = (x: number, y: number) =>
+    binOpInterfaceBool(importObject, x, y, (x: bigint, y: bigint) => {
+      return x >= y;
+    });
+
+  importErrorManager(importObject, errorManager);
+  importClassTable(importObject, errorManager.classes);
+  importPrinter(importObject, new Printer(errorManager, importObject.js.memory));
+  return memoryManager;
+}
+
+function binOpInterface(
+  importObject: any,
+  x: number,
+  y: number,
+  f: (x: bigint, y: bigint) => bigint
+): number {
+  var mem = new Uint32Array(importObject.js.memory.buffer);
+  var xval = PyValue(NUM, x, mem);
+  var yval = PyValue(NUM, y, mem);
+  if (xval.tag == "num" && yval.tag == "num") {
+    return encodeValue(PyBigInt(f(xval.value, yval.value)), importObject.imports.gcalloc, mem);
+  }
+  throw new InternalException("binary operation failed at runtime");
+}
+function binOpInterfaceBool(
+  importObject: any,
+  x: number,
+  y: number,
+  f: (x: bigint, y: bigint) => boolean
+): number {
+  var mem = new Uint32Array(importObject.js.memory.buffer);
+  var xval = PyValue(NUM, x, mem);
+  var yval = PyValue(NUM, y, mem);
+  if (xval.tag == "num" && yval.tag == "num") {
+    return encodeValue(PyBool(f(xval.value, yval.value)), importObject.imports.gcalloc, mem);
+  }
+  throw new InternalException("binary operation failed at runtime");
+}
+function uniOpInterface(importObject: any, x: number, f: (x: bigint) => bigint): number {
+  var mem = new Uint32Array(importObject.js.memory.buffer);
+  var xval = PyValue(NUM, x, mem);
+  if (xval.tag == "num") {
+    return encodeValue(PyBigInt(f(xval.value)), importObject.imports.gcalloc, mem);
+  }
+  throw new InternalException("binary operation failed at runtime");
+}
+function strOpInterface(importObject: any, x: number, f: (x: string) => string): number {
+  var mem = new Uint32Array(importObject.js.memory.buffer);
+  return encodeValue(PyString(f(decodeString(mem, x)), 0), importObject.imports.gcalloc, mem);
+}
@@ -0,0 +1,70 @@
+// Runs the unit tests of a ChocoPy program: its top-level functions named `test_*` that take
+// no arguments. Each test runs on a fresh REPL, after the definitions and top-level statements
+// of the program, so that no state carries over from one test to the next. A test passes when
+// it returns without raising, e.g. when all of its `assert` statements hold.
+
+import { Value } from "./ast";
+import { BasicREPL } from "./repl";
+import { parse } from "./parser";
+import { mapLoader, ModuleLoader } from "./modules";
+import { stringify } from "./utils";
+
+export type TestResult = {
+  name: string;
+  passed: boolean;
+  output: Array<string>; // what the test printed
+  error?: Error; // why it failed
+  traceback?: string;
+};
+
+// The tests of a program, in the order they are defined
+export function discoverTests(source: string): Array<string> {
+  return parse(source)
+    .funs.filter((fun) => fun.name.startsWith("test_") && fun.parameters.length === 0)
+    .map((fun) => fun.name);
+}
+
+// Type errors in the program are thrown before any test runs
+export async function runTests(
+  source: string,
+  modules: ModuleLoader = mapLoader(new Map())
+): Promise<Array<TestResult>> {
+  const fresh = (output: Array<string>) => {
+    const print = (val: Value) => output.push(stringify(val));
+    const repl = new BasicREPL({ imports: { print } });
+    repl.modules = modules;
+    return repl;
+  };
+  await fresh([]).tc(source);
+
+  const results: Array<TestResult> = [];
+  for (const name of discoverTests(source)) {
+    const output: Array<string> = [];
+    const repl = fresh(output);
+    try {
+      await repl.run(source);
+      await repl.run(`${name}()`);
+      results.push({ name, passed: true, output });
+    } catch (error) {
+      const traceback =
+        error.callStack === undefined ? "" : repl.errorManager.stackToString(error.callStack);
+      results.push({ name, passed: false, output, error, traceback });
+    }
+  }
+  return results;
+}
+
+// One line per test, followed by the output and traceback of the failed ones and a summary
+export function formatResults(results: Array<TestResult>): string {
+  const lines = results.map((r) => `${r.passed ? "PASS" : "FAIL"} ${r.name}`);
+  results
+    .filter((r) => !r.passed)
+    .forEach((r) => {
+      lines.push("", `==== ${r.name} ====`, ...r.output);
+      if (r.traceback !== "") lines.push(r.traceback.trimEnd());
+      lines.push(`${r.error.name}: ${r.error.message}`);
+    });
+  const failed = results.filter((r) => !r.passed).length;
+  lines.push("", `${results.length - failed} passed, ${failed} failed`);
+  return lines.join("\n");
+}
@@ -0,0 +1,227 @@
+import { assert, assertPrint, assertTC, assertTCFail } from "./utils.test";
+import { PyInt, NUM, STRING, LIST } from "../utils";
+
+describe("Keyword and variadic argument tests", () => {
+  assert(
+    "keyword arguments in any order",
+    `
+  def f(a: int, b: int) -> int:
+    return a * 10 + b
+  f(b=2, a=1)`,
+    PyInt(12)
+  );
+
+  assertPrint(
+    "keywords skip defaults",
+    `
+  def f(a: int, b: int = 2, c: int = 3) -> int:
+    return a * 100 + b * 10 + c
+  print(f(1, c=5))
+  print(f(a=4))`,
+    ["125", "423"]
+  );
+
+  assertPrint(
+    "keyword-only parameters",
+    `
+  def f(x: int, *, y: int, z: int = 0) -> int:
+    return x * 100 + y * 10 + z
+  print(f(1, y=2))
+  print(f(z=3, y=2, x=1))`,
+    ["120", "123"]
+  );
+
+  assertPrint(
+    "*args collects the extra positional arguments",
+    `
+  def f(first: int, *rest: int) -> int:
+    if len(rest) == 0:
+      return first
+    else:
+      return first + rest[len(rest) - 1] * len(rest)
+  print(f(1))
+  print(f(1, 5, 6, 7))`,
+    ["1", "22"]
+  );
+
+  assertPrint(
+    "parameters after *args are keyword-only",
+    `
+  def f(*xs: str, sep: str = "-") -> str:
+    return sep.join([xs[0], xs[1]])
+  print(f("a", "b"))
+  print(f("a", "b", sep="+"))`,
+    ["a-b", "a+b"]
+  );
+
+  assertPrint(
+    "**kwargs collects the extra keyword arguments",
+    `
+  def f(a: int, **kw: int) -> int:
+    if "bonus" in kw:
+      return a + kw["bonus"]
+    else:
+      return a
+  print(f(1))
+  print(f(1, bonus=10))
+  print(f(bonus=20, a=2))`,
+    ["1", "11", "22"]
+  );
+
+  assertPrint(
+    "keywords for constructors and methods",
+    `
+  class Point(object):
+    x: int = 0
+    y: int = 0
+    def __init__(self: Point, x: int, y: int = 5):
+      self.x = x
+      self.y = y
+    def moved(self: Point, *, dx: int = 0, dy: int = 0) -> Point:
+      return Point(self.x + dx, y=self.y + dy)
+  p: Point = None
+  p = Point(y=2, x=1)
+  print(p.y)
+  print(Point(3).y)
+  print(p.moved(dy=10).y)`,
+    ["2", "5", "12"]
+  );
+
+  assertPrint(
+    "arguments run in the order they were written",
+    `
+  def show(x: int) -> int:
+    print(x)
+    return x
+  def f(a: int, b: int, **kw: int) -> int:
+    return a * 10 + b
+  class C(object):
+    def g(self: C, a: int, b: int) -> int:
+      return a * 10 + b
+  print(f(b=show(2), a=show(1), c=show(3)))
+  print(C().g(b=show(4), a=show(5)))`,
+    ["2", "1", "3", "12", "4", "5", "54"]
+  );
+
+  assertPrint(
+    "arguments packed into *args run in the order they were written",
+    `
+  def show(x: int) -> int:
+    print(x)
+    return x
+  def f(*xs: int, k: int = 0) -> int:
+    return len(xs)
+  print(f(show(1), show(2), show(3), k=show(4)))
+  print(f(show(5), show(6)))`,
+    ["1", "2", "3", "4", "3", "5", "6", "2"]
+  );
+
+  assertPrint(
+    "starred parameters are not rewritten in strings",
+    `
+  print("def f(*a: int, **k: int)")`,
+    ["def f(*a: int, **k: int)"]
+  );
+
+  assertPrint(
+    "a default string holding a paren before *args",
+    `
+  def f(s: str = ")", *a: int, **k: int) -> str:
+    return s
+  print(f())`,
+    [")"]
+  );
+
+  assert(
+    "*args in a method",
+    `
+  class C(object):
+    def count(self: C, *xs: int) -> int:
+      return len(xs)
+  C().count(1, 2, 3)`,
+    PyInt(3)
+  );
+
+  assertTC(
+    "*args is a list",
+    `
+  def f(*xs: str) -> [str]:
+    return xs
+  f("a")`,
+    LIST(STRING)
+  );
+
+  assertTC(
+    "**kwargs is a dict from names",
+    `
+  def f(**kw: int) -> [str, int]:
+    return kw
+  f(a=1)`,
+    { tag: "dict", key: STRING, value: NUM }
+  );
+
+  assertTCFail(
+    "unexpected keyword argument",
+    `
+  def f(a: int) -> int:
+    return a
+  f(b=1)`
+  );
+
+  assertTCFail(
+    "argument passed twice",
+    `
+  def f(a: int) -> int:
+    return a
+  f(1, a=2)`
+  );
+
+  assertTCFail(
+    "missing argument",
+    `
+  def f(a: int, b: int) -> int:
+    return a
+  f(b=1)`
+  );
+
+  assertTCFail(
+    "keyword argument of the wrong type",
+    `
+  def f(a: int) -> int:
+    return a
+  f(a=True)`
+  );
+
+  assertTCFail(
+    "keyword-only parameter passed by position",
+    `
+  def f(*, a: int) -> int:
+    return a
+  f(1)`
+  );
+
+  assertTCFail(
+    "extra argument of the wrong type for *args",
+    `
+  def f(*xs: int) -> int:
+    return 0
+  f(1, "a")`
+  );
+
+  assertTCFail("keywords on a builtin", `print(1, end="")`);
+
+  assertTCFail(
+    "*args without a type",
+    `
+  def f(*xs) -> int:
+    return 0`
+  );
+
+  assertTCFail(
+    "positional argument after a keyword argument",
+    `
+  def f(a: int, b: int) -> int:
+    return a
+  f(a=1, 2)`
+  );
+});
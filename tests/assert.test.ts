@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { assert, assertFail, assertPrint, assertTCFail } from "./utils.test";
+import { PyInt } from "../utils";
+import { discoverTests, formatResults, runTests } from "../testrunner";
+
+describe("Assert statement tests", () => {
+  assert("condition that holds", `assert 1 < 2\n  5`, PyInt(5));
+
+  assertFail("condition that fails", `assert 1 > 2`);
+
+  assertPrint(
+    "message of a failed assertion",
+    `
+  def check(n: int) -> int:
+    assert n > 0, "not positive"
+    return n
+  try:
+    check(-1)
+  except AssertionError as e:
+    print(e.message)
+  print(check(3))`,
+    ["not positive", "3"]
+  );
+
+  assertPrint(
+    "message is only evaluated when the assertion fails",
+    `
+  def msg() -> str:
+    print("evaluated")
+    return "m"
+  assert True, msg()
+  print("done")`,
+    ["done"]
+  );
+
+  assertPrint(
+    "AssertionError is an Exception",
+    `
+  try:
+    assert False
+  except Exception:
+    print("caught")`,
+    ["caught"]
+  );
+
+  assertTCFail("condition that is not a bool", `assert 1`);
+
+  assertTCFail("message that is not a string", `assert True, 1`);
+});
+
+const TESTS = `
+total: int = 0
+def add(a: int, b: int) -> int:
+  return a + b
+def test_add():
+  global total
+  total = total + 1
+  assert add(2, 2) == 4
+  assert total == 1, "state leaked between tests"
+def test_broken():
+  global total
+  total = total + 1
+  print("about to fail")
+  assert add(2, 2) == 5, "2 + 2 is not 5"
+def test_crash():
+  print(1 // 0)
+def helper(n: int):
+  pass
+def test_takes_an_argument(n: int):
+  pass`;
+
+describe("Test runner tests", () => {
+  it("discovers the test functions", () => {
+    expect(discoverTests(TESTS)).to.deep.eq(["test_add", "test_broken", "test_crash"]);
+  });
+
+  it("runs each test in isolation", async () => {
+    const results = await runTests(TESTS);
+    expect(results.map((r) => [r.name, r.passed])).to.deep.eq([
+      ["test_add", true],
+      ["test_broken", false],
+      ["test_crash", false],
+    ]);
+    expect(results[1].error.name).to.eq("AssertionError");
+    expect(results[1].error.message).to.eq("2 + 2 is not 5");
+    expect(results[1].output).to.deep.eq(["about to fail"]);
+    expect(results[1].traceback).to.contain('----> 14\t  assert add(2, 2) == 5, "2 + 2 is not 5"');
+    expect(results[2].error.name).to.eq("ZeroDivisionError");
+  });
+
+  it("reports the results", async () => {
+    const report = formatResults(await runTests(TESTS));
+    expect(report).to.match(/^PASS test_add\nFAIL test_broken\nFAIL test_crash\n/);
+    expect(report).to.contain("AssertionError: 2 + 2 is not 5");
+    expect(report).to.match(/1 passed, 2 failed$/);
+  });
+
+  it("throws type errors before running the tests", async () => {
+    try {
+      await runTests(`def test_bad():\n  assert 1`);
+    } catch (err) {
+      expect(err.name).to.eq("ConditionTypeError");
+      return;
+    }
+    expect.fail("Expected an exception");
+  });
+});
@@ -162,4 +162,18 @@ describe("Closures group's test cases on the proposal", () => {
   f(10)()
   `;
   assert("10. An escaping function calls its non-escaping sibling", src, PyInt(11));
+
+  src = `
+  def f(x:int) -> int:
+    def g() -> int:
+      l: [int] = None
+      d: [str, int] = None
+      l = [x, x + 1]
+      d = {"x": x}
+      return max(l[1], d["x"])
+    return g()
+
+  f(4)
+  `;
+  assert("11. List and dict literals and builtin calls in a nested function", src, PyInt(5));
 });
@@ -0,0 +1,60 @@
+import "mocha";
+import { expect } from "chai";
+import { BasicREPL } from "../repl";
+import { compileProgram, instantiate } from "../runner";
+import { importObject } from "./import-object.test";
+import "./utils.test"; // resets the memory and output before each test
+import { NUM, PyInt } from "../utils";
+
+describe("compileProgram / instantiate tests", () => {
+  it("exposes every stage of the compilation", async () => {
+    const repl = new BasicREPL(importObject);
+    const program = await compileProgram(
+      `
+  x: int = 1
+  x + 2`,
+      repl.config()
+    );
+    expect(program.ast.inits[0].name).to.eq("x");
+    expect(program.typedAst.a[0]).to.deep.eq(NUM);
+    expect(program.resultType).to.deep.eq(NUM);
+    expect(program.wasmSource).to.contain(`(export "exported_func" (func $$exported_func))`);
+    // every binary module starts with the "\0asm" magic number
+    expect(Array.from(program.binary.slice(0, 4))).to.deep.eq([0, 97, 115, 109]);
+    expect(program.newTypeEnv.globals.get("x")).to.deep.eq(NUM);
+    expect(program.newEnv.globals.has("x")).to.eq(true);
+  });
+
+  it("instantiates a program more than once", async () => {
+    const repl = new BasicREPL(importObject);
+    const config = repl.config();
+    const program = await compileProgram(
+      `
+  print(5)
+  6 * 7`,
+      config
+    );
+    expect(await instantiate(program, config)).to.deep.eq(PyInt(42));
+    expect(await instantiate(program, config)).to.deep.eq(PyInt(42));
+    expect(importObject.output).to.eq("5\n5\n");
+  });
+
+  it("leaves the REPL environments alone when compiling", async () => {
+    const repl = new BasicREPL(importObject);
+    await repl.compile(`y: int = 3`);
+    expect(repl.currentTypeEnv.globals.has("y")).to.eq(false);
+  });
+
+  it("compiles repeatedly without registering sources or allocating static storage", async () => {
+    const repl = new BasicREPL(importObject);
+    const staticEnd = repl.memoryManager.staticAllocator.counter;
+    // more globals than the static storage holds, were they allocated
+    for (let i = 0; i < 100; i++) {
+      await repl.compile(`y: int = ${i}\nz: [int] = None`);
+    }
+    expect(repl.errorManager.sources).to.deep.eq([]);
+    expect(repl.memoryManager.staticAllocator.counter).to.eq(staticEnd);
+    expect(await repl.run(`y: int = 3\ny`)).to.deep.eq(PyInt(3));
+    expect(repl.errorManager.sources).to.deep.eq([`y: int = 3\ny`]);
+  });
+});
@@ -0,0 +1,116 @@
+import { assert, assertPrint, assertTC, assertTCFail } from "./utils.test";
+import { PyInt, NUM, BOOL, LIST, SET } from "../utils";
+
+describe("Comprehension tests", () => {
+  assertPrint(
+    "list comprehension over a range",
+    `
+  xs: [int] = None
+  xs = [i * i for i in range(5)]
+  print(len(xs))
+  print(xs[0])
+  print(xs[4])`,
+    ["5", "0", "16"]
+  );
+
+  assertPrint(
+    "range counting down",
+    `
+  xs: [int] = None
+  xs = [k for k in range(5, 0, -2)]
+  print(len(xs))
+  print(xs[2])`,
+    ["3", "1"]
+  );
+
+  assertPrint(
+    "conditions skip elements",
+    `
+  xs: [int] = None
+  xs = [i for i in range(20) if i % 2 == 0 if i % 3 == 0]
+  print(len(xs))
+  print(xs[1])
+  print(xs[3])`,
+    ["4", "6", "18"]
+  );
+
+  assertPrint(
+    "several for clauses",
+    `
+  xs: [int] = None
+  ys: [int] = None
+  xs = [1, 2, 3]
+  ys = [x * 10 + y for x in xs for y in range(x) if y != 1]
+  print(len(ys))
+  print(ys[0])
+  print(ys[1])
+  print(ys[3])`,
+    ["4", "10", "20", "32"]
+  );
+
+  assertPrint(
+    "set comprehension drops duplicates",
+    `
+  s: set[int] = None
+  s = {x % 3 for x in [1, 2, 3, 4, 5, 6, 7]}
+  print(s)`,
+    ["{0, 1, 2}"]
+  );
+
+  assertPrint(
+    "dict comprehension over a set",
+    `
+  d: [int, bool] = None
+  d = {x: x > 2 for x in {1, 2, 3}}
+  print(d[1])
+  print(d[3])
+  print(4 in d)`,
+    ["False", "True", "False"]
+  );
+
+  assertPrint(
+    "grows past the initial list size",
+    `
+  xs: [int] = None
+  xs = [i for i in range(50)]
+  print(len(xs))
+  print(xs[49])`,
+    ["50", "49"]
+  );
+
+  assertPrint(
+    "comprehension variables do not leak",
+    `
+  x: int = 7
+  xs: [int] = None
+  xs = [x + 1 for x in range(3)]
+  print(x)
+  print(xs[2])`,
+    ["7", "3"]
+  );
+
+  assert(
+    "inside a function",
+    `
+  def total(n: int, ks: [int]) -> int:
+    xs: [int] = None
+    xs = [n * k for k in ks if k > 0]
+    return xs[0] + xs[2]
+  total(4, [0, 1, 2, 3])`,
+    PyInt(16)
+  );
+
+  assertTC("list comprehension type", `[x > 1 for x in range(3)]`, LIST(BOOL));
+
+  assertTC("set comprehension type", `{x for x in [1, 2]}`, SET(NUM));
+
+  assertTC("dict comprehension type", `{x: x > 1 for x in range(3)}`, {
+    tag: "dict",
+    key: NUM,
+    value: BOOL,
+  });
+
+  assertTCFail("condition that is not a bool", `[x for x in range(3) if x]`);
+
+  assertTCFail("iterating over an int", `[x for x in 5]`);
+});
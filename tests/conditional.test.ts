@@ -0,0 +1,105 @@
+import { assert, assertPrint, assertTC, assertTCFail } from "./utils.test";
+import { PyInt, PyBool, PyFloat, BOOL, FLOAT, CLASS } from "../utils";
+
+const CLASSES = `
+  class A(object):
+    v: int = 1
+  class B(A):
+    pass
+  class C(A):
+    pass`;
+
+describe("Conditional expression tests", () => {
+  assert("true branch", `1 if True else 2`, PyInt(1));
+
+  assert("false branch", `1 if 1 > 2 else 2`, PyInt(2));
+
+  assertPrint(
+    "only the taken branch is evaluated",
+    `
+  def f(n: int) -> int:
+    print(n)
+    return n
+  f(1) if f(0) == 0 else f(2)`,
+    ["0", "1"]
+  );
+
+  assert("int branch joined to a float", `3 if True else 0.5`, PyFloat(3));
+
+  assertPrint(
+    "objects of sibling classes",
+    `${CLASSES}
+  a: A = None
+  a = B() if a is None else C()
+  print(a.v)`,
+    ["1"]
+  );
+
+  assertTC("type of sibling classes", `${CLASSES}\n  B() if True else C()`, CLASS("A"));
+
+  assertTC("type of None and an object", `${CLASSES}\n  None if True else B()`, CLASS("B"));
+
+  assertTC("type of an int and a float", `1 if True else 2.0`, FLOAT);
+
+  assertTCFail("condition that is not a bool", `1 if 2 else 3`);
+
+  assertTCFail("branches without a common type", `1 if True else "a"`);
+
+  assertTCFail(
+    "float assigned to an int",
+    `
+  x: int = 0
+  x = 1 if True else 2.0`
+  );
+});
+
+describe("Chained comparison tests", () => {
+  assert("all true", `0 <= 3 < 10`, PyBool(true));
+
+  assert("last false", `0 <= 3 < 2`, PyBool(false));
+
+  assertPrint(
+    "middle operands are evaluated once",
+    `
+  def f(n: int) -> int:
+    print(n)
+    return n
+  print(f(1) < f(2) <= f(2) != f(7))`,
+    ["1", "2", "2", "7", "True"]
+  );
+
+  assertPrint(
+    "stops at the first false comparison",
+    `
+  def f(n: int) -> int:
+    print(n)
+    return n
+  print(1 < f(5) < 4 < f(100))`,
+    ["5", "False"]
+  );
+
+  assertPrint(
+    "in a function",
+    `
+  def between(lo: int, x: int, hi: int) -> bool:
+    return lo <= x < hi
+  print(between(1, 5, 10))
+  print(between(1, 10, 10))`,
+    ["True", "False"]
+  );
+
+  assert("parenthesized comparison is an operand", `(1 < 2) == True`, PyBool(true));
+
+  assertTC("type", `1 < 2 < 3`, BOOL);
+
+  assertTCFail("operands of the wrong type", `1 < "a" < 2`);
+
+  assertTCFail(
+    "comparison that is not a bool",
+    `
+  class V(object):
+    def __lt__(self: V, o: int) -> int:
+      return o
+  V() < 1 < 2`
+  );
+});
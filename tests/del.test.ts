@@ -0,0 +1,261 @@
+import { assert, assertFail, assertPrint, assertTCError } from "./utils.test";
+import { PyInt } from "../utils";
+
+describe("del statement tests", () => {
+  assertPrint(
+    "element of a list",
+    `
+  xs: [int] = None
+  xs = [1, 2, 3, 4]
+  del xs[1]
+  print(len(xs))
+  print(xs[0])
+  print(xs[1])
+  print(xs[2])`,
+    ["3", "1", "3", "4"]
+  );
+
+  assertPrint(
+    "negative index counts from the end",
+    `
+  xs: [int] = None
+  xs = [1, 2, 3, 4]
+  del xs[-1]
+  xs.append(5)
+  print(len(xs))
+  print(xs[3])`,
+    ["4", "5"]
+  );
+
+  assertPrint(
+    "slice of a list",
+    `
+  xs: [int] = None
+  xs = [1, 2, 3, 4, 5, 6]
+  del xs[1:3]
+  print(len(xs))
+  print(xs[1])
+  del xs[2:]
+  print(len(xs))
+  del xs[:-1]
+  print(len(xs))
+  print(xs[0])`,
+    ["4", "4", "2", "1", "4"]
+  );
+
+  assert(
+    "empty and out of range slices",
+    `
+  xs: [int] = None
+  xs = [1, 2, 3]
+  del xs[2:1]
+  del xs[10:20]
+  del xs[-10:1]
+  len(xs)`,
+    PyInt(2)
+  );
+
+  assertPrint(
+    "several targets",
+    `
+  xs: [int] = None
+  d: [int, int] = None
+  xs = [1, 2, 3]
+  d = {1: 1, 2: 2}
+  del xs[0], d[1]
+  print(len(xs))
+  print(1 in d)`,
+    ["2", "False"]
+  );
+
+  assertPrint(
+    "index out of range",
+    `
+  xs: [int] = None
+  xs = [1, 2]
+  try:
+    del xs[2]
+  except IndexError:
+    print("IndexError")
+  print(len(xs))`,
+    ["IndexError", "2"]
+  );
+
+  assertPrint(
+    "entry of a dict",
+    `
+  d: [int, int] = None
+  d = {1: 10, 11: 110, 21: 210}
+  del d[11]
+  print(11 in d)
+  print(d.get(11, 0))
+  print(d[1] + d[21])`,
+    ["False", "0", "220"]
+  );
+
+  assertPrint(
+    "deleted key is set again",
+    `
+  d: [str, int] = None
+  d = {"a": 1, "b": 2}
+  del d["a"]
+  d["a"] = 3
+  print(d["a"])
+  print(d.pop("a"))
+  print("a" in d)`,
+    ["3", "3", "False"]
+  );
+
+  assertPrint(
+    "pop keys that share a bucket",
+    `
+  d: [int, int] = None
+  d = {1: 10, 11: 110, 21: 210}
+  print(d.pop(11))
+  print(d.pop(1))
+  print(11 in d)
+  print(d[21])`,
+    ["110", "10", "False", "210"]
+  );
+
+  assertPrint(
+    "pop a missing key",
+    `
+  d: [int, int] = None
+  d = {1: 10, 11: 110}
+  print(d.pop(11))
+  try:
+    d.pop(11)
+  except KeyError as e:
+    print(e)
+  try:
+    d.pop(2)
+  except KeyError as e:
+    print(e)
+  print(d[1])`,
+    ["110", "11", "2", "10"]
+  );
+
+  assertFail(
+    "missing key",
+    `
+  d: [int, int] = None
+  d = {1: 10}
+  del d[1]
+  del d[1]`
+  );
+
+  assertPrint(
+    "KeyError holds the missing key",
+    `
+  d: [str, int] = None
+  d = {"a": 1}
+  try:
+    del d["b"]
+  except KeyError as e:
+    print(e)`,
+    ["'b'"]
+  );
+
+  assertPrint(
+    "local variable assigned again",
+    `
+  def f(x: int) -> int:
+    del x
+    x = 2
+    return x
+  print(f(1))`,
+    ["2"]
+  );
+
+  assertPrint(
+    "local variable deleted in a loop",
+    `
+  def f(n: int) -> int:
+    i: int = 0
+    total: int = 0
+    while i < n:
+      total = total + i
+      del total
+      total = i
+      i = i + 1
+    return total
+  print(f(4))`,
+    ["3"]
+  );
+
+  // Limitation: Python raises an UnboundLocalError when a deleted local is read, at runtime.
+  // Here locals have no unbound state, so the type checker rejects every read, and every `del`,
+  // of a local that a `del` may have deleted on some path, even one the program never takes.
+  assertTCError(
+    "local variable read after it is deleted",
+    `
+  def f(x: int) -> int:
+    del x
+    return x`,
+    "CompileError"
+  );
+
+  assertTCError(
+    "local variable deleted in a branch",
+    `
+  def f(x: int) -> int:
+    if x > 0:
+      del x
+    else:
+      pass
+    return x`,
+    "CompileError"
+  );
+
+  assertTCError(
+    "local variable deleted later in a loop",
+    `
+  def f(x: int):
+    while True:
+      print(x)
+      del x`,
+    "CompileError"
+  );
+
+  assertTCError(
+    "local variable deleted twice",
+    `
+  def f(x: int):
+    del x
+    del x`,
+    "CompileError"
+  );
+
+  assertTCError(
+    "local variable read on a path that never follows its del",
+    `
+  def f(c: bool):
+    x: int = 1
+    if c:
+      del x
+    else:
+      pass
+    if not c:
+      print(x)
+    else:
+      pass`,
+    "CompileError"
+  );
+
+  assertTCError("global variable", `x: int = 0\n  del x`, "CompileError");
+
+  assertTCError(
+    "variable of an enclosing function",
+    `
+  def f(x: int):
+    def g():
+      del x
+    g()`,
+    "CompileError"
+  );
+
+  assertTCError("item of a string", `del "abc"[0]`, "TypeError");
+
+  assertTCError("slice with a step", `xs: [int] = None\n  del xs[::2]`, "CompileError");
+});
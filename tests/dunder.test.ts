@@ -0,0 +1,174 @@
+import { assert, assertFail, assertPrint, assertTC, assertTCFail } from "./utils.test";
+import { PyInt, PyBool, NUM, BOOL, CLASS } from "../utils";
+
+const VECTOR = `
+  class Vec(object):
+    x: int = 0
+    y: int = 0
+    def __init__(self: Vec, x: int, y: int):
+      self.x = x
+      self.y = y
+    def __add__(self: Vec, o: Vec) -> Vec:
+      return Vec(self.x + o.x, self.y + o.y)
+    def __sub__(self: Vec, o: Vec) -> Vec:
+      return Vec(self.x - o.x, self.y - o.y)
+    def __mul__(self: Vec, k: int) -> Vec:
+      return Vec(self.x * k, self.y * k)
+    def __neg__(self: Vec) -> Vec:
+      return Vec(-self.x, -self.y)
+    def __eq__(self: Vec, o: Vec) -> bool:
+      return self.x == o.x and self.y == o.y
+    def __lt__(self: Vec, o: Vec) -> bool:
+      return self.x * self.x + self.y * self.y < o.x * o.x + o.y * o.y
+    def __len__(self: Vec) -> int:
+      return 2
+    def __getitem__(self: Vec, i: int) -> int:
+      if i == 0:
+        return self.x
+      else:
+        return self.y
+    def __setitem__(self: Vec, i: int, v: int):
+      if i == 0:
+        self.x = v
+      else:
+        self.y = v
+    def __contains__(self: Vec, v: int) -> bool:
+      return self.x == v or self.y == v
+    def scale(self: Vec, k: int):
+      self[0] = self[0] * k
+      self[1] = self[1] * k
+  a: Vec = None
+  b: Vec = None
+  a = Vec(1, 2)
+  b = Vec(3, 4)`;
+
+describe("Operator overloading tests", () => {
+  assertPrint(
+    "arithmetic operators",
+    `${VECTOR}
+  a = a + b * 2 - Vec(1, 1)
+  print(a.x)
+  print(a.y)
+  print((-a).y)`,
+    ["6", "9", "-9"]
+  );
+
+  assertPrint(
+    "comparisons",
+    `${VECTOR}
+  print(a == Vec(1, 2))
+  print(a == b)
+  print(a < b)
+  print(b < a)`,
+    ["True", "False", "True", "False"]
+  );
+
+  assertPrint(
+    "!= negates __eq__ without __ne__",
+    `${VECTOR}
+  print(a != Vec(1, 2))
+  print(a != b)`,
+    ["False", "True"]
+  );
+
+  assert("len", `${VECTOR}\n  len(a)`, PyInt(2));
+
+  assertPrint(
+    "indexing and item assignment",
+    `${VECTOR}
+  a[1] = 7
+  print(a[0])
+  print(a[1])
+  a.scale(3)
+  print(a[1])`,
+    ["1", "7", "21"]
+  );
+
+  assertPrint(
+    "in and not in",
+    `${VECTOR}
+  print(2 in a)
+  print(3 in a)
+  print(3 not in a)`,
+    ["True", "False", "True"]
+  );
+
+  assertPrint(
+    "operators call overridden methods",
+    `
+  class A(object):
+    v: int = 1
+    def __add__(self: A, o: int) -> int:
+      return self.v + o
+  class B(A):
+    def __add__(self: A, o: int) -> int:
+      return self.v * 100 + o
+  a: A = None
+  a = B()
+  print(a + 1)
+  print(A() + 1)`,
+    ["101", "2"]
+  );
+
+  assert(
+    "== without __eq__ compares identity",
+    `
+  class C(object):
+    pass
+  c: C = None
+  c = C()
+  c == C()`,
+    PyBool(false)
+  );
+
+  assertFail(
+    "operator on None",
+    `
+  class C(object):
+    def __add__(self: C, o: C) -> C:
+      return self
+  c: C = None
+  c + C()`
+  );
+
+  assertTC("operators take the return type of the method", `${VECTOR}\n  a + b`, CLASS("Vec"));
+
+  assertTC("indexing takes the return type of __getitem__", `${VECTOR}\n  a[0]`, NUM);
+
+  assertTC("in is a bool", `${VECTOR}\n  1 in a`, BOOL);
+
+  assertTCFail("operand of the wrong type", `${VECTOR}\n  a * b`);
+
+  assertTCFail("operator without a method", `${VECTOR}\n  a // b`);
+
+  assertTCFail("item of the wrong type", `${VECTOR}\n  a[0] = True`);
+
+  assertTCFail(
+    "item assignment without __setitem__",
+    `
+  class C(object):
+    def __getitem__(self: C, i: int) -> int:
+      return i
+  c: C = None
+  c = C()
+  c[0] = 1`
+  );
+
+  assertTCFail(
+    "__len__ that does not return an int",
+    `
+  class C(object):
+    def __len__(self: C) -> bool:
+      return True
+  len(C())`
+  );
+
+  assertTCFail(
+    "operator method with the wrong number of parameters",
+    `
+  class C(object):
+    def __add__(self: C) -> C:
+      return self
+  C() + C()`
+  );
+});
@@ -0,0 +1,347 @@
+import { assert, assertFail, assertPrint, assertTC, assertTCFail } from "./utils.test";
+import { PyInt, NONE } from "../utils";
+
+describe("Exception tests", () => {
+  assertPrint(
+    "raise and catch a builtin exception",
+    `
+  try:
+    raise ValueError("bad value")
+  except ValueError as e:
+    print(e.message)`,
+    ["bad value"]
+  );
+
+  assertPrint(
+    "handlers are tried in order and match subclasses",
+    `
+  try:
+    raise KeyError("k")
+  except IndexError:
+    print(1)
+  except LookupError:
+    print(2)
+  except Exception:
+    print(3)`,
+    ["2"]
+  );
+
+  assertPrint(
+    "else runs only without an exception, finally always runs",
+    `
+  try:
+    print(1)
+  except Exception:
+    print(2)
+  else:
+    print(3)
+  finally:
+    print(4)
+  try:
+    raise Exception()
+  except Exception:
+    print(5)
+  else:
+    print(6)
+  finally:
+    print(7)`,
+    ["1", "3", "4", "5", "7"]
+  );
+
+  assertPrint(
+    "catch a runtime index error",
+    `
+  l: [int] = None
+  l = [1, 2, 3]
+  try:
+    print(l[10])
+  except IndexError as e:
+    print(e.message)`,
+    ["list index out of range"]
+  );
+
+  assertPrint(
+    "catch a division by zero as an arithmetic error",
+    `
+  try:
+    print(1 // 0)
+  except ArithmeticError as e:
+    print(e.message)`,
+    ["division by zero"]
+  );
+
+  assert(
+    "catch an exception raised in a called function",
+    `
+  l: [int] = None
+  def get(i: int) -> int:
+    return l[i]
+  def safe_get(i: int) -> int:
+    try:
+      return get(i)
+    except LookupError:
+      return -1
+  l = [4, 5]
+  safe_get(1) * 10 + safe_get(7)`,
+    PyInt(49)
+  );
+
+  assertPrint(
+    "user exception class with an __init__",
+    `
+  class MyError(ValueError):
+    code: int = 0
+    def __init__(self: MyError, code: int):
+      self.code = code
+  def check(n: int):
+    if n > 2:
+      raise MyError(n)
+    else:
+      pass
+  try:
+    check(1)
+    check(5)
+  except ValueError:
+    print(1)
+  try:
+    check(9)
+  except MyError as m:
+    print(m.code)`,
+    ["1", "9"]
+  );
+
+  assertPrint(
+    "bare raise re-raises the caught exception",
+    `
+  try:
+    try:
+      raise IndexError("inner")
+    except IndexError:
+      print(1)
+      raise
+  except Exception as e:
+    print(e.message)`,
+    ["1", "inner"]
+  );
+
+  assertPrint(
+    "finally runs before the exception propagates",
+    `
+  try:
+    try:
+      raise KeyError("k")
+    finally:
+      print(1)
+  except KeyError:
+    print(2)`,
+    ["1", "2"]
+  );
+
+  assertPrint(
+    "break and continue inside try",
+    `
+  i: int = 0
+  while i < 10:
+    try:
+      i = i + 1
+      if i == 2:
+        continue
+      else:
+        pass
+      if i == 4:
+        break
+      else:
+        pass
+      print(i)
+    except Exception:
+      print(0)`,
+    ["1", "3"]
+  );
+
+  assertPrint(
+    "caught runtime errors and bare assertions have a message string",
+    `
+  try:
+    print({1: 2}[3])
+  except KeyError as e:
+    print(len(e.message))
+  try:
+    assert False
+  except AssertionError as e:
+    print(len(e.message))`,
+    ["1", "0"]
+  );
+
+  assertPrint(
+    "each handler binds the name to the class it catches",
+    `
+  class E1(Exception):
+    a: int = 1
+  class E2(Exception):
+    b: int = 2
+  def f(n: int):
+    try:
+      if n == 1:
+        raise E1()
+      else:
+        raise E2()
+    except E1 as e:
+      print(e.a)
+    except E2 as e:
+      print(e.b)
+  try:
+    raise E2()
+  except E1 as e:
+    print(e.a)
+  except E2 as e:
+    print(e.b)
+  f(1)
+  f(2)`,
+    ["2", "1", "2"]
+  );
+
+  assertPrint(
+    "return runs the finally blocks it leaves",
+    `
+  def f(n: int) -> int:
+    try:
+      if n > 0:
+        return n
+      else:
+        return -n
+    finally:
+      print("finally")
+    return 0
+  def g() -> [int]:
+    xs: [int] = None
+    try:
+      try:
+        xs = [1, 2]
+        return xs
+      finally:
+        print("inner")
+    finally:
+      print("outer")
+    return None
+  print(f(3))
+  print(len(g()))`,
+    ["finally", "3", "inner", "outer", "2"]
+  );
+
+  assertPrint(
+    "return from a handler runs the finally block",
+    `
+  def h() -> int:
+    try:
+      raise ValueError("x")
+    except ValueError:
+      return 5
+    finally:
+      print("h")
+    return 0
+  print(h())`,
+    ["h", "5"]
+  );
+
+  assertPrint(
+    "an exception raised by the finally block replaces the return",
+    `
+  def k() -> int:
+    try:
+      return 1
+    finally:
+      raise KeyError("override")
+    return 0
+  try:
+    print(k())
+  except KeyError as e:
+    print(e.message)`,
+    ["override"]
+  );
+
+  assertPrint(
+    "break and continue run the finally blocks they leave",
+    `
+  i: int = 0
+  while i < 5:
+    i = i + 1
+    try:
+      try:
+        if i == 3:
+          break
+        else:
+          pass
+        print(i)
+        continue
+      finally:
+        print("a")
+    finally:
+      print("b")
+    print("unreachable")
+  print(i)`,
+    ["1", "a", "b", "2", "a", "b", "a", "b", "3"]
+  );
+
+  assertPrint(
+    "returned objects survive a collection in the finally block",
+    `
+  def f() -> [int]:
+    try:
+      return [1, 2, 3]
+    finally:
+      print(len([4, 5]))
+  xs: [int] = None
+  xs = f()
+  print(xs[2])`,
+    ["2", "3"]
+  );
+
+  assertFail(
+    "an exception that is not handled fails",
+    `
+  try:
+    raise KeyError("k")
+  except IndexError:
+    pass`
+  );
+
+  assertFail("an uncaught raise fails", `raise Exception("oops")`);
+
+  assertTC("raise has type none", `raise ValueError("x")`, NONE);
+
+  assertTCFail("raise a value that is not an exception", `raise 5`);
+
+  assertTCFail(
+    "except a class that is not an exception",
+    `
+  class C(object):
+    x: int = 0
+  try:
+    pass
+  except C:
+    pass`
+  );
+
+  assertTCFail(
+    "return out of a finally block",
+    `
+  def f() -> int:
+    try:
+      pass
+    finally:
+      return 1
+    return 0`
+  );
+
+  assertTCFail(
+    "break out of a finally block",
+    `
+  while True:
+    try:
+      pass
+    finally:
+      break`
+  );
+
+  assertTCFail("bare raise outside an except clause", `raise`);
+});
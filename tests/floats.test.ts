@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import { assert, assertFail, assertPrint, assertTC, assertTCFail } from "./utils.test";
+import { PyInt, PyFloat, PyBool, NUM, FLOAT, floatToString } from "../utils";
+
+describe("Float tests", () => {
+  assert("literal", `2.5`, PyFloat(2.5));
+
+  assert("true division of ints", `7 / 2`, PyFloat(3.5));
+
+  assert("mixed arithmetic", `1 + 2.5 * 2 - 0.5`, PyFloat(5.5));
+
+  assert("floor division", `7.5 // 2`, PyFloat(3));
+
+  assert("modulo takes the sign of the divisor", `-7.5 % 2`, PyFloat(0.5));
+
+  assert("negation", `-(1.5)`, PyFloat(-1.5));
+
+  assert("mixed comparison", `1 < 1.5`, PyBool(true));
+
+  assert("mixed equality", `2 == 2.0`, PyBool(true));
+
+  assert("int() truncates", `int(-3.99)`, PyInt(-3));
+
+  assert("floor and ceil", `floor(-2.5) * 10 + ceil(2.5)`, PyInt(-27));
+
+  assert("int() of a large float", `int(1e20) // 10000000000`, PyInt(10000000000));
+
+  assert("math functions", `sqrt(16) + sin(0.0) + cos(0.0) + log(1.0)`, PyFloat(5));
+
+  assertPrint(
+    "a program's own functions shadow the math functions",
+    `
+  def log(msg: str):
+    print(msg)
+  def floor(x: int, y: int) -> int:
+    return x - y
+  log("hi")
+  print(floor(5, 2))
+  print(sqrt(4.0))`,
+    ["hi", "3", "2.0"]
+  );
+
+  assert(
+    "abs, max, min and pow",
+    `abs(-2.5) + max(1, 2.5) + min(1.0, 2) + pow(2, 0.5)`,
+    PyFloat(6 + Math.SQRT2)
+  );
+
+  assertPrint(
+    "print",
+    `
+  print(2.0)
+  print(0.1 + 0.2)
+  print(1e20)
+  print(1e-5)
+  print(float(3))`,
+    ["2.0", "0.30000000000000004", "1e+20", "1e-05", "3.0"]
+  );
+
+  assertPrint(
+    "variables, fields, parameters and lists",
+    `
+  class Circle(object):
+    r: float = 0.5
+    def area(self: Circle) -> float:
+      return 3.0 * self.r * self.r
+  def half(x: int) -> float:
+    return x / 2
+  xs: [float] = None
+  xs = [half(5), Circle().area()]
+  print(xs[0])
+  print(xs[1])`,
+    ["2.5", "0.75"]
+  );
+
+  assertPrint(
+    "many boxed floats",
+    `
+  s: float = 0.0
+  i: int = 0
+  while i < 10000:
+    s = s + 0.5
+    i = i + 1
+  print(s)`,
+    ["5000.0"]
+  );
+
+  assertFail("division by zero", `1 / 0`);
+
+  assertFail("floor division by zero", `1.5 // 0.0`);
+
+  assertFail("square root of a negative number", `sqrt(-1.0)`);
+
+  assertFail("logarithm of zero", `log(0)`);
+
+  assertFail("int() of infinity", `int(1e308 * 10.0)`);
+
+  assertTC("division is a float", `4 / 2`, FLOAT);
+
+  assertTC("int() is an int", `int(2.5)`, NUM);
+
+  assertTCFail(
+    "float assigned to an int",
+    `
+  x: int = 0
+  x = 2.5`
+  );
+
+  assertTCFail("int() of a string", `int("1")`);
+
+  assertTCFail("math function of a string", `sqrt("4")`);
+
+  assertTCFail("math function of two numbers", `sqrt(4.0, 2.0)`);
+
+  assertTCFail("division of a bool and a string", `True / "a"`);
+});
+
+describe("floatToString", () => {
+  it("prints Python float reprs", () => {
+    expect(floatToString(1)).to.equal("1.0");
+    expect(floatToString(-0.5)).to.equal("-0.5");
+    expect(floatToString(1e16)).to.equal("1e+16");
+    expect(floatToString(123456789012345.6)).to.equal("123456789012345.6");
+    expect(floatToString(0.0001)).to.equal("0.0001");
+    expect(floatToString(1.5e-7)).to.equal("1.5e-07");
+    expect(floatToString(Infinity)).to.equal("inf");
+    expect(floatToString(-Infinity)).to.equal("-inf");
+    expect(floatToString(NaN)).to.equal("nan");
+  });
+});
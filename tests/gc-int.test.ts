@@ -41,6 +41,8 @@ export function assertsUsage(name: string, pairs: Array<[string, Value, BigInt]>
   });
 }
 
+// NOTE: class instances take 4 bytes for their vtable index on top of their fields, and every
+// function defined at the top level keeps a 4-byte closure alive
 describe("GC-MnS Integration Tests", () => {
   assertUsage("Program 1", "2 + 3", PyInt(2 + 3), 0n);
 
@@ -58,7 +60,7 @@ describe("GC-MnS Integration Tests", () => {
    x.a = 21
    x.a`,
     PyInt(21),
-    8n
+    12n
   );
 
   assertUsage(
@@ -85,7 +87,7 @@ describe("GC-MnS Integration Tests", () => {
    d2.prev = d1
    d2.next = d0`,
     PyNone(),
-    36n
+    48n
   );
 
   assertUsage(
@@ -115,7 +117,7 @@ describe("GC-MnS Integration Tests", () => {
 
    test()`,
     PyNone(),
-    0n
+    4n
   );
 
   assertUsage(
@@ -134,7 +136,7 @@ describe("GC-MnS Integration Tests", () => {
     x.a = 21
     x.a`,
     PyInt(21),
-    8n
+    12n
   );
 
   assertsUsage("Program 6", [
@@ -147,7 +149,7 @@ describe("GC-MnS Integration Tests", () => {
       x = Foo()
       x.f = Foo()`,
       PyNone(),
-      8n,
+      16n,
     ],
     ["x = None", PyNone(), 0n],
   ]);
@@ -169,10 +171,10 @@ describe("GC-MnS Integration Tests", () => {
       PyNone(),
       // Taken from "list-expr" codegen in compiler.ts
       //   alloc size: (listBound + 3) * 4
-      // +16 for the two Foo's
-      16n + ((3n + 10n) * 2n + 3n) * 4n,
+      // +24 for the two Foo's
+      24n + ((3n + 10n) * 2n + 3n) * 4n,
     ],
-    ["x = None", PyNone(), 16n],
+    ["x = None", PyNone(), 24n],
   ]);
 
   assertsUsage("Program 8", [
@@ -191,9 +193,9 @@ describe("GC-MnS Integration Tests", () => {
       i()
       i()`,
       PyInt(2),
-      12n,
+      16n,
     ],
-    [`i = None`, PyNone(), 0n],
+    [`i = None`, PyNone(), 4n],
   ]);
 
   assertsUsage("Program 9", [
@@ -211,9 +213,9 @@ describe("GC-MnS Integration Tests", () => {
       o: Foo = None
       o = f(1337)`,
       PyNone(),
-      4n,
+      12n,
     ],
-    [`o = f(0)`, PyNone(), 4n],
+    [`o = f(0)`, PyNone(), 12n],
   ]);
 
   assertUsage(
@@ -244,6 +246,41 @@ describe("GC-MnS Integration Tests", () => {
     y.a
     `,
     PyInt(99),
-    4n
+    12n
+  );
+
+  // Hashtables take 40 bytes for their 10 buckets and 16 bytes per entry: its key, its value,
+  // the next entry of its bucket and its deleted flag. The element removed from the set is
+  // collected
+  assertUsage(
+    "Program 11",
+    `
+    s: set[int] = None
+    s = {1, 2, 3}
+    s.remove(2)
+    len(s)`,
+    PyInt(2),
+    72n
+  );
+
+  assertUsage(
+    "Program 12",
+    `
+    s: set[int] = None
+    s = {1, 2}
+    s = s | {4}
+    len(s)`,
+    PyInt(3),
+    88n
+  );
+
+  assertUsage(
+    "Program 13",
+    `
+    d: [int, int] = None
+    d = {1: 10, 2: 20}
+    d[2]`,
+    PyInt(20),
+    72n
   );
 });
@@ -0,0 +1,252 @@
+import { assert, assertFail, assertPrint, assertTC, assertTCFail } from "./utils.test";
+import { PyInt, NUM, GENERATOR } from "../utils";
+
+describe("Generator tests", () => {
+  assertPrint(
+    "next runs the body up to the next yield",
+    `
+  def count(n: int) -> Generator[int]:
+    i: int = 0
+    while i < n:
+      print(i * 100)
+      yield i
+      i = i + 1
+  g: Generator[int] = None
+  g = count(3)
+  print(next(g))
+  print(next(g))`,
+    ["0", "0", "100", "1"]
+  );
+
+  assertPrint(
+    "for loop over a generator",
+    `
+  def squares(n: int) -> Generator[int]:
+    i: int = 0
+    while i < n:
+      yield i * i
+      i = i + 1
+  x: int = 0
+  for x in squares(4):
+    print(x)`,
+    ["0", "1", "4", "9"]
+  );
+
+  assertPrint(
+    "several yields, in branches and nested loops",
+    `
+  def pairs(n: int) -> Generator[int]:
+    i: int = 0
+    j: int = 0
+    yield -1
+    while i < n:
+      j = 0
+      while j < i:
+        if j == 2:
+          break
+        else:
+          yield i * 10 + j
+        j = j + 1
+      i = i + 1
+    yield -2
+  x: int = 0
+  for x in pairs(4):
+    print(x)`,
+    ["-1", "10", "20", "21", "30", "31", "-2"]
+  );
+
+  assertPrint(
+    "yield inside a for loop over a set",
+    `
+  def bigger(s: set[int], m: int) -> Generator[bool]:
+    x: int = 0
+    for x in s:
+      yield x > m
+  b: bool = False
+  for b in bigger({1, 2, 3}, 1):
+    print(b)`,
+    ["False", "True", "True"]
+  );
+
+  assertPrint(
+    "return ends the generator",
+    `
+  def upto(n: int) -> Generator[int]:
+    k: int = 0
+    while True:
+      k = k + 1
+      if k > n:
+        return
+      else:
+        yield k
+  x: int = 0
+  for x in upto(2):
+    print(x)`,
+    ["1", "2"]
+  );
+
+  assert(
+    "generators are consumed by functions",
+    `
+  def countdown(n: int) -> Generator[int]:
+    while n > 0:
+      yield n
+      n = n - 1
+  def total(g: Generator[int]) -> int:
+    t: int = 0
+    v: int = 0
+    for v in g:
+      t = t + v
+    return t
+  total(countdown(10))`,
+    PyInt(55)
+  );
+
+  assertPrint(
+    "nested functions and nonlocal variables",
+    `
+  def running(k: int) -> Generator[int]:
+    sum: int = 0
+    def add(v: int) -> int:
+      nonlocal sum
+      sum = sum + v
+      return sum
+    while True:
+      yield add(k)
+  g: Generator[int] = None
+  g = running(3)
+  print(next(g))
+  print(next(g))
+  print(next(g))`,
+    ["3", "6", "9"]
+  );
+
+  assertPrint(
+    "break out of a for loop over a generator",
+    `
+  def naturals() -> Generator[int]:
+    n: int = 0
+    while True:
+      yield n
+      n = n + 1
+  x: int = 0
+  for x in naturals():
+    if x == 3:
+      break
+    else:
+      pass
+  print(x)`,
+    ["3"]
+  );
+
+  assertPrint(
+    "independent generators",
+    `
+  def letters(s: str) -> Generator[str]:
+    i: int = 0
+    while i < len(s):
+      yield s[i]
+      i = i + 1
+  a: Generator[str] = None
+  b: Generator[str] = None
+  a = letters("ab")
+  b = letters("xy")
+  print(next(a))
+  print(next(b))
+  print(next(a))
+  print(next(b))`,
+    ["a", "x", "b", "y"]
+  );
+
+  assertPrint(
+    "exhausted generators raise StopIteration",
+    `
+  def one() -> Generator[int]:
+    yield 1
+  g: Generator[int] = None
+  g = one()
+  print(next(g))
+  try:
+    next(g)
+  except StopIteration:
+    print("done")
+  try:
+    next(g)
+  except StopIteration:
+    print("still done")`,
+    ["1", "done", "still done"]
+  );
+
+  assertFail(
+    "next on an exhausted generator",
+    `
+  def none() -> Generator[int]:
+    if False:
+      yield 1
+    else:
+      pass
+  next(none())`
+  );
+
+  assertTC(
+    "calls return a generator",
+    `
+  def g() -> Generator[int]:
+    yield 1
+  g()`,
+    GENERATOR(NUM)
+  );
+
+  assertTC(
+    "next returns the yielded type",
+    `
+  def g() -> Generator[int]:
+    yield 1
+  next(g())`,
+    NUM
+  );
+
+  assertTCFail(
+    "yield of the wrong type",
+    `
+  def g() -> Generator[int]:
+    yield True`
+  );
+
+  assertTCFail(
+    "generator without a Generator return type",
+    `
+  def g() -> int:
+    yield 1`
+  );
+
+  assertTCFail(
+    "return with a value in a generator",
+    `
+  def g() -> Generator[int]:
+    yield 1
+    return 2`
+  );
+
+  assertTCFail("yield outside of a function", `yield 1`);
+
+  assertTCFail(
+    "yield inside try",
+    `
+  def g() -> Generator[int]:
+    try:
+      yield 1
+    except:
+      pass`
+  );
+
+  assertTCFail(
+    "generator methods",
+    `
+  class C(object):
+    def g(self: C) -> Generator[int]:
+      yield 1`
+  );
+
+  assertTCFail("next on a list", `next([1, 2])`);
+});
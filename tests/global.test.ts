@@ -0,0 +1,80 @@
+import { assert, asserts, assertTCFail } from "./utils.test";
+import { PyInt, PyNone } from "../utils";
+
+describe("Global declaration tests", () => {
+  assert(
+    "function mutates a global counter",
+    `
+  counter: int = 0
+  def inc() -> int:
+    global counter
+    counter = counter + 1
+    return counter
+  inc()
+  inc()
+  counter`,
+    PyInt(2)
+  );
+
+  assert(
+    "global declaration in a nested function skips the enclosing local",
+    `
+  x: int = 1
+  def outer() -> int:
+    x: int = 100
+    def inner():
+      global x
+      x = x + 10
+    inner()
+    return x
+  outer() + x`,
+    PyInt(111)
+  );
+
+  asserts("global declared in an earlier REPL entry", [
+    [`total: int = 5`, PyNone()],
+    [
+      `
+  def add(n: int):
+    global total
+    total = total + n
+  add(3)
+  total`,
+      PyInt(8),
+    ],
+  ]);
+
+  assertTCFail(
+    "global declaration of an undefined variable",
+    `
+  def f():
+    global y
+    y = 1`
+  );
+
+  assertTCFail(
+    "global declaration shadowing a parameter",
+    `
+  x: int = 0
+  def f(x: int):
+    global x
+    x = 1`
+  );
+
+  assertTCFail(
+    "assignment to a global without a declaration",
+    `
+  x: int = 0
+  def f():
+    x = 1`
+  );
+
+  assertTCFail(
+    "global assigned a value of the wrong type",
+    `
+  x: int = 0
+  def f():
+    global x
+    x = True`
+  );
+});
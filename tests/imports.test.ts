@@ -0,0 +1,237 @@
+import "mocha";
+import { expect } from "chai";
+import { BasicREPL } from "../repl";
+import { mapLoader } from "../modules";
+import { Value } from "../ast";
+import { PyInt, NUM, CLASS } from "../utils";
+import { importObject } from "./import-object.test";
+import "./utils.test"; // resets the memory and the output before every test
+
+const MODULES = new Map([
+  [
+    "shapes",
+    `
+import counter
+class Point(object):
+  x: int = 0
+  y: int = 0
+  def norm(self: Point) -> int:
+    return abs(self.x) + abs(self.y)
+def make(x: int, y: int) -> Point:
+  p: Point = None
+  counter.bump()
+  p = Point()
+  p.x = x
+  p.y = y
+  return p`,
+  ],
+  [
+    "counter",
+    `
+count: int = 0
+def bump() -> int:
+  global count
+  count = count + 1
+  return count
+print("counter loaded")`,
+  ],
+  [
+    "fails",
+    `
+def divide(n: int) -> int:
+  return 10 // n`,
+  ],
+  [
+    "settings",
+    `
+x: int = 5
+class C(object):
+  def get(self: C) -> int:
+    return x + 1
+def g():
+  global x
+  x = x + 1`,
+  ],
+  ["first", `import second`],
+  ["second", `import first`],
+]);
+
+function replWithModules(): BasicREPL {
+  const repl = new BasicREPL(importObject);
+  repl.modules = mapLoader(MODULES);
+  return repl;
+}
+
+function assertImport(name: string, source: string, expected: Value, output: Array<string>) {
+  it(name, async () => {
+    const result = await replWithModules().run(source);
+    expect(result).to.deep.eq(expected);
+    expect(importObject.output.trim().split("\n")).to.deep.eq(output);
+  });
+}
+
+function assertImportFail(name: string, source: string, error: string) {
+  it(name, async () => {
+    try {
+      await replWithModules().run(source);
+    } catch (err) {
+      expect(err.name).to.eq(error);
+      return;
+    }
+    expect.fail("Expected an exception");
+  });
+}
+
+describe("Import tests", () => {
+  assertImport(
+    "module and its names",
+    `
+import counter
+counter.bump()
+counter.bump()
+counter.count`,
+    PyInt(2),
+    ["counter loaded"]
+  );
+
+  assertImport(
+    "names imported with from",
+    `
+from shapes import Point, make as mk
+p: Point = None
+p = mk(3, -4)
+p.norm()`,
+    PyInt(7),
+    ["counter loaded"]
+  );
+
+  assertImport(
+    "module imported by two modules is loaded once",
+    `
+import shapes
+import counter as c
+shapes.make(1, 1)
+shapes.make(2, 2)
+c.count`,
+    PyInt(2),
+    ["counter loaded"]
+  );
+
+  assertImport(
+    "class of a module in a type",
+    `
+import shapes
+def origin() -> shapes.Point:
+  return shapes.Point()
+origin().norm()`,
+    PyInt(0),
+    ["counter loaded"]
+  );
+
+  assertImport(
+    "names of a module do not clash with the program's",
+    `
+import counter
+count: int = 10
+def bump() -> int:
+  return 0
+counter.bump()
+bump() + count + counter.count`,
+    PyInt(11),
+    ["counter loaded"]
+  );
+
+  assertImport(
+    "assign a variable of a module",
+    `
+import counter
+counter.count = 41
+counter.bump()`,
+    PyInt(42),
+    ["counter loaded"]
+  );
+
+  assertImport(
+    "assigning a variable imported with from leaves the module's",
+    `
+from settings import x, C
+x = 100
+C().get()`,
+    PyInt(6),
+    [""]
+  );
+
+  assertImport(
+    "variable imported with from is a copy",
+    `
+import settings
+from settings import x
+settings.g()
+print(settings.x)
+x`,
+    PyInt(5),
+    ["6"]
+  );
+
+  it("variable imported with from again in a later program", async () => {
+    const repl = replWithModules();
+    await repl.run(`from settings import x\nx = 100`);
+    await repl.run(`import settings\nsettings.g()`);
+    expect(await repl.run(`from settings import x\nx`)).to.deep.eq(PyInt(6));
+  });
+
+  assertImport(
+    "local variable named like a module",
+    `
+import counter
+def f(counter: [int]) -> int:
+  return len(counter)
+f([1, 2, 3])`,
+    PyInt(3),
+    ["counter loaded"]
+  );
+
+  it("imports stay bound in later programs", async () => {
+    const repl = replWithModules();
+    await repl.run(`import counter`);
+    await repl.run(`counter.bump()`);
+    expect(await repl.run(`counter.bump()`)).to.deep.eq(PyInt(2));
+    expect(importObject.output.trim().split("\n")).to.deep.eq(["counter loaded"]);
+  });
+
+  it("type of imported names", async () => {
+    const repl = replWithModules();
+    expect(await repl.tc(`from shapes import make\nmake(1, 2)`)).to.deep.eq(CLASS("shapes.Point"));
+    expect(await repl.tc(`import counter\ncounter.count`)).to.deep.eq(NUM);
+  });
+
+  it("tracebacks show the file of a module", async () => {
+    const repl = replWithModules();
+    try {
+      await repl.run(`import fails\nfails.divide(0)`);
+    } catch (err) {
+      expect(err.name).to.eq("ZeroDivisionError");
+      const traceback = repl.errorManager.stackToString(err.callStack);
+      expect(traceback).to.contain("at line 3 of file fails.py in fails.divide(0)");
+      expect(traceback).to.contain("----> 3\t  return 10 // n");
+      return;
+    }
+    expect.fail("Expected an exception");
+  });
+
+  assertImportFail("missing module", `import nowhere`, "ModuleNotFoundError");
+
+  assertImportFail("missing name", `from counter import reset`, "ImportError");
+
+  assertImportFail("circular import", `import first`, "ImportError");
+
+  assertImportFail("package", `import counter.sub`, "ParsingError");
+
+  assertImportFail(
+    "names of a module need the module's name",
+    `
+import counter
+bump()`,
+    "NameError"
+  );
+});
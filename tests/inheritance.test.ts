@@ -0,0 +1,181 @@
+import { assert, assertPrint, assertTC, assertTCFail } from "./utils.test";
+import { PyInt, CLASS, NUM } from "../utils";
+
+describe("Inheritance tests", () => {
+  const shapes = `
+  class Shape(object):
+    sides: int = 0
+    def area(self: Shape) -> int:
+      return 0
+    def describe(self: Shape) -> int:
+      return self.sides * 100 + self.area()
+
+  class Square(Shape):
+    len: int = 0
+    def __init__(self: Square):
+      self.sides = 4
+      self.len = 3
+    def area(self: Square) -> int:
+      return self.len * self.len
+
+  class Cube(Square):
+    def describe(self: Cube) -> int:
+      return self.area() * self.len
+  `;
+
+  assert(
+    "inherited fields",
+    `
+  class A(object):
+    x: int = 1
+  class B(A):
+    y: int = 2
+  b: B = None
+  b = B()
+  b.x + b.y`,
+    PyInt(3)
+  );
+
+  assert(
+    "inherited method",
+    `
+  class A(object):
+    x: int = 5
+    def get(self: A) -> int:
+      return self.x
+  class B(A):
+    pass
+  B().get()`,
+    PyInt(5)
+  );
+
+  assert(
+    "inherited __init__",
+    `
+  class A(object):
+    x: int = 0
+    def __init__(self: A):
+      self.x = 42
+  class B(A):
+    y: int = 1
+  B().x`,
+    PyInt(42)
+  );
+
+  assertPrint(
+    "overridden method dispatches on the runtime class",
+    `${shapes}
+  s: Shape = None
+  s = Shape()
+  print(s.describe())
+  s = Square()
+  print(s.describe())
+  s = Cube()
+  print(s.describe())`,
+    ["0", "409", "27"]
+  );
+
+  assertPrint(
+    "subclass passed as superclass argument",
+    `${shapes}
+  def area(s: Shape) -> int:
+    return s.area()
+  print(area(Shape()))
+  print(area(Square()))`,
+    ["0", "9"]
+  );
+
+  assertPrint(
+    "constructor is only evaluated once for a method call",
+    `
+  class A(object):
+    def __init__(self: A):
+      print(1)
+    def f(self: A) -> int:
+      return 2
+  print(A().f())`,
+    ["1", "2"]
+  );
+
+  assertTC(
+    "subclass is assignable to superclass",
+    `${shapes}\ns: Shape = None\ns = Cube()\ns`,
+    CLASS("Shape")
+  );
+
+  assertTC("inherited method type", `${shapes}\nCube().area()`, NUM);
+
+  assertTCFail(
+    "superclass is not assignable to subclass",
+    `${shapes}\ns: Square = None\ns = Shape()`
+  );
+
+  assertTCFail(
+    "override with different signature",
+    `
+  class A(object):
+    def f(self: A, x: int) -> int:
+      return x
+  class B(A):
+    def f(self: B, x: bool) -> int:
+      return 1`
+  );
+
+  assertTCFail(
+    "re-defining an inherited field",
+    `
+  class A(object):
+    x: int = 1
+  class B(A):
+    x: int = 2`
+  );
+
+  assertTCFail(
+    "undefined superclass",
+    `
+  class B(A):
+    x: int = 2`
+  );
+
+  assertTCFail(
+    "overriding a method with different default values",
+    `
+  class A(object):
+    def f(self: A, x: int = 1) -> int:
+      return x
+  class B(A):
+    def f(self: B, x: int = 2) -> int:
+      return x`
+  );
+
+  assertPrint(
+    "overriding a method with the same default values",
+    `
+  class A(object):
+    def f(self: A, x: int = 1, s: str = "a") -> str:
+      return s
+  class B(A):
+    def f(self: B, x: int = 1, s: str = "a") -> str:
+      return s + str(x)
+  a: A = None
+  a = B()
+  print(a.f())`,
+    ["a1"]
+  );
+
+  assertPrint(
+    "dynamic dispatch of methods with many arguments",
+    `
+  class A(object):
+    def f(self: A, a: int, b: int, c: int, d: int, e: int, f: int) -> int:
+      return a + b + c + d + e + f
+  class B(A):
+    def f(self: B, a: int, b: int, c: int, d: int, e: int, f: int) -> int:
+      return a * b * c * d * e * f
+  a: A = None
+  a = B()
+  print(A().f(1, 2, 3, 4, 5, 6))
+  print(a.f(1, 2, 3, 4, 5, 6))`,
+    ["21", "720"]
+  );
+});
@@ -0,0 +1,153 @@
+import { assert, assertPrint, assertTC, assertTCFail } from "./utils.test";
+import { PyInt, PyBool, NUM, BOOL, CALLABLE } from "../utils";
+
+describe("Lambda tests", () => {
+  assert(
+    "assigned to a callable variable",
+    `
+  f: Callable[[int], int] = None
+  f = lambda x: x + 1
+  f(4)`,
+    PyInt(5)
+  );
+
+  assert(
+    "passed as an argument",
+    `
+  def apply(g: Callable[[int], int], v: int) -> int:
+    return g(v)
+  apply(lambda y: y * 3, 5)`,
+    PyInt(15)
+  );
+
+  assert("applied right away", `(lambda a, b: a * b)(6, 7)`, PyInt(42));
+
+  assert(
+    "as list elements",
+    `
+  fs: [Callable[[int], int]] = None
+  fs = [lambda x: x + 1, lambda x: x * 2]
+  fs[0](fs[1](20))`,
+    PyInt(41)
+  );
+
+  assert(
+    "captures the parameter of the enclosing function",
+    `
+  def adder(n: int) -> Callable[[int], int]:
+    return lambda x: x + n
+  adder(10)(5)`,
+    PyInt(15)
+  );
+
+  assert(
+    "sees later assignments to the variables it captures",
+    `
+  def counter() -> int:
+    n: int = 1
+    f: Callable[[], int] = None
+    f = lambda: n * 10
+    n = 5
+    return f()
+  counter()`,
+    PyInt(50)
+  );
+
+  assert(
+    "nested lambdas",
+    `
+  def curry(a: int) -> Callable[[int], Callable[[int], int]]:
+    return lambda b: lambda c: a * 100 + b * 10 + c
+  curry(1)(2)(3)`,
+    PyInt(123)
+  );
+
+  assert(
+    "passed inside a function",
+    `
+  def twice(g: Callable[[int], int], x: int) -> int:
+    return g(g(x))
+  def outer(k: int) -> int:
+    return twice(lambda v: v * k, 3)
+  outer(2)`,
+    PyInt(12)
+  );
+
+  assertPrint(
+    "passed to a constructor and a method",
+    `
+  class Box(object):
+    f: Callable[[int], bool] = None
+    def __init__(self: Box, f: Callable[[int], bool]):
+      self.f = f
+    def set(self: Box, f: Callable[[int], bool]):
+      self.f = f
+  b: Box = None
+  b = Box(lambda x: x > 3)
+  print(b.f(5))
+  b.set(lambda x: x < 3)
+  print(b.f(5))`,
+    ["True", "False"]
+  );
+
+  assertPrint(
+    "captures a comprehension variable",
+    `
+  x: int = 100
+  def scaled(k: int) -> [int]:
+    return [(lambda y: y * k + x)(1) for x in range(3)]
+  print([(lambda y: y + x)(1) for x in range(3)])
+  print(scaled(10))
+  print([(lambda x: x)(7) for x in range(2)])`,
+    ["[1, 2, 3]", "[10, 11, 12]", "[7, 7]"]
+  );
+
+  assertPrint(
+    "as dict values and conditional branches",
+    `
+  d: [str, Callable[[int], int]] = None
+  f: Callable[[int], int] = None
+  d = {"inc": lambda x: x + 1, "dbl": lambda x: x * 2}
+  f = (lambda x: x - 1) if "neg" in d else lambda x: x * 10
+  print(d["dbl"](d["inc"](4)))
+  print(f(3))`,
+    ["10", "30"]
+  );
+
+  assertTC("without parameters", `lambda: True`, CALLABLE([], BOOL));
+
+  assertTC("applied right away takes the argument types", `(lambda x: x)(True)`, BOOL);
+
+  assertTC(
+    "gets its parameter types from the call",
+    `
+  def apply(g: Callable[[int], bool]) -> Callable[[int], bool]:
+    return g
+  apply(lambda x: x > 1)`,
+    CALLABLE([NUM], BOOL)
+  );
+
+  assertTCFail(
+    "body that does not match the return type",
+    `
+  f: Callable[[int], int] = None
+  f = lambda x: x > 1`
+  );
+
+  assertTCFail(
+    "wrong number of parameters",
+    `
+  f: Callable[[int], int] = None
+  f = lambda x, y: x`
+  );
+
+  assertTCFail("parameters without a type", `lambda x: x`);
+
+  assertTCFail(
+    "parameters do not leak into the enclosing scope",
+    `
+  f: Callable[[int], int] = None
+  f = lambda x: x
+  x`
+  );
+});
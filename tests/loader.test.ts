@@ -0,0 +1,67 @@
+import "mocha";
+import { expect } from "chai";
+import { BasicREPL } from "../repl";
+import { loadProgram, makeManifest } from "../loader";
+import { Value } from "../ast";
+import { PyInt, PyNone, stringify } from "../utils";
+import { mapLoader } from "../modules";
+
+// Compiles a program ahead of time and runs the binary with a fresh runtime
+async function compileAndLoad(
+  source: string,
+  modules = new Map<string, string>()
+): Promise<[Value, Array<string>]> {
+  const output: Array<string> = [];
+  const print = (val: Value) => output.push(stringify(val));
+  const repl = new BasicREPL({ imports: { print } });
+  repl.modules = mapLoader(modules);
+  const compiled = await repl.compile(source);
+  const manifest = makeManifest(source, compiled);
+  const result = await loadProgram(compiled.binary, manifest, { imports: { print } });
+  return [result, output];
+}
+
+describe("Ahead-of-time compilation tests", () => {
+  it("runs a compiled program", async () => {
+    const [result, output] = await compileAndLoad(`
+  def f(x: int) -> int:
+    return x * 2
+  print(f(3))
+  f(20) + 1`);
+    expect(result).to.deep.eq(PyInt(41));
+    expect(output).to.deep.eq(["6"]);
+  });
+
+  it("keeps globals, objects and caught exceptions working", async () => {
+    const [result, output] = await compileAndLoad(`
+  class C(object):
+    x: int = 5
+  c: C = None
+  l: [int] = None
+  c = C()
+  l = [1, 2]
+  try:
+    print(l[c.x])
+  except IndexError as e:
+    print(e.message)`);
+    expect(result).to.deep.eq(PyNone());
+    expect(output).to.deep.eq(["list index out of range"]);
+  });
+
+  it("runs a program importing a module", async () => {
+    const modules = new Map([["twice", `def twice(x: int) -> int:\n  return x * 2\nprint(0)`]]);
+    const [result, output] = await compileAndLoad(`from twice import twice\ntwice(21)`, modules);
+    expect(result).to.deep.eq(PyInt(42));
+    expect(output).to.deep.eq(["0"]);
+  });
+
+  it("reports an uncaught exception", async () => {
+    try {
+      await compileAndLoad(`raise ValueError("bad")`);
+    } catch (err) {
+      expect(err.name).to.eq("ValueError");
+      return;
+    }
+    expect.fail("Expected an exception");
+  });
+});
@@ -0,0 +1,63 @@
+import "mocha";
+import { expect } from "chai";
+import { BasicREPL } from "../repl";
+import { Channel, Logger, LogLevel } from "../logger";
+import { importObject } from "./import-object.test";
+import "./utils.test"; // resets the memory and output before each test
+
+// Records the channel and level of every message
+function record(logger: Logger, channels: Array<Channel>, level: LogLevel) {
+  const seen: Array<[Channel, LogLevel]> = [];
+  const unsubscribe = logger.subscribe(channels, level, (channel, lvl) =>
+    seen.push([channel, lvl])
+  );
+  return { seen, unsubscribe };
+}
+
+describe("Logger tests", () => {
+  it("is silent without subscribers", async () => {
+    const logger = new Logger();
+    expect(logger.enabled("parse", LogLevel.Error)).to.eq(false);
+    await new BasicREPL(importObject, logger).run(`print(1)`);
+    expect(importObject.output).to.eq("1\n");
+  });
+
+  it("delivers the stages a subscriber asked for", async () => {
+    const logger = new Logger();
+    const { seen } = record(logger, ["parse", "tc"], LogLevel.Debug);
+    await new BasicREPL(importObject, logger).run(`1 + 2`);
+    expect(seen).to.deep.eq([
+      ["parse", LogLevel.Debug],
+      ["tc", LogLevel.Debug],
+    ]);
+  });
+
+  it("traces the program output and the GC", async () => {
+    const logger = new Logger();
+    const { seen } = record(logger, ["wasm", "gc"], LogLevel.Debug);
+    await new BasicREPL(importObject, logger).run(`print(1)`);
+    expect(seen.map(([channel]) => channel)).to.include.members(["wasm", "gc"]);
+  });
+
+  it("filters by level", () => {
+    const logger = new Logger();
+    const { seen } = record(logger, ["codegen"], LogLevel.Warn);
+    logger.debug("codegen", "ignored");
+    logger.warn("codegen", "kept");
+    logger.error("codegen", "kept");
+    logger.error("ea", "other channel");
+    expect(seen).to.deep.eq([
+      ["codegen", LogLevel.Warn],
+      ["codegen", LogLevel.Error],
+    ]);
+  });
+
+  it("stops delivering after unsubscribing", () => {
+    const logger = new Logger();
+    const { seen, unsubscribe } = record(logger, ["ea"], LogLevel.Trace);
+    logger.info("ea", "first");
+    unsubscribe();
+    logger.info("ea", "second");
+    expect(seen).to.have.length(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { assert, assertFail, assertPrint, assertTC, assertTCFail } from "./utils.test";
+import { PyBool, BOOL } from "../utils";
+
+describe("Membership operator tests", () => {
+  assertPrint(
+    "in a list",
+    `
+  l: [int] = None
+  l = [1, 2, -5]
+  print(2 in l)
+  print(-5 in l)
+  print(7 in l)
+  print(7 not in l)
+  print(1 not in l)`,
+    ["True", "True", "False", "True", "False"]
+  );
+
+  assert(
+    "bignum in a list",
+    `
+  l: [int] = None
+  l = [1, 100000000000000000000]
+  100000000000000000000 in l`,
+    PyBool(true)
+  );
+
+  assert("in an empty list", `3 in []`, PyBool(false));
+
+  assert("string in a list compares contents", `"a" in ["b", "a"]`, PyBool(true));
+
+  assertPrint(
+    "substring",
+    `
+  print("ell" in "hello")
+  print("" in "hello")
+  print("hello!" in "hello")
+  print("lo" not in "hello")
+  print("xyz" in "hello")`,
+    ["True", "True", "False", "False", "False"]
+  );
+
+  assertPrint(
+    "dict key",
+    `
+  d: [int, bool] = None
+  d = {1: True, 12: False}
+  print(12 in d)
+  print(2 in d)
+  print(2 not in d)`,
+    ["True", "False", "True"]
+  );
+
+  assertPrint(
+    "dict string key compares contents",
+    `
+  d: [str, int] = None
+  k: str = "b"
+  d = {"a": 1, "bc": 2}
+  print(k + "c" in d)
+  print(d[k + "c"])
+  print(d.get("a" + "", 0))
+  print(d.pop("b" + "c"))
+  print("bc" in d)`,
+    ["True", "2", "1", "2", "False"]
+  );
+
+  assertPrint(
+    "in a tuple",
+    `
+  t: (int, str, bool) = None
+  t = (1, "x", True)
+  print(1 in t)
+  print("x" in t)
+  print(True in t)
+  print(False in t)
+  print("y" not in t)`,
+    ["True", "True", "True", "False", "True"]
+  );
+
+  assertPrint(
+    "operands are evaluated once, left to right",
+    `
+  def key() -> int:
+    print(1)
+    return 2
+  def container() -> (int, int):
+    print(2)
+    return (2, 3)
+  print(key() in container())`,
+    ["1", "2", "True"]
+  );
+
+  assertFail(
+    "in a None list",
+    `
+  l: [int] = None
+  1 in l`
+  );
+
+  assertTC("membership type", `1 not in [1]`, BOOL);
+
+  assertTCFail("right operand is not a container", `1 in 5`);
+
+  assertTCFail("element of the wrong type", `True in [1, 2]`);
+
+  assertTCFail("non-string in a string", `1 in "abc"`);
+
+  assertTCFail(
+    "key of the wrong type",
+    `
+  d: [int, bool] = None
+  d = {1: True}
+  True in d`
+  );
+});
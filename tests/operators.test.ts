@@ -0,0 +1,192 @@
+import { assert, assertFail, assertPrint, assertTC, assertTCFail } from "./utils.test";
+import { PyInt, PyBigInt, PyBool, PyFloat, NUM, BOOL, FLOAT } from "../utils";
+
+describe("Bitwise operator and power tests", () => {
+  // variables keep the operators from being folded at compile time
+  const X = `
+  x: int = 6
+  big: int = 0
+  big = 1 << 70`;
+
+  assert("and, or and xor", `${X}\n  (x & 3) * 100 + (x | 9) * 10 + (x ^ 5)`, PyInt(353));
+
+  assert("invert", `${X}\n  ~x`, PyInt(-7));
+
+  assert("left shift past 32 bits", `${X}\n  x << 40`, PyBigInt(6n << 40n));
+
+  assert("right shift rounds down", `${X}\n  -x >> 2`, PyInt(-2));
+
+  assert("right shift by a large count", `${X}\n  -x >> 100`, PyInt(-1));
+
+  assert(
+    "bitwise operators on bignums",
+    `${X}\n  (big | x) ^ (big >> 3)`,
+    PyBigInt((1n << 70n) ^ 6n ^ (1n << 67n))
+  );
+
+  assert("invert a bignum", `${X}\n  ~big`, PyBigInt(~(1n << 70n)));
+
+  assert("and of bools", `True & False`, PyBool(false));
+
+  assert("xor of bools", `True ^ False`, PyBool(true));
+
+  assert("power", `${X}\n  x ** 3`, PyInt(216));
+
+  assert("power overflowing to a bignum", `${X}\n  x ** 30`, PyBigInt(6n ** 30n));
+
+  assert("power of a negative base", `${X}\n  (-x) ** 13`, PyBigInt((-6n) ** 13n));
+
+  assert("power binds tighter than negation", `-2 ** 2`, PyInt(-4));
+
+  assert("power of floats", `${X}\n  x ** 0.5 * 2.0 ** -1`, PyFloat(Math.pow(6, 0.5) / 2));
+
+  assertFail("negative shift count", `${X}\n  1 << (x - 7)`);
+
+  assertFail("negative exponent of an int", `${X}\n  x ** (x - 7)`);
+
+  assertTC("bitwise operators on ints", `1 & 2 ^ 3`, NUM);
+
+  assertTC("bitwise operators on bools", `True | False`, BOOL);
+
+  assertTC("power with a float", `2 ** 0.5`, FLOAT);
+
+  assertTCFail("bitwise operator on an int and a bool", `1 & True`);
+
+  assertTCFail("shift by a float", `1 << 1.5`);
+
+  assertTCFail("invert a bool", `~True`);
+});
+
+describe("Augmented assignment tests", () => {
+  assertPrint(
+    "every operator",
+    `
+  x: int = 10
+  x += 4
+  x -= 1
+  x *= 3
+  x //= 2
+  x %= 7
+  print(x)
+  x **= 3
+  x <<= 2
+  x >>= 1
+  x ^= 1
+  x |= 256
+  x &= 511
+  print(x)`,
+    ["5", "507"]
+  );
+
+  assertPrint(
+    "floats, strings and lists",
+    `
+  f: float = 1.0
+  s: str = "a"
+  l: [int] = None
+  f /= 4
+  s += "bc"
+  l = [1]
+  l += [2, 3]
+  print(f)
+  print(s)
+  print(l[2])`,
+    ["0.25", "abc", "3"]
+  );
+
+  assertPrint(
+    "fields and elements",
+    `
+  class C(object):
+    n: int = 1
+    l: [int] = None
+  c: C = None
+  c = C()
+  c.l = [1, 2]
+  c.n += 10
+  c.l[1] *= 7
+  print(c.n)
+  print(c.l[1])`,
+    ["11", "14"]
+  );
+
+  assertPrint(
+    "the object and key of the target are evaluated once",
+    `
+  class C(object):
+    n: int = 1
+    l: [int] = None
+  def mk() -> C:
+    print("mk")
+    return c
+  def key() -> int:
+    print("key")
+    return 1
+  c: C = None
+  c = C()
+  c.l = [1, 2]
+  mk().n += 1
+  c.l[key()] += 1
+  print(c.n)
+  print(c.l[1])`,
+    ["mk", "key", "2", "3"]
+  );
+
+  assertPrint(
+    "item assignment through __getitem__ and __setitem__",
+    `
+  class V(object):
+    a: int = 5
+    def __getitem__(self: V, i: int) -> int:
+      print("get")
+      return self.a
+    def __setitem__(self: V, i: int, v: int):
+      print("set")
+      self.a = v
+  v: V = None
+  v = V()
+  v[0] += 2
+  print(v.a)`,
+    ["get", "set", "7"]
+  );
+
+  assertPrint(
+    "nonlocal variable",
+    `
+  def outer() -> int:
+    n: int = 1
+    def inner(k: int):
+      nonlocal n
+      n += k
+    inner(2)
+    inner(3)
+    return n
+  print(outer())`,
+    ["6"]
+  );
+
+  assertTCFail(
+    "result that does not fit the target",
+    `
+  x: int = 0
+  x /= 2`
+  );
+
+  assertTCFail(
+    "undeclared variable in a function",
+    `
+  x: int = 0
+  def f():
+    x += 1`
+  );
+
+  assertTCFail(
+    "operator without a method",
+    `
+  class C(object):
+    pass
+  c: C = None
+  c = C()
+  c += 1`
+  );
+});
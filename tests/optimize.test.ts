@@ -0,0 +1,131 @@
+import "mocha";
+import { expect } from "chai";
+import { assert, assertPrint } from "./utils.test";
+import { BasicREPL } from "../repl";
+import { parse } from "../parser";
+import { tc } from "../type-check";
+import { optimize, PassToggles } from "../optimize";
+import { Logger } from "../logger";
+import { importObject } from "./import-object.test";
+import { PyBigInt, PyBool, PyInt } from "../utils";
+
+// Type checks and optimizes a program, returning its top-level statements
+function optimized(source: string, passes: PassToggles = {}) {
+  const repl = new BasicREPL(importObject);
+  const [typed] = tc(repl.currentTypeEnv, parse(source, repl.config()));
+  return optimize(typed, passes, new Logger()).stmts;
+}
+
+describe("Optimization pass tests", () => {
+  it("folds arithmetic on literals", () => {
+    const [stmt] = optimized(`(1 + 2) * 3 - -4`);
+    expect(stmt.tag === "expr" && stmt.expr).to.deep.include({
+      tag: "literal",
+      value: { tag: "num", value: BigInt(13) },
+    });
+  });
+
+  it("leaves a division by zero to raise at runtime", () => {
+    const [stmt] = optimized(`1 // 0`);
+    expect(stmt.tag === "expr" && stmt.expr.tag).to.eq("binop");
+  });
+
+  it("folds bitwise operators and powers on literals", () => {
+    const [stmt] = optimized(`(1 << 4 | 3) ^ 2 ** 3 & ~0`);
+    expect(stmt.tag === "expr" && stmt.expr).to.deep.include({
+      tag: "literal",
+      value: { tag: "num", value: BigInt(27) },
+    });
+  });
+
+  it("leaves a negative exponent to raise at runtime", () => {
+    const [stmt] = optimized(`2 ** -1`);
+    expect(stmt.tag === "expr" && stmt.expr.tag).to.eq("binop");
+  });
+
+  it("replaces an if with a constant condition by its branch", () => {
+    // an indented if at the top level does not parse
+    const stmts = optimized(`
+if 1 > 2:
+  print(1)
+else:
+  print(2)
+  print(3)`);
+    expect(stmts.map((s) => s.tag)).to.deep.eq(["expr", "expr"]);
+  });
+
+  it("drops statements after a break", () => {
+    const [loop] = optimized(`
+  while True:
+    break
+    print(1)`);
+    expect(loop.tag === "while" && loop.body.map((s) => s.tag)).to.deep.eq(["break"]);
+  });
+
+  it("skips passes that are turned off", () => {
+    const stmts = optimized(
+      `
+if 1 > 2:
+  print(1)
+else:
+  print(2)`,
+      { "fold-constants": false }
+    );
+    expect(stmts.map((s) => s.tag)).to.deep.eq(["if"]);
+  });
+
+  assert("folds floor division and modulo like Python", `(-7 // 2) * 10 + (-7 % 3)`, PyInt(-38));
+
+  assert(
+    "folds beyond the size of small ints",
+    `1073741823 * 1073741823 * 4`,
+    PyBigInt(BigInt("4611686009837453316"))
+  );
+
+  assert("folds comparisons and logic", `not (3 <= 2) and (True != False)`, PyBool(true));
+
+  assertPrint(
+    "break and continue still find their loop after a branch is removed",
+    `
+  i: int = 0
+  while i < 6:
+    i = i + 1
+    if True:
+      if i == 2:
+        continue
+      else:
+        pass
+      if i == 5:
+        break
+      else:
+        pass
+    else:
+      pass
+    print(i)`,
+    ["1", "3", "4"]
+  );
+
+  assertPrint(
+    "while False is removed",
+    `
+  while False:
+    print(1)
+  print(2)`,
+    ["2"]
+  );
+
+  assert(
+    "code after return is removed",
+    `
+  def f(x: int) -> int:
+    if x > 0:
+      return 1
+      x = 5
+    else:
+      return 2
+      x = 6
+    return 3
+  f(1) + f(0) * 10`,
+    PyInt(21)
+  );
+});
@@ -986,4 +986,17 @@ describe("parse(source) function", () => {
       },
     ]);
   });
+
+  it("parse a chain of comparisons", () => {
+    const [stmt] = parse(`0 <= i < n`).stmts;
+    expect(stmt.tag === "expr" && stmt.expr).to.deep.include({
+      tag: "compare-chain",
+      ops: [BinOp.Lte, BinOp.Lt],
+    });
+  });
+
+  it("parse a parenthesized comparison as an operand", () => {
+    const [stmt] = parse(`(a < b) == c`).stmts;
+    expect(stmt.tag === "expr" && stmt.expr).to.deep.include({ tag: "binop", op: BinOp.Eq });
+  });
 });
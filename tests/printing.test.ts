@@ -0,0 +1,167 @@
+import { expect } from "chai";
+import { assertPrint, assertTCError } from "./utils.test";
+import { importObject } from "./import-object.test";
+import { BasicREPL } from "../repl";
+import { reprString } from "../printer";
+import { stringify } from "../utils";
+
+const POINTS = `
+class P(object):
+  x: int = 0
+  y: int = 0
+  def __init__(self: P, x: int, y: int):
+    self.x = x
+    self.y = y
+  def __repr__(self: P) -> str:
+    return "P(" + str(self.x) + ", " + str(self.y) + ")"
+class Q(P):
+  def __str__(self: Q) -> str:
+    return "q"
+`;
+
+describe("Value printing tests", () => {
+  it("quotes strings like Python", () => {
+    expect(reprString("abc")).to.eq("'abc'");
+    expect(reprString("it's")).to.eq(`"it's"`);
+    expect(reprString(`it's "x"`)).to.eq(`'it\\'s "x"'`);
+    expect(reprString("a\nb\t\\")).to.eq("'a\\nb\\t\\\\'");
+    expect(reprString("\x01\x7f")).to.eq("'\\x01\\x7f'");
+  });
+
+  assertPrint(
+    "nested lists",
+    `
+  xs: [[int]] = None
+  xs = [[1], [2, 3]]
+  print([1, 2, 3])
+  print(xs)
+  print([True, False])
+  print(["a", "it's"])
+  print([1.5, 2.0])`,
+    ["[1, 2, 3]", "[[1], [2, 3]]", "[True, False]", `['a', "it's"]`, "[1.5, 2.0]"]
+  );
+
+  assertPrint(
+    "dicts, sets and tuples",
+    `
+  d: [str, bool] = None
+  s: set[int] = None
+  d = {"a": True}
+  print(d)
+  del d["a"]
+  print(d)
+  s = {1}
+  print(s)
+  s.remove(1)
+  print(s)
+  print((1, "x"))
+  print((1,))`,
+    ["{'a': True}", "{}", "{1}", "set()", "(1, 'x')", "(1,)"]
+  );
+
+  assertPrint(
+    "__repr__ and __str__ methods",
+    `${POINTS}
+ps: [P] = None
+ps = [P(1, 2)]
+ps.append(Q(3, 4))
+print(P(1, 2))
+print(Q(1, 2))
+print(ps)
+print(repr(Q(1, 2)))`,
+    ["P(1, 2)", "q", "[P(1, 2), P(3, 4)]", "P(1, 2)"]
+  );
+
+  assertPrint(
+    "container that contains itself",
+    `
+  class Node(object):
+    children: [Node] = None
+    def __init__(self: Node):
+      self.children = []
+    def __repr__(self: Node) -> str:
+      return "Node" + repr(self.children)
+  n: Node = None
+  n = Node()
+  n.children.append(Node())
+  n.children.append(n)
+  print(n)
+  print(n.children)`,
+    ["Node[Node[], Node[...]]", "[Node[], Node[...]]"]
+  );
+
+  assertPrint(
+    "str and repr return strings",
+    `print(str(5) + str(True) + str(None) + repr("s") + str("s") + str([1]))`,
+    ["5TrueNone's's[1]"]
+  );
+
+  assertPrint(
+    "builtin classes",
+    `
+  print(type(1))
+  try:
+    print(1 // 0)
+  except Exception as e:
+    print(e)
+    print(repr(e))`,
+    ["<class 'int'>", "division by zero", "ZeroDivisionError('division by zero')"]
+  );
+
+  it("prints objects without __repr__ with their address", async () => {
+    await new BasicREPL(importObject).run(`
+class R(object):
+  pass
+print(R())`);
+    expect(importObject.output.trim()).to.match(/^<__main__\.R object at 0x[0-9a-f]+>$/);
+  });
+
+  it("renders the results of the REPL with their repr", async () => {
+    const repl = new BasicREPL(importObject);
+    await repl.run(POINTS);
+    expect(stringify(await repl.run(`[1, 2]`))).to.eq("[1, 2]");
+    expect(stringify(await repl.run(`{"a": [True]}`))).to.eq("{'a': [True]}");
+    expect(stringify(await repl.run(`Q(1, 2)`))).to.eq("P(1, 2)");
+    expect(stringify(await repl.run(`"x"`))).to.eq("x");
+    await repl.run(`
+class Bad(object):
+  def __repr__(self: Bad) -> str:
+    raise ValueError("no")`);
+    await repl.run(`Bad()`).then(
+      () => expect.fail("expected the ValueError of __repr__"),
+      (err) => expect(String(err)).to.contain("ValueError")
+    );
+    expect(stringify(await repl.run(`[1]`))).to.eq("[1]");
+  });
+
+  assertPrint(
+    "exception raised by __str__",
+    `
+  class Bad(object):
+    def __str__(self: Bad) -> str:
+      raise ValueError("no")
+  try:
+    print(Bad())
+  except ValueError as e:
+    print("caught " + str(e))`,
+    ["caught no"]
+  );
+
+  assertTCError(
+    "__str__ with arguments",
+    `
+  class A(object):
+    def __str__(self: A, x: int) -> str:
+      return "a"`,
+    "TypeError"
+  );
+
+  assertTCError(
+    "__repr__ that returns an int",
+    `
+  class A(object):
+    def __repr__(self: A) -> int:
+      return 1`,
+    "TypeError"
+  );
+});
@@ -0,0 +1,155 @@
+import { expect } from "chai";
+import { assert, assertPrint, assertTCError } from "./utils.test";
+import { importObject } from "./import-object.test";
+import { BasicREPL } from "../repl";
+import { mapLoader } from "../modules";
+import { PyBool } from "../utils";
+
+const CLASSES = `
+class A(object):
+  x: int = 1
+class B(A):
+  y: int = 2
+class C(object):
+  z: int = 3
+a: A = None
+`;
+
+describe("Runtime type information tests", () => {
+  assertPrint(
+    "isinstance of a subclass",
+    `${CLASSES}
+a = B()
+print(isinstance(a, A))
+print(isinstance(a, B))
+print(isinstance(a, C))
+print(isinstance(A(), B))`,
+    ["True", "True", "False", "False"]
+  );
+
+  assert("None is an instance of no class", `${CLASSES}\nisinstance(a, A)`, PyBool(false));
+
+  assertPrint(
+    "isinstance of builtin types",
+    `
+print(isinstance(1, int))
+print(isinstance(True, int))
+print(isinstance(1, bool))
+print(isinstance("s", str))
+print(isinstance([1], object))
+print(isinstance(None, object))`,
+    ["True", "True", "False", "True", "True", "True"]
+  );
+
+  assertPrint(
+    "isinstance of builtin exceptions",
+    `
+try:
+  print(1 // 0)
+except ArithmeticError as e:
+  print(isinstance(e, ZeroDivisionError))
+  print(isinstance(e, LookupError))`,
+    ["True", "False"]
+  );
+
+  assertPrint(
+    "isinstance of a parameter",
+    `${CLASSES}
+def check(x: A) -> bool:
+  return isinstance(x, B)
+print(check(B()))
+print(check(A()))`,
+    ["True", "False"]
+  );
+
+  assertPrint(
+    "name of the runtime class",
+    `${CLASSES}
+a = B()
+print(type(a).__name__)
+print(type(A()).__name__)
+print(type(a.x).__name__)
+print(type(None).__name__)
+print(type([a]).__name__)
+print(type(type(a)).__name__)`,
+    ["B", "A", "int", "NoneType", "list", "type"]
+  );
+
+  assertPrint(
+    "one type object per class",
+    `${CLASSES}
+a = B()
+print(type(a) == type(B()))
+print(type(a) is type(B()))
+print(type(a) == type(A()))
+print(type(1) is type(2))
+print(type(1) is type(True))
+print(type(None) is type(a.x))`,
+    ["True", "True", "False", "True", "False", "False"]
+  );
+
+  assertPrint(
+    "a program's own type and isinstance functions shadow the builtins",
+    `
+def type(x: int) -> int:
+  return x
+def isinstance(x: int, y: int) -> bool:
+  return x == y
+print(type(3))
+print(isinstance(1, 2))`,
+    ["3", "False"]
+  );
+
+  it("shadows type only after it is defined", async () => {
+    const repl = new BasicREPL(importObject);
+    await repl.run(`print(type(1).__name__)`);
+    await repl.run(`def type(x: int) -> int:\n  return x + 1\nprint(type(1))`);
+    expect(importObject.output.trim().split("\n")).to.deep.eq(["int", "2"]);
+  });
+
+  it("keeps type objects across programs and collections", async () => {
+    const repl = new BasicREPL(importObject);
+    await repl.run(`${CLASSES}\nt: type = None\nt = type(B())`);
+    repl.memoryManager.forceCollect();
+    await repl.run(`print(t is type(B()))\nprint(t.__name__)`);
+    expect(importObject.output.trim().split("\n")).to.deep.eq(["True", "B"]);
+  });
+
+  it("prints objects with the name of their runtime class", async () => {
+    await new BasicREPL(importObject).run(`${CLASSES}
+a = B()
+print(a)
+print([A(), a, None])`);
+    const [obj, list] = importObject.output.trim().split("\n");
+    expect(obj).to.match(/^<__main__\.B object at 0x[0-9a-f]+>$/);
+    expect(list).to.match(
+      /^\[<__main__\.A object at 0x[0-9a-f]+>, <__main__\.B object at 0x[0-9a-f]+>, None\]$/
+    );
+  });
+
+  it("names results after their runtime class", async () => {
+    const result = await new BasicREPL(importObject).run(`${CLASSES}\na = B()\na`);
+    expect(result).to.include({ tag: "object", name: "B" });
+  });
+
+  it("keeps the class table across programs", async () => {
+    const repl = new BasicREPL(importObject);
+    await repl.run(CLASSES);
+    await repl.run(`class D(B):\n  pass\na = D()`);
+    expect(await repl.run(`isinstance(a, B)`)).to.deep.eq(PyBool(true));
+    expect(await repl.run(`isinstance(a, C)`)).to.deep.eq(PyBool(false));
+  });
+
+  it("leaves the module out of the name of a class", async () => {
+    const repl = new BasicREPL(importObject);
+    repl.modules = mapLoader(new Map([["shapes", `class Point(object):\n  x: int = 0`]]));
+    await repl.run(`import shapes\nprint(type(shapes.Point()).__name__)`);
+    expect(importObject.output.trim()).to.eq("Point");
+  });
+
+  assertTCError("isinstance of a value", `isinstance(1, 2)`, "TypeError");
+
+  assertTCError("isinstance with one argument", `isinstance(1)`, "TypeError");
+
+  assertTCError("field other than __name__", `type(1).name`, "AttributeError");
+});
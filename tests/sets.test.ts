@@ -0,0 +1,188 @@
+import { assert, assertFail, assertPrint, assertTC, assertTCFail } from "./utils.test";
+import { PyInt, PyBool, NUM, BOOL, SET } from "../utils";
+
+describe("Set tests", () => {
+  assertPrint(
+    "set literal drops duplicates",
+    `
+  s: set[int] = None
+  s = {3, 1, 3, 2, 1}
+  print(s)
+  print(len(s))`,
+    ["{1, 2, 3}", "3"]
+  );
+
+  assertPrint(
+    "membership",
+    `
+  s: set[int] = None
+  s = {1, -4, 12}
+  print(1 in s)
+  print(5 in s)
+  print(-4 in s)
+  print(12 not in s)
+  print(7 not in s)`,
+    ["True", "False", "True", "False", "True"]
+  );
+
+  assertPrint(
+    "add, remove and discard",
+    `
+  s: set[int] = None
+  s = set()
+  s.add(4)
+  s.add(5)
+  s.add(4)
+  print(len(s))
+  s.remove(4)
+  s.discard(5)
+  s.discard(6)
+  print(s)`,
+    ["2", "set()"]
+  );
+
+  assertFail(
+    "remove of a missing element",
+    `
+  s: set[int] = None
+  s = {1}
+  s.remove(2)`
+  );
+
+  assertPrint(
+    "KeyError of remove holds the missing element",
+    `
+  s: set[str] = None
+  s = {"a"}
+  try:
+    s.remove("b")
+  except KeyError as e:
+    print(e)
+  try:
+    {1}.remove(2)
+  except KeyError as e:
+    print(e)`,
+    ["'b'", "2"]
+  );
+
+  assertPrint(
+    "strings built at runtime are compared by content",
+    `
+  s: set[str] = None
+  s = {"ab", "cd"}
+  print("a" + "b" in s)
+  s.add("c" + "d")
+  print(len(s))
+  s.remove("a" + "b")
+  print(s)
+  print(len({"x" + "y"} | {"xy"}))
+  print({"x" + "y", "z"} & {"xy"})`,
+    ["True", "2", "{'cd'}", "1", "{'xy'}"]
+  );
+
+  assertPrint(
+    "ints beyond 2^30 are compared by value",
+    `
+  s: set[int] = None
+  s = {10000000000, 1073741824}
+  s.add(10000000000)
+  s.add(1073741823 + 1)
+  s.add(-10000000000)
+  print(len(s))
+  print(5000000000 * 2 in s)
+  s.discard(20000000000 // 2)
+  print(len(s - {-10000000000}))`,
+    ["3", "True", "1"]
+  );
+
+  assertPrint(
+    "union, intersection and difference",
+    `
+  a: set[int] = None
+  b: set[int] = None
+  a = {1, 2, 3}
+  b = {2, 3, 4}
+  print(a | b)
+  print(a & b)
+  print(a - b)
+  print(a | set())
+  print(a)`,
+    ["{1, 2, 3, 4}", "{2, 3}", "{1}", "{1, 2, 3}", "{1, 2, 3}"]
+  );
+
+  assert(
+    "for loop over a set",
+    `
+  s: set[int] = None
+  x: int = 0
+  total: int = 0
+  s = {1, 2, 3, 10, 20}
+  for x in s:
+    total = total + x
+  total`,
+    PyInt(36)
+  );
+
+  assertPrint(
+    "nested loops over sets with break and continue",
+    `
+  i: int = 0
+  j: int = 0
+  for i in {1, 2, 3}:
+    if i == 2:
+      continue
+    else:
+      pass
+    for j in {10, 20}:
+      if j == 20:
+        break
+      else:
+        pass
+      print(i + j)`,
+    ["11", "13"]
+  );
+
+  assert(
+    "loop body may reassign the iterated set",
+    `
+  s: set[int] = None
+  x: int = 0
+  n: int = 0
+  s = {1, 2, 3}
+  for x in s:
+    s = {x}
+    n = n + 1
+  n`,
+    PyInt(3)
+  );
+
+  assert("set of bools", `True in {False, True}`, PyBool(true));
+
+  assertTC("set literal type", `{1, 2}`, SET(NUM));
+
+  assertTC("union with an empty set", `set() | {True}`, SET(BOOL));
+
+  assertTC("membership type", `1 in {1}`, BOOL);
+
+  assertTCFail("heterogeneous set literal", `{1, True}`);
+
+  assertTCFail(
+    "adding an element of the wrong type",
+    `
+  s: set[int] = None
+  s = {1}
+  s.add(False)`
+  );
+
+  assertTCFail("membership test of the wrong type", `True in {1}`);
+
+  assertTCFail("union of different set types", `{1} | {True}`);
+
+  assertTCFail(
+    "unknown set method",
+    `
+  s: set[int] = None
+  s = {1}
+  s.pop()`
+  );
+});
@@ -0,0 +1,218 @@
+import "mocha";
+import { expect } from "chai";
+import { assert, assertFail, assertPrint, assertTC, assertTCFail } from "./utils.test";
+import {
+  PyInt,
+  PyBool,
+  STRING,
+  BOOL,
+  NUM,
+  LIST,
+  STRING_HEADER_SIZE,
+  decodeString,
+  stringCodePoints,
+  stringKind,
+  stringSize,
+  stringWords,
+} from "../utils";
+import { UnicodeError } from "../error";
+
+describe("String method tests", () => {
+  assertPrint(
+    "upper, lower and strip",
+    `
+  s: str = "  Hello, World 42  "
+  print(s.strip())
+  print(s.upper().strip())
+  print(s.lower().strip())`,
+    ["Hello, World 42", "HELLO, WORLD 42", "hello, world 42"]
+  );
+
+  assert("find returns the first index", `"banana".find("an")`, PyInt(1));
+
+  assert("find returns -1 when missing", `"banana".find("x")`, PyInt(-1));
+
+  assert("count does not overlap", `"aaaa".count("aa")`, PyInt(2));
+
+  assert("count of the empty string", `"abc".count("")`, PyInt(4));
+
+  assertPrint(
+    "replace",
+    `
+  print("banana".replace("an", "AN"))
+  print("banana".replace("a", ""))
+  print("ab".replace("", "-"))`,
+    ["bANANa", "bnn", "-a-b-"]
+  );
+
+  assertPrint(
+    "startswith and endswith",
+    `
+  s: str = "chocopy"
+  print(s.startswith("choc"))
+  print(s.startswith("py"))
+  print(s.endswith("py"))
+  print(s.endswith("a longer suffix"))`,
+    ["True", "False", "True", "False"]
+  );
+
+  assertPrint(
+    "isdigit",
+    `
+  print("2022".isdigit())
+  print("20x2".isdigit())
+  print("".isdigit())`,
+    ["True", "False", "False"]
+  );
+
+  assertPrint(
+    "split on a separator keeps empty parts",
+    `
+  xs: [str] = None
+  xs = "a,b,,c".split(",")
+  print(len(xs))
+  print(xs[1])
+  print(xs[2] == "")
+  print(xs[3])`,
+    ["4", "b", "True", "c"]
+  );
+
+  assertPrint(
+    "split without a separator drops whitespace",
+    `
+  xs: [str] = None
+  xs = "  one two   three ".split()
+  print(len(xs))
+  print(xs[0])
+  print(xs[2])`,
+    ["3", "one", "three"]
+  );
+
+  assertPrint(
+    "join",
+    `
+  print(", ".join(["x", "y", "z"]))
+  print("-".join("a b".split()))
+  print("".join([]) == "")`,
+    ["x, y, z", "a-b", "True"]
+  );
+
+  assertPrint(
+    "concatenation",
+    `
+  s: str = "choco"
+  s = s + "py" + ""
+  print(s)`,
+    ["chocopy"]
+  );
+
+  assertPrint(
+    "lexicographic comparison",
+    `
+  print("abc" < "abd")
+  print("ab" < "abc")
+  print("b" > "abc")
+  print("abc" >= "abc")
+  print("abc" <= "ab")`,
+    ["True", "True", "True", "True", "False"]
+  );
+
+  assert("equality compares characters", `"ab" + "c" == "abc"`, PyBool(true));
+
+  assert("inequality compares characters", `"ab" + "c" != "abc"`, PyBool(false));
+
+  assertPrint(
+    "methods inside a function",
+    `
+  def shout(s: str) -> str:
+    return s.strip().upper() + "!"
+  print(shout(" hi "))`,
+    ["HI!"]
+  );
+
+  assertFail("split on an empty separator", `"a b".split("")`);
+
+  assertTC("split returns a list of strings", `"a b".split()`, LIST(STRING));
+
+  assertTC("find returns an int", `"a b".find("b")`, NUM);
+
+  assertTC("comparison returns a bool", `"a" < "b"`, BOOL);
+
+  assertTCFail("unknown method", `"abc".title()`);
+
+  assertTCFail("wrong number of arguments", `"abc".replace("a")`);
+
+  assertTCFail("wrong argument type", `"abc".find(1)`);
+
+  assertTCFail("join of a list of ints", `",".join([1, 2])`);
+
+  assertTCFail("adding a string and an int", `"abc" + 1`);
+});
+
+describe("String representation tests", () => {
+  it("uses the smallest kind that fits every code point", () => {
+    expect(stringKind(stringCodePoints("café"))).to.eq(1);
+    expect(stringKind(stringCodePoints("日本"))).to.eq(2);
+    expect(stringKind(stringCodePoints("a😀"))).to.eq(4);
+  });
+
+  it("packs Latin-1 strings four code points to a word", () => {
+    expect(stringSize(5, 1)).to.eq(STRING_HEADER_SIZE + 8);
+    expect(stringWords(stringCodePoints("abcd"), 1)).to.deep.eq([0x64636261]);
+  });
+
+  it("decodes what it encodes", () => {
+    ["", "plain", "café", "日本語", "a😀b"].forEach((s) => {
+      const codePoints = stringCodePoints(s);
+      const kind = stringKind(codePoints);
+      const memory = new Int32Array(stringSize(codePoints.length, kind) / 4);
+      memory.set([codePoints.length - 1, kind, ...stringWords(codePoints, kind)]);
+      expect(decodeString(memory.buffer, 0)).to.eq(s);
+    });
+  });
+
+  it("raises a UnicodeError for a code point out of range", () => {
+    const memory = new Int32Array([0, 4, 0x110000]);
+    expect(() => decodeString(memory, 0)).to.throw(UnicodeError);
+  });
+
+  it("raises a UnicodeError for a lone surrogate", () => {
+    expect(() => stringCodePoints("a\ud800")).to.throw(UnicodeError);
+  });
+
+  assert("len counts code points", `len("a😀日é")`, PyInt(4));
+
+  assertPrint(
+    "indexing counts code points",
+    `
+  s: str = "a😀日é"
+  print(s[1])
+  print(s[2])
+  print(s[-1])`,
+    ["😀", "日", "é"]
+  );
+
+  assertPrint(
+    "methods keep code points of every size",
+    `
+  s: str = "héllo 日本 😀"
+  print(s.upper())
+  print(len(s + "😀"))
+  print(s.split()[2] == "😀")
+  print(s.find("😀"))`,
+    ["HÉLLO 日本 😀", "11", "True", "9"]
+  );
+
+  assertPrint(
+    "upper and lower map letters beyond ASCII",
+    `
+  print("ßtraße é".upper())
+  print("ÀÉÎ ΣΑΣ".lower())
+  print(len("ß".upper()))`,
+    ["SSTRASSE É", "àéî σας", "2"]
+  );
+
+  assert("strings of different kinds compare by code point", `"é" < "日"`, PyBool(true));
+
+  assertFail("a lone surrogate in a literal", `"\ud800"`);
+});
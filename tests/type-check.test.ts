@@ -106,7 +106,7 @@ describe("type-check", () => {
   );
 });
 
-describe.skip("lambda", function () {
+describe("lambda", function () {
   assertTC(
     "lambda-no-arg-tc",
     `
@@ -125,7 +125,6 @@ describe.skip("lambda", function () {
     BOOL
   );
 
-  // TODO: lambda expression not fully implemented
   assertTC(
     "lambda-args-tc",
     `
@@ -103,6 +103,20 @@ export function assertTCFail(name: string, source: string) {
   });
 }
 
+// Type checking fails with an exception named `error`
+export function assertTCError(name: string, source: string, error: string) {
+  it(name, async () => {
+    const repl = new BasicREPL(importObject);
+    try {
+      await repl.tc(source);
+    } catch (e) {
+      expect(e.name).to.eq(error);
+      return;
+    }
+    fail("Expected an exception");
+  });
+}
+
 export function singleVarAssignment<T>(
   name: string,
   value: T,
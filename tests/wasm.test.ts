@@ -0,0 +1,169 @@
+import "mocha";
+import { expect } from "chai";
+import { encodeModule } from "../wasm-encoder";
+import {
+  block,
+  br,
+  br_if,
+  call,
+  call_indirect,
+  global,
+  i32,
+  i32Vars,
+  if_,
+  local,
+  loop,
+  Module,
+  printWat,
+} from "../wasm-ir";
+import { BasicREPL } from "../repl";
+import { compileProgram } from "../runner";
+import { importObject } from "./import-object.test";
+import "./utils.test"; // resets the memory and output before each test
+
+const binop = i32Vars("$a", "$b");
+
+const sample: Module = {
+  types: [{ name: "$binop", type: { params: ["i32", "i32"], results: ["i32"] } }],
+  imports: [
+    {
+      kind: "func",
+      module: "env",
+      field: "log",
+      name: "$log",
+      type: { params: ["i32"], results: [] },
+    },
+  ],
+  funcs: [
+    {
+      name: "$add",
+      params: binop,
+      results: ["i32"],
+      locals: [],
+      body: [local.get("$a"), local.get("$b"), i32.add()],
+    },
+    {
+      name: "$sub",
+      params: binop,
+      results: ["i32"],
+      locals: [],
+      body: [local.get("$a"), local.get("$b"), i32.sub()],
+    },
+    // sums the numbers below n, the ones after 3 subtracted
+    {
+      name: "$run",
+      params: i32Vars("$n"),
+      results: ["i32"],
+      locals: i32Vars("$i", "$acc"),
+      body: [
+        block("$done", [
+          loop("$next", [
+            local.get("$i"),
+            local.get("$n"),
+            i32.ge_s(),
+            br_if("$done"),
+            local.get("$acc"),
+            local.get("$i"),
+            local.get("$i"),
+            i32.const(3),
+            i32.gt_s(),
+            call_indirect("$binop"),
+            local.set("$acc"),
+            global.get("$count"),
+            i32.const(1),
+            i32.add(),
+            global.set("$count"),
+            local.get("$i"),
+            i32.const(1),
+            i32.add(),
+            local.set("$i"),
+            br("$next"),
+          ]),
+        ]),
+        global.get("$count"),
+        call("$log"),
+        local.get("$acc"),
+        i32.const(0),
+        i32.lt_s(),
+        if_("i32", [i32.const(-1)], [local.get("$acc")]),
+      ],
+    },
+  ],
+  table: { min: 2 },
+  globals: [{ name: "$count", type: "i32", mutable: true, init: [i32.const(0)] }],
+  exports: [{ name: "run", kind: "func", ref: "$run" }],
+  elems: [{ offset: [i32.const(0)], funcs: ["$add", "$sub"] }],
+};
+
+async function runModule(binary: Uint8Array, n: number): Promise<[number, Array<number>]> {
+  const logged: Array<number> = [];
+  const { instance } = await WebAssembly.instantiate(binary, {
+    env: { log: (x: number) => logged.push(x) },
+  });
+  return [(instance.exports.run as (n: number) => number)(n), logged];
+}
+
+describe("wasm encoder tests", () => {
+  it("encodes a module that runs", async () => {
+    const binary = encodeModule(sample);
+    expect(WebAssembly.validate(binary)).to.eq(true);
+    expect(await runModule(binary, 4)).to.deep.eq([6, [4]]);
+    expect(await runModule(binary, 7)).to.deep.eq([-1, [7]]);
+  });
+
+  it("builds instructions as they are written in the text format", () => {
+    expect(i32.const(-1)).to.deep.eq({ op: "i32.const", value: BigInt(-1) });
+    expect(i32.load(4)).to.deep.eq({ op: "i32.load", offset: 4 });
+    expect(local.get("$a")).to.deep.eq({ op: "local.get", local: "$a" });
+    expect(if_([i32.const(1)])).to.deep.eq({ op: "if", thn: [i32.const(1)], els: [] });
+    expect(block("$done", [br(0)])).to.deep.eq({
+      op: "block",
+      label: "$done",
+      body: [{ op: "br", label: 0 }],
+    });
+  });
+
+  it("encodes signed constants and inline call types", async () => {
+    const binary = encodeModule({
+      ...sample,
+      funcs: [
+        ...sample.funcs.slice(0, 2),
+        {
+          name: "$run",
+          params: i32Vars("$n"),
+          results: ["i32"],
+          locals: [],
+          body: [
+            i32.const(-1234567),
+            i32.const(1),
+            i32.const(1),
+            call_indirect({ params: ["i32", "i32"], results: ["i32"] }),
+          ],
+        },
+      ],
+    });
+    expect(await runModule(binary, 0)).to.deep.eq([-1234568, []]);
+  });
+
+  it("prints a module in the text format", () => {
+    const printed = printWat(sample);
+    expect(printed).to.contain("    call_indirect (type $binop)");
+    expect(printed).to.contain("      loop $next");
+    expect(printed).to.contain('  (export "run" (func $run))');
+  });
+
+  it("encodes the compiler output", async () => {
+    const repl = new BasicREPL(importObject);
+    const program = await compileProgram(
+      `
+  class C(object):
+    x: int = 1
+    def get(self: C) -> int:
+      return self.x
+  C().get()`,
+      repl.config()
+    );
+    expect(WebAssembly.validate(program.binary)).to.eq(true);
+    expect(program.module.exports.map((e) => e.name)).to.deep.eq(["call_method", "exported_func"]);
+  });
+});
@@ -4,26 +4,53 @@ import {
   Type,
   UniOp,
   BinOp,
+  DUNDER_BINOPS,
+  NUMERIC_BUILTINS,
+  SHADOWABLE_BUILTINS,
   Literal,
   Program,
   FunDef,
   VarInit,
   Class,
   Location,
+  FinallyJump,
   Destructure,
   Assignable,
   ASSIGNABLE_TAGS,
   AssignTarget,
   Parameter,
+  Scope,
+  ExceptHandler,
+  CallableType,
+  Keyword,
+  ArgumentPath,
 } from "./ast";
-import { NUM, STRING, BOOL, NONE, CLASS, unhandledTag, unreachable, isTagged, LIST } from "./utils";
+import {
+  NUM,
+  FLOAT,
+  STRING,
+  BOOL,
+  NONE,
+  CLASS,
+  unhandledTag,
+  unreachable,
+  isTagged,
+  LIST,
+  SET,
+  WithTag,
+} from "./utils";
 import * as BaseException from "./error";
 import { at } from "cypress/types/lodash";
 
 export type GlobalTypeEnv = {
   globals: Map<string, Type>;
   functions: Map<string, [Array<Parameter>, Type]>;
-  classes: Map<string, [Map<string, Type>, Map<string, [Array<Parameter>, Type]>]>;
+  // <class name, [fields and methods, methods, superclass name]>
+  classes: Map<string, [Map<string, Type>, Map<string, [Array<Parameter>, Type]>, string]>;
+  // The names of an imported module are qualified with the module's name, e.g. `mod.f`
+  modules: Set<string>; // modules that were loaded, see modules.ts
+  // names bound by the imports of the programs so far, to a module or a qualified name
+  imports: Map<string, string>;
 };
 
 export type LocalTypeEnv = {
@@ -32,8 +59,29 @@ export type LocalTypeEnv = {
   functions: Map<string, [Array<Parameter>, Type]>;
   topLevel: boolean;
   loop_depth: number;
+  globals: Set<string>; // names declared `global` in the current function
+  caught: string; // local holding the exception handled by the enclosing `except` block
+  renamed: Map<string, string>; // comprehension variables in scope, see tcComprehension
+  lambdas: Array<FunDef<[Type, Location]>>; // functions made of the lambdas in scope, see tcLambda
+  yields: Type; // type of the values yielded by the current generator function, see tcGeneratorDef
+  deleted: Set<string>; // locals that may be deleted at the current statement, see tcDelTarget
+  enclosing: Set<string>; // variables of the enclosing functions, see tcNestDef
+  // the innermost `try` statements with a `finally` block that a `return`, and a `break` or a
+  // `continue`, would leave through
+  finallyReturn: FinallyBlock;
+  finallyLoop: FinallyBlock;
 };
 
+// A `try` statement with a `finally` block, and the jumps that leave through it so far
+type FinallyBlock = { a: Location; jumps: Set<FinallyJump> };
+
+// the `finally` field of a jump, left out when there is no `finally` block to leave through
+function leaveThrough(block: FinallyBlock, jump: FinallyJump): { finally?: Location } {
+  if (block === undefined) return {};
+  block.jumps.add(jump);
+  return { finally: block.a };
+}
+
 const defaultGlobalFunctions = new Map();
 defaultGlobalFunctions.set("abs", [[{ type: NUM }], NUM]);
 defaultGlobalFunctions.set("max", [[{ type: NUM }, { type: NUM }], NUM]);
@@ -49,12 +97,19 @@ const dfields = new Map();
 dfields.set("cur", NUM);
 dfields.set("stop", NUM);
 dfields.set("step", NUM);
-defaultGlobalClasses.set("Range", [dfields, new Map()]);
+defaultGlobalClasses.set("Range", [dfields, new Map(), "object"]);
+// `type(x)` is an object that knows the name of the class of x
+defaultGlobalClasses.set("type", [new Map([["__name__", STRING]]), new Map(), "object"]);
+BaseException.BUILTIN_EXCEPTIONS.forEach(([name, superName]) => {
+  defaultGlobalClasses.set(name, [new Map([["message", STRING]]), new Map(), superName]);
+});
 
-export const defaultTypeEnv = {
+export const defaultTypeEnv: GlobalTypeEnv = {
   globals: new Map(),
   functions: defaultGlobalFunctions,
   classes: defaultGlobalClasses,
+  modules: new Set(),
+  imports: new Map(),
 };
 
 export function emptyGlobalTypeEnv(): GlobalTypeEnv {
@@ -62,6 +117,8 @@ export function emptyGlobalTypeEnv(): GlobalTypeEnv {
     globals: new Map(),
     functions: new Map(),
     classes: new Map(),
+    modules: new Set(),
+    imports: new Map(),
   };
 }
 
@@ -72,6 +129,15 @@ export function emptyLocalTypeEnv(): LocalTypeEnv {
     functions: new Map(),
     topLevel: true,
     loop_depth: 0,
+    globals: new Set(),
+    caught: undefined,
+    renamed: new Map(),
+    lambdas: [],
+    yields: undefined,
+    deleted: new Set(),
+    enclosing: new Set(),
+    finallyReturn: undefined,
+    finallyLoop: undefined,
   };
 }
 
@@ -89,6 +155,8 @@ export function equalType(t1: Type, t2: Type): boolean {
     (t1.tag === "class" && t2.tag === "class" && t1.name === t2.name) ||
     //if dictionary is initialized to empty {}, then we check for "none" type in key and value
     (t1.tag === "dict" && t2.tag === "dict" && t1.key.tag === "none" && t1.value.tag === "none") ||
+    //likewise, an empty set() has "none" as its content type
+    (t1.tag === "set" && t2.tag === "set" && t1.content_type.tag === "none") ||
     (t1.tag === "list" && t2.tag === "list" && equalType(t1.content_type, t2.content_type)) ||
     (t1.tag === "callable" && t2.tag === "callable" && equalCallabale(t1, t2))
   );
@@ -113,7 +181,7 @@ export function isNoneOrClass(t: Type) {
   return t.tag === "none" || t.tag === "class";
 }
 
-const objtypes = ["class", "list", "dict", "callable", "tuple"];
+const objtypes = ["class", "list", "dict", "set", "callable", "tuple", "generator"];
 function isObjectTypeTag(t: string): boolean {
   return objtypes.indexOf(t) >= 0;
 }
@@ -121,9 +189,154 @@ function isObjectTypeTag(t: string): boolean {
 function isEmptyList(t: Type): boolean {
   return JSON.stringify(t) === JSON.stringify(LIST(null));
 }
+
+const containertypes = ["list", "string", "dict", "set", "tuple"];
+function isContainerTypeTag(t: string): boolean {
+  return containertypes.indexOf(t) >= 0;
+}
+
+// Whether a value of type `key` can be looked up with `in` in a container of type `container`.
+// Any value can be looked up in a tuple
+function isMemberType(env: GlobalTypeEnv, key: Type, container: Type): boolean {
+  switch (container.tag) {
+    case "list":
+      return isEmptyList(container) || isAssignable(env, key, container.content_type);
+    case "set":
+      return (
+        container.content_type.tag === "none" || isAssignable(env, key, container.content_type)
+      );
+    case "dict":
+      return container.key.tag === "none" || isAssignable(env, key, container.key);
+    case "string":
+      return key.tag === "string";
+    case "tuple":
+      return true;
+    default:
+      return false;
+  }
+}
+
+// Returns the type of a binary set operation, or null if the operands are not compatible sets.
+// An empty set() takes the type of the other operand
+function joinSetTypes(t1: Type, t2: Type): Type {
+  if (t1.tag !== "set" || t2.tag !== "set") return null;
+  if (equalType(t1, t2)) return t2;
+  if (equalType(t2, t1)) return t1;
+  return null;
+}
+
+// The type of arithmetic on numbers of types `t1` and `t2`, ints are promoted to floats.
+// Returns null if one of them is not a number
+function joinNumericTypes(t1: Type, t2: Type): Type {
+  const isNumeric = (t: Type) => equalType(t, NUM) || equalType(t, FLOAT);
+  if (!isNumeric(t1) || !isNumeric(t2)) return null;
+  return equalType(t1, FLOAT) || equalType(t2, FLOAT) ? FLOAT : NUM;
+}
+
+// Bitwise operators combine two ints, or two bools into a bool
+function joinBitwiseTypes(t1: Type, t2: Type): Type {
+  if (equalType(t1, NUM) && equalType(t2, NUM)) return NUM;
+  if (equalType(t1, BOOL) && equalType(t2, BOOL)) return BOOL;
+  return null;
+}
+
+// The type of the result of `abs` or one of NUMERIC_BUILTINS. Only the conversions take bools
+function tcNumericBuiltin(loc: Location, name: string, arg: Type): Type {
+  const isConversion = name === "int" || name === "float";
+  if (joinNumericTypes(arg, arg) === null && !(isConversion && equalType(arg, BOOL))) {
+    throw new BaseException.TypeError([loc], `${name}() takes a number, not ${arg.tag}`);
+  }
+  switch (name) {
+    case "abs":
+      return arg;
+    case "int":
+    case "floor":
+    case "ceil":
+      return NUM;
+    default:
+      return FLOAT;
+  }
+}
+
+// A call to one of SHADOWABLE_BUILTINS as a call to the builtin, or undefined when the program
+// binds the name, which then takes the call as Python looks up globals before builtins
+function shadowableBuiltin(
+  env: GlobalTypeEnv,
+  locals: LocalTypeEnv,
+  expr: Expr<Location> & { tag: "call_expr" }
+): Expr<Location> | undefined {
+  if (expr.name.tag !== "id" || !SHADOWABLE_BUILTINS.includes(expr.name.name)) {
+    return undefined;
+  }
+  const name = expr.name.name;
+  if (
+    locals.renamed.has(name) ||
+    locals.vars.has(name) ||
+    env.globals.has(name) ||
+    (env.classes.has(name) && !defaultGlobalClasses.has(name))
+  ) {
+    return undefined;
+  }
+  if (expr.keywords !== undefined && expr.keywords.length > 0) {
+    throw new BaseException.TypeError([expr.a], `${name}() takes no keyword arguments`);
+  }
+  if (name === "isinstance" || name === "type") {
+    return { a: expr.a, tag: "call", name, arguments: expr.arguments };
+  }
+  if (expr.arguments.length !== 1) {
+    throw new BaseException.TypeError(
+      [expr.a],
+      `${name}() takes exactly one argument (${expr.arguments.length} given)`
+    );
+  }
+  return { a: expr.a, tag: "builtin1", name, arg: expr.arguments[0] };
+}
+
+// Whether `t` is an object of a user class with the method `method`, e.g. `__add__`
+export function hasDunder(env: GlobalTypeEnv, t: Type, method: string): boolean {
+  return t.tag === "class" && env.classes.has(t.name) && env.classes.get(t.name)[1].has(method);
+}
+
+// Checks the arguments of an operator that calls the method `method` of an object of class `cls`,
+// see hasDunder, and returns the type of its result
+function tcDunderCall(
+  env: GlobalTypeEnv,
+  loc: Location,
+  cls: string,
+  method: string,
+  args: Array<Expr<[Type, Location]>>
+): Type {
+  const [params, ret] = env.classes.get(cls)[1].get(method);
+  const expected = params.slice(1);
+  if (expected.length !== args.length) {
+    throw new BaseException.TypeError(
+      [loc],
+      `${method}() takes ${expected.length} positional arguments but ${args.length} were given`
+    );
+  }
+  expected.forEach((param, i) => {
+    if (!isAssignable(env, args[i].a[0], param.type)) {
+      throw new BaseException.TypeMismatchError([loc], param.type, args[i].a[0]);
+    }
+  });
+  return ret;
+}
+// Walks up the superclass chain of `sub`; every class is a subclass of `object`
+export function isSubclass(env: GlobalTypeEnv, sub: string, sup: string): boolean {
+  var curr = sub;
+  while (env.classes.has(curr)) {
+    if (curr === sup) {
+      return true;
+    }
+    curr = env.classes.get(curr)[2];
+  }
+  return curr === sup;
+}
+
 export function isSubtype(env: GlobalTypeEnv, t1: Type, t2: Type): boolean {
   return (
     equalType(t1, t2) ||
+    (t1.tag === "class" && t2.tag === "class" && isSubclass(env, t1.name, t2.name)) ||
     (t1.tag === "none" && isObjectTypeTag(t2.tag)) ||
     isEmptyList(t1) ||
     isEmptyList(t2)
@@ -141,8 +354,226 @@ export function isAssignable(env: GlobalTypeEnv, t1: Type, t2: Type): boolean {
   return isSubtype(env, t1, t2);
 }
 
+export function isExceptionType(env: GlobalTypeEnv, t: Type): boolean {
+  return t.tag === "class" && isSubclass(env, t.name, "Exception");
+}
+
+// Walks up the superclass chain of `c1` until it finds a superclass of `c2`
+function commonSuperclass(env: GlobalTypeEnv, c1: string, c2: string): string {
+  var curr = c1;
+  while (env.classes.has(curr) && !isSubclass(env, c2, curr)) {
+    curr = env.classes.get(curr)[2];
+  }
+  return curr;
+}
+
+// `except C as e` declares `e` unless it is declared already. When several handlers bind
+// the same name, it is declared with the closest common superclass of their exception
+// classes, while each handler sees it as the class that it catches.
+function handlerInits(
+  env: GlobalTypeEnv,
+  stmts: Array<Stmt<Location>>,
+  isDeclared: (name: string) => boolean
+): Array<VarInit<Location>> {
+  const bound = new Map<string, [string, Location]>();
+  const visit = (body: Array<Stmt<Location>>) =>
+    body.forEach((stmt) => {
+      switch (stmt.tag) {
+        case "if":
+          visit(stmt.thn);
+          visit(stmt.els);
+          break;
+        case "while":
+        case "for":
+          visit(stmt.body);
+          break;
+        case "try":
+          visit(stmt.body);
+          stmt.handlers.forEach((handler) => {
+            if (handler.name !== undefined && !isDeclared(handler.name)) {
+              const cls = handler.type === undefined ? "Exception" : handler.type;
+              const prev = bound.get(handler.name);
+              bound.set(
+                handler.name,
+                prev === undefined
+                  ? [cls, handler.a]
+                  : [commonSuperclass(env, prev[0], cls), prev[1]]
+              );
+            }
+            visit(handler.body);
+          });
+          visit(stmt.els);
+          visit(stmt.finalbody);
+          break;
+      }
+    });
+  visit(stmts);
+  return [...bound].map(([name, [cls, loc]]) => {
+    return { a: loc, name, type: CLASS(cls), value: { tag: "none" } };
+  });
+}
+
+// Whether a `return`, or a `break` / `continue` outside of a nested loop, leaves these statements
+function leavesBlock(stmts: Array<Stmt<Location>>, inLoop: boolean): boolean {
+  return stmts.some((stmt) => {
+    switch (stmt.tag) {
+      case "return":
+        return true;
+      case "break":
+      case "continue":
+        return !inLoop;
+      case "if":
+        return leavesBlock(stmt.thn, inLoop) || leavesBlock(stmt.els, inLoop);
+      case "while":
+      case "for":
+        return leavesBlock(stmt.body, true);
+      case "try":
+        return (
+          leavesBlock(stmt.body, inLoop) ||
+          stmt.handlers.some((handler) => leavesBlock(handler.body, inLoop)) ||
+          leavesBlock(stmt.els, inLoop) ||
+          leavesBlock(stmt.finalbody, inLoop)
+        );
+      default:
+        return false;
+    }
+  });
+}
+
+// The locals deleted by the `del` statements in these statements
+function deletedLocals(stmts: Array<Stmt<Location>>): Array<string> {
+  return stmts
+    .map((stmt) => {
+      switch (stmt.tag) {
+        case "del":
+          return stmt.targets.map((target) => (target.tag === "id" ? [target.name] : [])).flat();
+        case "if":
+          return [...deletedLocals(stmt.thn), ...deletedLocals(stmt.els)];
+        case "while":
+        case "for":
+          return deletedLocals(stmt.body);
+        case "try":
+          return [
+            ...deletedLocals(stmt.body),
+            ...stmt.handlers.map((handler) => deletedLocals(handler.body)).flat(),
+            ...deletedLocals(stmt.els),
+            ...deletedLocals(stmt.finalbody),
+          ];
+        default:
+          return [];
+      }
+    })
+    .flat();
+}
+
+// The locals deleted after these statements, given those deleted before them
+function deletedAfter(stmts: Array<Stmt<Location>>, deleted: Set<string>): Set<string> {
+  return stmts.reduce((before, stmt) => {
+    switch (stmt.tag) {
+      case "del":
+        return new Set([...before, ...deletedLocals([stmt])]);
+      case "assignment":
+        const after = new Set(before);
+        stmt.destruct.targets.forEach(({ target }) => {
+          if (target.tag === "id") after.delete(target.name);
+        });
+        return after;
+      case "if":
+        return mergeDeleted([
+          [stmt.thn, deletedAfter(stmt.thn, before)],
+          [stmt.els, deletedAfter(stmt.els, before)],
+        ]);
+      case "while":
+        return loopEntry(before, stmt.body, []);
+      case "for":
+        return loopEntry(before, stmt.body, [stmt.name, stmt.index]);
+      case "try":
+        return new Set([...before, ...deletedLocals([stmt])]);
+      default:
+        return before;
+    }
+  }, deleted);
+}
+
+// Whether these statements can jump to the start or the end of the loop they are in
+function jumps(stmts: Array<Stmt<Location>>): boolean {
+  return stmts.some((stmt) => {
+    switch (stmt.tag) {
+      case "break":
+      case "continue":
+        return true;
+      case "if":
+        return jumps(stmt.thn) || jumps(stmt.els);
+      case "try":
+        return (
+          jumps(stmt.body) ||
+          stmt.handlers.some((handler) => jumps(handler.body)) ||
+          jumps(stmt.els) ||
+          jumps(stmt.finalbody)
+        );
+      default:
+        return false;
+    }
+  });
+}
+
+// The locals deleted when a loop body starts and after the loop: those deleted before the loop
+// and, as the body runs after itself, those deleted after the body. The loop variables are
+// assigned when the body starts
+function loopEntry(
+  deleted: Set<string>,
+  body: Array<Stmt<Location>>,
+  loopVars: Array<string>
+): Set<string> {
+  // a `break` or `continue` can leave any of the locals of the body deleted
+  if (jumps(body)) return new Set([...deleted, ...deletedLocals(body)]);
+  let entry = deleted;
+  for (;;) {
+    const bodyStart = new Set(entry);
+    loopVars.forEach((name) => bodyStart.delete(name));
+    const next = new Set([...deleted, ...deletedAfter(body, bodyStart)]);
+    if (next.size === entry.size) return entry;
+    entry = next;
+  }
+}
+
+// Starts the check of a loop body, see loopEntry. Returns the locals deleted after the loop
+function loopDeleted(
+  locals: LocalTypeEnv,
+  body: Array<Stmt<Location>>,
+  loopVars: Array<string> = []
+): Set<string> {
+  const entry = loopEntry(locals.deleted, body, loopVars);
+  locals.deleted = new Set(entry);
+  loopVars.forEach((name) => locals.deleted.delete(name));
+  return entry;
+}
+
+// The locals deleted after the blocks that end with these deleted locals, except for the
+// blocks that never complete
+function mergeDeleted(blocks: Array<[Array<Stmt<Location>>, Set<string>]>): Set<string> {
+  const completes = ([stmts]: [Array<Stmt<Location>>, Set<string>]) =>
+    stmts.length === 0 ||
+    !["return", "raise", "break", "continue"].includes(stmts[stmts.length - 1].tag);
+  return new Set(
+    blocks
+      .filter(completes)
+      .map(([_, deleted]) => [...deleted])
+      .flat()
+  );
+}
+
+// The most specific type that values of both types can be assigned to: ints and floats join to
+// a float, and objects to their closest common superclass. null when there is none
 export function join(env: GlobalTypeEnv, t1: Type, t2: Type): Type {
-  return NONE;
+  if (isAssignable(env, t1, t2)) return t2;
+  if (isAssignable(env, t2, t1)) return t1;
+  const tNumeric = joinNumericTypes(t1, t2);
+  if (tNumeric !== null) return tNumeric;
+  if (t1.tag === "class" && t2.tag === "class") {
+    return CLASS(commonSuperclass(env, t1.name, t2.name));
+  }
+  return null;
 }
 
 export function augmentTEnv(env: GlobalTypeEnv, program: Program<Location>): GlobalTypeEnv {
@@ -169,19 +600,41 @@ export function augmentTEnv(env: GlobalTypeEnv, program: Program<Location>): Glo
   });
 
   program.classes.forEach((cls) => {
-    const fields = new Map();
-    const methods = new Map();
+    if (cls.super !== "object" && !newClasses.has(cls.super)) {
+      throw new BaseException.NameError([cls.a], cls.super);
+    }
+    // Inherited fields and methods come first, so the layout of a subclass extends its superclass's
+    const [superFields, superMethods] =
+      cls.super === "object" ? [new Map(), new Map()] : newClasses.get(cls.super);
+    const fields = new Map(superFields);
+    const methods = new Map(superMethods);
     cls.fields.forEach((field) => {
+      if (superFields.has(field.name)) {
+        throw new BaseException.CompileError([field.a], `Cannot re-define attribute ${field.name}`);
+      }
       if (fields.has(field.name)) {
         throw new BaseException.CompileError([field.a], `Duplicate variable ${field.name}`);
       }
       fields.set(field.name, field.type);
     });
     cls.methods.forEach((method) => {
-      methods.set(method.name, [method.parameters, method.ret]);
-      if (fields.has(method.name)) {
+      // objects are rendered by calling these methods, see Printer
+      if (
+        (method.name === "__str__" || method.name === "__repr__") &&
+        (method.parameters.length !== 1 || !equalType(method.ret, STRING))
+      ) {
+        throw new BaseException.TypeError(
+          [method.a],
+          `${method.name}() should take no arguments besides self and return str`
+        );
+      }
+      const inherited = superMethods.get(method.name);
+      if (inherited !== undefined && methods.get(method.name) === inherited) {
+        checkOverride(method, inherited);
+      } else if (fields.has(method.name)) {
         throw new BaseException.CompileError([method.a], `Duplicate variable ${method.name}`);
       }
+      methods.set(method.name, [method.parameters, method.ret]);
       fields.set(method.name, {
         tag: "callable",
         args: method.parameters,
@@ -189,9 +642,40 @@ export function augmentTEnv(env: GlobalTypeEnv, program: Program<Location>): Glo
         isVar: false,
       });
     });
-    newClasses.set(cls.name, [fields, methods]);
+    newClasses.set(cls.name, [fields, methods, cls.super]);
   });
-  return { globals: newGlobs, functions: newFuns, classes: newClasses };
+  return { ...env, globals: newGlobs, functions: newFuns, classes: newClasses };
+}
+
+// Overriding methods must keep the signature of the method they override, apart from `self`.
+// `__init__` is exempt since constructors are never dispatched dynamically.
+function checkOverride(method: FunDef<Location>, inherited: [Array<Parameter>, Type]) {
+  const [params, ret] = inherited;
+  if (method.name === "__init__") {
+    return;
+  }
+  if (
+    params.length !== method.parameters.length ||
+    !params.slice(1).every((p, i) => equalType(p.type, method.parameters[i + 1].type)) ||
+    !equalType(ret, method.ret)
+  ) {
+    throw new BaseException.TypeError(
+      [method.a],
+      `Method overridden with different type signature: ${method.name}`
+    );
+  }
+  // callers fill in the defaults of the method of the static type of the receiver
+  if (!params.slice(1).every((p, i) => sameDefault(p.value, method.parameters[i + 1].value))) {
+    throw new BaseException.TypeError(
+      [method.a],
+      `Method overridden with different default values: ${method.name}`
+    );
+  }
+}
+
+function sameDefault(a: Literal, b: Literal): boolean {
+  if (a === undefined || b === undefined) return a === b;
+  return a.tag === b.tag && (a.tag === "none" || a.value === (b as typeof a).value);
 }
 
 export function tc(
@@ -200,6 +684,10 @@ export function tc(
 ): [Program<[Type, Location]>, GlobalTypeEnv] {
   const locals = emptyLocalTypeEnv();
   const newEnv = augmentTEnv(env, program);
+  // Handlers may bind the classes of this program, so their names are declared afterwards
+  const handlerDecls = handlerInits(newEnv, program.stmts, (name) => newEnv.globals.has(name));
+  handlerDecls.forEach((init) => newEnv.globals.set(init.name, init.type));
+  program = { ...program, inits: program.inits.concat(handlerDecls) };
   const tInits = program.inits.map((init) => tcInit(env, init));
   const tDefs = program.funs.map((fun) => tcDef(newEnv, fun));
   const tClasses = program.classes.map((cls) => tcClass(newEnv, cls));
@@ -219,7 +707,7 @@ export function tc(
   const aprogram: Program<[Type, Location]> = {
     a: [lastTyp, program.a],
     inits: tInits,
-    funs: tDefs,
+    funs: tDefs.concat(locals.lambdas),
     classes: tClasses,
     stmts: tBody,
     closures: [],
@@ -237,10 +725,59 @@ export function tcInit(env: GlobalTypeEnv, init: VarInit<Location>): VarInit<[Ty
   }
 }
 
+// Whether these statements yield, not counting nested functions. A generator cannot be
+// suspended inside a `try` statement
+function yieldsIn(stmts: Array<Stmt<Location>>): boolean {
+  return stmts.some((stmt) => {
+    switch (stmt.tag) {
+      case "yield":
+        return true;
+      case "if":
+        return yieldsIn(stmt.thn) || yieldsIn(stmt.els);
+      case "while":
+      case "for":
+        return yieldsIn(stmt.body);
+      case "try":
+        if (
+          yieldsIn(stmt.body) ||
+          stmt.handlers.some((handler) => yieldsIn(handler.body)) ||
+          yieldsIn(stmt.els) ||
+          yieldsIn(stmt.finalbody)
+        ) {
+          throw new BaseException.SyntaxError(
+            [stmt.a],
+            "'yield' inside a 'try' statement is not supported"
+          );
+        }
+        return false;
+      default:
+        return false;
+    }
+  });
+}
+
+// A function whose body yields is a generator: calling it returns a Generator[T] that runs
+// the body lazily, so its `yield` statements take values of type T and its `return` none
+function tcGeneratorDef(fun: FunDef<Location>, locals: LocalTypeEnv): boolean {
+  if (!yieldsIn(fun.body)) {
+    return false;
+  }
+  if (fun.ret.tag !== "generator") {
+    throw new BaseException.TypeError(
+      [fun.a],
+      `generator function ${fun.name} must be annotated to return a Generator`
+    );
+  }
+  locals.yields = fun.ret.content_type;
+  locals.expectedRet = NONE;
+  return true;
+}
+
 export function tcDef(env: GlobalTypeEnv, fun: FunDef<Location>): FunDef<[Type, Location]> {
   var locals = emptyLocalTypeEnv();
   locals.expectedRet = fun.ret;
   locals.topLevel = false;
+  const generator = tcGeneratorDef(fun, locals);
 
   fun.parameters.forEach((p) => {
     if (locals.vars.has(p.name)) {
@@ -258,11 +795,12 @@ export function tcDef(env: GlobalTypeEnv, fun: FunDef<Location>): FunDef<[Type,
     if (decl.tag == "nonlocal") {
       throw new BaseException.CompileError([decl.a], `Invalid Nonlocal Variable ${decl.name}`);
     }
-    if (!env.globals.has(decl.name)) {
-      throw new BaseException.CompileError([decl.a], `Invalid global Variable ${decl.name}`);
-    }
-    throw new BaseException.CompileError([decl.a], `Invalid global Variable ${decl.name}2`);
+    tcGlobalDecl(env, locals, decl);
   });
+  const inits = fun.inits.concat(
+    handlerInits(env, fun.body, (name) => locals.vars.has(name) || locals.globals.has(name))
+  );
+  inits.forEach((init) => locals.vars.set(init.name, init.type));
   fun.funs.forEach((func) => {
     locals.functions.set(func.name, [func.parameters, func.ret]);
     if (locals.vars.has(func.name)) {
@@ -285,8 +823,9 @@ export function tcDef(env: GlobalTypeEnv, fun: FunDef<Location>): FunDef<[Type,
     decls: fun.decls.map((s) => {
       return { ...s, a: [undefined, s.a] };
     }), // TODO
-    inits: fun.inits.map((s) => tcInit(env, s)),
-    funs: tDefs,
+    inits: inits.map((s) => tcInit(env, s)),
+    funs: tDefs.concat(locals.lambdas),
+    ...(generator ? { generator } : {}),
   };
 }
 
@@ -298,6 +837,7 @@ export function tcNestDef(
   var locals = emptyLocalTypeEnv();
   locals.expectedRet = fun.ret;
   locals.topLevel = false;
+  const generator = tcGeneratorDef(fun, locals);
 
   fun.parameters.forEach((p) => {
     if (locals.vars.has(p.name)) {
@@ -312,10 +852,17 @@ export function tcNestDef(
     locals.vars.set(init.name, tcInit(env, init).type);
   });
   fun.decls.forEach((decl) => {
-    if (locals.vars.has(decl.name) || !nestEnv.vars.has(decl.name)) {
+    if (decl.tag == "global") {
+      tcGlobalDecl(env, locals, decl);
+    } else if (locals.vars.has(decl.name) || !nestEnv.vars.has(decl.name)) {
       throw new BaseException.CompileError([decl.a], `Invalid Nonlocal Variable ${decl.name}`);
     }
   });
+  const nonlocals = new Set(fun.decls.map((decl) => decl.name));
+  const inits = fun.inits.concat(
+    handlerInits(env, fun.body, (name) => locals.vars.has(name) || nonlocals.has(name))
+  );
+  inits.forEach((init) => locals.vars.set(init.name, init.type));
 
   fun.funs.forEach((func) => {
     locals.functions.set(func.name, [func.parameters, func.ret]);
@@ -331,8 +878,10 @@ export function tcNestDef(
   });
 
   nestEnv.vars.forEach((vtype, vname) => {
-    if (!locals.vars.has(vname)) {
+    // `global` declarations shadow the variables of enclosing functions
+    if (!locals.vars.has(vname) && !locals.globals.has(vname)) {
       locals.vars.set(vname, vtype);
+      locals.enclosing.add(vname);
     }
   });
   nestEnv.functions.forEach((vtype, vname) => {
@@ -346,15 +895,26 @@ export function tcNestDef(
   return {
     ...fun,
     a: [NONE, fun.a],
-    funs: tDefs,
+    funs: tDefs.concat(locals.lambdas),
     body: tBody,
     decls: fun.decls.map((s) => {
       return { ...s, a: [undefined, s.a] };
     }), // TODO
-    inits: fun.inits.map((s) => tcInit(env, s)),
+    inits: inits.map((s) => tcInit(env, s)),
+    ...(generator ? { generator } : {}),
   };
 }
 
+export function tcGlobalDecl(env: GlobalTypeEnv, locals: LocalTypeEnv, decl: Scope<Location>) {
+  if (!env.globals.has(decl.name)) {
+    throw new BaseException.CompileError([decl.a], `Invalid global Variable ${decl.name}`);
+  }
+  if (locals.vars.has(decl.name) || locals.globals.has(decl.name)) {
+    throw new BaseException.CompileError([decl.a], `Duplicate variable ${decl.name}`);
+  }
+  locals.globals.add(decl.name);
+}
+
 export function tcDefault(paramType: Type, paramLiteral: Literal) {
   // no default values
   if (paramLiteral === undefined) {
@@ -373,7 +933,21 @@ export function tcDefault(paramType: Type, paramLiteral: Literal) {
 export function tcClass(env: GlobalTypeEnv, cls: Class<Location>): Class<[Type, Location]> {
   const tFields = cls.fields.map((field) => tcInit(env, field));
   const tMethods = cls.methods.map((method) => tcDef(env, method));
-  return { a: [NONE, cls.a], name: cls.name, fields: tFields, methods: tMethods };
+  tMethods.forEach((method) => {
+    if (method.generator) {
+      throw new BaseException.CompileError(
+        [method.a[1]],
+        `method ${method.name} cannot be a generator`
+      );
+    }
+  });
+  return {
+    a: [NONE, cls.a],
+    name: cls.name,
+    super: cls.super,
+    fields: tFields,
+    methods: tMethods,
+  };
 }
 
 export function tcBlock(
@@ -384,20 +958,243 @@ export function tcBlock(
   return stmts.map((stmt) => tcStmt(env, locals, stmt));
 }
 
-export function tcLambda(locals: LocalTypeEnv, expr: Expr<Location>, expected: Type) {
+// numbers the functions made of lambdas, whose names must be unique across programs
+let lambdaCount = 0;
+
+/**
+ * Type checks a lambda whose parameters have the types `params`. Its result has type `ret`,
+ * or the type of its body when `ret` is not given.
+ * The lambda becomes a function nested in the current scope, so that it captures the variables
+ * around it like a nested `def`, and the lambda itself becomes a reference to that function.
+ */
+export function tcLambda(
+  env: GlobalTypeEnv,
+  locals: LocalTypeEnv,
+  expr: WithTag<Expr<Location>, "lambda">,
+  params: Array<Type>,
+  ret?: Type
+): Expr<[Type, Location]> {
+  if (expr.args.length !== params.length) {
+    throw new BaseException.TypeError(
+      [expr.a],
+      `lambda function takes ${params.length} positional arguments but ${expr.args.length} were given`
+    );
+  }
+  const lambdaLocals = emptyLocalTypeEnv();
+  lambdaLocals.topLevel = false;
+  locals.vars.forEach((type, name) => lambdaLocals.vars.set(name, type));
+  locals.functions.forEach((type, name) => lambdaLocals.functions.set(name, type));
+  locals.renamed.forEach((renamed, name) => lambdaLocals.renamed.set(name, renamed));
+  expr.args.forEach((name, i) => {
+    lambdaLocals.vars.set(name, params[i]);
+    lambdaLocals.renamed.delete(name);
+  });
+  const body = tcExprAgainst(env, lambdaLocals, expr.ret, ret);
+  const retType = ret === undefined ? body.a[0] : ret;
+  if (!isAssignable(env, body.a[0], retType)) {
+    throw new BaseException.TypeMismatchError([expr.ret.a], retType, body.a[0]);
+  }
+
+  const parameters = expr.args.map((name, i) => ({ name, type: params[i] }));
+  const name = `lambda$${lambdaCount++}`;
+  locals.lambdas.push({
+    a: [NONE, expr.a],
+    name,
+    parameters,
+    ret: retType,
+    decls: [],
+    inits: [],
+    funs: lambdaLocals.lambdas,
+    body: [{ a: [retType, expr.a], tag: "return", value: body }],
+  });
+  return { a: [{ tag: "callable", args: parameters, ret: retType }, expr.a], tag: "id", name };
+}
+
+// Whether `expr` takes its type from the type expected of it: lambdas get the types of their
+// parameters from it
+function needsExpectedType(expr: Expr<Location>): boolean {
+  switch (expr.tag) {
+    case "lambda":
+      return true;
+    case "list-expr":
+      return expr.contents.some(needsExpectedType);
+    case "dict":
+      return expr.entries.some(([_, value]) => needsExpectedType(value));
+    case "ternary":
+      return needsExpectedType(expr.thn) || needsExpectedType(expr.els);
+    default:
+      return false;
+  }
+}
+
+// Type checks `expr` where a value of type `expected` is wanted, when that type is known
+function tcExprAgainst(
+  env: GlobalTypeEnv,
+  locals: LocalTypeEnv,
+  expr: Expr<Location>,
+  expected: Type | undefined
+): Expr<[Type, Location]> {
+  if (expected === undefined || !needsExpectedType(expr)) {
+    return tcExpr(env, locals, expr);
+  }
   if (expr.tag === "lambda" && expected.tag === "callable") {
-    const args = expr.args;
-    if (args.length === expected.args.length) {
-      for (let i = 0; i < args.length; i++) {
-        locals.vars.set(args[i], expected.args[i].type);
+    const params = expected.args.map((p) => p.type);
+    return tcLambda(env, locals, expr, params, expected.ret);
+  }
+  if (expr.tag === "list-expr" && expected.tag === "list") {
+    const contents = expr.contents.map((c) => tcExprAgainst(env, locals, c, expected.content_type));
+    contents.forEach((content) => {
+      if (!isAssignable(env, content.a[0], expected.content_type)) {
+        throw new BaseException.TypeMismatchError(
+          [content.a[1]],
+          expected.content_type,
+          content.a[0]
+        );
+      }
+    });
+    return { ...expr, a: [expected, expr.a], contents };
+  }
+  if (expr.tag === "dict" && expected.tag === "dict") {
+    const entries = expr.entries.map(([key, value]): [
+      Expr<[Type, Location]>,
+      Expr<[Type, Location]>
+    ] => [tcExpr(env, locals, key), tcExprAgainst(env, locals, value, expected.value)]);
+    entries.forEach(([key, value]) => {
+      if (!isAssignable(env, key.a[0], expected.key)) {
+        throw new BaseException.TypeMismatchError([key.a[1]], expected.key, key.a[0]);
       }
+      if (!isAssignable(env, value.a[0], expected.value)) {
+        throw new BaseException.TypeMismatchError([value.a[1]], expected.value, value.a[0]);
+      }
+    });
+    return { ...expr, a: [expected, expr.a], entries };
+  }
+  if (expr.tag === "ternary") {
+    const cond = tcExpr(env, locals, expr.cond);
+    if (!equalType(cond.a[0], BOOL)) {
+      throw new BaseException.ConditionTypeError([cond.a[1]], cond.a[0]);
+    }
+    const thn = tcExprAgainst(env, locals, expr.thn, expected);
+    const els = tcExprAgainst(env, locals, expr.els, expected);
+    [thn, els].forEach((branch) => {
+      if (!isAssignable(env, branch.a[0], expected)) {
+        throw new BaseException.TypeMismatchError([branch.a[1]], expected, branch.a[0]);
+      }
+    });
+    return { ...expr, a: [expected, expr.a], cond, thn, els };
+  }
+  return tcExpr(env, locals, expr);
+}
+
+type CallArgs = { arguments: Array<Expr<[Type, Location]>>; evalOrder?: Array<ArgumentPath> };
+
+/**
+ * Matches the arguments of a call to `fname` with its `params` and type checks them, giving one
+ * argument per parameter in order. Missing arguments take their default value, and the extra
+ * positional and keyword arguments are packed into the list of `*args` and the dict of `**kwargs`.
+ * The arguments still run in the order they were written, which `evalOrder` gives when it differs
+ * or when more than one argument is packed into `*args`.
+ */
+function tcCallArgs(
+  env: GlobalTypeEnv,
+  locals: LocalTypeEnv,
+  loc: Location,
+  fname: string,
+  params: Array<Parameter>,
+  args: Array<Expr<Location>>,
+  keywords: Array<Keyword<Location>> = []
+): CallArgs {
+  const bound: Array<Expr<Location>> = params.map(() => undefined);
+  // where each argument was written, keywords coming after the positional arguments
+  const boundAt: Array<number> = params.map(() => undefined);
+  const positional = params.filter((p) => p.variadic === undefined && !p.keywordOnly);
+  const extraArgs = args.slice(positional.length);
+  args.slice(0, positional.length).forEach((arg, i) => {
+    bound[params.indexOf(positional[i])] = arg;
+    boundAt[params.indexOf(positional[i])] = i;
+  });
+  if (extraArgs.length > 0 && !params.some((p) => p.variadic === "args")) {
+    throw new BaseException.TypeError(
+      [loc],
+      `${fname}() takes ${positional.length} positional arguments but ${args.length} were given`
+    );
+  }
+  const extraKeywords: Array<Keyword<Location>> = [];
+  const extraKeywordsAt: Array<number> = [];
+  keywords.forEach((kw, k) => {
+    const i = params.findIndex((p) => p.name === kw.name && p.variadic === undefined);
+    if (bound[i] !== undefined || extraKeywords.some((extra) => extra.name === kw.name)) {
+      throw new BaseException.TypeError(
+        [kw.a],
+        `${fname}() got multiple values for argument '${kw.name}'`
+      );
+    } else if (i >= 0) {
+      bound[i] = kw.value;
+      boundAt[i] = args.length + k;
+    } else if (params.some((p) => p.variadic === "kwargs")) {
+      extraKeywords.push(kw);
+      extraKeywordsAt.push(args.length + k);
     } else {
       throw new BaseException.TypeError(
-        [expr.a],
-        `lambda function takes ${expected.args.length} positional arguments but ${args.length} were given`
+        [kw.a],
+        `${fname}() got an unexpected keyword argument '${kw.name}'`
       );
     }
+  });
+  const tArgs = params.map((p, i) => {
+    let tArg: Expr<[Type, Location]>;
+    if (p.variadic === "args" && p.type.tag === "list") {
+      const contentType = p.type.content_type;
+      const contents = extraArgs.map((arg) => tcArgAgainst(env, locals, arg, contentType));
+      tArg = { a: [p.type, loc], tag: "list-expr", contents };
+    } else if (p.variadic === "kwargs" && p.type.tag === "dict") {
+      const valueType = p.type.value;
+      const entries = extraKeywords.map((kw): [Expr<[Type, Location]>, Expr<[Type, Location]>] => [
+        { a: [STRING, kw.a], tag: "literal", value: { tag: "string", value: kw.name } },
+        tcArgAgainst(env, locals, kw.value, valueType),
+      ]);
+      tArg = { a: [p.type, loc], tag: "dict", entries };
+    } else if (bound[i] !== undefined) {
+      tArg = tcArgAgainst(env, locals, bound[i], p.type);
+    } else if (p.value !== undefined) {
+      tArg = tcExpr(env, locals, { a: loc, tag: "literal", value: p.value });
+    } else {
+      throw new BaseException.TypeError([loc], `${fname}() missing required argument '${p.name}'`);
+    }
+    return tArg;
+  });
+  // the arguments with where they were written, in the order of the parameters
+  const written: Array<[ArgumentPath, number]> = [];
+  params.forEach((p, i) => {
+    if (p.variadic === "args") {
+      extraArgs.forEach((_, j) => written.push([[i, j], positional.length + j]));
+    } else if (p.variadic === "kwargs") {
+      extraKeywordsAt.forEach((at, j) => written.push([[i, j], at]));
+    } else if (bound[i] !== undefined) {
+      written.push([[i], boundAt[i]]);
+    }
+  });
+  // the list of `*args` is built back to front, so its contents are saved in order beforehand
+  const sorted = written.every(([_, at], k) => k === 0 || written[k - 1][1] < at);
+  if (sorted && extraArgs.length < 2) {
+    return { arguments: tArgs };
+  }
+  written.sort((x, y) => x[1] - y[1]);
+  return { arguments: tArgs, evalOrder: written.map(([path]) => path) };
+}
+
+// Type checks an argument passed for a parameter of type `expected`
+function tcArgAgainst(
+  env: GlobalTypeEnv,
+  locals: LocalTypeEnv,
+  arg: Expr<Location>,
+  expected: Type
+): Expr<[Type, Location]> {
+  const tArg = tcExprAgainst(env, locals, arg, expected);
+  if (!isAssignable(env, tArg.a[0], expected)) {
+    throw new BaseException.TypeMismatchError([tArg.a[1]], expected, tArg.a[0]);
   }
+  return tArg;
 }
 
 export function tcStmt(
@@ -407,13 +1204,17 @@ export function tcStmt(
 ): Stmt<[Type, Location]> {
   switch (stmt.tag) {
     case "assignment":
-      const tValueExpr = tcExpr(env, locals, stmt.value);
-      return {
-        a: [NONE, stmt.a],
-        tag: stmt.tag,
-        value: tValueExpr,
-        destruct: tcDestructure(env, locals, stmt.destruct, tValueExpr.a[0], stmt.value),
-      };
+      // a single target gives its type to a lambda assigned to it
+      const [single] = stmt.destruct.targets;
+      const tValueExpr =
+        stmt.destruct.isDestructured || single.ignore || !needsExpectedType(stmt.value)
+          ? tcExpr(env, locals, stmt.value)
+          : tcExprAgainst(env, locals, stmt.value, tcAssignable(env, locals, single.target).a[0]);
+      const tDestruct = tcDestructure(env, locals, stmt.destruct, tValueExpr.a[0], stmt.value);
+      stmt.destruct.targets.forEach(({ target }) => {
+        if (target.tag === "id") locals.deleted.delete(target.name);
+      });
+      return { a: [NONE, stmt.a], tag: stmt.tag, value: tValueExpr, destruct: tDestruct };
     case "expr":
       const tExpr = tcExpr(env, locals, stmt.expr);
       return { a: tExpr.a, tag: stmt.tag, expr: tExpr };
@@ -421,10 +1222,18 @@ export function tcStmt(
       // loop_depth used for potential for loop breaks insiede this if
       locals.loop_depth += 1;
       var tCond = tcExpr(env, locals, stmt.cond);
+      const ifDeleted = locals.deleted;
+      locals.deleted = new Set(ifDeleted);
       const tThn = tcBlock(env, locals, stmt.thn);
       const thnTyp = tThn[tThn.length - 1].a[0];
+      const thnDeleted = locals.deleted;
+      locals.deleted = new Set(ifDeleted);
       const tEls = tcBlock(env, locals, stmt.els);
       const elsTyp = tEls[tEls.length - 1].a[0];
+      locals.deleted = mergeDeleted([
+        [stmt.thn, thnDeleted],
+        [stmt.els, locals.deleted],
+      ]);
       // restore loop depth
       locals.loop_depth -= 1;
       if (tCond.a[0] !== BOOL) throw new BaseException.ConditionTypeError([tCond.a[1]], tCond.a[0]);
@@ -435,21 +1244,32 @@ export function tcStmt(
       if (locals.topLevel)
         throw new BaseException.SyntaxError([stmt.a], "'return' outside of functions");
 
-      if (stmt.value.tag === "lambda" && locals.expectedRet.tag === "callable") {
-        tcLambda(locals, stmt.value, locals.expectedRet);
-      }
-      const tRet = tcExpr(env, locals, stmt.value);
+      const tRet = tcExprAgainst(env, locals, stmt.value, locals.expectedRet);
       if (!isAssignable(env, tRet.a[0], locals.expectedRet))
         throw new BaseException.TypeMismatchError([stmt.a], locals.expectedRet, tRet.a[0]);
-      return { a: tRet.a, tag: stmt.tag, value: tRet };
+      const retFinally = leaveThrough(locals.finallyReturn, "return");
+      return { a: tRet.a, tag: stmt.tag, value: tRet, ...retFinally };
+    case "yield":
+      if (locals.yields === undefined)
+        throw new BaseException.SyntaxError([stmt.a], "'yield' outside of functions");
+
+      const tYielded = tcExprAgainst(env, locals, stmt.value, locals.yields);
+      if (!isAssignable(env, tYielded.a[0], locals.yields))
+        throw new BaseException.TypeMismatchError([stmt.a], locals.yields, tYielded.a[0]);
+      return { a: [NONE, stmt.a], tag: stmt.tag, value: tYielded };
     case "while":
       // record the history depth
       const wlast_depth = locals.loop_depth;
       // set depth information to 1 for potential break and continues
       locals.loop_depth = 1;
+      const whileFinally = locals.finallyLoop;
+      locals.finallyLoop = undefined;
+      const whileDeleted = loopDeleted(locals, stmt.body);
       var tCond = tcExpr(env, locals, stmt.cond);
       const tBody = tcBlock(env, locals, stmt.body);
       locals.loop_depth = wlast_depth;
+      locals.finallyLoop = whileFinally;
+      locals.deleted = whileDeleted;
 
       if (!equalType(tCond.a[0], BOOL))
         throw new BaseException.ConditionTypeError([tCond.a[1]], tCond.a[0]);
@@ -475,6 +1295,16 @@ export function tcStmt(
           // locals.vars.set(stmt.name, {tag: 'char'});
           throw new BaseException.InternalException("for-loop with strings are not implmented.");
         case "list":
+        case "set":
+          locals.vars.set(stmt.name, fIter.a[0].content_type);
+          break;
+        case "generator":
+          if (stmt.index !== undefined) {
+            throw new BaseException.CompileError(
+              [stmt.a],
+              "for-loop over a generator cannot take an index."
+            );
+          }
           locals.vars.set(stmt.name, fIter.a[0].content_type);
           break;
         default:
@@ -484,11 +1314,16 @@ export function tcStmt(
       const last_depth = locals.loop_depth;
       // set depth information to 1 for potential break and continues
       locals.loop_depth = 1;
+      const forFinally = locals.finallyLoop;
+      locals.finallyLoop = undefined;
+      const forDeleted = loopDeleted(locals, stmt.body, [stmt.name, stmt.index]);
       // go into body
       const fBody = tcBlock(env, locals, stmt.body);
       // delete the temp var information after finished the body, and restore last depth
       // locals.vars.delete(stmt.name);
       locals.loop_depth = last_depth;
+      locals.finallyLoop = forFinally;
+      locals.deleted = forDeleted;
 
       // return type checked stmt
       return {
@@ -503,17 +1338,192 @@ export function tcStmt(
       if (locals.loop_depth < 1) {
         throw new BaseException.SyntaxError([stmt.a], "'Break' outside a loop.");
       }
-      return { a: [NONE, stmt.a], tag: "break", depth: locals.loop_depth };
+      return {
+        a: [NONE, stmt.a],
+        tag: "break",
+        depth: locals.loop_depth,
+        ...leaveThrough(locals.finallyLoop, "break"),
+      };
     case "continue":
       if (locals.loop_depth < 1) {
         throw new BaseException.SyntaxError([stmt.a], "'Continue' outside a loop.");
       }
       const depth = locals.loop_depth - 1;
-      return { a: [NONE, stmt.a], tag: "continue", depth: depth };
+      const contFinally = leaveThrough(locals.finallyLoop, "continue");
+      return { a: [NONE, stmt.a], tag: "continue", depth: depth, ...contFinally };
+    case "raise":
+      if (stmt.value === undefined) {
+        if (locals.caught === undefined) {
+          throw new BaseException.SyntaxError([stmt.a], "No active exception to reraise");
+        }
+        const reraised: Expr<[Type, Location]> = {
+          a: [CLASS("Exception"), stmt.a],
+          tag: "id",
+          name: locals.caught,
+        };
+        return { a: [NONE, stmt.a], tag: "raise", value: reraised };
+      }
+      // `raise C` raises a new instance of the class C
+      const raised: Expr<Location> =
+        stmt.value.tag === "id" && env.classes.has(stmt.value.name)
+          ? { a: stmt.value.a, tag: "call_expr", name: stmt.value, arguments: [] }
+          : stmt.value;
+      const tRaised = tcExpr(env, locals, raised);
+      if (!isExceptionType(env, tRaised.a[0])) {
+        throw new BaseException.TypeError([stmt.a], "exceptions must derive from Exception");
+      }
+      return { a: [NONE, stmt.a], tag: "raise", value: tRaised };
+    case "assert":
+      const tAsserted = tcExpr(env, locals, stmt.cond);
+      if (tAsserted.a[0] !== BOOL) {
+        throw new BaseException.ConditionTypeError([tAsserted.a[1]], tAsserted.a[0]);
+      }
+      if (stmt.msg === undefined) {
+        return { a: [NONE, stmt.a], tag: "assert", cond: tAsserted };
+      }
+      const tAssertMsg = tcExpr(env, locals, stmt.msg);
+      if (!equalType(tAssertMsg.a[0], STRING)) {
+        throw new BaseException.TypeMismatchError([tAssertMsg.a[1]], STRING, tAssertMsg.a[0]);
+      }
+      return { a: [NONE, stmt.a], tag: "assert", cond: tAsserted, msg: tAssertMsg };
+    case "del":
+      const tDeleted = stmt.targets.map((target) => tcDelTarget(env, locals, target));
+      return { a: [NONE, stmt.a], tag: "del", targets: tDeleted };
+    case "try":
+      // leaving `finally` would drop the exception or the jump in progress, which Python warns
+      // about since PEP 765
+      if (leavesBlock(stmt.finalbody, false)) {
+        throw new BaseException.SyntaxError(
+          [stmt.a],
+          "'return', 'break' and 'continue' cannot leave a 'finally' block"
+        );
+      }
+      const caught = `$try_exc_${stmt.a.line}_${stmt.a.col}`;
+      // The body, the handlers and the else block are nested in 3, 3 and 1 more wasm blocks
+      const tryDepth = locals.loop_depth;
+      const outerReturn = locals.finallyReturn;
+      const outerLoop = locals.finallyLoop;
+      // the body, the handlers and the else block are left through the finally block
+      const tryFinally: FinallyBlock = { a: stmt.a, jumps: new Set() };
+      if (stmt.finalbody.length > 0) {
+        locals.finallyReturn = tryFinally;
+        locals.finallyLoop = tryFinally;
+      }
+      const nestedDepth = (blocks: number) => (tryDepth > 0 ? tryDepth + blocks : 0);
+      locals.loop_depth = nestedDepth(3);
+      // the handlers can start after any statement of the body
+      const handlerDeleted = new Set([...locals.deleted, ...deletedLocals(stmt.body)]);
+      const tTryBody = tcBlock(env, locals, stmt.body);
+      const bodyDeleted = locals.deleted;
+      const handlersDeleted: Array<[Array<Stmt<Location>>, Set<string>]> = [];
+      const outerCaught = locals.caught;
+      const tHandlers = stmt.handlers.map(
+        (handler): ExceptHandler<[Type, Location]> => {
+          if (handler.type !== undefined && !env.classes.has(handler.type)) {
+            throw new BaseException.NameError([handler.a], handler.type);
+          }
+          const excType = CLASS(handler.type === undefined ? "Exception" : handler.type);
+          locals.deleted = new Set(handlerDeleted);
+          if (!isExceptionType(env, excType)) {
+            throw new BaseException.TypeError(
+              [handler.a],
+              "catching classes that do not inherit from Exception is not allowed"
+            );
+          }
+          // `except C as e` starts with the assignment `e = <caught exception>`
+          const binding: Array<Stmt<[Type, Location]>> = [];
+          if (handler.name !== undefined) {
+            const target: Expr<Location> = { a: handler.a, tag: "id", name: handler.name };
+            const destruct: Destructure<Location> = {
+              isDestructured: false,
+              targets: [
+                {
+                  target: { a: handler.a, tag: "id", name: handler.name },
+                  starred: false,
+                  ignore: false,
+                },
+              ],
+            };
+            binding.push({
+              a: [NONE, handler.a],
+              tag: "assignment",
+              value: { a: [excType, handler.a], tag: "id", name: caught },
+              destruct: tcDestructure(env, locals, destruct, excType, target),
+            });
+          }
+          locals.deleted.delete(handler.name);
+          locals.caught = caught;
+          // in its handler, the name is of the class that the handler catches
+          const scope =
+            handler.name === undefined
+              ? undefined
+              : locals.vars.has(handler.name)
+              ? locals.vars
+              : env.globals;
+          const declared = scope === undefined ? undefined : scope.get(handler.name);
+          if (scope !== undefined) scope.set(handler.name, excType);
+          const tHandlerBody = tcBlock(env, locals, handler.body);
+          if (scope !== undefined) scope.set(handler.name, declared);
+          locals.caught = outerCaught;
+          handlersDeleted.push([handler.body, locals.deleted]);
+          return { ...handler, a: [NONE, handler.a], body: binding.concat(tHandlerBody) };
+        }
+      );
+      locals.loop_depth = nestedDepth(1);
+      locals.deleted = bodyDeleted;
+      const tTryEls = tcBlock(env, locals, stmt.els);
+      locals.finallyReturn = outerReturn;
+      locals.finallyLoop = outerLoop;
+      // after the finally block, the jumps go on through the enclosing finally blocks
+      tryFinally.jumps.forEach((jump) =>
+        leaveThrough(jump === "return" ? outerReturn : outerLoop, jump)
+      );
+      // `finally` also runs when the handlers or the else block raised
+      locals.deleted = new Set([
+        ...mergeDeleted([[stmt.body.concat(stmt.els), locals.deleted], ...handlersDeleted]),
+        ...handlerDeleted,
+        ...stmt.handlers.map((handler) => deletedLocals(handler.body)).flat(),
+        ...deletedLocals(stmt.els),
+      ]);
+      const tFinalbody = tcBlock(env, locals, stmt.finalbody);
+      locals.loop_depth = tryDepth;
+      return {
+        a: [NONE, stmt.a],
+        tag: "try",
+        body: tTryBody,
+        handlers: tHandlers,
+        els: tTryEls,
+        finalbody: tFinalbody,
+        caught,
+        jumps: [...tryFinally.jumps],
+        outerReturn: outerReturn === undefined ? undefined : outerReturn.a,
+        outerLoop: outerLoop === undefined ? undefined : outerLoop.a,
+        loopDepth: tryDepth > 0 ? tryDepth : undefined,
+      };
+    case "aug-assign":
+      const tAugTarget = tcAssignable(env, locals, stmt.target);
+      // the target is read and combined with the value like in `target op value`
+      const tAugResult = tcExpr(env, locals, {
+        a: stmt.a,
+        tag: "binop",
+        op: stmt.op,
+        left: stmt.target,
+        right: stmt.value,
+      });
+      if (tAugResult.tag !== "binop")
+        throw new BaseException.InternalException("augmented assignment is not a binop");
+      if (!isAssignable(env, tAugResult.a[0], tAugTarget.a[0]))
+        throw new BaseException.TypeMismatchError([stmt.a], tAugTarget.a[0], tAugResult.a[0]);
+      return {
+        a: [NONE, stmt.a],
+        tag: stmt.tag,
+        target: tAugTarget,
+        op: stmt.op,
+        value: tAugResult.right,
+      };
     case "field-assign": // unreachable code ???
       var tObj = tcExpr(env, locals, stmt.obj);
       const tVal = tcExpr(env, locals, stmt.value);
-      console.log("field a" + tObj.a);
       if (tObj.a[0].tag !== "class")
         throw new BaseException.CompileError([stmt.a], "field assignments require an object");
       if (!env.classes.has(tObj.a[0].name))
@@ -545,7 +1555,7 @@ export function tcStmt(
  * @param locals LocalTypeEnv
  * @param destruct Destructure description of assign targets
  * @param value Type of the value passed into this destructure
- * @param expr Expr of the value passed into this destructure (only used for lambda expr)
+ * @param expr Expr of the value passed into this destructure (only used for error locations)
  */
 function tcDestructure(
   env: GlobalTypeEnv,
@@ -567,10 +1577,6 @@ function tcDestructure(
     let { target, starred, ignore } = aTarget;
     const tTarget = tcAssignable(env, locals, target);
     const targetType = tTarget.a;
-    if (expr.tag === "lambda") {
-      tcLambda(locals, expr, targetType[0]);
-      valueType = tcExpr(env, locals, expr).a[0];
-    }
     if (!isAssignable(env, valueType, targetType[0]))
       throw new BaseException.TypeMismatchError([aTarget.target.a], targetType[0], valueType);
     return {
@@ -724,7 +1730,43 @@ function tcAssignable(
   locals: LocalTypeEnv,
   target: Assignable<Location>
 ): Assignable<[Type, Location]> {
-  const expr = tcExpr(env, locals, target);
+  // assigning to `obj[key]` calls `obj.__setitem__(key, value)`, so the target takes the type of
+  // its value parameter
+  if (target.tag === "bracket-lookup") {
+    const tObj = tcExpr(env, locals, target.obj);
+    const objType = tObj.a[0];
+    if (objType.tag === "class" && hasDunder(env, objType, "__setitem__")) {
+      const [params] = env.classes.get(objType.name)[1].get("__setitem__");
+      if (params.length !== 3) {
+        throw new BaseException.TypeError(
+          [target.a],
+          `__setitem__() takes ${params.length - 1} positional arguments but 2 were given`
+        );
+      }
+      const tKey = tcExpr(env, locals, target.key);
+      if (!isAssignable(env, tKey.a[0], params[1].type)) {
+        throw new BaseException.TypeMismatchError([target.a], params[1].type, tKey.a[0]);
+      }
+      return { ...target, a: [params[2].type, target.a], obj: tObj, key: tKey };
+    }
+  }
+  // assigning to a deleted local binds it again
+  const expr = tcExpr(
+    env,
+    target.tag === "id" ? { ...locals, deleted: new Set() } : locals,
+    target
+  );
+  if (
+    expr.tag === "id" &&
+    !locals.topLevel &&
+    !locals.vars.has(expr.name) &&
+    !locals.globals.has(expr.name)
+  ) {
+    throw new BaseException.CompileError(
+      [target.a],
+      `Cannot assign to variable that is not explicitly declared in this scope: ${expr.name}`
+    );
+  }
   if (!isTagged(expr, ASSIGNABLE_TAGS)) {
     throw new BaseException.CompileError([target.a], `Cannot assign to target type ${expr.tag}`);
   } else if (
@@ -735,10 +1777,307 @@ function tcAssignable(
       [target.a],
       `${expr.a[0].tag} does not support item assignment`
     );
+  } else if (expr.tag === "bracket-lookup" && expr.obj.a[0].tag === "class") {
+    throw new BaseException.CompileError(
+      [target.a],
+      `'${expr.obj.a[0].name}' object does not support item assignment`
+    );
   }
   return expr;
 }
 
+// `del x` unbinds a local variable, which can't be read again until it is assigned. `del xs[i]`
+// and `del xs[a:b]` remove list elements, and `del d[k]` the entry of a dict
+function tcDelTarget(
+  env: GlobalTypeEnv,
+  locals: LocalTypeEnv,
+  target: Expr<Location>
+): Expr<[Type, Location]> {
+  switch (target.tag) {
+    case "id":
+      const tId = tcExpr(env, locals, target);
+      if (
+        locals.topLevel ||
+        !locals.vars.has(target.name) ||
+        locals.enclosing.has(target.name) ||
+        locals.functions.has(target.name)
+      ) {
+        throw new BaseException.CompileError(
+          [target.a],
+          `cannot delete '${target.name}', only local variables can be deleted`
+        );
+      }
+      locals.deleted.add(target.name);
+      return tId;
+    case "bracket-lookup":
+      const tItem = tcExpr(env, locals, target);
+      if (tItem.tag !== "bracket-lookup")
+        throw new BaseException.InternalException("item to delete is not a bracket-lookup");
+      const itemsType = tItem.obj.a[0];
+      if (itemsType.tag !== "list" && itemsType.tag !== "dict") {
+        throw new BaseException.TypeError(
+          [target.a],
+          `'${
+            itemsType.tag === "class" ? itemsType.name : itemsType.tag
+          }' object does not support item deletion`
+        );
+      }
+      return tItem;
+    case "slicing":
+      const tSliced = tcExpr(env, locals, target.name);
+      if (tSliced.a[0].tag !== "list") {
+        throw new BaseException.TypeError(
+          [target.a],
+          `'${tSliced.a[0].tag}' object does not support slice deletion`
+        );
+      }
+      if (
+        target.stride.tag !== "literal" ||
+        target.stride.value.tag !== "num" ||
+        target.stride.value.value !== 1n
+      ) {
+        throw new BaseException.CompileError(
+          [target.a],
+          "only slices with a step of 1 can be deleted"
+        );
+      }
+      // omitted bounds are None
+      const [tStart, tEnd] = [target.start, target.end].map((bound) => {
+        const tBound = tcExpr(env, locals, bound);
+        if (!equalType(tBound.a[0], NUM) && !equalType(tBound.a[0], NONE)) {
+          throw new BaseException.TypeMismatchError([bound.a], NUM, tBound.a[0]);
+        }
+        return tBound;
+      });
+      return {
+        ...target,
+        a: [NONE, target.a],
+        name: tSliced,
+        start: tStart,
+        end: tEnd,
+        stride: tcExpr(env, locals, target.stride),
+      };
+    default:
+      throw new BaseException.SyntaxError([target.a], "cannot delete expression");
+  }
+}
+
+// `isinstance(x, C)` where C names a class or one of the types int, bool, str, float and
+// object. The argument C is annotated with the type it names.
+function tcIsinstance(
+  env: GlobalTypeEnv,
+  locals: LocalTypeEnv,
+  expr: WithTag<Expr<Location>, "call">
+): Expr<[Type, Location]> {
+  if (expr.arguments.length !== 2) {
+    throw new BaseException.TypeError(
+      [expr.a],
+      `isinstance expected 2 arguments, got ${expr.arguments.length}`
+    );
+  }
+  const [obj, cls] = expr.arguments;
+  const builtinTypes = new Map([
+    ["int", NUM],
+    ["bool", BOOL],
+    ["str", STRING],
+    ["float", FLOAT],
+    ["object", CLASS("object")],
+  ]);
+  let clsType: Type;
+  if (cls.tag === "id" && builtinTypes.has(cls.name)) {
+    clsType = builtinTypes.get(cls.name);
+  } else if (cls.tag === "id" && env.classes.has(cls.name)) {
+    clsType = CLASS(cls.name);
+  } else {
+    throw new BaseException.TypeError([cls.a], "isinstance() arg 2 must be a class");
+  }
+  return {
+    ...expr,
+    a: [BOOL, expr.a],
+    arguments: [tcExpr(env, locals, obj), { ...cls, a: [clsType, cls.a] }],
+  };
+}
+
+// Checks a binary operator on operands that are checked already
+function tcBinOp(
+  env: GlobalTypeEnv,
+  expr: WithTag<Expr<Location>, "binop">,
+  tLeft: Expr<[Type, Location]>,
+  tRight: Expr<[Type, Location]>
+): Expr<[Type, Location]> {
+  const tBin = { ...expr, left: tLeft, right: tRight };
+  // operators on objects call the methods of their class, see DUNDER_BINOPS
+  const tContainer = tRight.a[0];
+  const tOperand = tLeft.a[0];
+  if (expr.op === BinOp.In || expr.op === BinOp.NotIn) {
+    if (tContainer.tag === "class" && hasDunder(env, tContainer, "__contains__")) {
+      const ret = tcDunderCall(env, expr.a, tContainer.name, "__contains__", [tLeft]);
+      if (!equalType(ret, BOOL)) {
+        throw new BaseException.TypeError([expr.a], "__contains__() should return bool");
+      }
+      return { ...tBin, a: [BOOL, expr.a] };
+    }
+  } else if (tOperand.tag === "class" && DUNDER_BINOPS.has(expr.op)) {
+    const method = DUNDER_BINOPS.get(expr.op);
+    if (hasDunder(env, tOperand, method)) {
+      const ret = tcDunderCall(env, expr.a, tOperand.name, method, [tRight]);
+      return { ...tBin, a: [ret, expr.a] };
+    } else if (expr.op === BinOp.Neq && hasDunder(env, tOperand, "__eq__")) {
+      // without `__ne__`, `!=` negates `__eq__`
+      const ret = tcDunderCall(env, expr.a, tOperand.name, "__eq__", [tRight]);
+      if (!equalType(ret, BOOL)) {
+        throw new BaseException.TypeError(
+          [expr.a],
+          "__eq__() should return bool when __ne__() is not defined"
+        );
+      }
+      return { ...tBin, a: [BOOL, expr.a] };
+    }
+  }
+  switch (expr.op) {
+    case BinOp.Plus:
+    case BinOp.Minus:
+    case BinOp.Mul:
+    case BinOp.IDiv:
+    case BinOp.Mod:
+      if (expr.op == BinOp.Minus && joinSetTypes(tLeft.a[0], tRight.a[0]) !== null) {
+        return { ...tBin, a: [joinSetTypes(tLeft.a[0], tRight.a[0]), expr.a] };
+      }
+      if (
+        expr.op == BinOp.Plus &&
+        tLeft.a[0].tag === "list" &&
+        (equalType(tLeft.a[0], tRight.a[0]) || isEmptyList(tLeft.a[0]) || isEmptyList(tRight.a[0]))
+      ) {
+        return { ...tBin, a: [tLeft.a[0], expr.a] };
+      }
+      if (
+        expr.op == BinOp.Plus &&
+        equalType(tLeft.a[0], STRING) &&
+        equalType(tRight.a[0], STRING)
+      ) {
+        return { ...tBin, a: [STRING, expr.a] };
+      }
+      const tArith = joinNumericTypes(tLeft.a[0], tRight.a[0]);
+      if (tArith !== null) {
+        return { ...tBin, a: [tArith, expr.a] };
+      } else {
+        throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
+          tLeft.a[0],
+          tRight.a[0],
+        ]);
+      }
+    case BinOp.Div:
+      // true division of ints makes a float
+      if (joinNumericTypes(tLeft.a[0], tRight.a[0]) !== null) {
+        return { ...tBin, a: [FLOAT, expr.a] };
+      } else {
+        throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
+          tLeft.a[0],
+          tRight.a[0],
+        ]);
+      }
+    case BinOp.Eq:
+    case BinOp.Neq:
+      if (
+        equalType(tLeft.a[0], tRight.a[0]) ||
+        joinNumericTypes(tLeft.a[0], tRight.a[0]) !== null
+      ) {
+        return { ...tBin, a: [BOOL, expr.a] };
+      } else {
+        throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
+          tLeft.a[0],
+          tRight.a[0],
+        ]);
+      }
+    case BinOp.Lte:
+    case BinOp.Gte:
+    case BinOp.Lt:
+    case BinOp.Gt:
+      // strings compare lexicographically
+      if (
+        joinNumericTypes(tLeft.a[0], tRight.a[0]) !== null ||
+        (equalType(tLeft.a[0], STRING) && equalType(tRight.a[0], STRING))
+      ) {
+        return { ...tBin, a: [BOOL, expr.a] };
+      } else {
+        throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
+          tLeft.a[0],
+          tRight.a[0],
+        ]);
+      }
+    case BinOp.And:
+    case BinOp.Or:
+      if (equalType(tLeft.a[0], BOOL) && equalType(tRight.a[0], BOOL)) {
+        return { ...tBin, a: [BOOL, expr.a] };
+      } else {
+        throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
+          tLeft.a[0],
+          tRight.a[0],
+        ]);
+      }
+    case BinOp.Is:
+      if (!isNoneOrClass(tLeft.a[0]) || !isNoneOrClass(tRight.a[0]))
+        throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
+          tLeft.a[0],
+          tRight.a[0],
+        ]);
+      return { ...tBin, a: [BOOL, expr.a] };
+    case BinOp.In:
+    case BinOp.NotIn:
+      if (!isContainerTypeTag(tRight.a[0].tag)) {
+        throw new BaseException.TypeError(
+          [expr.a],
+          `argument of type '${tRight.a[0].tag}' is not iterable`
+        );
+      }
+      if (isMemberType(env, tLeft.a[0], tRight.a[0])) {
+        return { ...tBin, a: [BOOL, expr.a] };
+      } else {
+        throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
+          tLeft.a[0],
+          tRight.a[0],
+        ]);
+      }
+    case BinOp.BitAnd:
+    case BinOp.BitOr:
+    case BinOp.BitXor:
+      const tSet = joinSetTypes(tLeft.a[0], tRight.a[0]);
+      const tBits = joinBitwiseTypes(tLeft.a[0], tRight.a[0]);
+      if (tSet !== null && expr.op !== BinOp.BitXor) {
+        return { ...tBin, a: [tSet, expr.a] };
+      } else if (tBits !== null) {
+        return { ...tBin, a: [tBits, expr.a] };
+      } else {
+        throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
+          tLeft.a[0],
+          tRight.a[0],
+        ]);
+      }
+    case BinOp.LShift:
+    case BinOp.RShift:
+      if (equalType(tLeft.a[0], NUM) && equalType(tRight.a[0], NUM)) {
+        return { ...tBin, a: [NUM, expr.a] };
+      } else {
+        throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
+          tLeft.a[0],
+          tRight.a[0],
+        ]);
+      }
+    case BinOp.Pow:
+      const tPow = joinNumericTypes(tLeft.a[0], tRight.a[0]);
+      if (tPow !== null) {
+        return { ...tBin, a: [tPow, expr.a] };
+      } else {
+        throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
+          tLeft.a[0],
+          tRight.a[0],
+        ]);
+      }
+    default:
+      return unreachable(expr.op);
+  }
+}
+
 export function tcExpr(
   env: GlobalTypeEnv,
   locals: LocalTypeEnv,
@@ -748,81 +2087,49 @@ export function tcExpr(
     case "literal":
       return { ...expr, a: [tcLiteral(expr.value), expr.a] };
     case "binop":
-      const tLeft = tcExpr(env, locals, expr.left);
-      const tRight = tcExpr(env, locals, expr.right);
-      const tBin = { ...expr, left: tLeft, right: tRight };
-      switch (expr.op) {
-        case BinOp.Plus:
-        case BinOp.Minus:
-        case BinOp.Mul:
-        case BinOp.IDiv:
-        case BinOp.Mod:
-          if (
-            expr.op == BinOp.Plus &&
-            tLeft.a[0].tag === "list" &&
-            (equalType(tLeft.a[0], tRight.a[0]) ||
-              isEmptyList(tLeft.a[0]) ||
-              isEmptyList(tRight.a[0]))
-          ) {
-            return { ...tBin, a: [tLeft.a[0], expr.a] };
-          }
-          if (equalType(tLeft.a[0], NUM) && equalType(tRight.a[0], NUM)) {
-            return { ...tBin, a: [NUM, expr.a] };
-          } else {
-            throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
-              tLeft.a[0],
-              tRight.a[0],
-            ]);
-          }
-        case BinOp.Eq:
-        case BinOp.Neq:
-          if (equalType(tLeft.a[0], tRight.a[0])) {
-            return { ...tBin, a: [BOOL, expr.a] };
-          } else {
-            throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
-              tLeft.a[0],
-              tRight.a[0],
-            ]);
-          }
-        case BinOp.Lte:
-        case BinOp.Gte:
-        case BinOp.Lt:
-        case BinOp.Gt:
-          if (equalType(tLeft.a[0], NUM) && equalType(tRight.a[0], NUM)) {
-            return { ...tBin, a: [BOOL, expr.a] };
-          } else {
-            throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
-              tLeft.a[0],
-              tRight.a[0],
-            ]);
-          }
-        case BinOp.And:
-        case BinOp.Or:
-          if (equalType(tLeft.a[0], BOOL) && equalType(tRight.a[0], BOOL)) {
-            return { ...tBin, a: [BOOL, expr.a] };
-          } else {
-            throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
-              tLeft.a[0],
-              tRight.a[0],
-            ]);
-          }
-        case BinOp.Is:
-          if (!isNoneOrClass(tLeft.a[0]) || !isNoneOrClass(tRight.a[0]))
-            throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [
-              tLeft.a[0],
-              tRight.a[0],
-            ]);
-          return { ...tBin, a: [BOOL, expr.a] };
-        default:
-          return unreachable(expr);
+      return tcBinOp(env, expr, tcExpr(env, locals, expr.left), tcExpr(env, locals, expr.right));
+    case "compare-chain":
+      const tOperands = expr.operands.map((operand) => tcExpr(env, locals, operand));
+      expr.ops.forEach((op, i) => {
+        const [left, right] = [expr.operands[i], expr.operands[i + 1]];
+        const tCompare = tcBinOp(
+          env,
+          { a: expr.a, tag: "binop", op, left, right },
+          tOperands[i],
+          tOperands[i + 1]
+        );
+        if (!equalType(tCompare.a[0], BOOL)) {
+          throw new BaseException.TypeError(
+            [expr.a],
+            `comparisons in a chain must be bool, not ${tCompare.a[0].tag}`
+          );
+        }
+      });
+      return { ...expr, a: [BOOL, expr.a], operands: tOperands };
+    case "ternary":
+      const tTernaryCond = tcExpr(env, locals, expr.cond);
+      if (!equalType(tTernaryCond.a[0], BOOL))
+        throw new BaseException.ConditionTypeError([tTernaryCond.a[1]], tTernaryCond.a[0]);
+      const tThn = tcExpr(env, locals, expr.thn);
+      const tEls = tcExpr(env, locals, expr.els);
+      const tJoin = join(env, tThn.a[0], tEls.a[0]);
+      if (tJoin === null) {
+        throw new BaseException.TypeError(
+          [expr.a],
+          `the branches of a conditional expression have no common type: ${tThn.a[0].tag} and ${tEls.a[0].tag}`
+        );
       }
+      return { ...expr, a: [tJoin, expr.a], cond: tTernaryCond, thn: tThn, els: tEls };
     case "uniop":
       const tExpr = tcExpr(env, locals, expr.expr);
       const tUni = { ...expr, a: tExpr.a, expr: tExpr };
       switch (expr.op) {
         case UniOp.Neg:
-          if (equalType(tExpr.a[0], NUM)) {
+          if (equalType(tExpr.a[0], NUM) || equalType(tExpr.a[0], FLOAT)) {
             return tUni;
+          } else if (tExpr.a[0].tag === "class" && hasDunder(env, tExpr.a[0], "__neg__")) {
+            const ret = tcDunderCall(env, expr.a, tExpr.a[0].name, "__neg__", []);
+            return { ...tUni, a: [ret, expr.a] };
           } else {
             throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [tExpr.a[0]]);
           }
@@ -832,11 +2139,31 @@ export function tcExpr(
           } else {
             throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [tExpr.a[0]]);
           }
+        case UniOp.Invert:
+          if (equalType(tExpr.a[0], NUM)) {
+            return tUni;
+          } else if (tExpr.a[0].tag === "class" && hasDunder(env, tExpr.a[0], "__invert__")) {
+            const ret = tcDunderCall(env, expr.a, tExpr.a[0].name, "__invert__", []);
+            return { ...tUni, a: [ret, expr.a] };
+          } else {
+            throw new BaseException.UnsupportedOperandTypeError([expr.a], expr.op, [tExpr.a[0]]);
+          }
         default:
           return unreachable(expr);
       }
     case "id":
-      if (locals.vars.has(expr.name)) {
+      // Python only raises an UnboundLocalError when the read runs. Locals carry no unbound
+      // marker here, so reads that may follow a `del` are rejected instead, see deletedAfter
+      if (locals.deleted.has(expr.name)) {
+        throw new BaseException.CompileError(
+          [expr.a],
+          `cannot use '${expr.name}' here, where a 'del' statement may have deleted it`
+        );
+      }
+      if (locals.renamed.has(expr.name)) {
+        const name = locals.renamed.get(expr.name);
+        return { ...expr, a: [locals.vars.get(name), expr.a], name };
+      } else if (locals.vars.has(expr.name)) {
         return { ...expr, a: [locals.vars.get(expr.name), expr.a] };
       } else if (env.globals.has(expr.name)) {
         return { ...expr, a: [env.globals.get(expr.name), expr.a] };
@@ -847,6 +2174,21 @@ export function tcExpr(
       if (expr.name === "print") {
         const tArg = tcExpr(env, locals, expr.arg);
         return { ...expr, a: tArg.a, arg: tArg };
+      } else if (expr.name === "next") {
+        const tArg = tcExpr(env, locals, expr.arg);
+        if (tArg.a[0].tag !== "generator") {
+          throw new BaseException.TypeError(
+            [expr.a],
+            "next() takes a generator, not " + tArg.a[0].tag
+          );
+        }
+        return { ...expr, a: [tArg.a[0].content_type, expr.a], arg: tArg };
+      } else if (expr.name === "str" || expr.name === "repr") {
+        const tArg = tcExpr(env, locals, expr.arg);
+        return { ...expr, a: [STRING, expr.a], arg: tArg };
+      } else if (expr.name === "abs" || NUMERIC_BUILTINS.includes(expr.name)) {
+        const tArg = tcExpr(env, locals, expr.arg);
+        return { ...expr, a: [tcNumericBuiltin(expr.a, expr.name, tArg.a[0]), expr.a], arg: tArg };
       } else if (env.functions.has(expr.name)) {
         const [[expectedParam], retTyp] = env.functions.get(expr.name);
         const tArg = tcExpr(env, locals, expr.arg);
@@ -860,7 +2202,18 @@ export function tcExpr(
         throw new BaseException.NameError([expr.a], expr.name);
       }
     case "builtin2":
-      if (env.functions.has(expr.name)) {
+      if (expr.name === "max" || expr.name === "min" || expr.name === "pow") {
+        const tLeftArg = tcExpr(env, locals, expr.left);
+        const tRightArg = tcExpr(env, locals, expr.right);
+        const tResult = joinNumericTypes(tLeftArg.a[0], tRightArg.a[0]);
+        if (tResult === null) {
+          throw new BaseException.TypeError(
+            [expr.a],
+            `${expr.name}() takes numbers, not ${tLeftArg.a[0].tag} and ${tRightArg.a[0].tag}`
+          );
+        }
+        return { ...expr, a: [tResult, expr.a], left: tLeftArg, right: tRightArg };
+      } else if (env.functions.has(expr.name)) {
         const [[leftParam, rightParam], retTyp] = env.functions.get(expr.name);
         const tLeftArg = tcExpr(env, locals, expr.left);
         const tRightArg = tcExpr(env, locals, expr.right);
@@ -880,32 +2233,49 @@ export function tcExpr(
         throw new BaseException.NameError([expr.a], expr.name);
       }
     case "lambda":
-      throw new BaseException.InternalException("Lambda is not supported");
-    /*
-      var args: Type[] = [];
-      expr.args.forEach((arg) => args.push(locals.vars.get(arg)));
-      var callable: Type = { tag: "callable", args, ret: tcExpr(env, locals, expr.ret).a };
-      return { ...expr, a: callable };
-      */
+      // only a lambda without parameters has a type of its own
+      if (expr.args.length > 0) {
+        throw new BaseException.TypeError(
+          [expr.a],
+          "the types of the parameters of a lambda must come from where it is used"
+        );
+      }
+      return tcLambda(env, locals, expr, []);
     case "call_expr":
-      if (expr.name.tag === "id" && env.classes.has(expr.name.name)) {
+      const builtin = shadowableBuiltin(env, locals, expr);
+      if (builtin !== undefined) {
+        return tcExpr(env, locals, builtin);
+      }
+      // `type` is a class too, but a call to it that is not the builtin goes to a function
+      if (expr.name.tag === "id" && env.classes.has(expr.name.name) && expr.name.name !== "type") {
         // surprise surprise this is actually a constructor
+        const [_, methods] = env.classes.get(expr.name.name);
+        const hasInit = methods.has("__init__");
+        if (!hasInit && expr.keywords !== undefined && expr.keywords.length > 0) {
+          throw new BaseException.TypeError(
+            [expr.a],
+            `${expr.name.name}() takes no keyword arguments`
+          );
+        }
+        const tConstructArgs = hasInit
+          ? tcCallArgs(
+              env,
+              locals,
+              expr.a,
+              "__init__",
+              methods.get("__init__")[0].slice(1),
+              expr.arguments,
+              expr.keywords
+            )
+          : { arguments: expr.arguments.map((arg) => tcExpr(env, locals, arg)) };
         const tConstruct: Expr<[Type, Location]> = {
           a: [CLASS(expr.name.name), expr.a],
           tag: "construct",
           name: expr.name.name,
+          ...tConstructArgs,
         };
-        const [_, methods] = env.classes.get(expr.name.name);
-        if (methods.has("__init__")) {
-          const [initArgs, initRet] = methods.get("__init__");
-          if (expr.arguments.length !== initArgs.length - 1) {
-            throw new BaseException.TypeError(
-              [expr.a],
-              `__init__() takes ${initArgs.length} positional arguments but ${
-                expr.arguments.length + 1
-              } were given`
-            );
-          }
+        if (hasInit) {
+          const initRet = methods.get("__init__")[1];
           if (initRet !== NONE) {
             throw new BaseException.TypeError(
               [expr.a],
@@ -915,56 +2285,55 @@ export function tcExpr(
             );
           }
           return tConstruct;
+        } else if (isExceptionType(env, tConstruct.a[0])) {
+          // Exceptions without an `__init__` take an optional message
+          if (
+            tConstruct.arguments.length > 1 ||
+            tConstruct.arguments.some((arg) => !isAssignable(env, arg.a[0], STRING))
+          ) {
+            throw new BaseException.TypeError(
+              [expr.a],
+              `${expr.name.name}() takes an optional message of type 'str'`
+            );
+          }
+          return tConstruct;
         } else {
           return tConstruct;
         }
       }
 
+      if (expr.name.tag === "lambda") {
+        if (expr.keywords !== undefined && expr.keywords.length > 0) {
+          throw new BaseException.TypeError([expr.a], "<lambda>() takes no keyword arguments");
+        }
+        // a lambda applied right away takes the types of the arguments
+        const tArgs = expr.arguments.map((arg) => tcExpr(env, locals, arg));
+        const tLambda = tcLambda(
+          env,
+          locals,
+          expr.name,
+          tArgs.map((arg) => arg.a[0])
+        );
+        const retType = (tLambda.a[0] as CallableType).ret;
+        return { a: [retType, expr.a], tag: "call_expr", name: tLambda, arguments: tArgs };
+      }
       var innercall = tcExpr(env, locals, expr.name);
       if (innercall.a[0].tag === "callable") {
-        const [args, ret] = [innercall.a[0].args, innercall.a[0].ret];
-        const params = args;
-        const retType = ret;
-        const argTypes = args.map((p) => p.type);
-        const tArgs = expr.arguments.map((arg) => tcExpr(env, locals, arg));
-
-        if (
-          argTypes.length === expr.arguments.length &&
-          tArgs.every((tArg, i) => isAssignable(env, tArg.a[0], argTypes[i]))
-        ) {
-          return { ...expr, a: [retType, expr.a], name: innercall, arguments: tArgs };
-        }
-        // case where the function may have default values
-        else if (
-          argTypes.length > expr.arguments.length &&
-          tArgs.every((tArg, i) => tArg.a[0] === argTypes[i])
-        ) {
-          // check if arguments less than number of parameters
-          // first populate all the arguments first.
-          // Then, populate the rest of the values with defaults from params
-          var augArgs = tArgs;
-          var argNums = tArgs.length;
-          while (argNums < argTypes.length) {
-            if (params[argNums].value === undefined) {
-              throw new BaseException.TypeError([expr.a], "Missing argument from call");
-            } else {
-              // add default values into arguments as an Expr
-              augArgs = augArgs.concat([
-                tcExpr(env, locals, { a: undefined, tag: "literal", value: params[argNums].value }),
-              ]);
-            }
-            argNums = argNums + 1;
-          }
-          return { ...expr, a: [retType, expr.a], name: innercall, arguments: augArgs };
-        } else {
-          throw new BaseException.TypeMismatchError(
-            [expr.a],
-            argTypes,
-            tArgs.map((s) => {
-              return s.a[0];
-            })
-          );
-        }
+        const fname = expr.name.tag === "id" ? expr.name.name : "<callable>";
+        return {
+          a: [innercall.a[0].ret, expr.a],
+          tag: "call_expr",
+          name: innercall,
+          ...tcCallArgs(
+            env,
+            locals,
+            expr.a,
+            fname,
+            innercall.a[0].args,
+            expr.arguments,
+            expr.keywords
+          ),
+        };
       }
       throw new BaseException.TypeError([expr.a], "Not callable");
     case "call":
@@ -986,7 +2355,18 @@ export function tcExpr(
         const tArg = expr.arguments.map((arg) => tcExpr(env, locals, arg));
 
         if (tArg.length == 1) {
-          if (tArg[0].a[0].tag === "list" || tArg[0].a[0].tag === "dict") {
+          if (
+            tArg[0].a[0].tag === "list" ||
+            tArg[0].a[0].tag === "dict" ||
+            tArg[0].a[0].tag === "set" ||
+            tArg[0].a[0].tag === "string"
+          ) {
+            return { ...expr, a: [NUM, expr.a], arguments: tArg };
+          } else if (tArg[0].a[0].tag === "class" && hasDunder(env, tArg[0].a[0], "__len__")) {
+            const ret = tcDunderCall(env, expr.a, tArg[0].a[0].name, "__len__", []);
+            if (!equalType(ret, NUM)) {
+              throw new BaseException.TypeError([expr.a], "__len__() should return int");
+            }
             return { ...expr, a: [NUM, expr.a], arguments: tArg };
           } else {
             throw new BaseException.TypeMismatchError([expr.a], LIST(null), tArg[0].a[0]);
@@ -998,6 +2378,19 @@ export function tcExpr(
           );
         }
       }
+      if (expr.name == "isinstance") {
+        return tcIsinstance(env, locals, expr);
+      }
+      if (expr.name == "type") {
+        if (expr.arguments.length !== 1) {
+          throw new BaseException.TypeError(
+            [expr.a],
+            `type() takes 1 argument but ${expr.arguments.length} were given`
+          );
+        }
+        const tArg = tcExpr(env, locals, expr.arguments[0]);
+        return { ...expr, a: [CLASS("type"), expr.a], arguments: [tArg] };
+      }
       if (expr.name == "dict") {
         if (expr.arguments.length !== 1) {
           throw new TypeError(
@@ -1016,6 +2409,15 @@ export function tcExpr(
         }
         return { ...expr, a: tRet, arguments: tArg };
       }
+      if (expr.name == "set") {
+        if (expr.arguments.length !== 0) {
+          throw new BaseException.TypeError(
+            [expr.a],
+            `set expected at most 0 arguments, got ${expr.arguments.length}`
+          );
+        }
+        return { ...expr, a: [SET(NONE), expr.a], arguments: [] };
+      }
       throw new BaseException.InternalException(
         "Parser should use call_expr instead whose callee is an expression."
       );
@@ -1036,45 +2438,34 @@ export function tcExpr(
         throw new BaseException.AttributeError([expr.a], tObj.a[0], expr.field);
       }
     case "method-call":
+      // keywords are only passed on to the methods of classes
+      const { keywords, ...methodCall } = expr;
       var tObj = tcExpr(env, locals, expr.obj);
-      var tArgs = expr.arguments.map((arg) => tcExpr(env, locals, arg));
+      if (tObj.a[0].tag !== "class" && keywords !== undefined && keywords.length > 0) {
+        throw new BaseException.TypeError([expr.a], `${expr.method}() takes no keyword arguments`);
+      }
+      // the arguments of methods of classes are checked against their parameters below
+      var tArgs =
+        tObj.a[0].tag === "class" ? [] : expr.arguments.map((arg) => tcExpr(env, locals, arg));
+      var methodArgs: Type[];
+      var methodRet: Type;
       switch (tObj.a[0].tag) {
         case "class":
           if (env.classes.has(tObj.a[0].name)) {
             const [fields, methods] = env.classes.get(tObj.a[0].name);
 
-            var methodArgs: Type[];
-            var methodRet: Type;
-            if (fields.has(expr.method)) {
-              var temp = fields.get(expr.method);
-              // should always be true
-              if (temp.tag === "callable") {
-                [methodArgs, methodRet] = [temp.args.map((p) => p.type), temp.ret];
-              }
-
-              var realArgs: Expr<[Type, Location]>[] = tArgs;
-              if (methods.has(expr.method)) {
-                realArgs = [tObj].concat(tArgs);
-              }
-              if (
-                methodArgs.length === realArgs.length &&
-                methodArgs.every((argTyp, i) => isAssignable(env, realArgs[i].a[0], argTyp))
-              ) {
-                return { ...expr, a: [methodRet, expr.a], obj: tObj, arguments: tArgs };
-              } else if (methodArgs.length != realArgs.length) {
-                throw new BaseException.TypeError(
-                  [expr.a],
-                  `${expr.method} takes ${methodArgs.length} positional arguments but ${realArgs.length} were given`
-                );
-              } else {
-                throw new BaseException.TypeMismatchError(
-                  [expr.a],
-                  methodArgs,
-                  realArgs.map((s) => {
-                    return s.a[0];
-                  })
-                );
-              }
+            const member = fields.get(expr.method);
+            // should always be a callable
+            if (member !== undefined && member.tag === "callable") {
+              // methods take the object as `self`, fields holding callables do not
+              const params = methods.has(expr.method) ? member.args.slice(1) : member.args;
+              return {
+                a: [member.ret, expr.a],
+                tag: "method-call",
+                obj: tObj,
+                method: expr.method,
+                ...tcCallArgs(env, locals, expr.a, expr.method, params, expr.arguments, keywords),
+              };
             } else {
               throw new BaseException.AttributeError([expr.a], tObj.a[0], expr.method);
             }
@@ -1082,7 +2473,6 @@ export function tcExpr(
             throw new BaseException.NameError([expr.a], tObj.a[0].name);
           }
         case "dict":
-          console.log("TC: dict method call");
           switch (expr.method) {
             case "pop":
               let numArgsPop = expr.arguments.length;
@@ -1104,9 +2494,13 @@ export function tcExpr(
                     "`"
                 );
               }
-              return { ...expr, a: [tObj.a[0].value, expr.a], obj: tObj, arguments: [tKeyPop] };
+              return {
+                ...methodCall,
+                a: [tObj.a[0].value, expr.a],
+                obj: tObj,
+                arguments: [tKeyPop],
+              };
             case "get":
-              console.log("TC: get function in dict");
               let numArgsGet = expr.arguments.length;
               if (numArgsGet !== 2) {
                 throw new BaseException.CompileError(
@@ -1139,14 +2533,13 @@ export function tcExpr(
                 );
               }
               return {
-                ...expr,
+                ...methodCall,
                 a: [tObj.a[0].value, expr.a],
                 obj: tObj,
                 arguments: [tKeyGet, tValueGet],
               };
 
             case "update":
-              console.log("TC: To-Do update function in dict");
               let numArgsUpdate = expr.arguments.length;
               if (numArgsUpdate > 2) {
                 throw new BaseException.CompileError(
@@ -1163,7 +2556,7 @@ export function tcExpr(
               }
               let tUpdate = tcExpr(env, locals, isArgDict);
               return {
-                ...expr,
+                ...methodCall,
                 a: [NONE, expr.a],
                 obj: tObj,
                 arguments: [tUpdate],
@@ -1178,7 +2571,7 @@ export function tcExpr(
                 );
               }
               return {
-                ...expr,
+                ...methodCall,
                 a: [NONE, expr.a],
                 obj: tObj,
                 arguments: [],
@@ -1190,6 +2583,24 @@ export function tcExpr(
               );
           }
 
+        case "set":
+          if (expr.method !== "add" && expr.method !== "remove" && expr.method !== "discard") {
+            throw new BaseException.AttributeError([expr.a], tObj.a[0], expr.method);
+          }
+          if (tArgs.length !== 1) {
+            throw new BaseException.TypeError(
+              [expr.a],
+              `${expr.method} takes 1 positional arguments but ${tArgs.length} were given`
+            );
+          }
+          if (!isAssignable(env, tArgs[0].a[0], tObj.a[0].content_type)) {
+            throw new BaseException.TypeMismatchError(
+              [expr.a],
+              tObj.a[0].content_type,
+              tArgs[0].a[0]
+            );
+          }
+          return { ...methodCall, a: [NONE, expr.a], obj: tObj, arguments: tArgs };
         case "list":
           if (tObj.a[0].content_type === null && tArgs.length > 0) {
             tObj.a[0].content_type = tArgs[0].a[0];
@@ -1207,17 +2618,17 @@ export function tcExpr(
               methodArgs.length === tArgs.length &&
               methodArgs.every((argTyp, i) => isAssignable(env, tArgs[i].a[0], argTyp))
             ) {
-              return { ...expr, a: [methodRet, expr.a], obj: tObj, arguments: tArgs };
-            } else if (methodArgs.length != realArgs.length) {
+              return { ...methodCall, a: [methodRet, expr.a], obj: tObj, arguments: tArgs };
+            } else if (methodArgs.length != tArgs.length) {
               throw new BaseException.TypeError(
                 [expr.a],
-                `${expr.method} takes ${methodArgs.length} positional arguments but ${realArgs.length} were given`
+                `${expr.method} takes ${methodArgs.length} positional arguments but ${tArgs.length} were given`
               );
             } else {
               throw new BaseException.TypeMismatchError(
                 [expr.a],
                 methodArgs,
-                realArgs.map((s) => {
+                tArgs.map((s) => {
                   return s.a[0];
                 })
               );
@@ -1226,6 +2637,42 @@ export function tcExpr(
             throw new BaseException.AttributeError([expr.a], tObj.a[0], expr.method);
           }
           break;
+        case "string":
+          const str_builtin = new Map<string, [Array<Type>, Type]>([
+            ["upper", [[], STRING]],
+            ["lower", [[], STRING]],
+            ["strip", [[], STRING]],
+            ["split", [[STRING], LIST(STRING)]],
+            ["join", [[LIST(STRING)], STRING]],
+            ["find", [[STRING], NUM]],
+            ["count", [[STRING], NUM]],
+            ["replace", [[STRING, STRING], STRING]],
+            ["startswith", [[STRING], BOOL]],
+            ["endswith", [[STRING], BOOL]],
+            ["isdigit", [[], BOOL]],
+          ]);
+          if (!str_builtin.has(expr.method)) {
+            throw new BaseException.AttributeError([expr.a], tObj.a[0], expr.method);
+          }
+          [methodArgs, methodRet] = str_builtin.get(expr.method);
+          // the separator of split is optional, splitting on whitespace without it
+          if (expr.method === "split" && tArgs.length === 0) {
+            methodArgs = [];
+          }
+          if (methodArgs.length !== tArgs.length) {
+            throw new BaseException.TypeError(
+              [expr.a],
+              `${expr.method} takes ${methodArgs.length} positional arguments but ${tArgs.length} were given`
+            );
+          }
+          if (!methodArgs.every((argTyp, i) => isAssignable(env, tArgs[i].a[0], argTyp))) {
+            throw new BaseException.TypeMismatchError(
+              [expr.a],
+              methodArgs,
+              tArgs.map((s) => s.a[0])
+            );
+          }
+          return { ...methodCall, a: [methodRet, expr.a], obj: tObj, arguments: tArgs };
         default:
           throw new BaseException.AttributeError([expr.a], tObj.a[0], expr.method);
       }
@@ -1293,6 +2740,17 @@ export function tcExpr(
         dictType = { tag: "dict", key: keyType.a[0], value: valueType.a[0] };
         return { ...expr, a: [dictType, expr.a], entries: entryTypes };
       }
+    case "set-expr":
+      const setExpr = expr.contents.map((content) => tcExpr(env, locals, content));
+      const setType = setExpr[0].a[0];
+      setExpr.forEach((content) => {
+        if (!equalType(content.a[0], setType)) {
+          throw new BaseException.TypeMismatchError([expr.a], setType, content.a[0]);
+        }
+      });
+      return { ...expr, a: [SET(setType), expr.a], contents: setExpr };
+    case "comprehension":
+      return tcComprehension(env, locals, expr);
     case "bracket-lookup":
       var obj_t = tcExpr(env, locals, expr.obj);
       var key_t = tcExpr(env, locals, expr.key);
@@ -1313,6 +2771,9 @@ export function tcExpr(
           throw new BaseException.TypeMismatchError([expr.a], NUM, key_t.a[0]);
         }
         return { ...expr, obj: obj_t, key: key_t, a: [obj_t.a[0].content_type, expr.a] };
+      } else if (obj_t.a[0].tag === "class" && hasDunder(env, obj_t.a[0], "__getitem__")) {
+        const ret = tcDunderCall(env, expr.a, obj_t.a[0].name, "__getitem__", [key_t]);
+        return { ...expr, obj: obj_t, key: key_t, a: [ret, expr.a] };
       } else if (obj_t.a[0].tag === "tuple") {
         if (key_t.tag !== "literal" || key_t.value.tag !== "num") {
           throw new BaseException.CompileError(
@@ -1343,12 +2804,81 @@ export function tcExpr(
   }
 }
 
+// numbers the variables bound by comprehensions so that their renamed versions are unique
+let comprehensionCount = 0;
+
+// The type of the items produced by iterating over a value of type `t`
+function iterItemType(loc: Location, t: Type): Type {
+  switch (t.tag) {
+    case "list":
+    case "set":
+      return t.content_type;
+    case "class":
+      if (t.name === "Range") return NUM;
+      throw new BaseException.CompileError([loc], "comprehension cannot iterate over " + t.name);
+    default:
+      throw new BaseException.CompileError([loc], "Illegal iterating item in comprehension.");
+  }
+}
+
+/**
+ * Comprehension variables only exist inside the comprehension. Each one gets a fresh name,
+ * recorded in `locals.renamed` while its clause and the following ones are checked, so that
+ * it neither shadows nor overwrites the variables around the comprehension.
+ */
+function tcComprehension(
+  env: GlobalTypeEnv,
+  locals: LocalTypeEnv,
+  expr: Expr<Location> & { tag: "comprehension" }
+): Expr<[Type, Location]> {
+  const shadowed: Array<[string, string]> = [];
+  const clauses = expr.clauses.map((clause) => {
+    const iter = tcExpr(env, locals, clause.iter);
+    const itemType = iterItemType(clause.a, iter.a[0]);
+    const name = `${clause.name}$comp${comprehensionCount++}`;
+    shadowed.push([clause.name, locals.renamed.get(clause.name)]);
+    locals.renamed.set(clause.name, name);
+    locals.vars.set(name, itemType);
+    const conds = clause.conds.map((cond) => {
+      const tCond = tcExpr(env, locals, cond);
+      if (!equalType(tCond.a[0], BOOL)) {
+        throw new BaseException.ConditionTypeError([tCond.a[1]], tCond.a[0]);
+      }
+      return tCond;
+    });
+    return { a: [itemType, clause.a] as [Type, Location], name, iter, conds };
+  });
+  const tExpr = tcExpr(env, locals, expr.expr);
+  const tValue = expr.value === undefined ? undefined : tcExpr(env, locals, expr.value);
+  shadowed.reverse().forEach(([original, outer]) => {
+    if (outer === undefined) locals.renamed.delete(original);
+    else locals.renamed.set(original, outer);
+  });
+  clauses.forEach((clause) => locals.vars.delete(clause.name));
+
+  let type: Type;
+  switch (expr.kind) {
+    case "list":
+      type = LIST(tExpr.a[0]);
+      break;
+    case "set":
+      type = SET(tExpr.a[0]);
+      break;
+    case "dict":
+      type = { tag: "dict", key: tExpr.a[0], value: tValue.a[0] };
+      break;
+  }
+  return { ...expr, a: [type, expr.a], expr: tExpr, value: tValue, clauses };
+}
+
 export function tcLiteral(literal: Literal) {
   switch (literal.tag) {
     case "bool":
       return BOOL;
     case "num":
       return NUM;
+    case "float":
+      return FLOAT;
     case "none":
       return NONE;
     case "string":
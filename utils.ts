@@ -1,5 +1,5 @@
 import { Value, Type } from "./ast";
-import { TAG_BIGINT } from "./alloc";
+import { TAG_BIGINT, TAG_STRING } from "./alloc";
 import * as BaseException from "./error";
 
 export const nTagBits = 1;
@@ -18,7 +18,6 @@ export function bigintToWords(num: bigint): [number, number, Array<bigint>] {
   var words: bigint[] = [];
   do {
     words.push(num & mask);
-    console.log("j");
     num >>= 31n;
     size += 1;
   } while (num > 0n);
@@ -26,10 +25,111 @@ export function bigintToWords(num: bigint): [number, number, Array<bigint>] {
   return [sign, size, words];
 }
 
+// Strings are stored as [length - 1, kind, code points...]. The kind is the number of bytes
+// of each code point: 1 (Latin-1), 2 (UCS-2) or 4 (UCS-4), the smallest that fits all of them.
+// The code points are padded to a whole word.
+export const STRING_HEADER_SIZE = 8;
+
+function escapeCodePoint(codePoint: number): string {
+  return "\\u" + codePoint.toString(16).padStart(4, "0");
+}
+
+function isSurrogate(codePoint: number): boolean {
+  return codePoint >= 0xd800 && codePoint <= 0xdfff;
+}
+
+// The code points of a JS string. Lone surrogates have no encoding
+export function stringCodePoints(s: string): Array<number> {
+  const codePoints = Array.from(s, (c) => c.codePointAt(0));
+  codePoints.forEach((codePoint, pos) => {
+    if (isSurrogate(codePoint)) {
+      throw new BaseException.UnicodeError(undefined, "ucs-4", escapeCodePoint(codePoint), pos);
+    }
+  });
+  return codePoints;
+}
+
+export function stringKind(codePoints: Array<number>): number {
+  const max = Math.max(0, ...codePoints);
+  return max < 0x100 ? 1 : max < 0x10000 ? 2 : 4;
+}
+
+// The number of bytes taken by a string of `length` code points of the given kind
+export function stringSize(length: number, kind: number): number {
+  return STRING_HEADER_SIZE + Math.ceil((length * kind) / 4) * 4;
+}
+
+// The words of a string after its header
+export function stringWords(codePoints: Array<number>, kind: number): Array<number> {
+  const bytes = new Uint8Array(stringSize(codePoints.length, kind) - STRING_HEADER_SIZE);
+  const view = new DataView(bytes.buffer);
+  codePoints.forEach((codePoint, i) => {
+    if (kind === 1) view.setUint8(i, codePoint);
+    else if (kind === 2) view.setUint16(i * 2, codePoint, true);
+    else view.setUint32(i * 4, codePoint, true);
+  });
+  return Array.from(new Int32Array(bytes.buffer));
+}
+
+// Reads the string at `address`, `mem` is the memory buffer or a typed array over it
+export function decodeString(mem: ArrayBuffer | ArrayBufferView, address: number): string {
+  const view = new DataView(mem instanceof ArrayBuffer ? mem : mem.buffer);
+  const length = view.getInt32(address, true) + 1;
+  const kind = view.getInt32(address + 4, true);
+  if (kind !== 1 && kind !== 2 && kind !== 4) {
+    throw new BaseException.InternalException(`Invalid string kind ${kind} at ${address}`);
+  }
+  const data = address + STRING_HEADER_SIZE;
+  let decoded = "";
+  for (let i = 0; i < length; i++) {
+    const codePoint =
+      kind === 1
+        ? view.getUint8(data + i)
+        : kind === 2
+        ? view.getUint16(data + i * 2, true)
+        : view.getUint32(data + i * 4, true);
+    if (codePoint > 0x10ffff || (kind !== 1 && isSurrogate(codePoint))) {
+      throw new BaseException.UnicodeError(
+        undefined,
+        "ucs-4",
+        escapeCodePoint(codePoint),
+        i,
+        "decode"
+      );
+    }
+    decoded += String.fromCodePoint(codePoint);
+  }
+  return decoded;
+}
+
+// Python's repr of a float: the shortest digits that read back as the same value, in
+// scientific notation when the exponent is below -4 or above 15
+export function floatToString(n: number): string {
+  if (Number.isNaN(n)) return "nan";
+  if (!Number.isFinite(n)) return n > 0 ? "inf" : "-inf";
+  const sign = n < 0 || Object.is(n, -0) ? "-" : "";
+  const [mantissa, exp] = Math.abs(n).toExponential().split("e");
+  const digits = mantissa.replace(".", "");
+  const e = Number(exp);
+  if (e < -4 || e >= 16) {
+    const fraction = digits.length > 1 ? "." + digits.substring(1) : "";
+    const expDigits = String(Math.abs(e)).padStart(2, "0");
+    return `${sign}${digits[0]}${fraction}e${e < 0 ? "-" : "+"}${expDigits}`;
+  } else if (e < 0) {
+    return `${sign}0.${"0".repeat(-e - 1)}${digits}`;
+  } else if (digits.length <= e + 1) {
+    return `${sign}${digits.padEnd(e + 1, "0")}.0`;
+  } else {
+    return `${sign}${digits.substring(0, e + 1)}.${digits.substring(e + 1)}`;
+  }
+}
+
 export function stringify(result: Value): string {
   switch (result.tag) {
     case "num":
       return result.value.toString();
+    case "float":
+      return floatToString(result.value);
     case "string":
       return result.value;
     case "bool":
@@ -37,7 +137,12 @@ export function stringify(result: Value): string {
     case "none":
       return "None";
     case "object":
-      return `<${result.name} object at ${result.address}>`;
+      if (result.repr === undefined) {
+        throw new BaseException.InternalException(
+          `Object rendered without its repr: ${result.name}`
+        );
+      }
+      return result.repr;
     default:
       throw new BaseException.InternalException(`Could not render value: ${result}`);
   }
@@ -50,7 +155,6 @@ export function encodeValue(
 ): number {
   switch (val.tag) {
     case "num":
-      console.log(val.value);
       if (val.value <= INT_LITERAL_MAX && val.value >= INT_LITERAL_MIN) {
         return ((Number(val.value) << nTagBits) & 0xffffffff) | 1;
       }
@@ -64,7 +168,6 @@ export function encodeValue(
         mem[idx + 2 + i] = ((Number(words[i]) << nTagBits) & 0xffffffff) | 1;
         i += 1;
       }
-      console.log(idx, mem.slice(idx, idx + 64));
 
       return allocPointer;
 
@@ -72,6 +175,15 @@ export function encodeValue(
       if (val.value == true) return 0x3;
       else return 0x1;
 
+    case "string":
+      var codePoints = stringCodePoints(val.value);
+      var kind = stringKind(codePoints);
+      var allocPointer = allocFun(Number(TAG_STRING), stringSize(codePoints.length, kind));
+      mem[allocPointer / 4] = codePoints.length - 1;
+      mem[allocPointer / 4 + 1] = kind;
+      mem.set(stringWords(codePoints, kind), (allocPointer + STRING_HEADER_SIZE) / 4);
+      return allocPointer;
+
     default:
       throw new Error(`Could not encode value`);
   }
@@ -81,18 +193,7 @@ export function PyValue(typ: Type, result: number, mem: any): Value {
   switch (typ.tag) {
     case "string":
       if (result == -1) throw new BaseException.InternalException("String index out of bounds");
-      const view = new Int32Array(mem);
-      let string_length = view[result / 4] + 1;
-      let data = result + 4;
-      var i = 0;
-      var full_string = "";
-      while (i < string_length) {
-        let ascii_val = view[data / 4 + i];
-        var char = String.fromCharCode(ascii_val);
-        full_string += char;
-        i += 1;
-      }
-      return PyString(full_string, result);
+      return PyString(decodeString(mem, result), result);
     case "number":
       if (result & 1) {
         return PyInt(result >> nTagBits);
@@ -108,9 +209,12 @@ export function PyValue(typ: Type, result: number, mem: any): Value {
           i += 1;
         }
         if (!sign) num = -num;
-        console.log("pybigint", num, idx);
         return PyBigInt(num);
       }
+    case "float":
+      // floats are boxed
+      const view = new DataView(mem instanceof ArrayBuffer ? mem : mem.buffer);
+      return PyFloat(view.getFloat64(result, true));
     case "bool":
       return PyBool(Boolean(result >> nTagBits));
     case "class":
@@ -118,7 +222,14 @@ export function PyValue(typ: Type, result: number, mem: any): Value {
     case "none":
       return PyNone();
     case "list":
-      return PyObj(typ.tag + `<${typ.content_type.tag}>`, result);
+    case "set":
+      const content = typ.content_type;
+      return PyObj(`${typ.tag}<${content.tag === "class" ? content.name : content.tag}>`, result);
+    case "dict":
+    case "tuple":
+    case "callable":
+    case "generator":
+      return PyObj(typ.tag, result);
     default:
       unhandledTag(typ);
   }
@@ -132,6 +243,10 @@ export function PyInt(n: number): Value {
   return { tag: "num", value: BigInt(n) };
 }
 
+export function PyFloat(n: number): Value {
+  return { tag: "float", value: n };
+}
+
 export function PyBigInt(n: bigint): Value {
   return { tag: "num", value: n };
 }
@@ -176,12 +291,19 @@ export function unhandledTag(arg: { tag: string }): never {
 }
 
 export const NUM: Type = { tag: "number" };
+export const FLOAT: Type = { tag: "float" };
 export const STRING: Type = { tag: "string" };
 export const BOOL: Type = { tag: "bool" };
 export const NONE: Type = { tag: "none" };
 export function LIST(type: Type): Type {
   return { tag: "list", content_type: type };
 }
+export function SET(type: Type): Type {
+  return { tag: "set", content_type: type };
+}
+export function GENERATOR(type: Type): Type {
+  return { tag: "generator", content_type: type };
+}
 export function CLASS(name: string): Type {
   return { tag: "class", name };
 }
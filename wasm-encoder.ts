@@ -0,0 +1,448 @@
+// Writes modules of wasm-ir.ts in the binary format, without going through wabt.
+//
+// https://webassembly.github.io/spec/core/binary/index.html
+
+import {
+  Func,
+  FuncType,
+  Instr,
+  MemoryOp,
+  Module,
+  NUMERIC_OPS,
+  PlainOp,
+  Ref,
+  ValType,
+  funcType,
+} from "./wasm-ir";
+import { InternalException } from "./error";
+
+const VAL_TYPE_CODES: Record<ValType, number> = { i32: 0x7f, i64: 0x7e, f32: 0x7d, f64: 0x7c };
+
+const CONTROL_OPCODES: Record<string, number> = {
+  unreachable: 0x00,
+  nop: 0x01,
+  block: 0x02,
+  loop: 0x03,
+  if: 0x04,
+  br: 0x0c,
+  br_if: 0x0d,
+  br_table: 0x0e,
+  return: 0x0f,
+  call: 0x10,
+  call_indirect: 0x11,
+  drop: 0x1a,
+  select: 0x1b,
+  "local.get": 0x20,
+  "local.set": 0x21,
+  "local.tee": 0x22,
+  "global.get": 0x23,
+  "global.set": 0x24,
+  "i32.const": 0x41,
+  "i64.const": 0x42,
+  "f32.const": 0x43,
+  "f64.const": 0x44,
+};
+
+// Opcode and natural alignment (log2 of the access size in bytes)
+const MEMORY_OPCODES: Record<MemoryOp, [number, number]> = {
+  "i32.load": [0x28, 2],
+  "i64.load": [0x29, 3],
+  "f32.load": [0x2a, 2],
+  "f64.load": [0x2b, 3],
+  "i32.load8_s": [0x2c, 0],
+  "i32.load8_u": [0x2d, 0],
+  "i32.load16_s": [0x2e, 1],
+  "i32.load16_u": [0x2f, 1],
+  "i64.load8_s": [0x30, 0],
+  "i64.load8_u": [0x31, 0],
+  "i64.load16_s": [0x32, 1],
+  "i64.load16_u": [0x33, 1],
+  "i64.load32_s": [0x34, 2],
+  "i64.load32_u": [0x35, 2],
+  "i32.store": [0x36, 2],
+  "i64.store": [0x37, 3],
+  "f32.store": [0x38, 2],
+  "f64.store": [0x39, 3],
+  "i32.store8": [0x3a, 0],
+  "i32.store16": [0x3b, 1],
+  "i64.store8": [0x3c, 0],
+  "i64.store16": [0x3d, 1],
+  "i64.store32": [0x3e, 2],
+};
+
+const PLAIN_OPCODES: Record<string, number> = {
+  unreachable: 0x00,
+  nop: 0x01,
+  return: 0x0f,
+  drop: 0x1a,
+  select: 0x1b,
+  "memory.size": 0x3f,
+  "memory.grow": 0x40,
+};
+NUMERIC_OPS.forEach((op, i) => (PLAIN_OPCODES[op] = 0x45 + i));
+
+// Instructions that take no immediates
+function isPlainOp(op: string): op is PlainOp {
+  return op in PLAIN_OPCODES;
+}
+
+// A growable byte buffer
+class Bytes {
+  data: Array<number> = [];
+
+  byte(b: number) {
+    this.data.push(b & 0xff);
+  }
+
+  bytes(bs: ArrayLike<number>) {
+    for (let i = 0; i < bs.length; i++) this.data.push(bs[i]);
+  }
+
+  u32(n: number) {
+    do {
+      let b = n & 0x7f;
+      n = n >>> 7;
+      if (n !== 0) b |= 0x80;
+      this.byte(b);
+    } while (n !== 0);
+  }
+
+  // Signed LEB128, for i32 and i64 constants
+  sleb(n: bigint) {
+    while (true) {
+      const b = Number(n & BigInt(0x7f));
+      n >>= BigInt(7);
+      const done = (n === BigInt(0) && (b & 0x40) === 0) || (n === BigInt(-1) && (b & 0x40) !== 0);
+      this.byte(done ? b : b | 0x80);
+      if (done) return;
+    }
+  }
+
+  f32(n: number) {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, n, true);
+    this.bytes(new Uint8Array(view.buffer));
+  }
+
+  f64(n: number) {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, n, true);
+    this.bytes(new Uint8Array(view.buffer));
+  }
+
+  name(s: string) {
+    const utf8 = new TextEncoder().encode(s);
+    this.u32(utf8.length);
+    this.bytes(utf8);
+  }
+
+  // A vector of `items`, prefixed with its length
+  vec<T>(items: Array<T>, write: (item: T) => void) {
+    this.u32(items.length);
+    items.forEach(write);
+  }
+}
+
+// Maps names and indices of one index space to indices
+class IndexSpace {
+  kind: string;
+  names: Map<string, number> = new Map();
+  size = 0;
+
+  constructor(kind: string) {
+    this.kind = kind;
+  }
+
+  add(name?: string) {
+    if (name !== undefined) this.names.set(name, this.size);
+    this.size++;
+  }
+
+  resolve(ref: Ref): number {
+    if (typeof ref === "number") return ref;
+    const index = this.names.get(ref);
+    if (index === undefined) {
+      throw new InternalException(`wasm: unknown ${this.kind} ${ref}`);
+    }
+    return index;
+  }
+}
+
+class Encoder {
+  module: Module;
+  types: Array<FuncType>;
+  typeNames: IndexSpace;
+  funcs: IndexSpace;
+  globals: IndexSpace;
+
+  constructor(module: Module) {
+    this.module = module;
+    this.types = module.types.map((t) => t.type);
+    this.typeNames = new IndexSpace("type");
+    module.types.forEach((t) => this.typeNames.add(t.name));
+    this.funcs = new IndexSpace("function");
+    this.globals = new IndexSpace("global");
+    module.imports.forEach((imp) => {
+      if (imp.kind === "func") this.funcs.add(imp.name);
+      if (imp.kind === "global") this.globals.add(imp.name);
+    });
+    module.funcs.forEach((f) => this.funcs.add(f.name));
+    module.globals.forEach((g) => this.globals.add(g.name));
+  }
+
+  // The index of a function type, declaring it after the explicit types when it is new
+  typeIndex(type: FuncType): number {
+    const key = JSON.stringify(type);
+    const found = this.types.findIndex((t) => JSON.stringify(t) === key);
+    if (found >= 0) return found;
+    this.types.push(type);
+    return this.types.length - 1;
+  }
+
+  funcTypeIndex(func: Func): number {
+    if (func.typeRef !== undefined) return this.typeNames.resolve(func.typeRef);
+    return this.typeIndex(funcType(func, this.module));
+  }
+
+  blockType(out: Bytes, result?: ValType) {
+    out.byte(result === undefined ? 0x40 : VAL_TYPE_CODES[result]);
+  }
+
+  // `labels` holds the labels of the enclosing blocks, innermost last
+  instrs(out: Bytes, instrs: Array<Instr>, locals: IndexSpace, labels: Array<string | undefined>) {
+    instrs.forEach((instr) => this.instr(out, instr, locals, labels));
+  }
+
+  labelDepth(ref: Ref, labels: Array<string | undefined>): number {
+    if (typeof ref === "number") return ref;
+    const index = labels.lastIndexOf(ref);
+    if (index < 0) {
+      throw new InternalException(`wasm: unknown label ${ref}`);
+    }
+    return labels.length - 1 - index;
+  }
+
+  instr(out: Bytes, instr: Instr, locals: IndexSpace, labels: Array<string | undefined>) {
+    if ("offset" in instr) {
+      const [opcode, natural] = MEMORY_OPCODES[instr.op];
+      out.byte(opcode);
+      out.u32(instr.align === undefined ? natural : instr.align);
+      out.u32(instr.offset);
+      return;
+    }
+    if (isPlainOp(instr.op)) {
+      out.byte(PLAIN_OPCODES[instr.op]);
+      return;
+    }
+    if (!(instr.op in CONTROL_OPCODES)) {
+      throw new InternalException(`wasm: unknown instruction ${instr.op}`);
+    }
+    out.byte(CONTROL_OPCODES[instr.op]);
+    switch (instr.op) {
+      case "block":
+      case "loop":
+        this.blockType(out, instr.result);
+        this.instrs(out, instr.body, locals, [...labels, instr.label]);
+        out.byte(0x0b);
+        return;
+      case "if":
+        this.blockType(out, instr.result);
+        this.instrs(out, instr.thn, locals, [...labels, instr.label]);
+        if (instr.els.length > 0) {
+          out.byte(0x05);
+          this.instrs(out, instr.els, locals, [...labels, instr.label]);
+        }
+        out.byte(0x0b);
+        return;
+      case "br":
+      case "br_if":
+        out.u32(this.labelDepth(instr.label, labels));
+        return;
+      case "br_table":
+        const depths = instr.labels.map((l) => this.labelDepth(l, labels));
+        out.vec(depths.slice(0, -1), (d: number) => out.u32(d));
+        out.u32(depths[depths.length - 1]);
+        return;
+      case "call":
+        out.u32(this.funcs.resolve(instr.func));
+        return;
+      case "call_indirect":
+        const type =
+          typeof instr.type === "object"
+            ? this.typeIndex(instr.type)
+            : this.typeNames.resolve(instr.type);
+        out.u32(type);
+        out.byte(0x00); // the table
+        return;
+      case "local.get":
+      case "local.set":
+      case "local.tee":
+        out.u32(locals.resolve(instr.local));
+        return;
+      case "global.get":
+      case "global.set":
+        out.u32(this.globals.resolve(instr.global));
+        return;
+      case "i32.const":
+      case "i64.const":
+        out.sleb(instr.value);
+        return;
+      case "f32.const":
+        out.f32(instr.value);
+        return;
+      case "f64.const":
+        out.f64(instr.value);
+        return;
+    }
+  }
+
+  code(func: Func): Bytes {
+    const locals = new IndexSpace("local");
+    func.params.forEach((p) => locals.add(p.name));
+    func.locals.forEach((l) => locals.add(l.name));
+    const out = new Bytes();
+    // locals are declared as runs of the same type
+    const runs: Array<[number, ValType]> = [];
+    func.locals.forEach((l) => {
+      const last = runs[runs.length - 1];
+      if (last !== undefined && last[1] === l.type) last[0]++;
+      else runs.push([1, l.type]);
+    });
+    out.vec(runs, ([count, type]) => {
+      out.u32(count);
+      out.byte(VAL_TYPE_CODES[type]);
+    });
+    this.instrs(out, func.body, locals, []);
+    out.byte(0x0b);
+    return out;
+  }
+
+  limits(out: Bytes, limits: { min: number; max?: number }) {
+    out.byte(limits.max === undefined ? 0x00 : 0x01);
+    out.u32(limits.min);
+    if (limits.max !== undefined) out.u32(limits.max);
+  }
+
+  constExpr(out: Bytes, init: Array<Instr>) {
+    this.instrs(out, init, new IndexSpace("local"), []);
+    out.byte(0x0b);
+  }
+
+  encode(): Uint8Array {
+    const module = this.module;
+    const sections: Array<[number, Bytes]> = [];
+    const section = (id: number, write: (out: Bytes) => void) => {
+      const out = new Bytes();
+      write(out);
+      sections.push([id, out]);
+    };
+
+    // code comes first as it declares the types of call_indirect signatures
+    const codes = module.funcs.map((f) => this.code(f));
+    const imports = module.imports.map((imp) => {
+      const out = new Bytes();
+      out.name(imp.module);
+      out.name(imp.field);
+      switch (imp.kind) {
+        case "func":
+          out.byte(0x00);
+          out.u32(this.typeIndex(imp.type));
+          break;
+        case "memory":
+          out.byte(0x02);
+          this.limits(out, imp);
+          break;
+        case "global":
+          out.byte(0x03);
+          out.byte(VAL_TYPE_CODES[imp.type]);
+          out.byte(imp.mutable ? 0x01 : 0x00);
+          break;
+      }
+      return out;
+    });
+    const funcTypes = module.funcs.map((f) => this.funcTypeIndex(f));
+
+    section(1, (out) =>
+      out.vec(this.types, (t) => {
+        out.byte(0x60);
+        out.vec(t.params, (p) => out.byte(VAL_TYPE_CODES[p]));
+        out.vec(t.results, (r) => out.byte(VAL_TYPE_CODES[r]));
+      })
+    );
+    section(2, (out) => out.vec(imports, (imp) => out.bytes(imp.data)));
+    section(3, (out) => out.vec(funcTypes, (t) => out.u32(t)));
+    if (module.table !== undefined) {
+      section(4, (out) =>
+        out.vec([module.table], (table) => {
+          out.byte(0x70); // funcref
+          this.limits(out, table);
+        })
+      );
+    }
+    if (module.memory !== undefined) {
+      section(5, (out) => out.vec([module.memory], (memory) => this.limits(out, memory)));
+    }
+    section(6, (out) =>
+      out.vec(module.globals, (g) => {
+        out.byte(VAL_TYPE_CODES[g.type]);
+        out.byte(g.mutable ? 0x01 : 0x00);
+        this.constExpr(out, g.init);
+      })
+    );
+    section(7, (out) =>
+      out.vec(module.exports, (exp) => {
+        out.name(exp.name);
+        switch (exp.kind) {
+          case "func":
+            out.byte(0x00);
+            out.u32(this.funcs.resolve(exp.ref));
+            break;
+          case "table":
+            out.byte(0x01);
+            out.u32(exp.ref as number);
+            break;
+          case "memory":
+            out.byte(0x02);
+            out.u32(exp.ref as number);
+            break;
+          case "global":
+            out.byte(0x03);
+            out.u32(this.globals.resolve(exp.ref));
+            break;
+        }
+      })
+    );
+    if (module.start !== undefined) {
+      section(8, (out) => out.u32(this.funcs.resolve(module.start)));
+    }
+    section(9, (out) =>
+      out.vec(module.elems, (elem) => {
+        out.u32(0); // the table
+        this.constExpr(out, elem.offset);
+        out.vec(elem.funcs, (f) => out.u32(this.funcs.resolve(f)));
+      })
+    );
+    section(10, (out) =>
+      out.vec(codes, (code) => {
+        out.u32(code.data.length);
+        out.bytes(code.data);
+      })
+    );
+
+    const binary = new Bytes();
+    binary.bytes([0x00, 0x61, 0x73, 0x6d]); // "\0asm"
+    binary.bytes([0x01, 0x00, 0x00, 0x00]); // version 1
+    sections.forEach(([id, out]) => {
+      // empty sections are left out
+      if (out.data.length === 1 && out.data[0] === 0) return;
+      binary.byte(id);
+      binary.u32(out.data.length);
+      binary.bytes(out.data);
+    });
+    return new Uint8Array(binary.data);
+  }
+}
+
+export function encodeModule(module: Module): Uint8Array {
+  return new Encoder(module).encode();
+}
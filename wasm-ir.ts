@@ -0,0 +1,351 @@
+// An in-memory representation of WebAssembly modules.
+//
+// Functions, locals, globals, types and labels are referred to by their `$name` as in the
+// text format, or by index. The encoder resolves names when it writes the binary.
+
+export type ValType = "i32" | "i64" | "f32" | "f64";
+
+export type Ref = string | number;
+
+export type FuncType = { params: Array<ValType>; results: Array<ValType> };
+
+// prettier-ignore
+export const MEMORY_OPS = [
+  "i32.load", "i64.load", "f32.load", "f64.load", "i32.load8_s", "i32.load8_u", "i32.load16_s",
+  "i32.load16_u", "i64.load8_s", "i64.load8_u", "i64.load16_s", "i64.load16_u", "i64.load32_s",
+  "i64.load32_u", "i32.store", "i64.store", "f32.store", "f64.store", "i32.store8", "i32.store16",
+  "i64.store8", "i64.store16", "i64.store32",
+] as const;
+
+export type MemoryOp = typeof MEMORY_OPS[number];
+
+// The numeric instructions, which take no immediates, in the order of their opcodes from 0x45
+// (i32.eqz) to 0xbf (f64.reinterpret_i64)
+// prettier-ignore
+export const NUMERIC_OPS = [
+  "i32.eqz", "i32.eq", "i32.ne", "i32.lt_s", "i32.lt_u", "i32.gt_s", "i32.gt_u", "i32.le_s",
+  "i32.le_u", "i32.ge_s", "i32.ge_u", "i64.eqz", "i64.eq", "i64.ne", "i64.lt_s", "i64.lt_u",
+  "i64.gt_s", "i64.gt_u", "i64.le_s", "i64.le_u", "i64.ge_s", "i64.ge_u", "f32.eq", "f32.ne",
+  "f32.lt", "f32.gt", "f32.le", "f32.ge", "f64.eq", "f64.ne", "f64.lt", "f64.gt", "f64.le",
+  "f64.ge", "i32.clz", "i32.ctz", "i32.popcnt", "i32.add", "i32.sub", "i32.mul", "i32.div_s",
+  "i32.div_u", "i32.rem_s", "i32.rem_u", "i32.and", "i32.or", "i32.xor", "i32.shl", "i32.shr_s",
+  "i32.shr_u", "i32.rotl", "i32.rotr", "i64.clz", "i64.ctz", "i64.popcnt", "i64.add", "i64.sub",
+  "i64.mul", "i64.div_s", "i64.div_u", "i64.rem_s", "i64.rem_u", "i64.and", "i64.or", "i64.xor",
+  "i64.shl", "i64.shr_s", "i64.shr_u", "i64.rotl", "i64.rotr", "f32.abs", "f32.neg", "f32.ceil",
+  "f32.floor", "f32.trunc", "f32.nearest", "f32.sqrt", "f32.add", "f32.sub", "f32.mul", "f32.div",
+  "f32.min", "f32.max", "f32.copysign", "f64.abs", "f64.neg", "f64.ceil", "f64.floor",
+  "f64.trunc", "f64.nearest", "f64.sqrt", "f64.add", "f64.sub", "f64.mul", "f64.div", "f64.min",
+  "f64.max", "f64.copysign", "i32.wrap_i64", "i32.trunc_f32_s", "i32.trunc_f32_u",
+  "i32.trunc_f64_s", "i32.trunc_f64_u", "i64.extend_i32_s", "i64.extend_i32_u",
+  "i64.trunc_f32_s", "i64.trunc_f32_u", "i64.trunc_f64_s", "i64.trunc_f64_u",
+  "f32.convert_i32_s", "f32.convert_i32_u", "f32.convert_i64_s", "f32.convert_i64_u",
+  "f32.demote_f64", "f64.convert_i32_s", "f64.convert_i32_u", "f64.convert_i64_s",
+  "f64.convert_i64_u", "f64.promote_f32", "i32.reinterpret_f32", "i64.reinterpret_f64",
+  "f32.reinterpret_i32", "f64.reinterpret_i64",
+] as const;
+
+// Instructions that take no immediates
+export type PlainOp =
+  | "unreachable"
+  | "nop"
+  | "return"
+  | "drop"
+  | "select"
+  | "memory.size"
+  | "memory.grow"
+  | typeof NUMERIC_OPS[number];
+
+// `align` is the log2 of the alignment in bytes, and defaults to the natural alignment
+export type MemoryInstr = { op: MemoryOp; offset: number; align?: number };
+
+export type Instr =
+  | { op: "block" | "loop"; label?: string; result?: ValType; body: Array<Instr> }
+  | { op: "if"; label?: string; result?: ValType; thn: Array<Instr>; els: Array<Instr> }
+  | { op: "br" | "br_if"; label: Ref }
+  // the last label is the default target
+  | { op: "br_table"; labels: Array<Ref> }
+  | { op: "call"; func: Ref }
+  | { op: "call_indirect"; type: Ref | FuncType }
+  | { op: "local.get" | "local.set" | "local.tee"; local: Ref }
+  | { op: "global.get" | "global.set"; global: Ref }
+  | { op: "i32.const" | "i64.const"; value: bigint }
+  | { op: "f32.const" | "f64.const"; value: number }
+  | MemoryInstr
+  | { op: PlainOp };
+
+export type Param = { name?: string; type: ValType };
+
+export type Func = {
+  name?: string;
+  // a type declared by the module, or the type given by the params and results
+  typeRef?: Ref;
+  params: Array<Param>;
+  results: Array<ValType>;
+  locals: Array<Param>;
+  body: Array<Instr>;
+};
+
+export type Import =
+  | { kind: "func"; module: string; field: string; name?: string; type: FuncType }
+  | { kind: "memory"; module: string; field: string; min: number; max?: number }
+  | {
+      kind: "global";
+      module: string;
+      field: string;
+      name?: string;
+      type: ValType;
+      mutable: boolean;
+    };
+
+export type Global = { name?: string; type: ValType; mutable: boolean; init: Array<Instr> };
+
+export type Export = { name: string; kind: "func" | "memory" | "global" | "table"; ref: Ref };
+
+export type Module = {
+  types: Array<{ name?: string; type: FuncType }>;
+  imports: Array<Import>;
+  funcs: Array<Func>;
+  table?: { min: number; max?: number };
+  memory?: { min: number; max?: number };
+  globals: Array<Global>;
+  exports: Array<Export>;
+  start?: Ref;
+  elems: Array<{ offset: Array<Instr>; funcs: Array<Ref> }>;
+};
+
+export function emptyModule(): Module {
+  return { types: [], imports: [], funcs: [], globals: [], exports: [], elems: [] };
+}
+
+export function funcType(func: Func, module: Module): FuncType {
+  if (func.typeRef !== undefined) {
+    return typeof func.typeRef === "number"
+      ? module.types[func.typeRef].type
+      : module.types.find((t) => t.name === func.typeRef).type;
+  }
+  return { params: func.params.map((p) => p.type), results: func.results };
+}
+
+// Builders of instructions, named as in the text format: `i32.const(1)` is `(i32.const 1)` and
+// `local.get("$x")` is `(local.get $x)`. Keywords of TypeScript take a trailing underscore, as in
+// `if_` and `return_`. Code is written in the order it runs, the operands before the instruction.
+
+type Suffix<Op extends string, T extends ValType> = Op extends `${T}.${infer Name}` ? Name : never;
+
+type TypeBuilders<T extends ValType> = {
+  [Op in typeof NUMERIC_OPS[number] as Suffix<Op, T>]: () => Instr;
+} &
+  { [Op in MemoryOp as Suffix<Op, T>]: (offset?: number) => Instr } & {
+    const: (value: number | bigint) => Instr;
+  };
+
+function typeBuilders<T extends ValType>(type: T): TypeBuilders<T> {
+  const builders: Record<string, (arg?: number | bigint) => Instr> = {};
+  const suffix = (op: string) => (op.startsWith(`${type}.`) ? op.substring(4) : undefined);
+  NUMERIC_OPS.forEach((op) => {
+    if (suffix(op) !== undefined) builders[suffix(op)] = () => ({ op });
+  });
+  MEMORY_OPS.forEach((op) => {
+    if (suffix(op) !== undefined)
+      builders[suffix(op)] = (offset = 0) => ({ op, offset: Number(offset) });
+  });
+  builders.const =
+    type === "i32" || type === "i64"
+      ? (value) => ({ op: `${type}.const` as "i32.const" | "i64.const", value: BigInt(value) })
+      : (value) => ({ op: `${type}.const` as "f32.const" | "f64.const", value: Number(value) });
+  return (builders as unknown) as TypeBuilders<T>;
+}
+
+export const i32 = typeBuilders("i32");
+export const i64 = typeBuilders("i64");
+export const f32 = typeBuilders("f32");
+export const f64 = typeBuilders("f64");
+
+export const local = {
+  get: (name: Ref): Instr => ({ op: "local.get", local: name }),
+  set: (name: Ref): Instr => ({ op: "local.set", local: name }),
+  tee: (name: Ref): Instr => ({ op: "local.tee", local: name }),
+};
+
+export const global = {
+  get: (name: Ref): Instr => ({ op: "global.get", global: name }),
+  set: (name: Ref): Instr => ({ op: "global.set", global: name }),
+};
+
+export const call = (func: Ref): Instr => ({ op: "call", func });
+export const call_indirect = (type: Ref | FuncType): Instr => ({ op: "call_indirect", type });
+export const br = (label: Ref): Instr => ({ op: "br", label });
+export const br_if = (label: Ref): Instr => ({ op: "br_if", label });
+export const drop = (): Instr => ({ op: "drop" });
+export const return_ = (): Instr => ({ op: "return" });
+export const unreachable = (): Instr => ({ op: "unreachable" });
+export const nop = (): Instr => ({ op: "nop" });
+export const select = (): Instr => ({ op: "select" });
+
+// `block(body)` or, with a label, `block("$label", body)`
+export function block(...args: [Array<Instr>] | [string, Array<Instr>]): Instr {
+  return args.length === 1
+    ? { op: "block", body: args[0] }
+    : { op: "block", label: args[0], body: args[1] };
+}
+
+export function loop(...args: [Array<Instr>] | [string, Array<Instr>]): Instr {
+  return args.length === 1
+    ? { op: "loop", body: args[0] }
+    : { op: "loop", label: args[0], body: args[1] };
+}
+
+// `if_(thn, els)` or, with a result, `if_("i32", thn, els)`. The condition comes before it.
+export function if_(
+  ...args: [Array<Instr>, Array<Instr>?] | [ValType, Array<Instr>, Array<Instr>]
+): Instr {
+  if (typeof args[0] === "string") {
+    return { op: "if", result: args[0], thn: args[1], els: args[2] };
+  }
+  return { op: "if", thn: args[0], els: (args[1] as Array<Instr>) ?? [] };
+}
+
+// The i32 params or locals with the given `$names`
+export function i32Vars(...names: Array<string>): Array<Param> {
+  return names.map((name) => ({ name, type: "i32" }));
+}
+
+// Prints a module in the text format, one instruction per line
+
+function printRef(ref: Ref): string {
+  return ref.toString();
+}
+
+function printFuncType(type: FuncType): string {
+  const params = type.params.length > 0 ? ` (param ${type.params.join(" ")})` : "";
+  const results = type.results.length > 0 ? ` (result ${type.results.join(" ")})` : "";
+  return `${params}${results}`;
+}
+
+function printBlockHeader(instr: { op: string; label?: string; result?: ValType }): string {
+  const label = instr.label === undefined ? "" : ` ${instr.label}`;
+  const result = instr.result === undefined ? "" : ` (result ${instr.result})`;
+  return `${instr.op}${label}${result}`;
+}
+
+function printImmediates(instr: Instr): Array<string> {
+  switch (instr.op) {
+    case "br":
+    case "br_if":
+      return [printRef(instr.label)];
+    case "br_table":
+      return instr.labels.map(printRef);
+    case "call":
+      return [printRef(instr.func)];
+    case "call_indirect":
+      return [
+        typeof instr.type === "object"
+          ? printFuncType(instr.type).trim()
+          : `(type ${printRef(instr.type)})`,
+      ];
+    case "local.get":
+    case "local.set":
+    case "local.tee":
+      return [printRef(instr.local)];
+    case "global.get":
+    case "global.set":
+      return [printRef(instr.global)];
+    case "i32.const":
+    case "i64.const":
+    case "f32.const":
+    case "f64.const":
+      return [instr.value.toString()];
+  }
+  const immediates: Array<string> = [];
+  if ("offset" in instr) {
+    if (instr.offset) immediates.push(`offset=${instr.offset}`);
+    if (instr.align !== undefined) immediates.push(`align=${2 ** instr.align}`);
+  }
+  return immediates;
+}
+
+export function printInstrs(instrs: Array<Instr>, indent: string): Array<string> {
+  const lines: Array<string> = [];
+  instrs.forEach((instr) => {
+    switch (instr.op) {
+      case "block":
+      case "loop":
+        lines.push(indent + printBlockHeader(instr));
+        lines.push(...printInstrs(instr.body, indent + "  "));
+        lines.push(indent + "end");
+        return;
+      case "if":
+        lines.push(indent + printBlockHeader(instr));
+        lines.push(...printInstrs(instr.thn, indent + "  "));
+        if (instr.els.length > 0) {
+          lines.push(indent + "else");
+          lines.push(...printInstrs(instr.els, indent + "  "));
+        }
+        lines.push(indent + "end");
+        return;
+    }
+    const immediates = printImmediates(instr);
+    lines.push(indent + [instr.op, ...immediates].join(" "));
+  });
+  return lines;
+}
+
+function printLimits(limits: { min: number; max?: number }): string {
+  return limits.max === undefined ? `${limits.min}` : `${limits.min} ${limits.max}`;
+}
+
+function printGlobalType(global: { type: ValType; mutable: boolean }): string {
+  return global.mutable ? `(mut ${global.type})` : global.type;
+}
+
+function printName(name?: string): string {
+  return name === undefined ? "" : ` ${name}`;
+}
+
+export function printWat(module: Module): string {
+  const lines = ["(module"];
+  module.types.forEach((t) =>
+    lines.push(`  (type${printName(t.name)} (func${printFuncType(t.type)}))`)
+  );
+  module.imports.forEach((imp) => {
+    const from = `(import "${imp.module}" "${imp.field}")`;
+    switch (imp.kind) {
+      case "func":
+        lines.push(`  (func${printName(imp.name)} ${from}${printFuncType(imp.type)})`);
+        break;
+      case "memory":
+        lines.push(`  (memory ${from} ${printLimits(imp)})`);
+        break;
+      case "global":
+        lines.push(`  (global${printName(imp.name)} ${from} ${printGlobalType(imp)})`);
+        break;
+    }
+  });
+  if (module.table !== undefined) lines.push(`  (table ${printLimits(module.table)} funcref)`);
+  if (module.memory !== undefined) lines.push(`  (memory ${printLimits(module.memory)})`);
+  module.globals.forEach((g) => {
+    const init = printInstrs(g.init, "").join(" ");
+    lines.push(`  (global${printName(g.name)} ${printGlobalType(g)} (${init}))`);
+  });
+  module.elems.forEach((elem) => {
+    const offset = printInstrs(elem.offset, "").join(" ");
+    lines.push(`  (elem (${offset}) ${elem.funcs.map(printRef).join(" ")})`);
+  });
+  module.funcs.forEach((func) => {
+    const signature =
+      func.typeRef !== undefined
+        ? ` (type ${printRef(func.typeRef)})`
+        : func.params.map((p) => ` (param${printName(p.name)} ${p.type})`).join("") +
+          (func.results.length > 0 ? ` (result ${func.results.join(" ")})` : "");
+    lines.push(`  (func${printName(func.name)}${signature}`);
+    func.locals.forEach((l) => lines.push(`    (local${printName(l.name)} ${l.type})`));
+    lines.push(...printInstrs(func.body, "    "));
+    lines.push("  )");
+  });
+  module.exports.forEach((exp) => {
+    lines.push(`  (export "${exp.name}" (${exp.kind} ${printRef(exp.ref)}))`);
+  });
+  if (module.start !== undefined) lines.push(`  (start ${printRef(module.start)})`);
+  lines.push(")");
+  return lines.join("\n");
+}
@@ -26,9 +26,6 @@ module.exports = {
   devServer: {
     contentBase: "./build",
   },
-  externals: {
-    wabt: "wabt",
-  },
   resolve: {
     extensions: [".ts", ".js"],
   },